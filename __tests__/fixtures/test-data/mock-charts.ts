@@ -0,0 +1,43 @@
+import { ChartConfig } from '@/types/chart'
+import { ColumnInfo } from '@/types/excel'
+
+// Column info for tests that only need a column's name, position and type
+export function createColumnInfo(
+  name: string,
+  index: number,
+  type: ColumnInfo['type'],
+): ColumnInfo {
+  return {
+    name,
+    index,
+    type,
+    uniqueValues: [],
+    uniqueCount: 0,
+    hasNulls: false,
+    nullCount: 0,
+    sampleValues: [],
+  }
+}
+
+// A chart with every required option set; the title is drawn from overrides.title
+export function createChartConfig(overrides: Partial<ChartConfig> = {}): ChartConfig {
+  const title = overrides.title ?? 'Chart'
+  return {
+    id: 'chart',
+    title,
+    type: 'bar',
+    dataColumn: 'Value',
+    aggregation: 'sum',
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: true, position: 'top' },
+        title: { display: false, text: title },
+        tooltip: { enabled: true },
+      },
+    },
+    position: { row: 0, column: 0, width: 1, height: 1 },
+    ...overrides,
+  }
+}
@@ -0,0 +1,177 @@
+import React from 'react'
+import { fireEvent, render, screen } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import { ChartAnnotationsModal } from '@/components/charts/ChartAnnotationsModal'
+import { ChartConfig } from '@/types/chart'
+import { ColumnInfo } from '@/types/excel'
+
+jest.mock('uuid', () => ({ v4: () => 'new-id' }))
+
+jest.mock('@/components/ui/Modal', () => ({
+  Modal: ({ isOpen, title, children }: any) =>
+    isOpen ? (
+      <div role="dialog" aria-label={title}>
+        {children}
+      </div>
+    ) : null,
+}))
+
+describe('ChartAnnotationsModal', () => {
+  const columnInfo: ColumnInfo[] = [
+    {
+      name: 'Region',
+      index: 0,
+      type: 'string',
+      uniqueValues: [],
+      uniqueCount: 0,
+      hasNulls: false,
+      nullCount: 0,
+      sampleValues: [],
+    },
+    {
+      name: 'Sales',
+      index: 1,
+      type: 'number',
+      uniqueValues: [],
+      uniqueCount: 0,
+      hasNulls: false,
+      nullCount: 0,
+      sampleValues: [],
+    },
+  ]
+
+  const config: ChartConfig = {
+    id: 'chart-1',
+    title: 'Sales by Region',
+    type: 'bar',
+    dataColumn: 'Sales',
+    labelColumn: 'Region',
+    aggregation: 'sum',
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: { display: true, position: 'top' },
+        title: { display: false, text: 'Sales by Region' },
+        tooltip: { enabled: true },
+      },
+    },
+    position: { row: 0, column: 0, width: 1, height: 1 },
+  }
+
+  const renderModal = (chartConfig: ChartConfig = config) => {
+    const onChange = jest.fn()
+    render(
+      <ChartAnnotationsModal
+        isOpen
+        onClose={jest.fn()}
+        config={chartConfig}
+        categories={['North', 'South']}
+        columnInfo={columnInfo}
+        onChange={onChange}
+      />,
+    )
+    return onChange
+  }
+
+  it('adds a labelled target line', () => {
+    const onChange = renderModal()
+    const add = screen.getByRole('button', { name: 'Add Annotation' })
+
+    expect(add).toBeDisabled()
+    fireEvent.change(screen.getByRole('spinbutton', { name: 'Position value' }), {
+      target: { value: '500' },
+    })
+    fireEvent.change(screen.getByRole('textbox', { name: /label/i }), {
+      target: { value: 'Target' },
+    })
+    fireEvent.click(add)
+
+    expect(onChange).toHaveBeenCalledWith([
+      {
+        id: 'new-id',
+        kind: 'line',
+        orientation: 'horizontal',
+        value: { source: 'constant', value: 500 },
+        label: 'Target',
+      },
+    ])
+  })
+
+  it('adds a percentile line for a chosen column', () => {
+    const onChange = renderModal()
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Position source' }), {
+      target: { value: 'percentile' },
+    })
+    fireEvent.change(screen.getByRole('combobox', { name: 'Position column' }), {
+      target: { value: 'Sales' },
+    })
+    fireEvent.change(screen.getByRole('spinbutton', { name: 'Position percentile' }), {
+      target: { value: '95' },
+    })
+    fireEvent.click(screen.getByRole('button', { name: 'Add Annotation' }))
+
+    expect(onChange).toHaveBeenCalledWith([
+      expect.objectContaining({
+        value: { source: 'percentile', column: 'Sales', percentile: 95 },
+      }),
+    ])
+  })
+
+  it('places vertical lines on a bar chart at a category', () => {
+    const onChange = renderModal()
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Direction' }), {
+      target: { value: 'vertical' },
+    })
+    fireEvent.change(screen.getByRole('combobox', { name: 'Position' }), {
+      target: { value: 'South' },
+    })
+    fireEvent.click(screen.getByRole('button', { name: 'Add Annotation' }))
+
+    expect(onChange).toHaveBeenCalledWith([
+      expect.objectContaining({
+        orientation: 'vertical',
+        value: { source: 'category', category: 'South' },
+      }),
+    ])
+  })
+
+  it('adds a note at a category', () => {
+    const onChange = renderModal()
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Add' }), { target: { value: 'note' } })
+    fireEvent.change(screen.getByRole('combobox', { name: 'At' }), { target: { value: 'North' } })
+    fireEvent.change(screen.getByRole('textbox', { name: 'Text' }), {
+      target: { value: 'Launch' },
+    })
+    fireEvent.click(screen.getByRole('button', { name: 'Add Annotation' }))
+
+    expect(onChange).toHaveBeenCalledWith([
+      { id: 'new-id', kind: 'note', text: 'Launch', label: 'North' },
+    ])
+  })
+
+  it('lists and removes existing annotations', () => {
+    const onChange = renderModal({
+      ...config,
+      annotations: [
+        {
+          id: 'a',
+          kind: 'band',
+          orientation: 'horizontal',
+          from: { source: 'constant', value: 10 },
+          to: { source: 'constant', value: 20 },
+        },
+        { id: 'b', kind: 'note', text: 'Launch', label: 'North' },
+      ],
+    })
+
+    const list = screen.getByRole('list', { name: /current annotations/i })
+    expect(list).toHaveTextContent('Horizontal band, 10 – 20')
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Note "Launch" at North' }))
+
+    expect(onChange).toHaveBeenCalledWith([expect.objectContaining({ id: 'a' })])
+  })
+})
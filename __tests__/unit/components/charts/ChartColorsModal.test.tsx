@@ -0,0 +1,69 @@
+import React from 'react'
+import { fireEvent, render, screen } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import { ChartColorsModal } from '@/components/charts/ChartColorsModal'
+import { CategoryColorScale } from '@/services/categoryColors'
+
+jest.mock('@/components/ui/Modal', () => ({
+  Modal: ({ isOpen, title, children }: any) =>
+    isOpen ? (
+      <div role="dialog" aria-label={title}>
+        {children}
+      </div>
+    ) : null,
+}))
+
+describe('ChartColorsModal', () => {
+  const renderModal = (scale: CategoryColorScale) => {
+    const handlers = {
+      onSelectPalette: jest.fn(),
+      onPinColor: jest.fn(),
+      onUnpinColor: jest.fn(),
+    }
+    render(<ChartColorsModal isOpen onClose={jest.fn()} colorScale={scale} {...handlers} />)
+    return handlers
+  }
+
+  it('marks the current palette and switches palettes', () => {
+    const { onSelectPalette } = renderModal(new CategoryColorScale())
+
+    expect(screen.getByRole('radio', { name: /default/i })).toBeChecked()
+    fireEvent.click(screen.getByRole('radio', { name: /okabe/i }))
+
+    expect(onSelectPalette).toHaveBeenCalledWith('okabe-ito')
+  })
+
+  it('pins a color to a category', () => {
+    const scale = new CategoryColorScale()
+    scale.colorsFor(['North', 'South'])
+    const { onPinColor } = renderModal(scale)
+
+    // The picker shows the slot color South was given
+    const southPicker = screen.getByDisplayValue(scale.colorFor('South'))
+    expect(southPicker).toHaveAccessibleName('Color for South')
+    fireEvent.change(southPicker, { target: { value: '#112233' } })
+
+    expect(onPinColor).toHaveBeenCalledWith('South', '#112233')
+  })
+
+  it('offers a reset only for pinned categories', () => {
+    const scale = new CategoryColorScale({
+      palette: 'default',
+      assigned: { North: 0 },
+      pinned: { South: '#112233' },
+    })
+    const { onUnpinColor } = renderModal(scale)
+
+    const resets = screen.getAllByRole('button', { name: 'Reset' })
+    expect(resets).toHaveLength(1)
+    fireEvent.click(resets[0])
+
+    expect(onUnpinColor).toHaveBeenCalledWith('South')
+  })
+
+  it('explains the empty state before any chart draws categories', () => {
+    renderModal(new CategoryColorScale())
+
+    expect(screen.getByRole('dialog')).toHaveTextContent(/categories appear here/i)
+  })
+})
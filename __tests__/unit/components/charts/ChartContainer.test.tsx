@@ -1,16 +1,24 @@
 import React from 'react'
-import {fireEvent, render, screen} from '@testing-library/react'
+import {act, fireEvent, render, screen} from '@testing-library/react'
 import '@testing-library/jest-dom'
 import ChartContainer from '@/components/charts/ChartContainer'
-import {ChartConfig, ChartType} from '@/types/chart'
+import {ChartConfig, ChartData, ChartType} from '@/types/chart'
 import {ColumnInfo, DataType} from '@/types/excel'
 import {chartDataProcessor} from '@/services/chartDataProcessor'
+import {chartExportService} from '@/services/chartExport'
+import {chartFacetingService} from '@/services/chartFaceting'
 
 // Mock the chartDataProcessor service
 jest.mock('@/services/chartDataProcessor')
 const mockedChartDataProcessor = chartDataProcessor as jest.Mocked<typeof chartDataProcessor>
 
-// Mock the Pie component from react-chartjs-2
+jest.mock('@/services/chartExport')
+const mockedChartExportService = chartExportService as jest.Mocked<typeof chartExportService>
+
+jest.mock('@/services/chartFaceting')
+const mockedChartFacetingService = chartFacetingService as jest.Mocked<typeof chartFacetingService>
+
+// Mock the chart components from react-chartjs-2
 jest.mock('react-chartjs-2', () => ({
   Pie: jest.fn(({ data, options }) => (
     <div data-testid="pie-chart">
@@ -18,6 +26,24 @@ jest.mock('react-chartjs-2', () => ({
       <div data-testid="chart-options">{JSON.stringify(options)}</div>
     </div>
   )),
+  Bar: jest.fn(({ data, options }) => (
+    <div data-testid="bar-chart">
+      <div data-testid="chart-data">{JSON.stringify(data)}</div>
+      <div data-testid="chart-options">{JSON.stringify(options)}</div>
+    </div>
+  )),
+  Line: jest.fn(({ data, options }) => (
+    <div data-testid="line-chart">
+      <div data-testid="chart-data">{JSON.stringify(data)}</div>
+      <div data-testid="chart-options">{JSON.stringify(options)}</div>
+    </div>
+  )),
+  Scatter: jest.fn(({ data, options }) => (
+    <div data-testid="scatter-chart">
+      <div data-testid="chart-data">{JSON.stringify(data)}</div>
+      <div data-testid="chart-options">{JSON.stringify(options)}</div>
+    </div>
+  )),
 }))
 
 // Mock the Button component
@@ -34,9 +60,35 @@ jest.mock('@/components/ui/Button', () => ({
   ),
 }))
 
-// Mock the XMarkIcon
+// Mock the icons
 jest.mock('@heroicons/react/24/outline', () => ({
   XMarkIcon: jest.fn(() => <div data-testid="xmark-icon">X</div>),
+  ArrowDownTrayIcon: jest.fn(() => <div data-testid="download-icon">Download</div>),
+  TableCellsIcon: jest.fn(() => <div data-testid="table-icon">Rows</div>),
+  FlagIcon: jest.fn(() => <div data-testid="flag-icon">Annotate</div>),
+}))
+
+// Mock the drill-down modal; it renders its own table
+jest.mock('@/components/charts/DrillDownModal', () => ({
+  __esModule: true,
+  default: ({ title, rows, onFilter }: any) => (
+    <div role="dialog" aria-label={title}>
+      <span>{rows.length} rows</span>
+      {onFilter && <button onClick={onFilter}>Filter to these rows</button>}
+    </div>
+  ),
+}))
+
+// Mock the annotations editor; it has its own tests
+jest.mock('@/components/charts/ChartAnnotationsModal', () => ({
+  __esModule: true,
+  default: ({ onChange }: any) => (
+    <div role="dialog" aria-label="Annotations">
+      <button onClick={() => onChange([{ id: 'a1', kind: 'note', text: 'Launch', label: 'B' }])}>
+        Add note
+      </button>
+    </div>
+  ),
 }))
 
 describe('ChartContainer Component', () => {
@@ -221,6 +273,7 @@ describe('ChartContainer Component', () => {
         mockData,
         mockChartConfig,
         mockColumnInfos,
+        undefined,
       )
     })
   })
@@ -268,10 +321,185 @@ describe('ChartContainer Component', () => {
       expect(screen.getByTestId('pie-chart')).toBeInTheDocument()
     })
 
-    it('shows unsupported chart type message for non-pie/doughnut charts', () => {
+    it('renders vertical bar chart by default', () => {
+      const barConfig: ChartConfig = { ...mockChartConfig, type: 'bar' }
+
+      mockedChartDataProcessor.prepareChartData.mockReturnValue(mockChartData)
+
+      render(
+        <ChartContainer
+          config={barConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      expect(screen.getByTestId('bar-chart')).toBeInTheDocument()
+      expect(screen.getByText(/"indexAxis":"x"/)).toBeInTheDocument()
+    })
+
+    it('renders horizontal bar chart using the y index axis', () => {
+      const barConfig: ChartConfig = {
+        ...mockChartConfig,
+        type: 'bar',
+        orientation: 'horizontal',
+      }
+
+      mockedChartDataProcessor.prepareChartData.mockReturnValue(mockChartData)
+
+      render(
+        <ChartContainer
+          config={barConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      expect(screen.getByText(/"indexAxis":"y"/)).toBeInTheDocument()
+    })
+
+    it('stacks both axes and caps the value axis at 100 for percent bars', () => {
+      const percentConfig: ChartConfig = {
+        ...mockChartConfig,
+        type: 'bar',
+        seriesColumn: 'Category',
+        barMode: 'percent',
+      }
+
+      mockedChartDataProcessor.prepareChartData.mockReturnValue(mockChartData)
+
+      render(
+        <ChartContainer
+          config={percentConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      expect(
+        screen.getByText(/"scales":\{"x":\{"stacked":true\},"y":\{"stacked":true,"min":0,"max":100/),
+      ).toBeInTheDocument()
+    })
+
+    it('renders histogram as touching bars with a count axis', () => {
+      const histogramConfig: ChartConfig = {
+        ...mockChartConfig,
+        type: 'histogram',
+        binMethod: 'sturges',
+      }
+
+      mockedChartDataProcessor.prepareChartData.mockReturnValue(mockChartData)
+
+      render(
+        <ChartContainer
+          config={histogramConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      expect(screen.getByTestId('bar-chart')).toBeInTheDocument()
+      expect(screen.getByText(/"barPercentage":1,"categoryPercentage":1/)).toBeInTheDocument()
+    })
+
+    it('renders box plot on a bar chart and violin on a linear x-axis', () => {
+      mockedChartDataProcessor.prepareChartData.mockReturnValue({
+        labels: ['A', 'B'],
+        datasets: [],
+      })
+
+      const { rerender } = render(
+        <ChartContainer
+          config={{ ...mockChartConfig, type: 'boxplot' }}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+      expect(screen.getByTestId('bar-chart')).toBeInTheDocument()
+
+      rerender(
+        <ChartContainer
+          config={{ ...mockChartConfig, type: 'violin' }}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+      expect(screen.getByTestId('scatter-chart')).toBeInTheDocument()
+      expect(screen.getByText(/"type":"linear","min":-0.5,"max":1.5/)).toBeInTheDocument()
+    })
+
+    it('renders line chart correctly', () => {
+      const lineConfig: ChartConfig = {
+        ...mockChartConfig,
+        type: 'line',
+        labelColumn: 'Category',
+        dateBucket: 'month',
+      }
+
+      mockedChartDataProcessor.prepareChartData.mockReturnValue(mockChartData)
+
+      render(
+        <ChartContainer
+          config={lineConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      expect(screen.getByTestId('line-chart')).toBeInTheDocument()
+    })
+
+    it('renders scatter plot with titled linear axes and trendline stats', () => {
+      const scatterConfig: ChartConfig = {
+        ...mockChartConfig,
+        type: 'scatter',
+        dataColumn: 'Value',
+        labelColumn: 'Category',
+        showTrendline: true,
+      }
+
+      mockedChartDataProcessor.prepareChartData.mockReturnValue({
+        labels: [],
+        datasets: [],
+        trendline: { slope: 2, intercept: 1, rSquared: 0.5 },
+      })
+      mockedChartDataProcessor.formatTrendline.mockReturnValue('y = 2x + 1 (R² = 0.500)')
+
+      render(
+        <ChartContainer
+          config={scatterConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      expect(screen.getByTestId('scatter-chart')).toBeInTheDocument()
+      expect(
+        screen.getByText(/"x":\{"type":"linear","title":\{"display":true,"text":"Category"\}/),
+      ).toBeInTheDocument()
+      expect(screen.getByText('y = 2x + 1 (R² = 0.500)')).toBeInTheDocument()
+    })
+
+    it('shows unsupported chart type message for unknown chart types', () => {
       const unsupportedConfig: ChartConfig = {
         ...mockChartConfig,
-        type: 'bar' as ChartType, // This should be 'pie' only according to types
+        type: 'unsupported' as ChartType,
       }
 
       mockedChartDataProcessor.prepareChartData.mockReturnValue(mockChartData)
@@ -287,7 +515,7 @@ describe('ChartContainer Component', () => {
       )
 
       expect(screen.getByText('Chart Type Not Available')).toBeInTheDocument()
-      expect(screen.getByText('Currently only pie charts are supported.')).toBeInTheDocument()
+      expect(screen.getByText(/charts are not supported yet/)).toBeInTheDocument()
     })
   })
 
@@ -430,6 +658,294 @@ describe('ChartContainer Component', () => {
       const removeButton = screen.getByRole('button', { name: /remove chart/i })
       expect(removeButton).toContainHTML('X')
     })
+
+    it('exports the prepared chart data as SVG', () => {
+      mockedChartDataProcessor.prepareChartData.mockReturnValue(mockChartData)
+
+      render(
+        <ChartContainer
+          config={mockChartConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      fireEvent.click(screen.getByRole('button', { name: /export chart as svg/i }))
+
+      expect(mockedChartExportService.exportToSVG).toHaveBeenCalledWith(
+        mockChartData,
+        mockChartConfig,
+      )
+    })
+
+    it('edits annotations on bar charts and passes them to the chart', () => {
+      const { Bar } = jest.requireMock('react-chartjs-2')
+      const barConfig: ChartConfig = { ...mockChartConfig, type: 'bar' }
+      const annotations = [
+        {
+          id: 'a1',
+          kind: 'line' as const,
+          axis: 'y' as const,
+          value: 50,
+          label: '50',
+          color: '#dc2626',
+        },
+      ]
+      mockedChartDataProcessor.prepareChartData.mockReturnValue({ ...mockChartData, annotations })
+
+      render(
+        <ChartContainer
+          config={barConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      const { options, plugins } = Bar.mock.calls[Bar.mock.calls.length - 1][0]
+      expect(options.plugins.chartAnnotations).toEqual({ annotations })
+      expect(options.scales.y).toEqual({ suggestedMin: 50, suggestedMax: 50 })
+      expect(plugins).toHaveLength(1)
+
+      fireEvent.click(screen.getByRole('button', { name: /edit annotations/i }))
+      fireEvent.click(screen.getByRole('button', { name: 'Add note' }))
+
+      expect(mockOnConfigChange).toHaveBeenCalledWith({
+        annotations: [{ id: 'a1', kind: 'note', text: 'Launch', label: 'B' }],
+      })
+    })
+
+    it('offers no annotations on pie charts', () => {
+      mockedChartDataProcessor.prepareChartData.mockReturnValue(mockChartData)
+
+      render(
+        <ChartContainer
+          config={mockChartConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      expect(screen.queryByRole('button', { name: /edit annotations/i })).not.toBeInTheDocument()
+    })
+
+    it('reports the clicked segment for cross-filtering', () => {
+      const { Pie } = jest.requireMock('react-chartjs-2')
+      const onSegmentClick = jest.fn()
+      const selection = { column: 'Category', value: 'B' }
+      mockedChartDataProcessor.prepareChartData.mockReturnValue(mockChartData)
+      mockedChartDataProcessor.getSegmentSelection.mockReturnValue(selection)
+
+      render(
+        <ChartContainer
+          config={mockChartConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+          onSegmentClick={onSegmentClick}
+        />,
+      )
+
+      const { options } = Pie.mock.calls[Pie.mock.calls.length - 1][0]
+      options.onClick({}, [{ index: 1, datasetIndex: 0 }])
+
+      expect(mockedChartDataProcessor.getSegmentSelection).toHaveBeenCalledWith(
+        mockChartData,
+        mockChartConfig,
+        1,
+        mockColumnInfos,
+        0,
+      )
+      expect(onSegmentClick).toHaveBeenCalledWith(selection)
+    })
+
+    it('lists the rows behind a segment in show-rows mode', () => {
+      const { Pie } = jest.requireMock('react-chartjs-2')
+      const onSegmentClick = jest.fn()
+      const selection = { column: 'Category', value: 'B' }
+      mockedChartDataProcessor.prepareChartData.mockReturnValue({
+        ...mockChartData,
+        segmentRows: [[0], [1, 2], []],
+      })
+      mockedChartDataProcessor.getSegmentSelection.mockReturnValue(selection)
+
+      render(
+        <ChartContainer
+          config={mockChartConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+          onSegmentClick={onSegmentClick}
+        />,
+      )
+
+      const toggle = screen.getByRole('button', { name: /show rows for a clicked segment/i })
+      fireEvent.click(toggle)
+      expect(toggle).toHaveAttribute('aria-pressed', 'true')
+
+      const { options } = Pie.mock.calls[Pie.mock.calls.length - 1][0]
+      act(() => options.onClick({}, [{ index: 1 }]))
+
+      const dialog = screen.getByRole('dialog', { name: 'Test Chart: B' })
+      expect(dialog).toHaveTextContent('2 rows')
+      expect(onSegmentClick).not.toHaveBeenCalled()
+
+      fireEvent.click(screen.getByRole('button', { name: /filter to these rows/i }))
+      expect(onSegmentClick).toHaveBeenCalledWith(selection)
+    })
+
+    it('opens the rows on Shift+click without toggling show-rows mode', () => {
+      const { Pie } = jest.requireMock('react-chartjs-2')
+      const onSegmentClick = jest.fn()
+      mockedChartDataProcessor.prepareChartData.mockReturnValue({
+        ...mockChartData,
+        segmentRows: [[0], [1, 2], []],
+      })
+
+      render(
+        <ChartContainer
+          config={mockChartConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+          onSegmentClick={onSegmentClick}
+        />,
+      )
+
+      const { options } = Pie.mock.calls[Pie.mock.calls.length - 1][0]
+      act(() => options.onClick({ native: { shiftKey: true } }, [{ index: 0 }]))
+
+      expect(screen.getByRole('dialog', { name: 'Test Chart: A' })).toHaveTextContent('1 rows')
+      expect(onSegmentClick).not.toHaveBeenCalled()
+    })
+
+    it('lists the rows behind a box plot outlier or a violin', () => {
+      const { Bar, Scatter } = jest.requireMock('react-chartjs-2')
+      const boxes: ChartData = {
+        labels: ['A', 'B', 'C'],
+        datasets: [
+          {
+            ...mockChartData.datasets[0],
+            label: 'Interquartile range',
+            data: [
+              [1, 2],
+              [2, 3],
+              [3, 4],
+            ],
+          },
+          { ...mockChartData.datasets[0], label: 'Outliers', data: [{ x: 2, y: 9 }] },
+        ],
+        segmentRows: [[0], [1], [2, 3]],
+      }
+      mockedChartDataProcessor.prepareChartData.mockReturnValue(boxes)
+
+      const { rerender } = render(
+        <ChartContainer
+          config={{ ...mockChartConfig, type: 'boxplot' }}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+      fireEvent.click(screen.getByRole('button', { name: /show rows for a clicked segment/i }))
+      const boxOptions = Bar.mock.calls[Bar.mock.calls.length - 1][0].options
+      act(() => boxOptions.onClick({}, [{ index: 0, datasetIndex: 1 }]))
+
+      expect(screen.getByRole('dialog', { name: 'Test Chart: C' })).toHaveTextContent('2 rows')
+
+      // Each violin outline is a dataset, whichever of its points is clicked
+      mockedChartDataProcessor.prepareChartData.mockReturnValue({
+        ...boxes,
+        datasets: ['A', 'B', 'C'].map((label) => ({ ...mockChartData.datasets[0], label })),
+      })
+      rerender(
+        <ChartContainer
+          config={{ ...mockChartConfig, type: 'violin' }}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+      const violinOptions = Scatter.mock.calls[Scatter.mock.calls.length - 1][0].options
+      act(() => violinOptions.onClick({}, [{ index: 5, datasetIndex: 1 }]))
+
+      expect(screen.getByRole('dialog', { name: 'Test Chart: B' })).toHaveTextContent('1 rows')
+    })
+
+    it('hides the export button when the chart has an error', () => {
+      mockedChartDataProcessor.prepareChartData.mockImplementation(() => {
+        throw new Error('Bad data')
+      })
+
+      render(
+        <ChartContainer
+          config={mockChartConfig}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+        />,
+      )
+
+      expect(screen.queryByRole('button', { name: /export chart as svg/i })).not.toBeInTheDocument()
+    })
+
+    it('renders one mini chart per facet value and turns off segment clicks', () => {
+      const { Pie } = jest.requireMock('react-chartjs-2')
+      Pie.mockClear()
+      const config: ChartConfig = { ...mockChartConfig, facetColumn: 'Region' }
+      mockedChartFacetingService.prepareFacets.mockReturnValue({
+        overall: { ...mockChartData, segmentRows: [[0], [1], [2]] },
+        panels: [
+          { value: 'North', rowCount: 2, chartData: mockChartData, error: null },
+          { value: 'South', rowCount: 1, chartData: null, error: new Error('No positive values') },
+        ],
+        bounds: {},
+      })
+
+      render(
+        <ChartContainer
+          config={config}
+          data={mockData}
+          columnInfo={mockColumnInfos}
+          onConfigChange={mockOnConfigChange}
+          onRemove={mockOnRemove}
+          onSegmentClick={jest.fn()}
+        />,
+      )
+
+      expect(mockedChartFacetingService.prepareFacets).toHaveBeenCalledWith(
+        mockData,
+        config,
+        mockColumnInfos,
+        undefined,
+      )
+      expect(mockedChartDataProcessor.prepareChartData).not.toHaveBeenCalled()
+      const panels = screen.getByRole('list', { name: 'Test Chart by Region' })
+      expect(panels.children).toHaveLength(2)
+      expect(panels).toHaveTextContent('North (2)')
+      expect(panels).toHaveTextContent('No positive values')
+      expect(screen.getAllByTestId('pie-chart')).toHaveLength(1)
+
+      // The panels share one legend, so each mini chart hides its own
+      const { options } = Pie.mock.calls[Pie.mock.calls.length - 1][0]
+      expect(options.plugins.legend.display).toBe(false)
+      expect(options.onClick).toBeUndefined()
+      expect(screen.getByRole('list', { name: 'Legend' })).toHaveTextContent('ABC')
+      expect(
+        screen.queryByRole('button', { name: /show rows for a clicked segment/i }),
+      ).not.toBeInTheDocument()
+    })
   })
 
   describe('Data Processing and Memoization', () => {
@@ -565,8 +1081,7 @@ describe('ChartContainer Component', () => {
 
   describe('Error State Data Fallback', () => {
     it('provides fallback chart data when error occurs', () => {
-        const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {
-        })
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
       const error = new Error('Test error')
       mockedChartDataProcessor.prepareChartData.mockImplementation(() => {
         throw error
@@ -585,7 +1100,7 @@ describe('ChartContainer Component', () => {
       // The component should catch the error and show error message
       // instead of crashing
       expect(screen.getByText('Chart Display Error')).toBeInTheDocument()
-        consoleSpy.mockRestore()
+      consoleSpy.mockRestore()
     })
 
     it('logs error to console when data processing fails', () => {
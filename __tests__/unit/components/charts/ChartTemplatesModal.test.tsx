@@ -0,0 +1,98 @@
+import React from 'react'
+import { fireEvent, render, screen } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import { ChartTemplatesModal } from '@/components/charts/ChartTemplatesModal'
+import { chartTemplateService } from '@/services/chartTemplates'
+import { createChartConfig, createColumnInfo } from '../../../fixtures/test-data/mock-charts'
+
+jest.mock('@/components/ui/Modal', () => ({
+  Modal: ({ isOpen, title, children }: any) =>
+    isOpen ? (
+      <div role="dialog" aria-label={title}>
+        {children}
+      </div>
+    ) : null,
+}))
+
+const chart = createChartConfig({
+  id: 'c1',
+  title: 'Revenue by Region',
+  dataColumn: 'Revenue',
+  labelColumn: 'Region',
+  position: { row: 0, column: 0, width: 6, height: 8 },
+})
+
+const columns = [createColumnInfo('Region', 0, 'string'), createColumnInfo('Revenue', 1, 'number')]
+
+describe('ChartTemplatesModal', () => {
+  beforeEach(() => localStorage.clear())
+
+  it('saves the dashboard under a name', () => {
+    render(
+      <ChartTemplatesModal
+        isOpen
+        onClose={jest.fn()}
+        charts={[chart]}
+        columnInfo={columns}
+        onApply={jest.fn()}
+      />,
+    )
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Template Name' }), {
+      target: { value: 'Monthly sales' },
+    })
+    fireEvent.click(screen.getByRole('button', { name: 'Save Template' }))
+
+    expect(screen.getByRole('status')).toHaveTextContent('Saved "Monthly sales".')
+    expect(screen.getByRole('button', { name: 'Apply Monthly sales' })).toBeInTheDocument()
+  })
+
+  it('applies straight away when every column matches by name', () => {
+    chartTemplateService.saveTemplate('Monthly sales', [chart], columns)
+    const onApply = jest.fn()
+    render(
+      <ChartTemplatesModal
+        isOpen
+        onClose={jest.fn()}
+        charts={[]}
+        columnInfo={columns}
+        onApply={onApply}
+      />,
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply Monthly sales' }))
+
+    expect(onApply).toHaveBeenCalledWith([
+      expect.objectContaining({ dataColumn: 'Revenue', labelColumn: 'Region' }),
+    ])
+  })
+
+  it('asks for the columns it could not match before applying', () => {
+    chartTemplateService.saveTemplate('Monthly sales', [chart], columns)
+    const onApply = jest.fn()
+    render(
+      <ChartTemplatesModal
+        isOpen
+        onClose={jest.fn()}
+        charts={[]}
+        columnInfo={[
+          createColumnInfo('Region', 0, 'string'),
+          createColumnInfo('Sales', 1, 'number'),
+          createColumnInfo('Units', 2, 'number'),
+        ]}
+        onApply={onApply}
+      />,
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Apply Monthly sales' }))
+    const revenue = screen.getByRole('combobox', { name: /revenue \(no match found\)/i })
+    expect(screen.getByRole('button', { name: 'Apply Template' })).toBeDisabled()
+
+    fireEvent.change(revenue, { target: { value: 'Sales' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Apply Template' }))
+
+    expect(onApply).toHaveBeenCalledWith([
+      expect.objectContaining({ title: 'Sales by Region', dataColumn: 'Sales' }),
+    ])
+  })
+})
@@ -0,0 +1,67 @@
+import React from 'react'
+import { fireEvent, render, screen } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import {
+  correlationColor,
+  CorrelationHeatmapView,
+} from '@/components/presentational/charts/CorrelationHeatmapView'
+
+describe('CorrelationHeatmapView (presentational)', () => {
+  const baseProps = {
+    columns: ['price', 'quantity'],
+    values: [
+      [1, -0.75],
+      [-0.75, 1],
+    ],
+    counts: [
+      [10, 8],
+      [8, 10],
+    ],
+    method: 'pearson' as const,
+    onChangeMethod: jest.fn(),
+    isComputing: false,
+    error: null,
+    truncated: false,
+    maxColumns: 40,
+    onSelectPair: jest.fn(),
+    onClose: jest.fn(),
+  }
+
+  it('renders a cell per pair and opens the pair on click', () => {
+    render(<CorrelationHeatmapView {...baseProps} />)
+
+    const cells = screen.getAllByRole('button', { name: '-0.75' })
+    expect(cells).toHaveLength(2)
+    expect(cells[1]).toHaveAttribute('title', 'quantity vs price: r = -0.75 (n = 8)')
+    fireEvent.click(cells[1])
+    expect(baseProps.onSelectPair).toHaveBeenCalledWith('price', 'quantity')
+
+    // The diagonal is always 1 and has nothing to plot
+    expect(screen.getAllByRole('button', { name: '1.00' })[0]).toBeDisabled()
+  })
+
+  it('switches method, shows status messages and closes', () => {
+    const { rerender } = render(
+      <CorrelationHeatmapView {...baseProps} values={null} counts={null} isComputing />,
+    )
+    expect(screen.getByText('Computing correlations…')).toBeInTheDocument()
+
+    rerender(<CorrelationHeatmapView {...baseProps} error="Worker failed" truncated />)
+    expect(screen.getByText('Worker failed')).toBeInTheDocument()
+    expect(screen.getByText(/Only the first 40 numeric columns are shown/)).toBeInTheDocument()
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Correlation method' }), {
+      target: { value: 'spearman' },
+    })
+    expect(baseProps.onChangeMethod).toHaveBeenCalledWith('spearman')
+
+    fireEvent.click(screen.getByRole('button', { name: 'Close correlation matrix' }))
+    expect(baseProps.onClose).toHaveBeenCalled()
+  })
+
+  it('colors positive, negative and missing correlations differently', () => {
+    expect(correlationColor(0.5)).toBe('rgba(59, 130, 246, 0.50)')
+    expect(correlationColor(-1)).toBe('rgba(239, 68, 68, 1.00)')
+    expect(correlationColor(null)).toBe('#f3f4f6')
+  })
+})
@@ -0,0 +1,108 @@
+import React from 'react'
+import { fireEvent, render, screen } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import { DrillDownModal } from '@/components/charts/DrillDownModal'
+import { ColumnInfo } from '@/types/excel'
+import { ExportService } from '@/utils/exportUtils'
+
+jest.mock('@/utils/exportUtils')
+
+jest.mock('@/components/ui/Modal', () => ({
+  Modal: ({ isOpen, title, children }: any) =>
+    isOpen ? (
+      <div role="dialog" aria-label={title}>
+        {children}
+      </div>
+    ) : null,
+}))
+
+describe('DrillDownModal', () => {
+  const columnInfo: ColumnInfo[] = [
+    {
+      name: 'Region',
+      index: 0,
+      type: 'string',
+      uniqueValues: [],
+      uniqueCount: 0,
+      hasNulls: false,
+      nullCount: 0,
+      sampleValues: [],
+    },
+    {
+      name: 'Sales',
+      index: 1,
+      type: 'number',
+      uniqueValues: [],
+      uniqueCount: 0,
+      hasNulls: false,
+      nullCount: 0,
+      sampleValues: [],
+    },
+  ]
+  const rows = [
+    ['North', 1200],
+    ['North', 300],
+  ]
+
+  const renderModal = (onFilter?: () => void, onClose = jest.fn()) =>
+    render(
+      <DrillDownModal
+        isOpen
+        onClose={onClose}
+        title="Sales: North"
+        rows={rows}
+        columnInfo={columnInfo}
+        exportFileName="Sales - North"
+        onFilter={onFilter}
+      />,
+    )
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('shows exactly the rows it was given', () => {
+    renderModal()
+
+    expect(screen.getByRole('dialog', { name: 'Sales: North' })).toBeInTheDocument()
+    // Header row plus the two data rows
+    expect(screen.getAllByRole('row')).toHaveLength(3)
+    expect(screen.getByRole('cell', { name: '1,200' })).toBeInTheDocument()
+    expect(screen.getByRole('cell', { name: '300' })).toBeInTheDocument()
+  })
+
+  it('exports the rows with the column headers', () => {
+    renderModal()
+
+    fireEvent.click(screen.getByRole('button', { name: /export csv/i }))
+    expect(ExportService.prototype.exportToCSV).toHaveBeenCalledWith(
+      rows,
+      ['Region', 'Sales'],
+      'Sales - North',
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: /export excel/i }))
+    expect(ExportService.prototype.exportToExcel).toHaveBeenCalledWith(
+      rows,
+      ['Region', 'Sales'],
+      'Sales - North',
+    )
+  })
+
+  it('applies the filter and closes', () => {
+    const onFilter = jest.fn()
+    const onClose = jest.fn()
+    renderModal(onFilter, onClose)
+
+    fireEvent.click(screen.getByRole('button', { name: /filter to these rows/i }))
+
+    expect(onFilter).toHaveBeenCalled()
+    expect(onClose).toHaveBeenCalled()
+  })
+
+  it('hides the filter action when the segment cannot be filtered', () => {
+    renderModal()
+
+    expect(screen.queryByRole('button', { name: /filter to these rows/i })).not.toBeInTheDocument()
+  })
+})
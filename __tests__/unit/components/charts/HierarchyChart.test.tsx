@@ -0,0 +1,89 @@
+import React from 'react'
+import { fireEvent, render, screen, within } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import HierarchyChart from '@/components/charts/HierarchyChart'
+import { ChartConfig, HierarchyNode } from '@/types/chart'
+
+const node = (path: string[], value: number, children: HierarchyNode[] = []): HierarchyNode => ({
+  name: path[path.length - 1] ?? 'All',
+  path,
+  value,
+  color: '#3b82f6',
+  rows: [],
+  children,
+})
+
+const root = node([], 100, [
+  node(['Europe'], 60, [
+    node(['Europe', 'France'], 45, [node(['Europe', 'France', 'Paris'], 45)]),
+    node(['Europe', 'Spain'], 15),
+  ]),
+  node(['Asia'], 30, [node(['Asia', 'Japan'], 30)]),
+  node(['Africa'], 10),
+])
+
+const config = (type: ChartConfig['type']): ChartConfig => ({
+  id: 'h1',
+  title: 'Sales',
+  type,
+  dataColumn: 'Sales',
+  aggregation: 'sum',
+  hierarchyColumns: ['Region', 'Country', 'City'],
+  options: {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: true, position: 'top' },
+      title: { display: false, text: 'Sales' },
+      tooltip: { enabled: true },
+    },
+  },
+  position: { row: 0, column: 0, width: 1, height: 1 },
+})
+
+describe('HierarchyChart', () => {
+  it('zooms a treemap into a clicked box and back out from the path', () => {
+    render(<HierarchyChart config={config('treemap')} root={root} />)
+    const path = screen.getByRole('navigation', { name: 'Zoom path' })
+
+    // Boxes without children can't be zoomed into
+    expect(screen.queryByRole('button', { name: /zoom into africa/i })).not.toBeInTheDocument()
+    expect(screen.getByTitle('Africa: 10')).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: /^zoom into europe:/i }))
+    expect(within(path).getByText('Europe')).toHaveAttribute('aria-current', 'page')
+    expect(screen.getByRole('button', { name: /zoom into europe › france: /i })).toBeInTheDocument()
+    expect(screen.queryByRole('button', { name: 'Zoom into Asia: 30' })).not.toBeInTheDocument()
+
+    fireEvent.click(within(path).getByRole('button', { name: 'All' }))
+    expect(within(path).getByText('All')).toHaveAttribute('aria-current', 'page')
+    expect(screen.getByRole('button', { name: 'Zoom into Asia: 30' })).toBeInTheDocument()
+  })
+
+  it('zooms a sunburst into a clicked slice and out from the center', () => {
+    render(<HierarchyChart config={config('sunburst')} root={root} />)
+
+    expect(screen.queryByRole('button', { name: 'Zoom out' })).not.toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom into Europe: 60' }))
+
+    expect(screen.getByRole('group', { name: 'Sunburst of Europe' })).toBeInTheDocument()
+    fireEvent.keyDown(screen.getByRole('button', { name: 'Zoom into Europe › France: 45' }), {
+      key: 'Enter',
+    })
+    expect(screen.getByRole('group', { name: 'Sunburst of Europe › France' })).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Zoom out' }))
+    expect(screen.getByRole('group', { name: 'Sunburst of Europe' })).toBeInTheDocument()
+  })
+
+  it('starts from the top again when the zoomed-in category disappears', () => {
+    const { rerender } = render(<HierarchyChart config={config('treemap')} root={root} />)
+    fireEvent.click(screen.getByRole('button', { name: /^zoom into asia:/i }))
+
+    const withoutAsia = { ...root, children: root.children.filter((c) => c.name !== 'Asia') }
+    rerender(<HierarchyChart config={config('treemap')} root={withoutAsia} />)
+
+    const path = screen.getByRole('navigation', { name: 'Zoom path' })
+    expect(within(path).getByText('All')).toHaveAttribute('aria-current', 'page')
+  })
+})
@@ -0,0 +1,92 @@
+import React from 'react'
+import { fireEvent, render, screen } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import KpiCard from '@/components/charts/KpiCard'
+import { ChartConfig } from '@/types/chart'
+import { ColumnInfo, DataMatrix } from '@/types/excel'
+
+const columns: ColumnInfo[] = [
+  {
+    name: 'Region',
+    index: 0,
+    type: 'string',
+    uniqueValues: ['North', 'South'],
+    uniqueCount: 2,
+    hasNulls: false,
+    nullCount: 0,
+    sampleValues: ['North', 'South'],
+  },
+  {
+    name: 'Revenue',
+    index: 1,
+    type: 'number',
+    uniqueValues: [],
+    uniqueCount: 3,
+    hasNulls: false,
+    nullCount: 0,
+    sampleValues: [],
+  },
+]
+
+const rows: DataMatrix = [
+  ['North', 1200],
+  ['South', 300],
+  ['North', 500],
+]
+
+const config = (overrides: Partial<ChartConfig> = {}): ChartConfig => ({
+  id: 'kpi',
+  title: 'Revenue',
+  type: 'kpi',
+  dataColumn: 'Revenue',
+  aggregation: 'sum',
+  options: {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false, position: 'top' },
+      title: { display: false, text: 'Revenue' },
+      tooltip: { enabled: true },
+    },
+  },
+  position: { row: 0, column: 0, width: 3, height: 4 },
+  ...overrides,
+})
+
+describe('KpiCard', () => {
+  it('shows the value and its change from all data', () => {
+    const onRemove = jest.fn()
+    render(
+      <KpiCard
+        config={config({ comparison: { baseline: 'all' } })}
+        data={rows.slice(0, 2)}
+        allData={rows}
+        columnInfo={columns}
+        onRemove={onRemove}
+      />,
+    )
+
+    expect(screen.getByRole('status')).toHaveTextContent('1,500')
+    expect(screen.getByText('Sum of Revenue')).toBeInTheDocument()
+    expect(screen.getByText(/-500 \(-25\.0%\)/)).toHaveClass('text-red-600')
+    expect(screen.getByText(/vs all data/)).toBeInTheDocument()
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove KPI card' }))
+    expect(onRemove).toHaveBeenCalled()
+  })
+
+  it('shows why the value cannot be worked out', () => {
+    render(
+      <KpiCard
+        config={config({ dataColumn: 'Region' })}
+        data={rows}
+        allData={rows}
+        columnInfo={columns}
+        onRemove={jest.fn()}
+      />,
+    )
+
+    expect(screen.getByText(/"Region" is not numeric/)).toBeInTheDocument()
+    expect(screen.queryByRole('status')).not.toBeInTheDocument()
+  })
+})
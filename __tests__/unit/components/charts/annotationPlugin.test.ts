@@ -0,0 +1,80 @@
+import { annotationPlugin, withAnnotations } from '@/components/charts/annotationPlugin'
+import { ResolvedAnnotation } from '@/types/chart'
+
+describe('withAnnotations', () => {
+  const annotations: ResolvedAnnotation[] = [
+    { id: 'l', kind: 'line', axis: 'y', value: 500, label: 'Target', color: '#dc2626' },
+    { id: 'b', kind: 'band', axis: 'y', from: -10, to: 20, label: '', color: '#f59e0b' },
+    { id: 'c', kind: 'band', axis: 'x', from: 0, to: 1, label: '', color: '#f59e0b' },
+  ]
+
+  it('leaves options alone without annotations', () => {
+    const options = { responsive: true }
+    expect(withAnnotations(options, undefined, ['y'])).toBe(options)
+  })
+
+  it('hands the annotations to the plugin and widens only the numeric axes', () => {
+    const options = withAnnotations(
+      { plugins: { legend: { display: true } }, scales: { y: { stacked: true } } },
+      annotations,
+      ['y'],
+    ) as any
+
+    expect(options.plugins).toEqual({
+      legend: { display: true },
+      chartAnnotations: { annotations },
+    })
+    expect(options.scales.y).toEqual({ stacked: true, suggestedMin: -10, suggestedMax: 500 })
+    expect(options.scales.x).toBeUndefined()
+  })
+})
+
+describe('annotationPlugin', () => {
+  const fakeChart = () => {
+    const ctx = {
+      save: jest.fn(),
+      restore: jest.fn(),
+      beginPath: jest.fn(),
+      rect: jest.fn(),
+      clip: jest.fn(),
+      fillRect: jest.fn(),
+      fillText: jest.fn(),
+      moveTo: jest.fn(),
+      lineTo: jest.fn(),
+      stroke: jest.fn(),
+      arc: jest.fn(),
+      fill: jest.fn(),
+      setLineDash: jest.fn(),
+    }
+    // Ten pixels per unit on both axes
+    const scale = { type: 'linear', getPixelForValue: (v: number) => v * 10 }
+    const chart = {
+      ctx,
+      chartArea: { left: 0, top: 0, right: 200, bottom: 100, width: 200, height: 100 },
+      scales: { x: scale, y: scale },
+    }
+    return { chart: chart as any, ctx }
+  }
+
+  it('draws bands before the datasets and lines and notes after', () => {
+    const { chart, ctx } = fakeChart()
+    const options = {
+      annotations: [
+        { id: 'b', kind: 'band', axis: 'y', from: 2, to: 4, label: 'Normal', color: '#f59e0b' },
+        { id: 'l', kind: 'line', axis: 'y', value: 5, label: 'Target', color: '#dc2626' },
+        { id: 'n', kind: 'note', x: 3, y: 6, text: 'Peak', color: '#111827' },
+      ] as ResolvedAnnotation[],
+    }
+
+    ;(annotationPlugin.beforeDatasetsDraw as any)(chart, {}, options)
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 20, 200, 20)
+    expect(ctx.fillText).toHaveBeenCalledWith('Normal', 4, 24)
+    expect(ctx.stroke).not.toHaveBeenCalled()
+    ;(annotationPlugin.afterDatasetsDraw as any)(chart, {}, options)
+    expect(ctx.moveTo).toHaveBeenCalledWith(0, 50)
+    expect(ctx.lineTo).toHaveBeenCalledWith(200, 50)
+    expect(ctx.fillText).toHaveBeenCalledWith('Target', 196, 47)
+    expect(ctx.arc).toHaveBeenCalledWith(30, 60, 3, 0, Math.PI * 2)
+    expect(ctx.fillText).toHaveBeenCalledWith('Peak', 30, 54)
+  })
+})
@@ -88,4 +88,13 @@ describe('DataTableView (presentational)', () => {
     fireEvent.click(checkbox)
     expect(onToggleDataTypes).toHaveBeenCalledWith(true)
   })
+
+  it('switches sheets from the header when the workbook has more than one', () => {
+    const onSelectSheet = jest.fn()
+    setup({ sheets: ['Sheet1', 'Sheet2'], onSelectSheet })
+    const select = screen.getByRole('combobox', { name: 'Sheet' })
+    expect(select).toHaveValue('Sheet1')
+    fireEvent.change(select, { target: { value: 'Sheet2' } })
+    expect(onSelectSheet).toHaveBeenCalledWith('Sheet2')
+  })
 })
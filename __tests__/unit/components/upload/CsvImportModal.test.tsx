@@ -0,0 +1,73 @@
+import React from 'react'
+import { fireEvent, render, screen } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import { CsvImportModal } from '@/components/CsvImportModal'
+import { CsvDialect, CsvPreview } from '@/types/excel'
+
+jest.mock('@/components/ui/Modal', () => ({
+  Modal: ({ isOpen, title, children }: any) =>
+    isOpen ? (
+      <div role="dialog" aria-label={title}>
+        {children}
+      </div>
+    ) : null,
+}))
+
+const detected: CsvDialect = { delimiter: ';', quote: '"', decimal: ',', encoding: 'utf-8' }
+
+const preview = (dialect: CsvDialect, rows: string[][]): CsvPreview => ({
+  dialect,
+  confidence: 0.9,
+  bom: false,
+  rows,
+})
+
+describe('CsvImportModal', () => {
+  const file = new File(['Name;Price\nApple;1,50\n'], 'prices.csv')
+
+  it('shows the detected settings and a preview of the first rows', async () => {
+    const onPreview = jest.fn().mockResolvedValue(
+      preview(detected, [
+        ['Name', 'Price'],
+        ['Apple', '1,50'],
+      ]),
+    )
+    render(
+      <CsvImportModal
+        file={file}
+        onPreview={onPreview}
+        onImport={jest.fn()}
+        onCancel={jest.fn()}
+      />,
+    )
+
+    expect(await screen.findByRole('status')).toHaveTextContent(
+      'Detected Semicolon (;) as the delimiter and UTF-8 as the encoding, with 90% confidence.',
+    )
+    expect(screen.getByRole('combobox', { name: 'Delimiter' })).toHaveValue(';')
+    expect(screen.getByRole('cell', { name: 'Apple' })).toBeInTheDocument()
+    expect(onPreview).toHaveBeenCalledWith(file, undefined)
+  })
+
+  it('previews again with an overridden setting and imports with it', async () => {
+    const comma = { ...detected, delimiter: ',' }
+    const onPreview = jest
+      .fn()
+      .mockResolvedValueOnce(preview(detected, [['Name', 'Price']]))
+      .mockResolvedValueOnce(preview(comma, [['Name;Price']]))
+    const onImport = jest.fn()
+    render(
+      <CsvImportModal file={file} onPreview={onPreview} onImport={onImport} onCancel={jest.fn()} />,
+    )
+    await screen.findByRole('status')
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Delimiter' }), {
+      target: { value: ',' },
+    })
+    expect(await screen.findByRole('cell', { name: 'Name;Price' })).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Import' }))
+
+    expect(onPreview).toHaveBeenLastCalledWith(file, comma)
+    expect(onImport).toHaveBeenCalledWith(file, comma)
+  })
+})
@@ -34,12 +34,113 @@ describe('useChartCreationModal', () => {
 
   it('provides available chart types filtered by columns', () => {
     const {result} = renderHook(() => useChartCreationModal({columnInfo, filteredData}))
-    // Should include pie, bar, doughnut, line (has number), but not scatter (needs 2 numbers)
+    // Should include pie, bar, doughnut, but not line (needs a date) or scatter (needs 2 numbers)
     const types = result.current.availableChartTypes.map((c) => c.type)
-    expect(types).toEqual(expect.arrayContaining(['pie', 'bar', 'doughnut', 'line']))
+    expect(types).toEqual(expect.arrayContaining(['pie', 'bar', 'doughnut']))
+    expect(types).not.toContain('line')
     expect(types).not.toContain('scatter')
   })
 
+  it('offers line charts with a date x-axis and date bucketing when a date column exists', () => {
+    const withDate: ColumnInfo[] = [
+      ...columnInfo,
+      {
+        name: 'ordered_at',
+        index: 2,
+        type: 'date',
+        uniqueValues: [],
+        uniqueCount: 3,
+        hasNulls: false,
+        nullCount: 0,
+        sampleValues: [],
+      },
+    ]
+    const {result} = renderHook(() => useChartCreationModal({columnInfo: withDate, filteredData}))
+    expect(result.current.availableChartTypes.map((c) => c.type)).toContain('line')
+
+    act(() => {
+      result.current.onChangeType('line')
+      result.current.setDataColumn('price')
+    })
+    expect(result.current.compatibleLabelColumns.map((c) => c.name)).toEqual(['ordered_at'])
+    expect(result.current.canSubmit).toBe(false)
+
+    act(() => {
+      result.current.setLabelColumn('ordered_at')
+      result.current.setDateBucket('quarter')
+    })
+    expect(result.current.canSubmit).toBe(true)
+    expect(result.current.buildPayload()).toMatchObject({
+      type: 'line',
+      dataColumn: 'price',
+      labelColumn: 'ordered_at',
+      aggregation: 'sum',
+      dateBucket: 'quarter',
+    })
+  })
+
+  it('offers scatter plots over two numeric columns with color and trendline options', () => {
+    const withQuantity: ColumnInfo[] = [
+      ...columnInfo,
+      {
+        name: 'quantity',
+        index: 2,
+        type: 'number',
+        uniqueValues: [],
+        uniqueCount: 3,
+        hasNulls: false,
+        nullCount: 0,
+        sampleValues: [],
+      },
+    ]
+    const {result} = renderHook(() =>
+      useChartCreationModal({columnInfo: withQuantity, filteredData}),
+    )
+    expect(result.current.availableChartTypes.map((c) => c.type)).toContain('scatter')
+
+    act(() => {
+      result.current.onChangeType('scatter')
+      result.current.setDataColumn('price')
+    })
+    expect(result.current.compatibleLabelColumns.map((c) => c.name)).toEqual(['quantity'])
+    expect(result.current.compatibleColorColumns.map((c) => c.name)).toEqual(['category'])
+
+    act(() => {
+      result.current.setLabelColumn('quantity')
+      result.current.setColorColumn('category')
+    })
+    expect(result.current.buildPayload()).toMatchObject({
+      type: 'scatter',
+      dataColumn: 'price',
+      labelColumn: 'quantity',
+      colorColumn: 'category',
+      showTrendline: true,
+    })
+  })
+
+  it('configures histogram binning and requires a width or custom ranges when chosen', () => {
+    const {result} = renderHook(() => useChartCreationModal({columnInfo, filteredData}))
+    expect(result.current.availableChartTypes.map((c) => c.type)).toContain('histogram')
+
+    act(() => {
+      result.current.onChangeType('histogram')
+      result.current.setDataColumn('price')
+    })
+    expect(result.current.canSubmit).toBe(true)
+    expect(result.current.buildPayload()).toMatchObject({type: 'histogram', binMethod: 'sturges'})
+
+    act(() => result.current.setBinMethod('width'))
+    expect(result.current.canSubmit).toBe(false)
+    act(() => result.current.setBinWidth(50))
+    expect(result.current.canSubmit).toBe(true)
+    expect(result.current.buildPayload()).toMatchObject({binMethod: 'width', binWidth: 50})
+
+    act(() => result.current.setBinMethod('custom'))
+    expect(result.current.shouldShowRangeEditor).toBe(true)
+    expect(result.current.sampleValues).toEqual([100, 200, 300])
+    expect(result.current.canSubmit).toBe(false)
+  })
+
   it('derives available aggregations per type', () => {
     const {result} = renderHook(() => useChartCreationModal({columnInfo, filteredData}))
     // default is pie
@@ -100,5 +201,233 @@ describe('useChartCreationModal', () => {
     expect(result.current.dataColumn).toBe('')
     expect(result.current.title).toBe('')
   })
-})
 
+  it('includes optional group-by column, orientation and sorting for bar charts', () => {
+    const {result} = renderHook(() => useChartCreationModal({columnInfo, filteredData}))
+    act(() => {
+      result.current.onChangeType('bar')
+      result.current.setDataColumn('price')
+      result.current.setLabelColumn('category')
+      result.current.setAggregation('sum')
+      result.current.setOrientation('horizontal')
+      result.current.setSortBy('label')
+      result.current.setSortDirection('asc')
+    })
+
+    expect(result.current.canSubmit).toBe(true)
+    expect(result.current.buildPayload()).toMatchObject({
+      type: 'bar',
+      dataColumn: 'price',
+      labelColumn: 'category',
+      aggregation: 'sum',
+      orientation: 'horizontal',
+      sortBy: 'label',
+      sortDirection: 'asc',
+    })
+  })
+
+  it('collects the extra inputs that extended aggregations need', () => {
+    const {result} = renderHook(() => useChartCreationModal({columnInfo, filteredData}))
+    act(() => {
+      result.current.onChangeType('bar')
+      result.current.setDataColumn('price')
+      result.current.setLabelColumn('category')
+      result.current.setAggregation('weighted_average')
+    })
+    expect(result.current.availableAggregations.map((a) => a.type)).toContain('running_total')
+    expect(result.current.compatibleWeightColumns.map((c) => c.name)).toEqual(['price'])
+    // A weighted average can't be built without weights
+    expect(result.current.canSubmit).toBe(false)
+
+    act(() => result.current.setWeightColumn('price'))
+    expect(result.current.canSubmit).toBe(true)
+    expect(result.current.buildPayload()).toMatchObject({
+      aggregation: 'weighted_average',
+      weightColumn: 'price',
+    })
+
+    act(() => {
+      result.current.setAggregation('percentile')
+      result.current.setPercentile(95)
+    })
+    const payload = result.current.buildPayload()
+    expect(payload).toMatchObject({aggregation: 'percentile', percentile: 95})
+    expect(payload.weightColumn).toBeUndefined()
+
+    act(() => {
+      result.current.setAggregation('last')
+      result.current.setOrderColumn('category')
+    })
+    expect(result.current.buildPayload()).toMatchObject({aggregation: 'last', orderColumn: 'category'})
+  })
+
+  it('adds a series column and bar layout for multi-series bar charts', () => {
+    const withRegion: ColumnInfo[] = [
+      ...columnInfo,
+      {
+        name: 'region',
+        index: 2,
+        type: 'string',
+        uniqueValues: ['N', 'S'],
+        uniqueCount: 2,
+        hasNulls: false,
+        nullCount: 0,
+        sampleValues: ['N', 'S'],
+      },
+    ]
+    const {result} = renderHook(() => useChartCreationModal({columnInfo: withRegion, filteredData}))
+    act(() => {
+      result.current.onChangeType('bar')
+      result.current.setDataColumn('price')
+      result.current.setLabelColumn('category')
+    })
+    expect(result.current.compatibleSeriesColumns.map((c) => c.name)).toEqual(['region'])
+
+    act(() => {
+      result.current.setSeriesColumn('region')
+      result.current.setBarMode('stacked')
+    })
+    expect(result.current.buildPayload()).toMatchObject({
+      type: 'bar',
+      seriesColumn: 'region',
+      barMode: 'stacked',
+    })
+
+    act(() => result.current.setSeriesColumn(''))
+    expect(result.current.buildPayload().barMode).toBeUndefined()
+  })
+
+  it('omits bar-only settings for pie charts', () => {
+    const {result} = renderHook(() => useChartCreationModal({columnInfo, filteredData}))
+    act(() => {
+      result.current.onChangeType('pie')
+      result.current.setDataColumn('category')
+    })
+
+    const payload = result.current.buildPayload()
+    expect(payload.orientation).toBeUndefined()
+    expect(payload.sortBy).toBeUndefined()
+    expect(payload.labelColumn).toBeUndefined()
+  })
+
+  it('collects ordered category levels for treemaps', () => {
+    const withRegion: ColumnInfo[] = [
+      ...columnInfo,
+      {
+        name: 'region',
+        index: 2,
+        type: 'string',
+        uniqueValues: ['N', 'S'],
+        uniqueCount: 2,
+        hasNulls: false,
+        nullCount: 0,
+        sampleValues: ['N', 'S'],
+      },
+    ]
+    const {result} = renderHook(() => useChartCreationModal({columnInfo: withRegion, filteredData}))
+    act(() => {
+      result.current.onChangeType('treemap')
+      result.current.setDataColumn('price')
+    })
+    expect(result.current.compatibleHierarchyColumns.map((c) => c.name)).toEqual([
+      'category',
+      'region',
+    ])
+    expect(result.current.canSubmit).toBe(false)
+
+    act(() => {
+      result.current.addHierarchyColumn('region')
+      result.current.addHierarchyColumn('category')
+      result.current.addHierarchyColumn('region')
+    })
+    expect(result.current.canSubmit).toBe(true)
+    expect(result.current.defaultTitle).toBe('Treemap - price by region > category')
+    expect(result.current.buildPayload().hierarchyColumns).toEqual(['region', 'category'])
+
+    act(() => result.current.removeHierarchyColumn('region'))
+    expect(result.current.hierarchyColumns).toEqual(['category'])
+  })
+
+  it('facets by a categorical column and caps the number of panels', () => {
+    const {result} = renderHook(() => useChartCreationModal({columnInfo, filteredData}))
+    act(() => {
+      result.current.onChangeType('histogram')
+      result.current.setDataColumn('price')
+    })
+    expect(result.current.compatibleFacetColumns.map((c) => c.name)).toEqual(['category'])
+    expect(result.current.buildPayload().facetColumn).toBeUndefined()
+
+    act(() => {
+      result.current.setFacetColumn('category')
+      result.current.setMaxFacets(100)
+    })
+    expect(result.current.buildPayload()).toMatchObject({facetColumn: 'category', maxFacets: 24})
+
+    act(() => result.current.onChangeType('pie'))
+    expect(result.current.facetColumn).toBe('')
+  })
+
+  it('orders waterfall steps by label and funnel stages as the data lists them', () => {
+    const {result} = renderHook(() => useChartCreationModal({columnInfo, filteredData}))
+    act(() => {
+      result.current.onChangeType('waterfall')
+      result.current.setDataColumn('price')
+      result.current.setLabelColumn('category')
+    })
+    expect(result.current.buildPayload()).toMatchObject({
+      type: 'waterfall',
+      labelColumn: 'category',
+      sortBy: 'label',
+      sortDirection: 'asc',
+    })
+
+    act(() => {
+      result.current.onChangeType('funnel')
+      result.current.setDataColumn('category')
+    })
+    expect(result.current.buildPayload()).toMatchObject({
+      type: 'funnel',
+      aggregation: 'count',
+      sortBy: 'source',
+      sortDirection: 'asc',
+    })
+  })
+
+  it('compares KPI cards with a previous window of a date column', () => {
+    const withDate: ColumnInfo[] = [
+      ...columnInfo,
+      {
+        name: 'ordered',
+        index: 2,
+        type: 'date',
+        uniqueValues: [],
+        uniqueCount: 0,
+        hasNulls: false,
+        nullCount: 0,
+        sampleValues: [],
+      },
+    ]
+    const {result} = renderHook(() => useChartCreationModal({columnInfo: withDate, filteredData}))
+    act(() => {
+      result.current.onChangeType('kpi')
+      result.current.setDataColumn('price')
+      result.current.setAggregation('sum')
+    })
+    expect(result.current.compatibleFacetColumns).toEqual([])
+    expect(result.current.buildPayload().comparison).toBeUndefined()
+
+    act(() => result.current.setKpiBaseline('previous-window'))
+    expect(result.current.canSubmit).toBe(false)
+
+    act(() => result.current.setKpiDateColumn('ordered'))
+    expect(result.current.canSubmit).toBe(true)
+    expect(result.current.buildPayload()).toMatchObject({
+      type: 'kpi',
+      aggregation: 'sum',
+      comparison: {baseline: 'previous-window', dateColumn: 'ordered'},
+    })
+
+    act(() => result.current.setKpiBaseline('all'))
+    expect(result.current.buildPayload().comparison).toEqual({baseline: 'all', dateColumn: undefined})
+  })
+})
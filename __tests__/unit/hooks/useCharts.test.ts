@@ -0,0 +1,52 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { useCharts } from '@/hooks/useCharts'
+import type { UseSessionPersistenceReturn } from '@/hooks/useSessionPersistence'
+import { ChartConfig } from '@/types/chart'
+import { ColumnInfo, DataMatrix } from '@/types/excel'
+
+jest.mock('@/hooks/useSessionPersistence', () => ({ useSessionPersistence: () => ({}) }))
+
+const chart: ChartConfig = {
+  id: 'revenue',
+  title: 'Revenue',
+  type: 'bar',
+  dataColumn: 'Revenue',
+  aggregation: 'sum',
+  options: {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: true, position: 'top' },
+      title: { display: false, text: 'Revenue' },
+      tooltip: { enabled: true },
+    },
+  },
+  position: { row: 0, column: 0, width: 6, height: 4 },
+}
+
+describe('useCharts', () => {
+  it('saves charts to the session that was active when they changed', async () => {
+    let activeId = 'sales'
+    const service = {
+      getActiveSession: jest.fn(async () => ({ id: activeId })),
+      saveCharts: jest.fn(),
+    }
+    const session = {
+      service,
+      registerOnLoadCharts: jest.fn(),
+    } as unknown as UseSessionPersistenceReturn
+    const data: DataMatrix = []
+    const columns: ColumnInfo[] = []
+    renderHook(() => useCharts(data, columns, session))
+    const showCharts = (session.registerOnLoadCharts as jest.Mock).mock.calls.at(-1)[0]
+
+    act(() => showCharts([chart]))
+    // Another sheet is opened before the save runs
+    activeId = 'costs'
+
+    await waitFor(() =>
+      expect(service.saveCharts).toHaveBeenCalledWith('sales', [chart], expect.anything()),
+    )
+    expect(service.saveCharts).toHaveBeenCalledTimes(1)
+  })
+})
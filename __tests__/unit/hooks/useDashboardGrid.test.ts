@@ -0,0 +1,126 @@
+import type React from 'react'
+import { act, renderHook } from '@testing-library/react'
+import { useDashboardGrid } from '@/hooks/useDashboardGrid'
+import { ChartConfig, ChartPosition } from '@/types/chart'
+
+const makeChart = (id: string, position: ChartPosition): ChartConfig => ({
+  id,
+  title: id,
+  type: 'bar',
+  dataColumn: 'Value',
+  aggregation: 'sum',
+  options: {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: true, position: 'top' },
+      title: { display: false, text: id },
+      tooltip: { enabled: true },
+    },
+  },
+  position,
+})
+
+const pointerDown = (target: HTMLElement = document.createElement('div')) =>
+  ({
+    button: 0,
+    target,
+    clientX: 0,
+    clientY: 0,
+    preventDefault: jest.fn(),
+  }) as unknown as React.PointerEvent
+
+const keyDown = (key: string, shiftKey = false) => {
+  const element = document.createElement('div')
+  return {
+    key,
+    shiftKey,
+    target: element,
+    currentTarget: element,
+    preventDefault: jest.fn(),
+  } as unknown as React.KeyboardEvent
+}
+
+describe('useDashboardGrid', () => {
+  const charts = [
+    makeChart('a', { row: 0, column: 0, width: 6, height: 8 }),
+    makeChart('b', { row: 0, column: 6, width: 6, height: 8 }),
+  ]
+
+  it('places charts on grid lines from their positions', () => {
+    const { result } = renderHook(() => useDashboardGrid({ charts, onPositionChange: jest.fn() }))
+
+    expect(result.current.getItemStyle('b')).toEqual({
+      gridColumn: '7 / span 6',
+      gridRow: '1 / span 8',
+    })
+  })
+
+  it('previews a drag snapped to rows and writes back positions on release', () => {
+    const onPositionChange = jest.fn()
+    const { result } = renderHook(() => useDashboardGrid({ charts, onPositionChange }))
+
+    act(() => result.current.startMove('a', pointerDown()))
+    expect(result.current.activeId).toBe('a')
+
+    // Three rows of 40px plus 16px gaps
+    act(() => {
+      window.dispatchEvent(new MouseEvent('pointermove', { clientX: 0, clientY: 170 }))
+    })
+    expect(result.current.layout.a.row).toBe(3)
+    expect(onPositionChange).not.toHaveBeenCalled()
+
+    act(() => {
+      window.dispatchEvent(new MouseEvent('pointerup'))
+    })
+    expect(result.current.activeId).toBeNull()
+    expect(onPositionChange).toHaveBeenCalledTimes(1)
+    expect(onPositionChange).toHaveBeenCalledWith('a', { row: 3, column: 0, width: 6, height: 8 })
+  })
+
+  it('discards the drag when cancelled with Escape', () => {
+    const onPositionChange = jest.fn()
+    const { result } = renderHook(() => useDashboardGrid({ charts, onPositionChange }))
+
+    act(() => result.current.startResize('b', pointerDown()))
+    act(() => {
+      window.dispatchEvent(new MouseEvent('pointermove', { clientX: 0, clientY: 112 }))
+    })
+    expect(result.current.layout.b.height).toBe(10)
+
+    act(() => {
+      window.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))
+    })
+    act(() => {
+      window.dispatchEvent(new MouseEvent('pointerup'))
+    })
+    expect(result.current.layout.b.height).toBe(8)
+    expect(onPositionChange).not.toHaveBeenCalled()
+  })
+
+  it('does not start a drag from buttons inside the handle', () => {
+    const { result } = renderHook(() => useDashboardGrid({ charts, onPositionChange: jest.fn() }))
+
+    act(() => result.current.startMove('a', pointerDown(document.createElement('button'))))
+    expect(result.current.activeId).toBeNull()
+  })
+
+  it('moves with arrow keys and pushes overlapping charts aside', () => {
+    const onPositionChange = jest.fn()
+    const { result } = renderHook(() => useDashboardGrid({ charts, onPositionChange }))
+
+    act(() => result.current.handleKeyDown('a', keyDown('ArrowRight')))
+
+    expect(onPositionChange).toHaveBeenCalledWith('a', { row: 0, column: 1, width: 6, height: 8 })
+    expect(onPositionChange).toHaveBeenCalledWith('b', { row: 8, column: 6, width: 6, height: 8 })
+  })
+
+  it('resizes with Shift and arrow keys', () => {
+    const onPositionChange = jest.fn()
+    const { result } = renderHook(() => useDashboardGrid({ charts, onPositionChange }))
+
+    act(() => result.current.handleKeyDown('b', keyDown('ArrowDown', true)))
+
+    expect(onPositionChange).toHaveBeenCalledWith('b', { row: 0, column: 6, width: 6, height: 9 })
+  })
+})
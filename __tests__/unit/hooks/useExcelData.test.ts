@@ -21,6 +21,7 @@ describe('useExcelData', () => {
     sessions: [],
     refreshSessions: jest.fn(),
     restoreSession: jest.fn(),
+    openSheet: jest.fn(),
     deleteSession: jest.fn(),
     clearAll: jest.fn(),
     registerOnLoadDataset: jest.fn(),
@@ -238,7 +239,7 @@ describe('useExcelData', () => {
 
       // Create a mock service with methods
       const mockService = {
-        createOrUpdateSession: jest.fn().mockRejectedValue(new Error('Persistence failed')),
+        openSheetSession: jest.fn().mockRejectedValue(new Error('Persistence failed')),
         saveDataset: jest.fn(),
       }
 
@@ -441,6 +442,181 @@ describe('useExcelData', () => {
     })
   })
 
+  describe('switchSheet', () => {
+    const workbookData = (sheet: string): ExcelData => ({
+      headers: ['col1'],
+      rows: [['data1']],
+      metadata: {
+        fileName: 'book.xlsx',
+        sheetNames: ['Sales', 'Costs'],
+        activeSheet: sheet,
+        totalRows: 1,
+        totalColumns: 1,
+        columns: [],
+        fileSize: 1024,
+      },
+    })
+
+    it('parses the sheet from the cached workbook and opens its session', async () => {
+      MockExcelParser.prototype.parseFile.mockResolvedValueOnce(workbookData('Sales'))
+      MockExcelParser.prototype.hasWorkbook = jest.fn().mockReturnValue(true)
+      MockExcelParser.prototype.parseSheet = jest.fn().mockResolvedValue(workbookData('Costs'))
+      const { result } = renderHook(() => useExcelData())
+
+      await act(async () => {
+        await result.current.parseFile(createMockFile('book.xlsx', 'content'))
+      })
+      expect(result.current.availableSheets).toEqual(['Sales', 'Costs'])
+
+      await act(async () => {
+        await result.current.switchSheet('Costs')
+      })
+
+      expect(MockExcelParser.prototype.parseSheet).toHaveBeenCalledWith(
+        'Costs',
+        expect.objectContaining({ computeStatistics: false }),
+      )
+      expect(mockSessionPersistence.openSheet).toHaveBeenCalledWith(workbookData('Costs'), {
+        fresh: true,
+      })
+      expect(result.current.isLoading).toBe(false)
+
+      // The opened sheet is shown through the loader the hook registered
+      const showDataset = mockSessionPersistence.registerOnLoadDataset.mock.calls.at(-1)[0]
+      act(() => showDataset(workbookData('Costs')))
+      await act(async () => {
+        await result.current.switchSheet('Sales')
+      })
+
+      expect(MockExcelParser.prototype.parseSheet).toHaveBeenCalledTimes(1)
+      expect(mockSessionPersistence.openSheet).toHaveBeenLastCalledWith(workbookData('Sales'), {
+        fresh: false,
+      })
+    })
+
+    it('saves an upload to the session of its own file and sheet after a sheet switch', async () => {
+      const upload: ExcelData = {
+        ...workbookData('Summary'),
+        metadata: { ...workbookData('Summary').metadata, fileName: 'other.xlsx' },
+      }
+      MockExcelParser.prototype.parseFile
+        .mockResolvedValueOnce(workbookData('Sales'))
+        .mockResolvedValueOnce(upload)
+      MockExcelParser.prototype.hasWorkbook = jest.fn().mockReturnValue(true)
+      MockExcelParser.prototype.parseSheet = jest.fn().mockResolvedValue(workbookData('Costs'))
+      const mockService = {
+        openSheetSession: jest.fn().mockImplementation(async (summary) => ({
+          session: { id: `${summary.fileName}/${summary.sheetName}` },
+          created: true,
+        })),
+        saveDataset: jest.fn(),
+      }
+      const originalService = mockSessionPersistence.service
+      mockSessionPersistence.service = mockService as any
+      const { result } = renderHook(() => useExcelData())
+
+      await act(async () => {
+        await result.current.parseFile(createMockFile('book.xlsx', 'content'))
+      })
+      await act(async () => {
+        await result.current.switchSheet('Costs')
+      })
+      await act(async () => {
+        await result.current.parseFile(createMockFile('other.xlsx', 'content'))
+      })
+
+      expect(mockService.openSheetSession).toHaveBeenLastCalledWith(
+        expect.objectContaining({ fileName: 'other.xlsx', sheetName: 'Summary' }),
+      )
+      expect(mockService.saveDataset).toHaveBeenLastCalledWith('other.xlsx/Summary', upload)
+      mockSessionPersistence.service = originalService
+    })
+
+    it('replaces the saved dataset when a file is uploaded again under the same name', async () => {
+      const edited: ExcelData = { ...workbookData('Sales'), rows: [['edited']] }
+      MockExcelParser.prototype.parseFile
+        .mockResolvedValueOnce(workbookData('Sales'))
+        .mockResolvedValueOnce(edited)
+      const mockService = {
+        openSheetSession: jest.fn().mockResolvedValue({ session: { id: 'sales' }, created: false }),
+        saveDataset: jest.fn(),
+      }
+      const originalService = mockSessionPersistence.service
+      mockSessionPersistence.service = mockService as any
+      const { result } = renderHook(() => useExcelData())
+
+      await act(async () => {
+        await result.current.parseFile(createMockFile('book.xlsx', 'content'))
+      })
+      await act(async () => {
+        await result.current.parseFile(createMockFile('book.xlsx', 'edited content'))
+      })
+
+      expect(mockService.saveDataset).toHaveBeenCalledTimes(2)
+      expect(mockService.saveDataset).toHaveBeenLastCalledWith('sales', edited)
+      mockSessionPersistence.service = originalService
+    })
+
+    it('asks for the file again once the workbook is no longer loaded', async () => {
+      MockExcelParser.prototype.parseFile.mockResolvedValueOnce(workbookData('Sales'))
+      MockExcelParser.prototype.hasWorkbook = jest.fn().mockReturnValue(false)
+      MockExcelParser.prototype.parseSheet = jest.fn()
+      const { result } = renderHook(() => useExcelData())
+
+      await act(async () => {
+        await result.current.parseFile(createMockFile('book.xlsx', 'content'))
+      })
+      expect(result.current.availableSheets).toEqual(['Sales'])
+
+      await act(async () => {
+        await expect(result.current.switchSheet('Costs')).rejects.toThrow(
+          'Upload book.xlsx again to open the "Costs" sheet.',
+        )
+      })
+
+      expect(result.current.error).toBe('Upload book.xlsx again to open the "Costs" sheet.')
+      expect(MockExcelParser.prototype.parseSheet).not.toHaveBeenCalled()
+      expect(mockSessionPersistence.openSheet).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('setHeaderRows', () => {
+    it('reads the current sheet again with the chosen header rows', async () => {
+      const reparsed: ExcelData = {
+        headers: ['Region', 'Q1 / Revenue'],
+        rows: [['North', 100]],
+        metadata: {
+          fileName: 'test.xlsx',
+          sheetNames: ['Sheet1'],
+          activeSheet: 'Sheet1',
+          totalRows: 1,
+          totalColumns: 2,
+          columns: [],
+          fileSize: 1024,
+          header: { row: 3, rowCount: 2, detected: false },
+        },
+      }
+      MockExcelParser.prototype.hasWorkbook = jest.fn().mockReturnValue(true)
+      MockExcelParser.prototype.parseSheet = jest.fn().mockResolvedValue(reparsed)
+      const { result } = renderHook(() => useExcelData())
+
+      await act(async () => {
+        await result.current.parseFile(createMockFile('test.xlsx', 'content'))
+      })
+      expect(result.current.canChangeHeader).toBe(true)
+
+      await act(async () => {
+        await result.current.setHeaderRows({ row: 3, rowCount: 2 })
+      })
+
+      expect(MockExcelParser.prototype.parseSheet).toHaveBeenCalledWith(
+        'Sheet1',
+        expect.objectContaining({ header: { row: 3, rowCount: 2 } }),
+      )
+      expect(result.current.currentData).toBe(reparsed)
+    })
+  })
+
   describe('reset', () => {
     it('should reset all state to initial values', async () => {
       const { result } = renderHook(() => useExcelData())
@@ -0,0 +1,88 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { useFilters } from '@/hooks/useFilters'
+import type { UseSessionPersistenceReturn } from '@/hooks/useSessionPersistence'
+import { ExcelData } from '@/types/excel'
+import { createColumnInfo } from '../../fixtures/test-data/mock-charts'
+
+jest.mock('@/hooks/useSessionPersistence', () => ({ useSessionPersistence: () => ({}) }))
+
+const excelData: ExcelData = {
+  headers: ['Region', 'Product'],
+  rows: [
+    ['A', 'X'],
+    ['A', 'Y'],
+    ['B', 'X'],
+    ['B', 'Y'],
+  ],
+  metadata: {
+    fileName: 'sales.csv',
+    sheetNames: ['Sheet1'],
+    activeSheet: 'Sheet1',
+    totalRows: 4,
+    totalColumns: 2,
+    fileSize: 16,
+    columns: [
+      { ...createColumnInfo('Region', 0, 'string'), uniqueValues: ['A', 'B'], uniqueCount: 2 },
+      { ...createColumnInfo('Product', 1, 'string'), uniqueValues: ['X', 'Y'], uniqueCount: 2 },
+    ],
+  },
+}
+
+const session = {
+  service: null,
+  registerOnLoadFilters: jest.fn(),
+} as unknown as UseSessionPersistenceReturn
+
+const bar = (region: string, product: string) => ({
+  column: 'Region',
+  value: region,
+  series: { column: 'Product', value: product },
+})
+
+describe('useFilters', () => {
+  it('keeps every clicked bar of a series filtered', () => {
+    const { result } = renderHook(() => useFilters(excelData, session))
+
+    act(() => {
+      result.current.toggleCrossFilter(bar('A', 'X'))
+    })
+    act(() => {
+      result.current.toggleCrossFilter(bar('B', 'X'))
+    })
+    expect(result.current.filteredData).toEqual([
+      ['A', 'X'],
+      ['B', 'X'],
+    ])
+
+    // Clicking a bar again leaves the other bar of its series filtered
+    act(() => {
+      result.current.toggleCrossFilter(bar('A', 'X'))
+    })
+    expect(result.current.filteredData).toEqual([['B', 'X']])
+
+    act(() => {
+      result.current.toggleCrossFilter(bar('B', 'X'))
+    })
+    expect(result.current.filteredData).toEqual(excelData.rows)
+  })
+
+  it('saves filters to the session that was active when they changed', async () => {
+    let activeId = 'sheet-1'
+    const service = {
+      getActiveSession: jest.fn(async () => ({ id: activeId })),
+      saveFilters: jest.fn(),
+    }
+    const withService = { ...session, service } as unknown as UseSessionPersistenceReturn
+    const { result } = renderHook(() => useFilters(excelData, withService))
+
+    act(() => {
+      result.current.toggleCrossFilter({ column: 'Region', value: 'A' })
+    })
+    // Another sheet is opened before the save runs
+    activeId = 'sheet-2'
+
+    await waitFor(() => expect(service.saveFilters).toHaveBeenCalled())
+    expect(service.saveFilters).toHaveBeenCalledTimes(1)
+    expect(service.saveFilters).toHaveBeenCalledWith('sheet-1', expect.any(Array))
+  })
+})
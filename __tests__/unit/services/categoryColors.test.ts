@@ -0,0 +1,71 @@
+import { CategoryColorScale } from '@/services/categoryColors'
+import { getPalette } from '@/utils/colorPalettes'
+
+describe('CategoryColorScale', () => {
+  const defaultColors = getPalette('default').colors
+
+  it('assigns palette slots in the order categories are first seen', () => {
+    const scale = new CategoryColorScale()
+
+    expect(scale.colorsFor(['North', 'South'])).toEqual([defaultColors[0], defaultColors[1]])
+    expect(scale.colorsFor(['East', 'South', 'North'])).toEqual([
+      defaultColors[2],
+      defaultColors[1],
+      defaultColors[0],
+    ])
+    expect(scale.categories()).toEqual(['North', 'South', 'East'])
+  })
+
+  it('cycles through the palette once every color is taken', () => {
+    const scale = new CategoryColorScale()
+    const categories = Array.from({ length: defaultColors.length + 1 }, (_, i) => `c${i}`)
+
+    const colors = scale.colorsFor(categories)
+
+    expect(colors[defaultColors.length]).toBe(defaultColors[0])
+  })
+
+  it('prefers pinned colors and lists pinned categories not yet drawn', () => {
+    const scale = new CategoryColorScale({
+      palette: 'default',
+      assigned: {},
+      pinned: { West: '#000000' },
+    })
+
+    expect(scale.colorFor('North')).toBe(defaultColors[0])
+    expect(scale.colorFor('West')).toBe('#000000')
+    expect(scale.isPinned('West')).toBe(true)
+    expect(scale.isPinned('North')).toBe(false)
+    expect(scale.categories()).toEqual(['North', 'West'])
+  })
+
+  it('keeps slots when the palette changes', () => {
+    const scale = new CategoryColorScale()
+    scale.colorsFor(['North', 'South'])
+
+    const switched = new CategoryColorScale({ ...scale.toSettings(), palette: 'tol-bright' })
+    const tolColors = getPalette('tol-bright').colors
+
+    expect(switched.colorsFor(['South', 'North'])).toEqual([tolColors[1], tolColors[0]])
+  })
+
+  it('round-trips through its settings', () => {
+    const scale = new CategoryColorScale({
+      palette: 'viridis',
+      assigned: {},
+      pinned: { B: '#ff0000' },
+    })
+    scale.colorsFor(['A', 'B', 'C'])
+
+    const settings = scale.toSettings()
+
+    expect(settings).toEqual({
+      palette: 'viridis',
+      assigned: { A: 0, C: 1 },
+      pinned: { B: '#ff0000' },
+    })
+    expect(new CategoryColorScale(settings).colorsFor(['C', 'B', 'A'])).toEqual(
+      scale.colorsFor(['C', 'B', 'A']),
+    )
+  })
+})
@@ -1,6 +1,14 @@
 import { ChartDataProcessor } from '@/services/chartDataProcessor'
-import { AggregationType, ChartConfig, NumericRange } from '@/types/chart'
-import { ColumnInfo, DataMatrix } from '@/types/excel'
+import { CategoryColorScale } from '@/services/categoryColors'
+import {
+  AggregationType,
+  ChartAnnotation,
+  ChartConfig,
+  ChartType,
+  NumericRange,
+} from '@/types/chart'
+import { CellValue, ColumnInfo, DataMatrix } from '@/types/excel'
+import { createChartConfig, createColumnInfo } from '../../fixtures/test-data/mock-charts'
 
 describe('ChartDataProcessor', () => {
   let processor: ChartDataProcessor
@@ -87,6 +95,7 @@ describe('ChartDataProcessor', () => {
             borderWidth: 2,
           },
         ],
+        segmentRows: [[1, 4], [2], [0, 3]],
       })
     })
 
@@ -94,7 +103,7 @@ describe('ChartDataProcessor', () => {
       const config: ChartConfig = {
         id: 'test-2',
         title: 'Test Chart',
-        type: 'bar', // Unsupported type
+        type: 'unsupported' as ChartType,
         dataColumn: 'Value',
         labelColumn: 'Category',
         aggregation: 'sum',
@@ -111,7 +120,7 @@ describe('ChartDataProcessor', () => {
       }
 
       expect(() => processor.prepareChartData(basicData, config, mockColumnInfos)).toThrow(
-        'Chart type "bar" is not supported. Only pie charts are available.',
+        'Chart type "unsupported" is not supported.',
       )
     })
 
@@ -245,6 +254,829 @@ describe('ChartDataProcessor', () => {
     })
   })
 
+  describe('bar charts', () => {
+    const barConfig: ChartConfig = {
+      id: 'bar-test',
+      title: 'Bar Test',
+      type: 'bar',
+      dataColumn: 'Amount',
+      labelColumn: 'Category',
+      aggregation: 'sum',
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'top' },
+          title: { display: false, text: 'Bar Test' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+    }
+
+    it('should aggregate by label and sort by value descending by default', () => {
+      const result = processor.prepareChartData(basicData, barConfig, mockColumnInfos)
+
+      expect(result).toEqual({
+        labels: ['B', 'C', 'A'],
+        datasets: [
+          {
+            label: 'Bar Test',
+            data: [450, 300, 250],
+            backgroundColor: '#3b82f6',
+            borderColor: '#3b82f6',
+            borderWidth: 1,
+          },
+        ],
+        segmentRows: [[1, 4], [2], [0, 3]],
+      })
+    })
+
+    it('should sort by label when requested', () => {
+      const config: ChartConfig = { ...barConfig, sortBy: 'label', sortDirection: 'asc' }
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      expect(result.labels).toEqual(['A', 'B', 'C'])
+      expect(result.datasets[0].data).toEqual([250, 450, 300])
+    })
+
+    it('should sort by value ascending', () => {
+      const config: ChartConfig = { ...barConfig, sortDirection: 'asc' }
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      expect(result.datasets[0].data).toEqual([250, 300, 450])
+    })
+
+    it('should keep zero and negative values that pie charts would drop', () => {
+      const data = [
+        ['A', 0, -50],
+        ['B', 0, 20],
+      ]
+      const result = processor.prepareChartData(data, barConfig, mockColumnInfos)
+
+      expect(result.labels).toEqual(['B', 'A'])
+      expect(result.datasets[0].data).toEqual([20, -50])
+    })
+
+    it('should count category occurrences without a label column', () => {
+      const config: ChartConfig = {
+        ...barConfig,
+        dataColumn: 'Category',
+        labelColumn: undefined,
+        aggregation: 'count',
+      }
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      expect(result.datasets[0].data).toEqual([2, 2, 1])
+    })
+
+    it('should throw when no valid data found', () => {
+      expect(() => processor.prepareChartData([], barConfig, mockColumnInfos)).toThrow(
+        'No valid data found for bar chart',
+      )
+    })
+  })
+
+  describe('multi-series bar charts', () => {
+    const seriesColumnInfos: ColumnInfo[] = ['Region', 'Product', 'Sales'].map((name, index) => ({
+      name,
+      index,
+      type: name === 'Sales' ? 'number' : 'string',
+      uniqueValues: [],
+      uniqueCount: 0,
+      hasNulls: false,
+      nullCount: 0,
+      sampleValues: [],
+    }))
+
+    const seriesConfig: ChartConfig = {
+      id: 'series-test',
+      title: 'Sales by Region',
+      type: 'bar',
+      dataColumn: 'Sales',
+      labelColumn: 'Region',
+      seriesColumn: 'Product',
+      aggregation: 'sum',
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'top' },
+          title: { display: false, text: 'Sales by Region' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+    }
+
+    const salesData: DataMatrix = [
+      ['North', 'Widgets', 30],
+      ['North', 'Gadgets', 10],
+      ['South', 'Widgets', 20],
+      ['East', 'Gadgets', 50],
+      ['South', 'Widgets', 20],
+    ]
+
+    it('should build one dataset per series value over shared categories', () => {
+      const result = processor.prepareChartData(salesData, seriesConfig, seriesColumnInfos)
+
+      expect(result.labels).toEqual(['East', 'North', 'South'])
+      expect(result.datasets.map((d) => d.label)).toEqual(['Widgets', 'Gadgets'])
+      expect(result.datasets[0].data).toEqual([null, 30, 40])
+      expect(result.datasets[1].data).toEqual([50, 10, null])
+      expect(result.datasets[0].backgroundColor).not.toEqual(result.datasets[1].backgroundColor)
+    })
+
+    it('should scale each category to 100% in percent mode', () => {
+      const config: ChartConfig = { ...seriesConfig, barMode: 'percent' }
+      const result = processor.prepareChartData(salesData, config, seriesColumnInfos)
+
+      expect(result.datasets[0].data).toEqual([null, 75, 100])
+      expect(result.datasets[1].data).toEqual([100, 25, null])
+    })
+
+    it('should keep the rows behind each series bar and filter by both columns', () => {
+      const result = processor.prepareChartData(salesData, seriesConfig, seriesColumnInfos)
+
+      // Labels are East, North, South; datasets are Widgets, Gadgets
+      expect(result.seriesRows).toEqual([
+        [[], [0], [2, 4]],
+        [[3], [1], []],
+      ])
+      expect(result.segmentRows?.[1]).toEqual([0, 1])
+      expect(processor.getSegmentSelection(result, seriesConfig, 1, seriesColumnInfos, 1)).toEqual({
+        column: 'Region',
+        value: 'North',
+        series: { column: 'Product', value: 'Gadgets' },
+      })
+    })
+
+    it('should merge series beyond maxSegments into Others', () => {
+      const data: DataMatrix = [...salesData, ['North', 'Gizmos', 5], ['South', 'Doohickeys', 5]]
+      const config: ChartConfig = { ...seriesConfig, maxSegments: 2 }
+      const result = processor.prepareChartData(data, config, seriesColumnInfos)
+
+      expect(result.datasets.map((d) => d.label)).toEqual(['Widgets', 'Others'])
+      expect(result.datasets[1].data).toEqual([50, 15, 5])
+    })
+
+    it('should throw when the series column does not exist', () => {
+      const config: ChartConfig = { ...seriesConfig, seriesColumn: 'Missing' }
+      expect(() => processor.prepareChartData(salesData, config, seriesColumnInfos)).toThrow(
+        'Column not found: Missing',
+      )
+    })
+  })
+
+  describe('line charts', () => {
+    const dateColumnInfos: ColumnInfo[] = [
+      {
+        name: 'Date',
+        index: 0,
+        type: 'date',
+        uniqueValues: [],
+        uniqueCount: 0,
+        hasNulls: false,
+        nullCount: 0,
+        sampleValues: [],
+      },
+      {
+        name: 'Sales',
+        index: 1,
+        type: 'number',
+        uniqueValues: [],
+        uniqueCount: 0,
+        hasNulls: false,
+        nullCount: 0,
+        sampleValues: [],
+      },
+    ]
+
+    const lineConfig: ChartConfig = {
+      id: 'line-test',
+      title: 'Sales Trend',
+      type: 'line',
+      dataColumn: 'Sales',
+      labelColumn: 'Date',
+      aggregation: 'sum',
+      dateBucket: 'month',
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'top' },
+          title: { display: false, text: 'Sales Trend' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+    }
+
+    const salesData: DataMatrix = [
+      [new Date(2024, 0, 5), 100],
+      [new Date(2024, 0, 20), 50],
+      [new Date(2024, 3, 2), 30],
+      [new Date(2024, 1, 10), 20],
+    ]
+
+    it('should bucket by month in chronological order and fill empty months with zero', () => {
+      const result = processor.prepareChartData(salesData, lineConfig, dateColumnInfos)
+
+      expect(result.labels).toEqual(['Jan 2024', 'Feb 2024', 'Mar 2024', 'Apr 2024'])
+      expect(result.datasets[0].data).toEqual([150, 20, 0, 30])
+    })
+
+    it('should leave gaps as null for non-additive aggregations', () => {
+      const config: ChartConfig = { ...lineConfig, aggregation: 'average' }
+      const result = processor.prepareChartData(salesData, config, dateColumnInfos)
+
+      expect(result.datasets[0].data).toEqual([75, 20, null, 30])
+    })
+
+    it('should support quarter and year buckets', () => {
+      const quarterly = processor.prepareChartData(
+        salesData,
+        { ...lineConfig, dateBucket: 'quarter' },
+        dateColumnInfos,
+      )
+      expect(quarterly.labels).toEqual(['2024-Q1', '2024-Q2'])
+      expect(quarterly.datasets[0].data).toEqual([170, 30])
+
+      const yearly = processor.prepareChartData(
+        salesData,
+        { ...lineConfig, dateBucket: 'year' },
+        dateColumnInfos,
+      )
+      expect(yearly.labels).toEqual(['2024'])
+      expect(yearly.datasets[0].data).toEqual([200])
+    })
+
+    it('should bucket weeks starting on Monday and days individually', () => {
+      const data: DataMatrix = [
+        [new Date(2024, 0, 1), 1], // Monday
+        [new Date(2024, 0, 7), 2], // Sunday, same ISO week
+        [new Date(2024, 0, 15), 4], // Monday two weeks later
+      ]
+      const weekly = processor.prepareChartData(
+        data,
+        { ...lineConfig, dateBucket: 'week' },
+        dateColumnInfos,
+      )
+      expect(weekly.labels).toEqual(['2024-W01', '2024-W02', '2024-W03'])
+      expect(weekly.datasets[0].data).toEqual([3, 0, 4])
+
+      const daily = processor.prepareChartData(
+        data.slice(0, 2),
+        { ...lineConfig, dateBucket: 'day', aggregation: 'count' },
+        dateColumnInfos,
+      )
+      expect(daily.labels).toHaveLength(7)
+      expect(daily.labels[0]).toBe('2024-01-01')
+      expect(daily.datasets[0].data).toEqual([1, 0, 0, 0, 0, 0, 1])
+    })
+
+    it('should parse date strings and skip rows without a valid date', () => {
+      const data: DataMatrix = [
+        ['2024-03-10T12:00:00', 5],
+        ['not a date', 100],
+        ['', 7],
+        ['2024-03-25T12:00:00', 5],
+      ]
+      const result = processor.prepareChartData(data, lineConfig, dateColumnInfos)
+
+      expect(result.labels).toEqual(['Mar 2024'])
+      expect(result.datasets[0].data).toEqual([10])
+    })
+
+    it('should require a date column', () => {
+      const config: ChartConfig = { ...lineConfig, labelColumn: undefined }
+      expect(() => processor.prepareChartData(salesData, config, dateColumnInfos)).toThrow(
+        'Line charts require a date column for the x-axis.',
+      )
+    })
+
+    it('should refuse to fill an unreasonable number of buckets', () => {
+      const data: DataMatrix = [
+        [new Date(1950, 0, 1), 1],
+        [new Date(2024, 0, 1), 1],
+      ]
+      const config: ChartConfig = { ...lineConfig, dateBucket: 'day' }
+      expect(() => processor.prepareChartData(data, config, dateColumnInfos)).toThrow(
+        /Too many day buckets/,
+      )
+    })
+  })
+
+  describe('scatter plots', () => {
+    // Columns: Category (string), Value (number, x), Amount (number, y)
+    const scatterConfig: ChartConfig = {
+      id: 'scatter-test',
+      title: 'Amount vs Value',
+      type: 'scatter',
+      dataColumn: 'Amount',
+      labelColumn: 'Value',
+      aggregation: 'count',
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'top' },
+          title: { display: false, text: 'Amount vs Value' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+    }
+
+    const pointData: DataMatrix = [
+      ['A', 1, 3],
+      ['B', 2, 5],
+      ['A', 3, 7],
+      ['B', 'n/a', 9],
+      ['C', 4, 9],
+    ]
+
+    it('should plot x/y points and skip rows with non-numeric values', () => {
+      const result = processor.prepareChartData(pointData, scatterConfig, mockColumnInfos)
+
+      expect(result.labels).toEqual([])
+      expect(result.datasets).toHaveLength(1)
+      expect(result.datasets[0].data).toEqual([
+        { x: 1, y: 3 },
+        { x: 2, y: 5 },
+        { x: 3, y: 7 },
+        { x: 4, y: 9 },
+      ])
+      expect(result.trendline).toBeUndefined()
+    })
+
+    it('should split points into one dataset per color category', () => {
+      const config: ChartConfig = { ...scatterConfig, colorColumn: 'Category' }
+      const result = processor.prepareChartData(pointData, config, mockColumnInfos)
+
+      expect(result.datasets.map((d) => d.label)).toEqual(['A', 'B', 'C'])
+      expect(result.datasets[0].data).toEqual([
+        { x: 1, y: 3 },
+        { x: 3, y: 7 },
+      ])
+      expect(result.datasets[0].backgroundColor).not.toEqual(result.datasets[1].backgroundColor)
+    })
+
+    it('should merge color categories beyond maxSegments into Others', () => {
+      const config: ChartConfig = { ...scatterConfig, colorColumn: 'Category', maxSegments: 2 }
+      const result = processor.prepareChartData(pointData, config, mockColumnInfos)
+
+      expect(result.datasets.map((d) => d.label)).toEqual(['A', 'Others'])
+      expect(result.datasets[1].data).toHaveLength(2)
+    })
+
+    it('should add a dashed least-squares trendline with its stats', () => {
+      const config: ChartConfig = { ...scatterConfig, showTrendline: true }
+      const result = processor.prepareChartData(pointData, config, mockColumnInfos)
+
+      expect(result.trendline?.slope).toBeCloseTo(2)
+      expect(result.trendline?.intercept).toBeCloseTo(1)
+      expect(result.trendline?.rSquared).toBeCloseTo(1)
+
+      const trend = result.datasets[1]
+      expect(trend.label).toBe('Trend: y = 2x + 1 (R² = 1.000)')
+      expect(trend.showLine).toBe(true)
+      expect(trend.data).toEqual([
+        { x: 1, y: 3 },
+        { x: 4, y: 9 },
+      ])
+    })
+
+    it('should require an x-axis column and numeric data', () => {
+      expect(() =>
+        processor.prepareChartData(
+          pointData,
+          { ...scatterConfig, labelColumn: undefined },
+          mockColumnInfos,
+        ),
+      ).toThrow('Scatter plots require a numeric column for the x-axis.')
+      expect(() =>
+        processor.prepareChartData([['A', 'x', 'y']], scatterConfig, mockColumnInfos),
+      ).toThrow('No valid data found for scatter plot')
+    })
+  })
+
+  describe('computeLinearRegression', () => {
+    it('should fit noisy data and report goodness of fit', () => {
+      const result = processor.computeLinearRegression([
+        { x: 1, y: 2 },
+        { x: 2, y: 4 },
+        { x: 3, y: 5 },
+        { x: 4, y: 4 },
+        { x: 5, y: 5 },
+      ])
+
+      expect(result?.slope).toBeCloseTo(0.6)
+      expect(result?.intercept).toBeCloseTo(2.2)
+      expect(result?.rSquared).toBeCloseTo(0.6)
+    })
+
+    it('should return null when there is nothing to fit', () => {
+      expect(processor.computeLinearRegression([{ x: 1, y: 1 }])).toBeNull()
+      expect(
+        processor.computeLinearRegression([
+          { x: 2, y: 1 },
+          { x: 2, y: 5 },
+        ]),
+      ).toBeNull()
+    })
+  })
+
+  describe('histograms', () => {
+    const histogramConfig: ChartConfig = {
+      id: 'histogram-test',
+      title: 'Value Distribution',
+      type: 'histogram',
+      dataColumn: 'Value',
+      aggregation: 'count',
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'top' },
+          title: { display: false, text: 'Value Distribution' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+    }
+
+    const valueRows = (values: CellValue[]): DataMatrix => values.map((v) => ['x', v, 0])
+
+    it('should bin with Sturges by default and count every value once', () => {
+      const values = [1, 2, 2, 3, 4, 5, 6, 7, 8, 9]
+      const result = processor.prepareChartData(valueRows(values), histogramConfig, mockColumnInfos)
+
+      // ceil(log2(10)) + 1 = 5 bins over [1, 9]
+      expect(result.labels).toHaveLength(5)
+      expect(result.labels[0]).toBe('1–2.6')
+      const counts = result.datasets[0].data as number[]
+      expect(counts.reduce((a, b) => a + b, 0)).toBe(values.length)
+      expect(counts[counts.length - 1]).toBeGreaterThan(0)
+    })
+
+    it('should use fixed-width bins aligned to the width', () => {
+      const config: ChartConfig = { ...histogramConfig, binMethod: 'width', binWidth: 10 }
+      const result = processor.prepareChartData(
+        valueRows([3, 12, 15, 27, 'n/a', '']),
+        config,
+        mockColumnInfos,
+      )
+
+      expect(result.labels).toEqual(['0–10', '10–20', '20–30'])
+      expect(result.datasets[0].data).toEqual([1, 2, 1])
+    })
+
+    it('should count values into custom numeric ranges', () => {
+      const ranges: NumericRange[] = [
+        { id: '1', label: 'Low', min: 0, max: 10, includeMin: true, includeMax: false },
+        { id: '2', label: 'High', min: 10, max: 100, includeMin: true, includeMax: true },
+      ]
+      const config: ChartConfig = {
+        ...histogramConfig,
+        binMethod: 'custom',
+        numericRanges: ranges,
+      }
+      const result = processor.prepareChartData(
+        valueRows([1, 5, 10, 50, 500]),
+        config,
+        mockColumnInfos,
+      )
+
+      expect(result.labels).toEqual(['Low', 'High'])
+      expect(result.datasets[0].data).toEqual([2, 2])
+    })
+
+    it('should reject invalid binning settings', () => {
+      const rows = valueRows([1, 2, 3])
+      expect(() =>
+        processor.prepareChartData(
+          rows,
+          { ...histogramConfig, binMethod: 'custom' },
+          mockColumnInfos,
+        ),
+      ).toThrow('Custom histogram bins require at least one range.')
+      expect(() =>
+        processor.prepareChartData(
+          rows,
+          { ...histogramConfig, binMethod: 'width', binWidth: 0 },
+          mockColumnInfos,
+        ),
+      ).toThrow('Histogram bin width must be a positive number.')
+      expect(() =>
+        processor.prepareChartData(
+          valueRows([0, 1000]),
+          { ...histogramConfig, binMethod: 'width', binWidth: 1 },
+          mockColumnInfos,
+        ),
+      ).toThrow(/Too many histogram bins/)
+    })
+
+    it('should throw when the column has no numbers', () => {
+      expect(() =>
+        processor.prepareChartData(valueRows(['a', '']), histogramConfig, mockColumnInfos),
+      ).toThrow('No valid data found for histogram')
+    })
+  })
+
+  describe('computeHistogramBins', () => {
+    it('should widen Freedman–Diaconis bins for spread-out data', () => {
+      const values = Array.from({ length: 100 }, (_, i) => i)
+      const bins = processor.computeHistogramBins(values, 'freedman-diaconis')
+
+      // IQR = 49.5, width = 2 * 49.5 / cbrt(100) ≈ 21.3
+      expect(bins).toHaveLength(5)
+      expect(bins[0].min).toBe(0)
+      expect(bins[bins.length - 1].max).toBeGreaterThanOrEqual(99)
+      expect(bins[bins.length - 1].includeMax).toBe(true)
+    })
+
+    it('should fall back to Sturges when Freedman–Diaconis gives too many bins', () => {
+      // Tightly packed values with a long tail: IQR ≈ 0.5, so FD would need thousands of bins
+      const values = [...Array.from({ length: 200 }, (_, i) => i / 200), 10_000, 50_000]
+      const bins = processor.computeHistogramBins(values, 'freedman-diaconis')
+
+      // Sturges: ceil(log2(202)) + 1 = 9
+      expect(bins).toHaveLength(9)
+      expect(bins[bins.length - 1].max).toBeGreaterThanOrEqual(50_000)
+    })
+
+    it('should return a single bin when all values are equal', () => {
+      const bins = processor.computeHistogramBins([4, 4, 4], 'sturges')
+      expect(bins).toEqual([
+        { id: 'bin-0', label: '4', min: 4, max: 4, includeMin: true, includeMax: true },
+      ])
+    })
+  })
+
+  describe('box plots and violins', () => {
+    const boxConfig: ChartConfig = {
+      id: 'box-test',
+      title: 'Value Spread',
+      type: 'boxplot',
+      dataColumn: 'Value',
+      labelColumn: 'Category',
+      aggregation: 'count',
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'top' },
+          title: { display: false, text: 'Value Spread' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+    }
+
+    const spreadData: DataMatrix = [
+      ['B', 1, 0],
+      ['B', 2, 0],
+      ['B', 3, 0],
+      ['B', 4, 0],
+      ['B', 100, 0],
+      ['A', 10, 0],
+      ['A', 20, 0],
+      ['A', 'n/a', 0],
+    ]
+
+    it('should summarise each category in label order with Tukey outliers', () => {
+      const result = processor.prepareChartData(spreadData, boxConfig, mockColumnInfos)
+
+      expect(result.labels).toEqual(['A', 'B'])
+      expect(result.boxPlots?.[1]).toEqual({
+        count: 5,
+        min: 1,
+        q1: 2,
+        median: 3,
+        q3: 4,
+        max: 100,
+        lowerWhisker: 1,
+        upperWhisker: 4,
+        outliers: [100],
+      })
+      expect(result.datasets.map((d) => d.label)).toEqual([
+        'Interquartile range',
+        'Whiskers',
+        'Median',
+        'Outliers',
+      ])
+      expect(result.datasets[0].data).toEqual([
+        [12.5, 17.5],
+        [2, 4],
+      ])
+      expect(result.datasets[2].data).toEqual([15, 3])
+      expect(result.datasets[3].data).toEqual([{ x: 1, y: 100 }])
+    })
+
+    it('should summarise the whole column without a label column', () => {
+      const config: ChartConfig = { ...boxConfig, labelColumn: undefined }
+      const result = processor.prepareChartData(spreadData, config, mockColumnInfos)
+
+      expect(result.labels).toEqual(['Value'])
+      expect(result.boxPlots?.[0].count).toBe(7)
+    })
+
+    it('should draw one closed violin outline per category plus medians', () => {
+      const config: ChartConfig = { ...boxConfig, type: 'violin' }
+      const result = processor.prepareChartData(spreadData, config, mockColumnInfos)
+
+      expect(result.datasets.map((d) => d.label)).toEqual(['A', 'B', 'Median'])
+      const outline = result.datasets[1].data as { x: number; y: number }[]
+      expect(outline[0]).toEqual(outline[outline.length - 1])
+      expect(Math.min(...outline.map((p) => p.x))).toBeGreaterThanOrEqual(0.6)
+      expect(Math.max(...outline.map((p) => p.x))).toBeLessThanOrEqual(1.4)
+      expect(result.datasets[2].data).toEqual([
+        { x: 0, y: 15 },
+        { x: 1, y: 3 },
+      ])
+    })
+
+    it('should throw when the column has no numbers', () => {
+      expect(() => processor.prepareChartData([['A', 'x', 0]], boxConfig, mockColumnInfos)).toThrow(
+        'No valid data found for box plot',
+      )
+    })
+  })
+
+  describe('computeKernelDensity', () => {
+    it('should peak where values cluster', () => {
+      const density = processor.computeKernelDensity([1, 2, 2, 2, 3, 10], 10)
+
+      expect(density).toHaveLength(10)
+      expect(density[0].value).toBe(1)
+      expect(density[9].value).toBe(10)
+      const peak = density.reduce((a, b) => (b.density > a.density ? b : a))
+      expect(peak.value).toBeLessThan(4)
+    })
+  })
+
+  describe('computeQuantile', () => {
+    it('should interpolate between closest ranks', () => {
+      const sorted = [1, 2, 3, 4]
+      expect(processor.computeQuantile(sorted, 0)).toBe(1)
+      expect(processor.computeQuantile(sorted, 0.5)).toBe(2.5)
+      expect(processor.computeQuantile(sorted, 0.25)).toBe(1.75)
+      expect(processor.computeQuantile(sorted, 1)).toBe(4)
+    })
+  })
+
+  describe('getSegmentSelection', () => {
+    const segmentConfig: ChartConfig = {
+      id: 'segment-test',
+      title: 'Segments',
+      type: 'pie',
+      dataColumn: 'Value',
+      labelColumn: 'Category',
+      aggregation: 'sum',
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'right' },
+          title: { display: false, text: 'Segments' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+    }
+
+    it('selects the category behind a slice on the label column', () => {
+      const chartData = processor.prepareChartData(basicData, segmentConfig, mockColumnInfos)
+
+      expect(processor.getSegmentSelection(chartData, segmentConfig, 0, mockColumnInfos)).toEqual({
+        column: 'Category',
+        value: chartData.labels[0],
+      })
+    })
+
+    it('skips merged segments such as Others', () => {
+      const chartData = { labels: ['A', 'Others'], datasets: [] }
+
+      expect(processor.getSegmentSelection(chartData, segmentConfig, 1, mockColumnInfos)).toBeNull()
+      expect(processor.getSegmentSelection(chartData, segmentConfig, 5, mockColumnInfos)).toBeNull()
+    })
+
+    it('selects the histogram bin behind a bar', () => {
+      const config: ChartConfig = { ...segmentConfig, type: 'histogram', labelColumn: undefined }
+      const chartData = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      const selection = processor.getSegmentSelection(chartData, config, 0, mockColumnInfos)
+      expect(selection?.column).toBe('Value')
+      expect(selection?.range).toEqual(chartData.ranges?.[0])
+    })
+
+    it('maps default numeric pie buckets back to their range', () => {
+      const config: ChartConfig = {
+        ...segmentConfig,
+        labelColumn: undefined,
+        aggregation: 'count',
+      }
+      const chartData = { labels: ['10-100'], datasets: [] }
+
+      expect(processor.getSegmentSelection(chartData, config, 0, mockColumnInfos)).toEqual({
+        column: 'Value',
+        range: expect.objectContaining({ min: 10, max: 100, includeMin: true, includeMax: false }),
+      })
+    })
+
+    it('uses custom ranges for numeric pies that define them', () => {
+      const ranges: NumericRange[] = [
+        { id: 'low', label: 'Low', min: 0, max: 20, includeMin: true, includeMax: false },
+      ]
+      const config: ChartConfig = {
+        ...segmentConfig,
+        labelColumn: undefined,
+        aggregation: 'count',
+        numericRanges: ranges,
+      }
+
+      expect(
+        processor.getSegmentSelection(
+          { labels: ['Low'], datasets: [] },
+          config,
+          0,
+          mockColumnInfos,
+        ),
+      ).toEqual({ column: 'Value', range: ranges[0] })
+    })
+  })
+
+  describe('segment rows', () => {
+    const rowsConfig: ChartConfig = {
+      id: 'rows-test',
+      title: 'Rows',
+      type: 'pie',
+      dataColumn: 'Value',
+      labelColumn: 'Category',
+      aggregation: 'sum',
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'right' },
+          title: { display: false, text: 'Rows' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+    }
+
+    it('keeps source row indices, skipping empty rows', () => {
+      const data = [['A', 10, 1], [], ['B', 5, 1], ['A', 2, 1]]
+      const result = processor.prepareChartData(data, rowsConfig, mockColumnInfos)
+
+      expect(result.labels).toEqual(['A', 'B'])
+      expect(result.segmentRows).toEqual([[0, 3], [2]])
+    })
+
+    it('merges the rows of segments folded into Others', () => {
+      const data = [
+        ['A', 50, 1],
+        ['B', 40, 1],
+        ['C', 5, 1],
+        ['D', 3, 1],
+      ]
+      const config: ChartConfig = { ...rowsConfig, maxSegments: 3 }
+      const result = processor.prepareChartData(data, config, mockColumnInfos)
+
+      expect(result.labels).toEqual(['A', 'B', 'Others'])
+      expect(result.segmentRows?.[2]).toEqual([2, 3])
+    })
+
+    it('follows the shared label order for multi-series bars', () => {
+      const config: ChartConfig = { ...rowsConfig, type: 'bar', seriesColumn: 'Amount' }
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      expect(result.labels).toEqual(['B', 'C', 'A'])
+      expect(result.segmentRows).toEqual([[1, 4], [2], [0, 3]])
+    })
+
+    it('lists the rows in each histogram bin', () => {
+      const config: ChartConfig = {
+        ...rowsConfig,
+        type: 'histogram',
+        labelColumn: undefined,
+        binMethod: 'width',
+        binWidth: 10,
+      }
+      const data = [
+        ['x', 3, 0],
+        ['x', 'n/a', 0],
+        ['x', 12, 0],
+        ['x', 15, 0],
+      ]
+      const result = processor.prepareChartData(data, config, mockColumnInfos)
+
+      expect(result.segmentRows).toEqual([[0], [2, 3]])
+    })
+  })
+
   describe('aggregation methods', () => {
     const testConfig: ChartConfig = {
       id: 'agg-test',
@@ -343,6 +1175,563 @@ describe('ChartDataProcessor', () => {
     })
   })
 
+  describe('extended aggregations', () => {
+    // Bars ordered by label so each expectation reads A, B, C
+    const extendedConfig: ChartConfig = {
+      id: 'extended-test',
+      title: 'Extended',
+      type: 'bar',
+      dataColumn: 'Amount',
+      labelColumn: 'Category',
+      aggregation: 'sum',
+      sortBy: 'label',
+      sortDirection: 'asc',
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'top' },
+          title: { display: false, text: 'Extended' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+    }
+
+    const aggregate = (overrides: Partial<ChartConfig>, data: DataMatrix = basicData) =>
+      processor.prepareChartData(data, { ...extendedConfig, ...overrides }, mockColumnInfos)
+        .datasets[0].data
+
+    it('computes sample standard deviation and variance', () => {
+      expect(aggregate({ aggregation: 'variance' })).toEqual([1250, 1250, 0])
+      const stddev = aggregate({ aggregation: 'stddev' }) as number[]
+      expect(stddev[0]).toBeCloseTo(35.355, 3)
+      expect(stddev[2]).toBe(0)
+    })
+
+    it('computes the requested percentile, defaulting to p90', () => {
+      expect(aggregate({ aggregation: 'percentile' })).toEqual([145, 245, 300])
+      expect(aggregate({ aggregation: 'percentile', percentile: 50 })).toEqual([125, 225, 300])
+    })
+
+    it('picks the most frequent value, breaking ties toward the smallest', () => {
+      const data = [
+        ['A', 0, 5],
+        ['A', 0, 7],
+        ['A', 0, 7],
+        ['B', 0, 9],
+        ['B', 0, 3],
+      ]
+      expect(aggregate({ aggregation: 'mode' }, data)).toEqual([7, 3])
+    })
+
+    it('takes first and last values by row order or by a sort column', () => {
+      const data = [
+        ['A', 2, 100],
+        ['A', 1, 150],
+        ['A', '', 175],
+        ['B', 5, 200],
+      ]
+      expect(aggregate({ aggregation: 'first' }, data)).toEqual([100, 200])
+      expect(aggregate({ aggregation: 'last' }, data)).toEqual([175, 200])
+      // Rows without a sort key are skipped
+      expect(aggregate({ aggregation: 'first', orderColumn: 'Value' }, data)).toEqual([150, 200])
+      expect(aggregate({ aggregation: 'last', orderColumn: 'Value' }, data)).toEqual([100, 200])
+    })
+
+    it('orders first and last by dates in the sort column', () => {
+      const data = [
+        ['A', '2024-03-01', 1],
+        ['A', '2024-01-15', 2],
+        ['A', '2024-02-10', 3],
+      ]
+      expect(aggregate({ aggregation: 'first', orderColumn: 'Value' }, data)).toEqual([2])
+      expect(aggregate({ aggregation: 'last', orderColumn: 'Value' }, data)).toEqual([1])
+    })
+
+    it('weights the average by the weight column', () => {
+      const result = aggregate({ aggregation: 'weighted_average', weightColumn: 'Value' })
+      expect(result[0]).toBe(130) // (100*10 + 150*15) / 25
+      expect(result[1]).toBeCloseTo(227.78, 2) // (200*20 + 250*25) / 45
+      expect(result[2]).toBe(300)
+    })
+
+    it('requires a weight column for weighted averages', () => {
+      expect(() => aggregate({ aggregation: 'weighted_average' })).toThrow(
+        'Weighted average needs a weight column.',
+      )
+    })
+
+    it('expresses each label as a percent of the chart total', () => {
+      expect(aggregate({ aggregation: 'percent_of_total' })).toEqual([25, 45, 30])
+    })
+
+    it('accumulates running totals in display order', () => {
+      expect(aggregate({ aggregation: 'running_total' })).toEqual([250, 700, 1000])
+      expect(aggregate({ aggregation: 'running_total', sortDirection: 'desc' })).toEqual([
+        300, 750, 1000,
+      ])
+    })
+
+    it('shares the grand total across series for percent of total', () => {
+      const data = [
+        ['A', 'x', 10],
+        ['A', 'y', 30],
+        ['B', 'x', 60],
+      ]
+      const result = processor.prepareChartData(
+        data,
+        { ...extendedConfig, aggregation: 'percent_of_total', seriesColumn: 'Value' },
+        mockColumnInfos,
+      )
+      expect(result.datasets.map((d) => d.data)).toEqual([
+        [10, 60],
+        [30, null],
+      ])
+    })
+  })
+
+  describe('annotations', () => {
+    const annotatedBar = (annotations: ChartAnnotation[], overrides: Partial<ChartConfig> = {}) =>
+      ({
+        id: 'annotated',
+        title: 'Annotated',
+        type: 'bar',
+        dataColumn: 'Amount',
+        labelColumn: 'Category',
+        aggregation: 'sum',
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          plugins: {
+            legend: { display: true, position: 'top' },
+            title: { display: false, text: 'Annotated' },
+            tooltip: { enabled: true },
+          },
+        },
+        position: { row: 0, column: 0, width: 1, height: 1 },
+        annotations,
+        ...overrides,
+      }) as ChartConfig
+
+    it('should resolve constant and column-statistic reference lines', () => {
+      const config = annotatedBar([
+        {
+          id: 'target',
+          kind: 'line',
+          orientation: 'horizontal',
+          value: { source: 'constant', value: 400 },
+          label: 'Target',
+        },
+        { id: 'mean', kind: 'line', orientation: 'horizontal', value: { source: 'mean' } },
+        { id: 'median', kind: 'line', orientation: 'horizontal', value: { source: 'median' } },
+        {
+          id: 'p90',
+          kind: 'line',
+          orientation: 'horizontal',
+          value: { source: 'percentile', percentile: 90, column: 'Amount' },
+        },
+      ])
+
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      expect(result.annotations).toEqual([
+        { id: 'target', kind: 'line', axis: 'y', value: 400, label: 'Target', color: '#dc2626' },
+        {
+          id: 'mean',
+          kind: 'line',
+          axis: 'y',
+          value: 200,
+          label: 'Mean of Amount: 200',
+          color: '#dc2626',
+        },
+        {
+          id: 'median',
+          kind: 'line',
+          axis: 'y',
+          value: 200,
+          label: 'Median of Amount: 200',
+          color: '#dc2626',
+        },
+        {
+          id: 'p90',
+          kind: 'line',
+          axis: 'y',
+          value: 280,
+          label: 'P90 of Amount: 280',
+          color: '#dc2626',
+        },
+      ])
+    })
+
+    it('should place bands with their edges in order and categories by index', () => {
+      const config = annotatedBar([
+        {
+          id: 'band',
+          kind: 'band',
+          orientation: 'horizontal',
+          from: { source: 'constant', value: 300 },
+          to: { source: 'constant', value: 100 },
+          color: '#22c55e',
+        },
+        {
+          id: 'focus',
+          kind: 'band',
+          orientation: 'vertical',
+          from: { source: 'category', category: 'C' },
+          to: { source: 'category', category: 'A' },
+        },
+      ])
+
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      // Labels are sorted by value: B(450), C(300), A(250)
+      expect(result.annotations).toEqual([
+        { id: 'band', kind: 'band', axis: 'y', from: 100, to: 300, label: '', color: '#22c55e' },
+        { id: 'focus', kind: 'band', axis: 'x', from: 1, to: 2, label: '', color: '#f59e0b' },
+      ])
+    })
+
+    it('should put notes on top of their bar, swapping axes for horizontal bars', () => {
+      const note: ChartAnnotation = { id: 'n', kind: 'note', text: 'Best', label: 'B' }
+
+      const vertical = processor.prepareChartData(basicData, annotatedBar([note]), mockColumnInfos)
+      const horizontal = processor.prepareChartData(
+        basicData,
+        annotatedBar([note], { orientation: 'horizontal' }),
+        mockColumnInfos,
+      )
+
+      expect(vertical.annotations).toEqual([
+        { id: 'n', kind: 'note', text: 'Best', x: 0, y: 450, color: '#111827' },
+      ])
+      expect(horizontal.annotations).toEqual([
+        { id: 'n', kind: 'note', text: 'Best', x: 450, y: 0, color: '#111827' },
+      ])
+    })
+
+    it('should take scatter reference values and notes on both numeric axes', () => {
+      const config = annotatedBar(
+        [
+          { id: 'x', kind: 'line', orientation: 'vertical', value: { source: 'mean' } },
+          { id: 'n', kind: 'note', text: 'Outlier', x: 30, y: 300 },
+        ],
+        { type: 'scatter', labelColumn: 'Value' },
+      )
+
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      // Vertical lines on a scatter chart default to the x column
+      expect(result.annotations).toEqual([
+        {
+          id: 'x',
+          kind: 'line',
+          axis: 'x',
+          value: 20,
+          label: 'Mean of Value: 20',
+          color: '#dc2626',
+        },
+        { id: 'n', kind: 'note', text: 'Outlier', x: 30, y: 300, color: '#111827' },
+      ])
+    })
+
+    it('should drop annotations that cannot be placed', () => {
+      const config = annotatedBar([
+        {
+          id: 'missing',
+          kind: 'line',
+          orientation: 'horizontal',
+          value: { source: 'mean', column: 'Gone' },
+        },
+        {
+          id: 'text',
+          kind: 'line',
+          orientation: 'horizontal',
+          value: { source: 'mean', column: 'Category' },
+        },
+        {
+          id: 'axis',
+          kind: 'line',
+          orientation: 'vertical',
+          value: { source: 'constant', value: 5 },
+        },
+        { id: 'label', kind: 'note', text: 'Nope', label: 'Z' },
+        {
+          id: 'ok',
+          kind: 'line',
+          orientation: 'horizontal',
+          value: { source: 'constant', value: 5 },
+        },
+      ])
+
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      expect(result.annotations?.map((a) => a.id)).toEqual(['ok'])
+    })
+
+    it('should ignore annotations on chart types that do not draw them', () => {
+      const config = annotatedBar(
+        [
+          {
+            id: 'l',
+            kind: 'line',
+            orientation: 'horizontal',
+            value: { source: 'constant', value: 1 },
+          },
+        ],
+        { type: 'pie' },
+      )
+
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos)
+
+      expect(result.annotations).toBeUndefined()
+    })
+  })
+
+  describe('treemaps and sunbursts', () => {
+    const salesColumns: ColumnInfo[] = ['Region', 'Country', 'Sales'].map((name, index) => ({
+      name,
+      index,
+      type: name === 'Sales' ? 'number' : 'string',
+      uniqueValues: [],
+      uniqueCount: 0,
+      hasNulls: false,
+      nullCount: 0,
+      sampleValues: [],
+    }))
+    const sales: DataMatrix = [
+      ['Europe', 'France', 100],
+      ['Europe', 'Spain', 50],
+      ['Europe', 'France', 30],
+      ['Asia', 'Japan', 200],
+      ['Asia', '', 10],
+      ['Asia', 'Japan', -40],
+    ]
+    const hierarchyConfig = (overrides: Partial<ChartConfig> = {}): ChartConfig => ({
+      id: 'tree',
+      title: 'Sales',
+      type: 'treemap',
+      dataColumn: 'Sales',
+      aggregation: 'sum',
+      hierarchyColumns: ['Region', 'Country'],
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: true, position: 'top' },
+          title: { display: false, text: 'Sales' },
+          tooltip: { enabled: true },
+        },
+      },
+      position: { row: 0, column: 0, width: 1, height: 1 },
+      ...overrides,
+    })
+
+    it('should nest the aggregated values under each category level', () => {
+      const result = processor.prepareChartData(sales, hierarchyConfig(), salesColumns)
+      const root = result.hierarchy!
+
+      expect(root.value).toBe(350)
+      expect(root.children.map((c) => [c.name, c.value])).toEqual([
+        ['Europe', 180],
+        ['Asia', 170],
+      ])
+      expect(root.children[0].children.map((c) => [c.name, c.value, c.rows])).toEqual([
+        ['France', 130, [0, 2]],
+        ['Spain', 50, [1]],
+      ])
+      expect(root.children[1].children.map((c) => c.path)).toEqual([
+        ['Asia', 'Japan'],
+        ['Asia', 'Unknown'],
+      ])
+      // The top level doubles as the labels, for legends and export
+      expect(result.labels).toEqual(['Europe', 'Asia'])
+      expect(result.datasets[0].data).toEqual([180, 170])
+    })
+
+    it('should aggregate every node over its own rows', () => {
+      const result = processor.prepareChartData(
+        sales,
+        hierarchyConfig({ type: 'sunburst', aggregation: 'average' }),
+        salesColumns,
+      )
+      const europe = result.hierarchy!.children.find((c) => c.name === 'Europe')!
+
+      expect(europe.value).toBe(60)
+      expect(europe.children.map((c) => c.value)).toEqual([65, 50])
+    })
+
+    it('should drop categories that add up to nothing', () => {
+      const rows: DataMatrix = [...sales, ['Africa', 'Kenya', -5]]
+      const result = processor.prepareChartData(rows, hierarchyConfig(), salesColumns)
+
+      expect(result.hierarchy!.children.map((c) => c.name)).toEqual(['Europe', 'Asia'])
+    })
+
+    it('should color every node like its top-level category', () => {
+      const colors = new CategoryColorScale()
+      const result = processor.prepareChartData(sales, hierarchyConfig(), salesColumns, colors)
+      const [europe, asia] = result.hierarchy!.children
+
+      expect(europe.color).toBe(colors.colorFor('Europe'))
+      expect(europe.children.every((c) => c.color === europe.color)).toBe(true)
+      expect(asia.children[0].color).toBe(colors.colorFor('Asia'))
+    })
+
+    it('should require at least one category level', () => {
+      expect(() =>
+        processor.prepareChartData(sales, hierarchyConfig({ hierarchyColumns: [] }), salesColumns),
+      ).toThrow('Select at least one category level for the treemap chart.')
+      expect(() =>
+        processor.prepareChartData(
+          sales,
+          hierarchyConfig({ hierarchyColumns: ['Region', 'City'] }),
+          salesColumns,
+        ),
+      ).toThrow('Column not found: City')
+    })
+  })
+
+  describe('waterfalls and funnels', () => {
+    const pnlColumns = [
+      createColumnInfo('Line', 0, 'string'),
+      createColumnInfo('Amount', 1, 'number'),
+    ]
+    const pnl: DataMatrix = [
+      ['Revenue', 100],
+      ['COGS', -40],
+      ['Opex', -30],
+      ['Revenue', 20],
+      ['Other income', 5],
+    ]
+    const stageColumns = [
+      createColumnInfo('Stage', 0, 'string'),
+      createColumnInfo('User', 1, 'string'),
+    ]
+    const visits: DataMatrix = [
+      ['Visit', 'a'],
+      ['Visit', 'b'],
+      ['Visit', 'c'],
+      ['Visit', 'd'],
+      ['Signup', 'a'],
+      ['Signup', 'b'],
+      ['Purchase', 'a'],
+    ]
+    const chartConfig = (overrides: Partial<ChartConfig>): ChartConfig =>
+      createChartConfig({
+        id: 'flow',
+        title: 'Flow',
+        type: 'waterfall',
+        dataColumn: 'Amount',
+        labelColumn: 'Line',
+        ...overrides,
+      })
+
+    it('should float each step from the running total and close with the total', () => {
+      const result = processor.prepareChartData(pnl, chartConfig({ sortBy: 'source' }), pnlColumns)
+
+      expect(result.labels).toEqual(['Revenue', 'COGS', 'Opex', 'Other income', 'Total'])
+      expect(result.datasets[0].data).toEqual([
+        [0, 120],
+        [120, 80],
+        [80, 50],
+        [50, 55],
+        [0, 55],
+      ])
+      expect(result.datasets[0].backgroundColor).toEqual([
+        '#10b981',
+        '#ef4444',
+        '#ef4444',
+        '#10b981',
+        '#3b82f6',
+      ])
+      expect(result.segmentRows).toEqual([[0, 3], [1], [2], [4], [0, 1, 2, 3, 4]])
+    })
+
+    it('should order waterfall steps by label unless told otherwise', () => {
+      const result = processor.prepareChartData(pnl, chartConfig({}), pnlColumns)
+
+      expect(result.labels).toEqual(['COGS', 'Opex', 'Other income', 'Revenue', 'Total'])
+      expect(result.datasets[0].data[0]).toEqual([0, -40])
+    })
+
+    it('should not filter on the waterfall total', () => {
+      const config = chartConfig({})
+      const result = processor.prepareChartData(pnl, config, pnlColumns)
+
+      expect(processor.getSegmentSelection(result, config, 0, pnlColumns)).toEqual({
+        column: 'Line',
+        value: 'COGS',
+      })
+      expect(processor.getSegmentSelection(result, config, 4, pnlColumns)).toBeNull()
+    })
+
+    it('should center funnel stages and work out conversion between them', () => {
+      const result = processor.prepareChartData(
+        visits,
+        chartConfig({
+          type: 'funnel',
+          dataColumn: 'Stage',
+          labelColumn: undefined,
+          aggregation: 'count',
+        }),
+        stageColumns,
+      )
+
+      expect(result.labels).toEqual(['Visit', 'Signup', 'Purchase'])
+      expect(result.datasets[0].data).toEqual([
+        [-2, 2],
+        [-1, 1],
+        [-0.5, 0.5],
+      ])
+      expect(result.funnel).toEqual([
+        { value: 4, ofFirst: 1, ofPrevious: 1 },
+        { value: 2, ofFirst: 0.5, ofPrevious: 0.5 },
+        { value: 1, ofFirst: 0.25, ofPrevious: 0.5 },
+      ])
+    })
+
+    it('should keep funnel stages in data order, even when a stage grows', () => {
+      const rows: DataMatrix = [
+        ['Visit', 'a'],
+        ['Visit', 'b'],
+        ['Trial', 'a'],
+        ['Signup', 'a'],
+        ['Signup', 'b'],
+        ['Signup', 'c'],
+      ]
+      const config = chartConfig({
+        type: 'funnel',
+        dataColumn: 'Stage',
+        labelColumn: undefined,
+        aggregation: 'count',
+      })
+      const result = processor.prepareChartData(rows, config, stageColumns)
+
+      expect(result.labels).toEqual(['Visit', 'Trial', 'Signup'])
+      expect(result.funnel!.map((stage) => stage.ofPrevious)).toEqual([1, 0.5, 3])
+
+      const bySize = processor.prepareChartData(rows, { ...config, sortBy: 'value' }, stageColumns)
+      expect(bySize.labels).toEqual(['Signup', 'Visit', 'Trial'])
+    })
+
+    it('should count distinct values per funnel stage', () => {
+      const rows: DataMatrix = [...visits, ['Signup', 'a']]
+      const result = processor.prepareChartData(
+        rows,
+        chartConfig({
+          type: 'funnel',
+          dataColumn: 'User',
+          labelColumn: 'Stage',
+          aggregation: 'distinct',
+        }),
+        stageColumns,
+      )
+
+      expect(result.funnel!.map((stage) => stage.value)).toEqual([4, 2, 1])
+    })
+  })
+
   describe('single column processing', () => {
     it('should process single column with count aggregation', () => {
       const config: ChartConfig = {
@@ -874,6 +2263,73 @@ describe('ChartDataProcessor', () => {
 
       expect(borderColors).toEqual(bgColors)
     })
+
+    it('should give a category the same color in every chart sharing a color scale', () => {
+      const pieConfig = (aggregation: AggregationType): ChartConfig => ({
+        id: `pie-${aggregation}`,
+        title: 'Pie',
+        type: 'pie',
+        dataColumn: 'Value',
+        labelColumn: 'Category',
+        aggregation,
+        options: {
+          responsive: true,
+          maintainAspectRatio: true,
+          plugins: {
+            legend: { display: true, position: 'top' },
+            title: { display: true, text: 'Pie' },
+            tooltip: { enabled: true },
+          },
+        },
+        position: { row: 0, column: 0, width: 1, height: 1 },
+      })
+      const colorsByLabel = (config: ChartConfig, data: DataMatrix, scale: CategoryColorScale) => {
+        const result = processor.prepareChartData(data, config, mockColumnInfos, scale)
+        const colors = result.datasets[0].backgroundColor as string[]
+        return Object.fromEntries(result.labels!.map((label, i) => [label, colors[i]]))
+      }
+
+      const scale = new CategoryColorScale()
+      // The two charts list the categories in different orders
+      const bySum = colorsByLabel(pieConfig('sum'), basicData, scale)
+      const byMin = colorsByLabel(pieConfig('min'), [...basicData, ['D', 1, 1]], scale)
+
+      expect(byMin.A).toBe(bySum.A)
+      expect(byMin.B).toBe(bySum.B)
+      expect(byMin.C).toBe(bySum.C)
+      expect(new Set(Object.values(byMin)).size).toBe(4)
+    })
+
+    it('should use pinned colors and the selected palette', () => {
+      const config: ChartConfig = {
+        id: 'pie-pinned',
+        title: 'Pie',
+        type: 'pie',
+        dataColumn: 'Value',
+        labelColumn: 'Category',
+        aggregation: 'sum',
+        options: {
+          responsive: true,
+          maintainAspectRatio: true,
+          plugins: {
+            legend: { display: true, position: 'top' },
+            title: { display: true, text: 'Pie' },
+            tooltip: { enabled: true },
+          },
+        },
+        position: { row: 0, column: 0, width: 1, height: 1 },
+      }
+      const scale = new CategoryColorScale({
+        palette: 'okabe-ito',
+        assigned: { A: 0, B: 1, C: 2 },
+        pinned: { C: '#123456' },
+      })
+
+      const result = processor.prepareChartData(basicData, config, mockColumnInfos, scale)
+
+      // Sorted by value: B(45), C(30), A(25)
+      expect(result.datasets[0].backgroundColor).toEqual(['#56b4e9', '#123456', '#e69f00'])
+    })
   })
 
   describe('custom range assignment', () => {
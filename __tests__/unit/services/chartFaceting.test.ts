@@ -0,0 +1,127 @@
+import { ChartFacetingService } from '@/services/chartFaceting'
+import { CategoryColorScale } from '@/services/categoryColors'
+import { ChartConfig } from '@/types/chart'
+import { ColumnInfo, DataMatrix } from '@/types/excel'
+import { createChartConfig, createColumnInfo } from '../../fixtures/test-data/mock-charts'
+
+describe('ChartFacetingService', () => {
+  let service: ChartFacetingService
+
+  beforeEach(() => {
+    service = new ChartFacetingService()
+  })
+
+  const columnInfo: ColumnInfo[] = [
+    createColumnInfo('Category', 0, 'string'),
+    createColumnInfo('Amount', 1, 'number'),
+    createColumnInfo('Region', 2, 'string'),
+  ]
+
+  const data: DataMatrix = [
+    ['A', 10, 'North'],
+    ['B', 20, 'North'],
+    ['C', 30, 'North'],
+    ['A', 40, 'South'],
+    ['B', 5, 'South'],
+    ['A', 60, 'East'],
+  ]
+
+  const barConfig = createChartConfig({
+    id: 'facet-test',
+    title: 'Amount by Category',
+    dataColumn: 'Amount',
+    labelColumn: 'Category',
+    facetColumn: 'Region',
+  })
+
+  describe('splitRows', () => {
+    it('orders groups by size and names empty values Unknown', () => {
+      const groups = service.splitRows([...data, ['A', 1, ''], ['A', 1]], 2, 9)
+
+      expect(groups.map((g) => [g.value, g.rows.length])).toEqual([
+        ['North', 3],
+        ['South', 2],
+        ['Unknown', 2],
+        ['East', 1],
+      ])
+    })
+
+    it('combines the smallest groups into Others past the cap', () => {
+      const groups = service.splitRows(data, 2, 2)
+
+      expect(groups.map((g) => g.value)).toEqual(['North', 'Others'])
+      expect(groups[1].rows).toEqual([data[3], data[4], data[5]])
+    })
+  })
+
+  describe('prepareFacets', () => {
+    it('prepares one panel per value in the order of the overall chart', () => {
+      const result = service.prepareFacets(data, barConfig, columnInfo)
+
+      expect(result.overall.labels).toEqual(['A', 'C', 'B'])
+      expect(result.panels.map((p) => [p.value, p.rowCount])).toEqual([
+        ['North', 3],
+        ['South', 2],
+        ['East', 1],
+      ])
+      expect(result.panels[0].chartData?.labels).toEqual(['A', 'C', 'B'])
+      expect(result.panels[0].chartData?.datasets[0].data).toEqual([10, 30, 20])
+      // Categories a panel doesn't have are left empty rather than dropped
+      expect(result.panels[2].chartData?.datasets[0].data).toEqual([60, null, null])
+      expect(result.panels[2].chartData?.segmentRows).toEqual([[0], [], []])
+    })
+
+    it('shares one value range across the panels', () => {
+      const result = service.prepareFacets(data, barConfig, columnInfo)
+
+      expect(result.bounds).toEqual({ y: { min: 0, max: 60 } })
+    })
+
+    it('bins every histogram panel like the overall histogram', () => {
+      const config: ChartConfig = {
+        ...barConfig,
+        type: 'histogram',
+        labelColumn: undefined,
+        aggregation: 'count',
+        binMethod: 'width',
+        binWidth: 20,
+      }
+      const result = service.prepareFacets(data, config, columnInfo)
+
+      for (const panel of result.panels) {
+        expect(panel.chartData?.labels).toEqual(result.overall.labels)
+      }
+      expect(result.panels[0].chartData?.datasets[0].data).toEqual([1, 2, 0])
+    })
+
+    it('colors categories the same in every panel', () => {
+      const config: ChartConfig = { ...barConfig, type: 'pie' }
+      const result = service.prepareFacets(data, config, columnInfo, new CategoryColorScale())
+
+      const colorOf = (panel: number, label: string) => {
+        const chartData = result.panels[panel].chartData!
+        const colors = chartData.datasets[0].backgroundColor as string[]
+        return colors[chartData.labels.indexOf(label)]
+      }
+      expect(colorOf(1, 'B')).toBe(colorOf(0, 'B'))
+      expect(colorOf(2, 'A')).toBe(colorOf(0, 'A'))
+      expect(result.bounds).toEqual({})
+    })
+
+    it('keeps a failing panel as an error instead of failing the chart', () => {
+      const rows: DataMatrix = [...data, ['D', -5, 'West']]
+      const config: ChartConfig = { ...barConfig, type: 'pie' }
+      const result = service.prepareFacets(rows, config, columnInfo)
+
+      const west = result.panels.find((p) => p.value === 'West')
+      expect(west?.chartData).toBeNull()
+      expect(west?.error?.message).toMatch(/positive/)
+    })
+
+    it('throws when the facet column is missing', () => {
+      expect(() =>
+        service.prepareFacets(data, { ...barConfig, facetColumn: 'Missing' }, columnInfo),
+      ).toThrow('Column not found: Missing')
+    })
+  })
+})
@@ -0,0 +1,205 @@
+import { ChartSuggestionEngine } from '@/services/chartSuggestion'
+import { ColumnInfo, DataMatrix } from '@/types/excel'
+
+const column = (
+  name: string,
+  index: number,
+  type: ColumnInfo['type'],
+  uniqueCount: number,
+  extra: Partial<ColumnInfo> = {},
+): ColumnInfo => ({
+  name,
+  index,
+  type,
+  uniqueValues: [],
+  uniqueCount,
+  hasNulls: false,
+  nullCount: 0,
+  sampleValues: [],
+  ...extra,
+})
+
+// Deterministic noise so the sampled signals don't vary between runs
+const noise = (i: number) => Math.sin(i * 12.9898) * 0.5
+
+describe('ChartSuggestionEngine', () => {
+  const engine = new ChartSuggestionEngine()
+
+  it('suggests pie charts for categorical columns', () => {
+    const suggestions = engine.suggestCharts([column('Region', 0, 'string', 4)], [])
+    const pies = suggestions.filter((s) => s.type === 'pie')
+
+    expect(pies).toHaveLength(1)
+    expect(pies[0]).toMatchObject({ dataColumn: 'Region', aggregation: 'count' })
+    expect(pies[0].reason).toContain('4 categories')
+  })
+
+  it('ranks bars above pies once there are too many categories for slices', () => {
+    const suggestions = engine.suggestCharts(
+      [column('Product', 0, 'string', 25), column('Revenue', 1, 'number', 100)],
+      [],
+    )
+
+    expect(suggestions[0]).toMatchObject({
+      type: 'bar',
+      dataColumn: 'Revenue',
+      labelColumn: 'Product',
+      aggregation: 'sum',
+    })
+    expect(suggestions[0].reason).toContain('too many for pie slices')
+  })
+
+  it('suggests a line over a date column, bucketed to suit its span', () => {
+    const suggestions = engine.suggestCharts(
+      [
+        column('Order Date', 0, 'date', 300, {
+          statistics: { min: new Date(2024, 0, 1), max: new Date(2025, 5, 30) },
+        }),
+        column('Revenue', 1, 'number', 100),
+      ],
+      [],
+    )
+
+    expect(suggestions[0]).toMatchObject({
+      type: 'line',
+      dataColumn: 'Revenue',
+      labelColumn: 'Order Date',
+      dateBucket: 'month',
+    })
+    expect(suggestions[0].reason).toContain('monthly totals of Revenue')
+  })
+
+  it('suggests scatter plots only for correlated columns', () => {
+    const columns = [
+      column('Ad Spend', 0, 'number', 200),
+      column('Sales', 1, 'number', 200),
+      column('Temperature', 2, 'number', 200),
+    ]
+    const rows: DataMatrix = Array.from({ length: 200 }, (_, i) => [
+      i,
+      i * 3 + noise(i) * 200,
+      noise(i + 1000) * 30,
+    ])
+    const scatters = engine.suggestCharts(columns, rows).filter((s) => s.type === 'scatter')
+
+    expect(scatters).toHaveLength(1)
+    expect(scatters[0]).toMatchObject({
+      dataColumn: 'Sales',
+      labelColumn: 'Ad Spend',
+      showTrendline: true,
+    })
+    expect(scatters[0].reason).toMatch(/^Strong positive correlation .* \(r = 0\.\d\d over 200/)
+  })
+
+  it('bins skewed columns by Freedman-Diaconis and says why', () => {
+    const columns = [column('Order Value', 0, 'number', 200), column('Score', 1, 'number', 200)]
+    const rows: DataMatrix = Array.from({ length: 200 }, (_, i) => [
+      Math.round(Math.exp(i / 25)),
+      50 + noise(i) * 20,
+    ])
+    const histograms = engine.suggestCharts(columns, rows).filter((s) => s.type === 'histogram')
+
+    const skewed = histograms.find((s) => s.dataColumn === 'Order Value')!
+    expect(skewed.binMethod).toBe('freedman-diaconis')
+    expect(skewed.reason).toContain('long high tail')
+    expect(histograms.find((s) => s.dataColumn === 'Score')!.binMethod).toBe('sturges')
+  })
+
+  it('mentions blank cells and ranks their charts lower', () => {
+    const columns = [column('Region', 0, 'string', 4), column('Channel', 1, 'string', 4)]
+    const rows: DataMatrix = Array.from({ length: 100 }, (_, i) => [
+      `R${i % 4}`,
+      i % 2 ? `C${i % 4}` : '',
+    ])
+    const pies = engine.suggestCharts(columns, rows).filter((s) => s.type === 'pie')
+
+    expect(pies.map((s) => s.dataColumn)).toEqual(['Region', 'Channel'])
+    expect(pies[1].reason).toContain('50% of Channel is blank')
+    expect(pies[0].reason).not.toContain('blank')
+  })
+
+  it('reads a bounded sample of large sheets', () => {
+    const rows: DataMatrix = Array.from({ length: 100_000 }, (_, i) => [i % 7, i, i * 2])
+    let reads = 0
+    const counted = new Proxy(rows, {
+      get(target, key, receiver) {
+        if (typeof key === 'string' && /^\d+$/.test(key)) reads++
+        return Reflect.get(target, key, receiver)
+      },
+    })
+
+    const suggestions = engine.suggestCharts(
+      [
+        column('Weekday', 0, 'number', 7),
+        column('Units', 1, 'number', 100_000),
+        column('Price', 2, 'number', 100_000),
+      ],
+      counted,
+    )
+
+    expect(reads).toBeLessThanOrEqual(2000)
+    expect(suggestions.some((s) => s.type === 'scatter')).toBe(true)
+  })
+
+  it('suggests a funnel for a column named like stages', () => {
+    const suggestions = engine.suggestCharts(
+      [column('deal_stage', 0, 'string', 5), column('Backstage Pass', 1, 'string', 5)],
+      [],
+    )
+    const funnels = suggestions.filter((s) => s.type === 'funnel')
+
+    expect(funnels).toHaveLength(1)
+    expect(funnels[0]).toMatchObject({ dataColumn: 'deal_stage', aggregation: 'count' })
+    expect(funnels[0].labelColumn).toBeUndefined()
+  })
+
+  it('sums a count column over the stages when there is one', () => {
+    const suggestions = engine.suggestCharts(
+      [column('Step', 0, 'string', 4), column('Users', 1, 'number', 40)],
+      [],
+    )
+
+    expect(suggestions.find((s) => s.type === 'funnel')).toMatchObject({
+      dataColumn: 'Users',
+      labelColumn: 'Step',
+      aggregation: 'sum',
+    })
+  })
+
+  it('suggests a waterfall for P&L lines against an amount column, in sheet order', () => {
+    const suggestions = engine.suggestCharts(
+      [
+        column('P&L Line', 0, 'string', 8),
+        column('Year', 1, 'number', 3),
+        column('Amount', 2, 'number', 8),
+      ],
+      [],
+    )
+
+    expect(suggestions.find((s) => s.type === 'waterfall')).toMatchObject({
+      dataColumn: 'Amount',
+      labelColumn: 'P&L Line',
+      aggregation: 'sum',
+      sortBy: 'source',
+    })
+  })
+
+  it('leaves out waterfalls when it is unclear which column holds the amounts', () => {
+    const suggestions = engine.suggestCharts(
+      [
+        column('Line Item', 0, 'string', 8),
+        column('Year', 1, 'number', 3),
+        column('Budget', 2, 'number', 8),
+      ],
+      [],
+    )
+
+    expect(suggestions.some((s) => s.type === 'waterfall')).toBe(false)
+  })
+
+  it('leaves out funnels with too many distinct stages', () => {
+    const suggestions = engine.suggestCharts([column('Status', 0, 'string', 40)], [])
+
+    expect(suggestions.some((s) => s.type === 'funnel')).toBe(false)
+  })
+})
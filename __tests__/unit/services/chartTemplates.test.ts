@@ -0,0 +1,170 @@
+import { ChartTemplateService } from '@/services/chartTemplates'
+import { ChartConfig } from '@/types/chart'
+import { LocalStorageManager } from '@/utils/localStorage'
+import { createChartConfig, createColumnInfo } from '../../fixtures/test-data/mock-charts'
+
+const chart = (overrides: Partial<ChartConfig>): ChartConfig =>
+  createChartConfig({
+    id: 'c1',
+    title: 'Revenue by Region',
+    dataColumn: 'Revenue',
+    labelColumn: 'Region',
+    position: { row: 0, column: 0, width: 6, height: 8 },
+    ...overrides,
+  })
+
+const januaryColumns = [
+  createColumnInfo('Order Date', 0, 'date'),
+  createColumnInfo('Region', 1, 'string'),
+  createColumnInfo('Revenue', 2, 'number'),
+  createColumnInfo('Units', 3, 'number'),
+]
+
+const dashboard = [
+  chart({}),
+  chart({
+    id: 'c2',
+    title: 'Units over Order Date',
+    type: 'line',
+    dataColumn: 'Units',
+    labelColumn: 'Order Date',
+    dateBucket: 'month',
+    position: { row: 0, column: 6, width: 6, height: 8 },
+  }),
+]
+
+describe('ChartTemplateService', () => {
+  const service = new ChartTemplateService()
+
+  beforeEach(() => localStorage.clear())
+
+  it('saves a dashboard through the chart configs and reads it back', () => {
+    service.saveTemplate('  Monthly sales ', dashboard, januaryColumns)
+    const [template] = service.getTemplates()
+
+    expect(template).toMatchObject({ name: 'Monthly sales', scope: 'dashboard' })
+    expect(template.charts.map((c) => c.title)).toEqual([
+      'Revenue by Region',
+      'Units over Order Date',
+    ])
+    expect(template.columns).toEqual([
+      { name: 'Order Date', type: 'date' },
+      { name: 'Region', type: 'string' },
+      { name: 'Revenue', type: 'number' },
+      { name: 'Units', type: 'number' },
+    ])
+    expect(LocalStorageManager.getChartConfigs()[0]).toMatchObject({ type: 'dashboard' })
+  })
+
+  it('replaces a template saved again under the same name', () => {
+    service.saveTemplate('Sales', dashboard, januaryColumns)
+    service.saveTemplate('Sales', [chart({})], januaryColumns)
+
+    expect(service.getTemplates()).toHaveLength(1)
+    expect(service.getTemplates()[0]).toMatchObject({ scope: 'chart' })
+    expect(() => service.saveTemplate(' ', dashboard, januaryColumns)).toThrow(
+      'Enter a name for the template.',
+    )
+  })
+
+  it('matches columns by name, then similar name, then the only column of a type', () => {
+    const template = service.saveTemplate('Monthly sales', dashboard, januaryColumns)
+    const matches = service.matchColumns(template, [
+      createColumnInfo('region', 0, 'string'),
+      createColumnInfo('Date', 1, 'date'),
+      createColumnInfo('Revenue (USD)', 2, 'number'),
+      createColumnInfo('Quantity', 3, 'number'),
+      createColumnInfo('Discount', 4, 'number'),
+    ])
+
+    expect(matches.map((m) => [m.column.name, m.match, m.method])).toEqual([
+      ['Order Date', 'Date', 'fuzzy'],
+      ['Region', 'region', 'name'],
+      ['Revenue', 'Revenue (USD)', 'fuzzy'],
+      // Two numeric columns are left, so the type alone doesn't settle it
+      ['Units', null, null],
+    ])
+  })
+
+  it('falls back to the type when a single column of it is left', () => {
+    const template = service.saveTemplate('Monthly sales', dashboard, januaryColumns)
+    const matches = service.matchColumns(template, [
+      createColumnInfo('When', 0, 'date'),
+      createColumnInfo('Region', 1, 'string'),
+      createColumnInfo('Revenue', 2, 'number'),
+      createColumnInfo('Quantity', 3, 'number'),
+    ])
+
+    expect(matches.find((m) => m.column.name === 'Order Date')).toMatchObject({
+      match: 'When',
+      method: 'type',
+    })
+    expect(matches.find((m) => m.column.name === 'Units')).toMatchObject({
+      match: 'Quantity',
+      method: 'type',
+    })
+  })
+
+  it('rebuilds the charts on the mapped columns with fresh ids', () => {
+    const template = service.saveTemplate('Monthly sales', dashboard, januaryColumns)
+    const charts = service.applyTemplate(template, {
+      'Order Date': 'Date',
+      Region: 'Region',
+      Revenue: 'Sales',
+      Units: 'Quantity',
+    })
+
+    expect(charts[0]).toMatchObject({
+      title: 'Sales by Region',
+      dataColumn: 'Sales',
+      labelColumn: 'Region',
+      position: dashboard[0].position,
+    })
+    expect(charts[1]).toMatchObject({
+      title: 'Quantity over Date',
+      dataColumn: 'Quantity',
+      labelColumn: 'Date',
+      dateBucket: 'month',
+    })
+    expect(charts.map((c) => c.id)).not.toContain('c1')
+    expect(() => service.applyTemplate(template, { Region: 'Region' })).toThrow(
+      'Choose a column for Order Date, Revenue, Units before applying the template.',
+    )
+  })
+
+  it('keeps reference lines on the columns they were computed from', () => {
+    const annotated = chart({
+      annotations: [
+        {
+          id: 'mean',
+          kind: 'line',
+          orientation: 'horizontal',
+          value: { source: 'mean', column: 'Units' },
+        },
+        {
+          id: 'spread',
+          kind: 'band',
+          orientation: 'horizontal',
+          from: { source: 'percentile', column: 'Units', percentile: 25 },
+          to: { source: 'constant', value: 10 },
+        },
+      ],
+    })
+    const template = service.saveTemplate('Annotated', [annotated], januaryColumns)
+    expect(template.columns.map((c) => c.name)).toEqual(['Region', 'Revenue', 'Units'])
+
+    const [applied] = service.applyTemplate(template, {
+      Region: 'Region',
+      Revenue: 'Sales',
+      Units: 'Quantity',
+    })
+
+    expect(applied.annotations).toEqual([
+      expect.objectContaining({ value: { source: 'mean', column: 'Quantity' } }),
+      expect.objectContaining({
+        from: { source: 'percentile', column: 'Quantity', percentile: 25 },
+        to: { source: 'constant', value: 10 },
+      }),
+    ])
+  })
+})
@@ -0,0 +1,68 @@
+import { computeCorrelationMatrix, pearsonCorrelation, rank } from '@/workers/correlationCore'
+
+describe('correlationCore', () => {
+  const columns = [
+    { name: 'x', index: 0 },
+    { name: 'double', index: 1 },
+    { name: 'inverse', index: 2 },
+    { name: 'cubed', index: 3 },
+  ]
+  const rows: unknown[][] = [1, 2, 3, 4, 5].map((x) => [x, x * 2, -x, x ** 3])
+
+  it('computes symmetric Pearson and Spearman matrices', () => {
+    const result = computeCorrelationMatrix(rows, columns)
+
+    expect(result.columns).toEqual(['x', 'double', 'inverse', 'cubed'])
+    expect(result.pearson[0][1]).toBeCloseTo(1)
+    expect(result.pearson[0][2]).toBeCloseTo(-1)
+    expect(result.pearson[2][0]).toBeCloseTo(-1)
+    // Monotonic but not linear: Spearman is exactly 1, Pearson a little less
+    expect(result.spearman[0][3]).toBeCloseTo(1)
+    expect(result.pearson[0][3]).toBeLessThan(0.99)
+    expect(result.pearson[1][1]).toBe(1)
+    expect(result.counts[0][3]).toBe(5)
+  })
+
+  it('uses pairwise complete rows and skips blanks and text', () => {
+    const withGaps: unknown[][] = [
+      [1, 2, '', 1],
+      [2, 4, 'n/a', 8],
+      [3, 6, -3, 27],
+      [4, null, -4, 64],
+      [5, 10, -5, 125],
+    ]
+    const result = computeCorrelationMatrix(withGaps, columns)
+
+    expect(result.counts[0][1]).toBe(4)
+    expect(result.counts[0][2]).toBe(3)
+    expect(result.pearson[0][2]).toBeCloseTo(-1)
+    expect(result.spearman[0][2]).toBeCloseTo(-1)
+  })
+
+  it('leaves pairs with too few values or no variance empty', () => {
+    const result = computeCorrelationMatrix(
+      [
+        [1, 5],
+        [2, 5],
+        [3, 5],
+      ],
+      [
+        { name: 'a', index: 0 },
+        { name: 'constant', index: 1 },
+      ],
+    )
+    expect(result.pearson[0][1]).toBeNull()
+
+    const tiny = computeCorrelationMatrix([[1, 2]], columns.slice(0, 2))
+    expect(tiny.pearson[0][1]).toBeNull()
+    expect(tiny.counts[0][1]).toBe(1)
+  })
+
+  it('assigns average ranks to ties', () => {
+    expect(rank([10, 20, 20, 5])).toEqual([2, 3.5, 3.5, 1])
+  })
+
+  it('returns null Pearson for empty input', () => {
+    expect(pearsonCorrelation([], [])).toBeNull()
+  })
+})
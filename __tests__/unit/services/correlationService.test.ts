@@ -0,0 +1,38 @@
+import { CorrelationService, MAX_CORRELATION_COLUMNS } from '@/services/correlationService'
+import { createColumnInfo } from '../../fixtures/test-data/mock-charts'
+
+describe('CorrelationService', () => {
+  const service = new CorrelationService()
+
+  it('correlates only numeric columns, falling back to the main thread without workers', async () => {
+    const columnInfo = [
+      createColumnInfo('a', 0, 'number'),
+      createColumnInfo('label', 1, 'string'),
+      createColumnInfo('b', 2, 'number'),
+    ]
+    const rows = [
+      [1, 'x', 2],
+      [2, 'y', 4],
+      [3, 'z', 7],
+    ]
+
+    const result = await service.computeMatrix(rows, columnInfo)
+
+    expect(result.columns).toEqual(['a', 'b'])
+    expect(result.pearson[0][1]).toBeGreaterThan(0.9)
+  })
+
+  it('caps the number of columns', () => {
+    const many = Array.from({ length: MAX_CORRELATION_COLUMNS + 5 }, (_, i) =>
+      createColumnInfo(`c${i}`, i, 'number'),
+    )
+    expect(service.getNumericColumns(many)).toHaveLength(MAX_CORRELATION_COLUMNS)
+  })
+
+  it('rejects when cancelled', async () => {
+    const controller = new AbortController()
+    const promise = service.computeMatrix([], [], controller.signal)
+    controller.abort()
+    await expect(promise).rejects.toThrow('Correlation cancelled')
+  })
+})
@@ -0,0 +1,218 @@
+import { crossFilterService } from '@/services/crossFilter'
+import { FilterConfig, FilterValue, RangeFilter, SearchFilter } from '@/types/filter'
+import { NumericRange } from '@/types/chart'
+
+describe('CrossFilterService', () => {
+  const selectFilter = (selected: string[] = [], active = false): FilterConfig => ({
+    id: 'filter-0',
+    column: 'Region',
+    columnIndex: 0,
+    type: 'select',
+    active,
+    values: ['North', 'South', 'East'].map((value) => ({
+      value,
+      selected: selected.includes(value),
+    })),
+    operator: 'equals',
+    displayName: 'Region',
+  })
+
+  const rangeFilter = (overrides: Partial<RangeFilter> = {}, active = false): FilterConfig => ({
+    id: 'filter-1',
+    column: 'Amount',
+    columnIndex: 1,
+    type: 'range',
+    active,
+    values: {
+      min: 0,
+      max: 100,
+      currentMin: 0,
+      currentMax: 100,
+      mode: 'continuous',
+      ranges: [{ id: 'r1', label: '0-50', min: 0, max: 50, includeMin: true, includeMax: false }],
+      selectedRangeIds: ['r1'],
+      ...overrides,
+    } as RangeFilter,
+    operator: 'between',
+    displayName: 'Amount',
+  })
+
+  const bin: NumericRange = {
+    id: 'bin-1',
+    label: '50–100',
+    min: 50,
+    max: 100,
+    includeMin: true,
+    includeMax: true,
+  }
+
+  describe('findFilter', () => {
+    it('matches by column and skips null filters', () => {
+      const nullFilter: FilterConfig = {
+        ...selectFilter(),
+        id: 'filter-0-null',
+        type: 'null',
+        values: true,
+        operator: 'is_null',
+      }
+      const filters = [nullFilter, selectFilter()]
+
+      expect(crossFilterService.findFilter(filters, { column: 'Region', value: 'North' })?.id).toBe(
+        'filter-0',
+      )
+      expect(
+        crossFilterService.findFilter(filters, { column: 'Missing', value: 'x' }),
+      ).toBeUndefined()
+    })
+  })
+
+  describe('select filters', () => {
+    it('starts a fresh selection on an inactive filter', () => {
+      // Stale checkboxes from an inactive filter are cleared
+      const updates = crossFilterService.toggle(selectFilter(['East']), {
+        column: 'Region',
+        value: 'North',
+      })
+
+      expect(updates?.active).toBe(true)
+      expect(
+        (updates?.values as FilterValue[]).filter((v) => v.selected).map((v) => v.value),
+      ).toEqual(['North'])
+    })
+
+    it('adds to and removes from an active selection', () => {
+      const added = crossFilterService.toggle(selectFilter(['North'], true), {
+        column: 'Region',
+        value: 'South',
+      })
+      expect((added?.values as FilterValue[]).filter((v) => v.selected)).toHaveLength(2)
+
+      const removed = crossFilterService.toggle(selectFilter(['North'], true), {
+        column: 'Region',
+        value: 'North',
+      })
+      expect(removed?.active).toBe(false)
+      expect((removed?.values as FilterValue[]).some((v) => v.selected)).toBe(false)
+    })
+
+    it('returns null for values the filter does not list', () => {
+      expect(
+        crossFilterService.toggle(selectFilter(), { column: 'Region', value: 'West' }),
+      ).toBeNull()
+    })
+  })
+
+  describe('range filters', () => {
+    it('switches to binned mode with only the clicked bin selected', () => {
+      const updates = crossFilterService.toggle(rangeFilter(), { column: 'Amount', range: bin })
+      const values = updates?.values as RangeFilter
+
+      expect(updates?.active).toBe(true)
+      expect(values.mode).toBe('binned')
+      expect(values.ranges).toHaveLength(2)
+      expect(values.selectedRangeIds).toEqual(['bin-1'])
+    })
+
+    it('reuses an existing bin with the same bounds', () => {
+      const sameBounds = { ...bin, id: 'other', min: 0, max: 50, includeMax: false }
+      const updates = crossFilterService.toggle(rangeFilter(), {
+        column: 'Amount',
+        range: sameBounds,
+      })
+      const values = updates?.values as RangeFilter
+
+      expect(values.ranges).toHaveLength(1)
+      expect(values.selectedRangeIds).toEqual(['r1'])
+    })
+
+    it('deactivates and restores the default selection when the last bin is toggled off', () => {
+      const updates = crossFilterService.toggle(
+        rangeFilter({ mode: 'binned', selectedRangeIds: ['r1'] }, true),
+        { column: 'Amount', range: { ...bin, id: 'r1', min: 0, max: 50, includeMax: false } },
+      )
+      const values = updates?.values as RangeFilter
+
+      expect(updates?.active).toBe(false)
+      expect(values.mode).toBe('continuous')
+      expect(values.selectedRangeIds).toEqual(['r1'])
+    })
+
+    it('filters to a single value for numeric bar labels and toggles it off again', () => {
+      const on = crossFilterService.toggle(rangeFilter(), { column: 'Amount', value: '42' })
+      expect(on?.active).toBe(true)
+      expect(on?.values).toMatchObject({ mode: 'continuous', currentMin: 42, currentMax: 42 })
+
+      const off = crossFilterService.toggle(rangeFilter({ currentMin: 42, currentMax: 42 }, true), {
+        column: 'Amount',
+        value: '42',
+      })
+      expect(off?.active).toBe(false)
+      expect(off?.values).toMatchObject({ currentMin: 0, currentMax: 100 })
+    })
+
+    it('ignores non-numeric labels', () => {
+      expect(
+        crossFilterService.toggle(rangeFilter(), { column: 'Amount', value: 'n/a' }),
+      ).toBeNull()
+    })
+  })
+
+  it('toggles boolean filters', () => {
+    const filter: FilterConfig = {
+      id: 'filter-2',
+      column: 'Active',
+      columnIndex: 2,
+      type: 'boolean',
+      active: false,
+      values: null,
+      operator: 'equals',
+      displayName: 'Active',
+    }
+
+    expect(crossFilterService.toggle(filter, { column: 'Active', value: 'true' })).toEqual({
+      values: true,
+      active: true,
+      operator: 'equals',
+    })
+    const applied = { ...filter, active: true, values: true }
+    expect(crossFilterService.toggle(applied, { column: 'Active', value: 'true' })).toEqual({
+      values: null,
+      active: false,
+    })
+  })
+
+  it('tells whether a selection is already applied', () => {
+    const north = { column: 'Region', value: 'North' }
+    expect(crossFilterService.isApplied(selectFilter(['North'], true), north)).toBe(true)
+    expect(crossFilterService.isApplied(selectFilter(['North'], false), north)).toBe(false)
+    expect(crossFilterService.isApplied(selectFilter(['South'], true), north)).toBe(false)
+
+    const point = rangeFilter({ currentMin: 20, currentMax: 20 }, true)
+    expect(crossFilterService.isApplied(point, { column: 'Amount', value: '20' })).toBe(true)
+    const binned = rangeFilter({ mode: 'binned', ranges: [bin], selectedRangeIds: [bin.id] }, true)
+    expect(crossFilterService.isApplied(binned, { column: 'Amount', range: bin })).toBe(true)
+  })
+
+  it('uses an exact, case-sensitive match for search filters', () => {
+    const filter: FilterConfig = {
+      id: 'filter-3',
+      column: 'Customer',
+      columnIndex: 3,
+      type: 'search',
+      active: false,
+      values: { query: '', caseSensitive: false, exactMatch: false } as SearchFilter,
+      operator: 'contains',
+      displayName: 'Customer',
+    }
+
+    const on = crossFilterService.toggle(filter, { column: 'Customer', value: 'Acme' })
+    expect(on?.values).toEqual({ query: 'Acme', caseSensitive: true, exactMatch: true })
+
+    const off = crossFilterService.toggle(
+      { ...filter, active: true, values: on?.values },
+      { column: 'Customer', value: 'Acme' },
+    )
+    expect(off?.active).toBe(false)
+    expect((off?.values as SearchFilter).query).toBe('')
+  })
+})
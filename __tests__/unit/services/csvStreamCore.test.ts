@@ -0,0 +1,83 @@
+import { TextDecoder } from 'util'
+import type { CsvDialect } from '@/types/excel'
+import { CsvStreamMessage, streamCsvFile } from '@/workers/csvStreamCore'
+
+// jsdom has no TextDecoder
+Object.assign(global, { TextDecoder })
+
+const semicolons: CsvDialect = { delimiter: ';', quote: '"', decimal: ',', encoding: 'utf-8' }
+
+async function stream(text: string, dialect: CsvDialect, options = {}) {
+  const messages: CsvStreamMessage[] = []
+  await streamCsvFile(new Blob([text]), dialect, options, (m) => messages.push(m))
+  const rows = messages.flatMap((m) => (m.type === 'rows' ? m.rows : []))
+  const done = messages.find((m) => m.type === 'done')
+  if (done?.type !== 'done') throw new Error('Stream did not finish')
+  return { messages, rows, done }
+}
+
+describe('csvStreamCore - streamCsvFile', () => {
+  const text =
+    'Exported logs\nHost;Latency;Ok\nweb-1;1,5;true\n;;\nweb-2;2,25;false\nweb-3;n/a;true\nweb-4;0,75;true\nweb-5;4;false\n'
+
+  it('detects the header and converts cells to the column types', async () => {
+    const { rows, done, messages } = await stream(text, semicolons)
+
+    expect(done.headers).toEqual(['Host', 'Latency', 'Ok'])
+    expect(done.header).toEqual({ row: 2, rowCount: 1, detected: true })
+    expect(rows).toEqual([
+      ['web-1', 1.5, true],
+      ['web-2', 2.25, false],
+      ['web-3', 'n/a', true],
+      ['web-4', 0.75, true],
+      ['web-5', 4, false],
+    ])
+    expect(done.rowsInFile).toBe(5)
+    expect(messages[0]).toEqual({
+      type: 'progress',
+      loaded: text.length,
+      total: text.length,
+      rows: 0,
+    })
+  })
+
+  it('gathers column info from the kept rows', async () => {
+    const { done } = await stream(text, semicolons, { computeStatistics: true })
+    const latency = done.columns[1]
+
+    expect(latency).toMatchObject({ name: 'Latency', type: 'number', nullCount: 1, uniqueCount: 4 })
+    expect(latency.statistics).toEqual({ min: 0.75, max: 4, average: 2.125 })
+    expect(done.columns[0].sampleValues).toEqual(['web-1', 'web-2', 'web-3', 'web-4', 'web-5'])
+  })
+
+  it('leaves blank cells null, as the spreadsheet reader does', async () => {
+    const { rows, done } = await stream('Host;Latency\nweb-1;\n;2\n', semicolons)
+
+    expect(rows).toEqual([
+      ['web-1', null],
+      [null, 2],
+    ])
+    expect(done.columns.map((c) => c.nullCount)).toEqual([1, 1])
+  })
+
+  it('counts the rows past the cap without keeping them', async () => {
+    const { rows, done } = await stream(text, semicolons, { maxRows: 2 })
+
+    expect(rows).toHaveLength(2)
+    expect(done.rowsInFile).toBe(5)
+    expect(done.columns[0].uniqueValues).toEqual(['web-1', 'web-2'])
+  })
+
+  it('uses the header rows it is given and rejects ones outside the file', async () => {
+    const { done } = await stream(text, semicolons, { header: { row: 1, rowCount: 2 } })
+    expect(done.headers).toEqual([
+      'Exported logs / Host',
+      'Exported logs / Latency',
+      'Exported logs / Ok',
+    ])
+
+    await expect(stream(text, semicolons, { header: { row: 9, rowCount: 1 } })).rejects.toThrow(
+      'Row 9 is outside the first rows of the file. Choose a header row from 1 to 8.',
+    )
+  })
+})
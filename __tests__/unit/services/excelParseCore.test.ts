@@ -0,0 +1,64 @@
+import type { ExcelData } from '@/types/excel'
+import { ErrorType } from '@/utils/errorHandling'
+import { ExcelParseMessage, runParseRequest } from '@/workers/excelParseCore'
+
+const data = {
+  headers: ['A'],
+  rows: [[1]],
+  metadata: { fileName: 'book.xlsx', sheetNames: ['Sheet1'], activeSheet: 'Sheet1' },
+} as unknown as ExcelData
+
+describe('excelParseCore - runParseRequest', () => {
+  it('posts progress events, then the result and whether the workbook was kept', async () => {
+    const parser = {
+      parseFile: jest.fn(async (_file: File, options) => {
+        options.progress?.({ stage: 'reading', loaded: 5, total: 10 })
+        return data
+      }),
+      parseSheet: jest.fn(),
+      hasWorkbook: jest.fn().mockReturnValue(true),
+    }
+    const file = new File(['x'], 'book.xlsx')
+    const messages: ExcelParseMessage[] = []
+
+    await runParseRequest(
+      parser,
+      { id: 3, type: 'parseFile', file, options: { maxRows: 10 } },
+      (m) => messages.push(m),
+    )
+
+    expect(parser.parseFile).toHaveBeenCalledWith(file, expect.objectContaining({ maxRows: 10 }))
+    expect(parser.hasWorkbook).toHaveBeenCalledWith('book.xlsx')
+    expect(messages).toEqual([
+      { id: 3, type: 'progress', event: { stage: 'reading', loaded: 5, total: 10 } },
+      { id: 3, type: 'result', data, hasWorkbook: true },
+    ])
+  })
+
+  it('posts the error type and message when parsing fails', async () => {
+    const parser = {
+      parseFile: jest.fn(),
+      parseSheet: jest.fn().mockRejectedValue({
+        type: ErrorType.PARSE_ERROR,
+        message: 'Sheet "Q3" is not in the current workbook.',
+      }),
+      hasWorkbook: jest.fn(),
+    }
+    const messages: ExcelParseMessage[] = []
+
+    await runParseRequest(
+      parser,
+      { id: 1, type: 'parseSheet', sheetName: 'Q3', options: {} },
+      (m) => messages.push(m),
+    )
+
+    expect(messages).toEqual([
+      {
+        id: 1,
+        type: 'error',
+        errorType: ErrorType.PARSE_ERROR,
+        message: 'Sheet "Q3" is not in the current workbook.',
+      },
+    ])
+  })
+})
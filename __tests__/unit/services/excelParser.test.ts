@@ -17,6 +17,8 @@ import { ExcelParser } from '@/services/excelParser'
 import { validateFile } from '@/utils/fileValidation'
 import { globalProperties } from '@/types/global'
 import { ExcelData, ParseOptions } from '@/types/excel'
+import * as XLSX from 'xlsx'
+import { TextDecoder } from 'util'
 
 // Mock dependencies
 jest.mock('@/utils/fileValidation')
@@ -180,6 +182,157 @@ describe('ExcelParser', () => {
     })
   })
 
+  describe('previewCsv', () => {
+    // "Café;Prix" and a row of a Windows-1252 export from a French locale
+    const latin1 = new Uint8Array([
+      ...Array.from('Caf', (ch) => ch.charCodeAt(0)),
+      0xe9,
+      ...Array.from(';Prix\nCrème;1,50\nThé;2,00\n', (ch) =>
+        ch === 'è' ? 0xe8 : ch === 'é' ? 0xe9 : ch.charCodeAt(0),
+      ),
+    ])
+
+    it('detects the encoding, delimiter and quote and reads the first rows', async () => {
+      const preview = await excelParser.previewCsv(new File([latin1], 'prix.csv'))
+
+      expect(preview.dialect).toEqual({
+        delimiter: ';',
+        quote: '"',
+        decimal: ',',
+        encoding: 'windows-1252',
+      })
+      expect(preview.bom).toBe(false)
+      expect(preview.confidence).toBeGreaterThan(0)
+      expect(preview.rows).toEqual([
+        ['Café', 'Prix'],
+        ['Crème', '1,50'],
+        ['Thé', '2,00'],
+      ])
+    })
+
+    it('uses the settings the user chose instead of the detected ones', async () => {
+      const preview = await excelParser.previewCsv(new File([latin1], 'prix.csv'), {
+        delimiter: ',',
+      })
+
+      expect(preview.dialect.delimiter).toBe(',')
+      expect(preview.rows[1]).toEqual(['Crème;1', '50'])
+    })
+
+    it('parses the file with the detected delimiter and decimal commas', async () => {
+      mockXLSX.utils.sheet_to_json.mockImplementation(XLSX.utils.sheet_to_json)
+
+      const result = await excelParser.parseFile(new File([latin1], 'prix.csv'))
+
+      expect(result.headers).toEqual(['Café', 'Prix'])
+      expect(result.rows).toEqual([
+        ['Crème', 1.5],
+        ['Thé', 2],
+      ])
+    })
+  })
+
+  describe('large delimited text', () => {
+    // Past the spreadsheet size limit, so the file is streamed rather than read whole
+    const largeFile = (text: string) => {
+      const file = new File([text], 'access.log.csv')
+      Object.defineProperty(file, 'size', { value: 60 * 1024 * 1024 })
+      return file
+    }
+
+    beforeAll(() => {
+      // jsdom has no TextDecoder
+      Object.assign(global, { TextDecoder })
+    })
+
+    it('keeps the first rows up to the cap and reports how many the file has', async () => {
+      const progress = jest.fn()
+      const result = await excelParser.parseFile(
+        largeFile('Path,Status\n/a,200\n/b,404\n/c,200\n'),
+        { maxRows: 2, progress },
+      )
+
+      expect(result.headers).toEqual(['Path', 'Status'])
+      expect(result.rows).toEqual([
+        ['/a', 200],
+        ['/b', 404],
+      ])
+      expect(result.metadata).toMatchObject({
+        fileName: 'access.log.csv',
+        sheetNames: ['Sheet1'],
+        totalRows: 2,
+        rowsInFile: 3,
+      })
+      expect(result.metadata.columns[1]).toMatchObject({ name: 'Status', type: 'number' })
+      expect(progress).toHaveBeenCalledWith(
+        expect.objectContaining({ stage: 'reading', percent: 100 }),
+      )
+      expect(excelParser.hasWorkbook('access.log.csv')).toBe(false)
+    })
+
+    it('reads blank cells as the whole-file parse does', async () => {
+      mockXLSX.utils.sheet_to_json.mockImplementation(XLSX.utils.sheet_to_json)
+      const text = 'Region,Revenue,Note\nNorth,10,\nSouth,,late\nEast,30,ok\n'
+      const options = { computeStatistics: true }
+      const whole = await excelParser.parseFile(new File([text], 'access.log.csv'), options)
+      const streamed = await excelParser.parseFile(largeFile(text), options)
+
+      expect(streamed.rows).toEqual(whole.rows)
+      expect(streamed.metadata.columns).toEqual(whole.metadata.columns)
+      expect(streamed.metadata.columns[1]).toMatchObject({ nullCount: 1, statistics: { min: 10 } })
+    })
+  })
+
+  describe('parseSheet', () => {
+    it('parses another sheet of the last uploaded workbook without reading the file again', async () => {
+      const book = XLSX.utils.book_new()
+      XLSX.utils.book_append_sheet(
+        book,
+        XLSX.utils.aoa_to_sheet([
+          ['Region', 'Revenue'],
+          ['North', 100],
+        ]),
+        'Sales',
+      )
+      XLSX.utils.book_append_sheet(
+        book,
+        XLSX.utils.aoa_to_sheet([
+          ['Item', 'Cost'],
+          ['Rent', 1200],
+        ]),
+        'Costs',
+      )
+      const mockFile = new File(
+        [XLSX.write(book, { type: 'array', bookType: 'xlsx' })],
+        'book.xlsx',
+      )
+      mockXLSX.utils.sheet_to_json.mockImplementation(XLSX.utils.sheet_to_json)
+
+      const first = await excelParser.parseFile(mockFile)
+      expect(excelParser.hasWorkbook('book.xlsx')).toBe(true)
+      const readSpy = jest.spyOn(FileReader.prototype, 'readAsArrayBuffer')
+
+      const second = await excelParser.parseSheet('Costs')
+
+      expect(first.headers).toEqual(['Region', 'Revenue'])
+      expect(second.headers).toEqual(['Item', 'Cost'])
+      expect(second.rows).toEqual([['Rent', 1200]])
+      expect(second.metadata).toMatchObject({
+        fileName: 'book.xlsx',
+        activeSheet: 'Costs',
+        sheetNames: ['Sales', 'Costs'],
+      })
+      expect(readSpy).not.toHaveBeenCalled()
+      readSpy.mockRestore()
+    })
+
+    it('rejects a sheet that is not in the cached workbook', async () => {
+      await expect(excelParser.parseSheet('Sheet1')).rejects.toMatchObject({
+        message: expect.stringContaining('Upload the file again'),
+      })
+    })
+  })
+
   describe('parseWorkbook', () => {
     it('should handle empty workbook', async () => {
       const mockWorkbook = { SheetNames: [] }
@@ -305,6 +458,56 @@ describe('ExcelParser', () => {
         }),
       )
     })
+
+    describe('header rows', () => {
+      const mockWorkbook = { SheetNames: ['Sheet1'], Sheets: { Sheet1: { '!ref': 'A2:C7' } } }
+
+      beforeEach(() => {
+        mockXLSX.utils.sheet_to_json.mockReturnValue([
+          ['Quarterly results', null, null],
+          [null, null, null],
+          ['Region', 'Q1', null],
+          [null, 'Revenue', 'Cost'],
+          ['North', 100, 60],
+          ['South', 80, 50],
+        ])
+      })
+
+      it('detects the header below title rows and joins its levels', async () => {
+        const result = await excelParser.parseWorkbook(mockWorkbook)
+
+        expect(result.headers).toEqual(['Region', 'Q1 / Revenue', 'Q1 / Cost'])
+        expect(result.rows).toEqual([
+          ['North', 100, 60],
+          ['South', 80, 50],
+        ])
+        // Rows are numbered as in the sheet, whose used range starts at row 2
+        expect(result.metadata.header).toEqual({ row: 4, rowCount: 2, detected: true })
+        expect(result.metadata.columns.map((c) => [c.name, c.type])).toEqual([
+          ['Region', 'string'],
+          ['Q1 / Revenue', 'number'],
+          ['Q1 / Cost', 'number'],
+        ])
+      })
+
+      it('reads the header from the rows the caller chooses', async () => {
+        const result = await excelParser.parseWorkbook(mockWorkbook, undefined, {
+          header: { row: 5, rowCount: 1 },
+        })
+
+        expect(result.headers).toEqual(['Column 1', 'Revenue', 'Cost'])
+        expect(result.rows).toHaveLength(2)
+        expect(result.metadata.header).toEqual({ row: 5, rowCount: 1, detected: false })
+      })
+
+      it('rejects a header row outside the sheet', async () => {
+        await expect(
+          excelParser.parseWorkbook(mockWorkbook, undefined, { header: { row: 1, rowCount: 1 } }),
+        ).rejects.toMatchObject({
+          message: 'Row 1 is outside the sheet. Choose a header row from 2 to 7.',
+        })
+      })
+    })
   })
 
   describe('detectColumnTypes', () => {
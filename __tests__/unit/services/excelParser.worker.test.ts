@@ -1,5 +1,8 @@
 import { ExcelParser } from '@/services/excelParser'
 import { detectColumnTypesWorker } from '@/workers/excelDetectColumnsCore'
+import { ExcelParseRequest, runParseRequest } from '@/workers/excelParseCore'
+import * as XLSX from 'xlsx'
+import * as workerUrl from '@/utils/workerUrl'
 
 class WorkerStub {
   // @ts-expect-error dynamic assignment by user code
@@ -52,3 +55,88 @@ describe('ExcelParser processInWorker', () => {
   })
 })
 
+// Runs requests with a parser of its own, as the parse worker does
+class ParseWorkerStub extends EventTarget {
+  static inner = new ExcelParser({ inWorker: true })
+  static fail = false
+  constructor(_url?: unknown, _opts?: unknown) {
+    super()
+  }
+  postMessage(request: ExcelParseRequest) {
+    if (ParseWorkerStub.fail) {
+      setTimeout(() => this.dispatchEvent(new ErrorEvent('error', { message: 'Script error' })), 0)
+      return
+    }
+    runParseRequest(ParseWorkerStub.inner, request, (data) =>
+      this.dispatchEvent(new MessageEvent('message', { data })),
+    )
+  }
+  terminate() {}
+}
+
+describe('ExcelParser parse worker', () => {
+  const RealWorker = (global as any).Worker
+  const book = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(
+    book,
+    XLSX.utils.aoa_to_sheet([
+      ['Region', 'Revenue'],
+      ['North', 100],
+    ]),
+    'Sales',
+  )
+  XLSX.utils.book_append_sheet(
+    book,
+    XLSX.utils.aoa_to_sheet([
+      ['Item', 'Cost'],
+      ['Rent', 1200],
+    ]),
+    'Costs',
+  )
+  const file = new File([XLSX.write(book, { type: 'array', bookType: 'xlsx' })], 'budget.xlsx')
+
+  let resolveWorkerUrl: jest.SpyInstance
+
+  beforeAll(() => {
+    ;(global as any).Worker = ParseWorkerStub
+    resolveWorkerUrl = jest
+      .spyOn(workerUrl, 'resolveWorkerUrl')
+      .mockReturnValue(new URL('http://localhost/w.js'))
+  })
+
+  afterAll(() => {
+    ;(global as any).Worker = RealWorker
+    resolveWorkerUrl.mockRestore()
+  })
+
+  beforeEach(() => {
+    ParseWorkerStub.fail = false
+  })
+
+  it('parses the file in the worker, forwarding progress, and opens other sheets there', async () => {
+    const parser = new ExcelParser()
+    const progress = jest.fn()
+
+    const data = await parser.parseFile(file, { progress })
+
+    expect(data.headers).toEqual(['Region', 'Revenue'])
+    expect(data.metadata).toMatchObject({ fileName: 'budget.xlsx', sheetNames: ['Sales', 'Costs'] })
+    expect(progress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'parsing_workbook' }))
+    expect(progress).toHaveBeenLastCalledWith(expect.objectContaining({ stage: 'complete' }))
+    expect(parser.hasWorkbook('budget.xlsx')).toBe(true)
+
+    const costs = await parser.parseSheet('Costs')
+    expect(costs.rows).toEqual([['Rent', 1200]])
+  })
+
+  it('parses on the main thread when the worker fails to run', async () => {
+    ParseWorkerStub.fail = true
+    const parser = new ExcelParser()
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const data = await parser.parseFile(file)
+
+    expect(data.rows).toEqual([['North', 100]])
+    expect(parser.hasWorkbook('budget.xlsx')).toBe(true)
+  })
+})
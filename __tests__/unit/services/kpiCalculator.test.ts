@@ -0,0 +1,157 @@
+import { KpiCalculator } from '@/services/kpiCalculator'
+import { ChartConfig } from '@/types/chart'
+import { DataMatrix } from '@/types/excel'
+import { FilterConfig } from '@/types/filter'
+import { createChartConfig, createColumnInfo } from '../../fixtures/test-data/mock-charts'
+
+const columns = [
+  createColumnInfo('Date', 0, 'date'),
+  createColumnInfo('Region', 1, 'string'),
+  createColumnInfo('Revenue', 2, 'number'),
+]
+
+const rows: DataMatrix = [
+  [new Date(2024, 0, 30), 'North', 10],
+  [new Date(2024, 0, 31), 'South', 20],
+  [new Date(2024, 1, 1), 'North', 40],
+  [new Date(2024, 1, 2), 'South', 60],
+  [new Date(2024, 1, 2), 'North', ''],
+]
+
+const kpiConfig = (overrides: Partial<ChartConfig> = {}): ChartConfig =>
+  createChartConfig({
+    id: 'kpi',
+    title: 'Revenue',
+    type: 'kpi',
+    dataColumn: 'Revenue',
+    position: { row: 0, column: 0, width: 3, height: 4 },
+    ...overrides,
+  })
+
+describe('KpiCalculator', () => {
+  const calculator = new KpiCalculator()
+
+  it('aggregates the filtered rows, leaving out blank cells', () => {
+    expect(calculator.computeKpi(rows, rows, kpiConfig(), columns)).toEqual({
+      value: 130,
+      rowCount: 4,
+    })
+    expect(
+      calculator.computeKpi(rows, rows, kpiConfig({ aggregation: 'average' }), columns).value,
+    ).toBe(32.5)
+    expect(
+      calculator.computeKpi(
+        rows,
+        rows,
+        kpiConfig({ dataColumn: 'Region', aggregation: 'distinct' }),
+        columns,
+      ).value,
+    ).toBe(2)
+  })
+
+  it('compares with every row regardless of filters', () => {
+    const north = rows.filter((row) => row[1] === 'North')
+    const result = calculator.computeKpi(
+      north,
+      rows,
+      kpiConfig({ comparison: { baseline: 'all' } }),
+      columns,
+    )
+
+    expect(result.value).toBe(50)
+    expect(result.comparison).toEqual({
+      label: 'all data',
+      baseline: 130,
+      delta: -80,
+      percentChange: expect.closeTo(-61.54, 2),
+    })
+  })
+
+  it('compares with the same number of days just before the filtered dates', () => {
+    const february = rows.slice(2)
+    const result = calculator.computeKpi(
+      february,
+      rows,
+      kpiConfig({ comparison: { baseline: 'previous-window', dateColumn: 'Date' } }),
+      columns,
+    )
+
+    expect(result.value).toBe(100)
+    expect(result.comparison).toEqual({
+      label: 'previous 2 days (Jan 30, 2024 – Jan 31, 2024)',
+      baseline: 30,
+      delta: 70,
+      percentChange: expect.closeTo(233.33, 2),
+    })
+  })
+
+  it('keeps the non-date filters on the previous window', () => {
+    const filters: FilterConfig[] = [
+      {
+        id: 'region',
+        column: 'Region',
+        columnIndex: 1,
+        type: 'select',
+        active: true,
+        values: [
+          { value: 'North', selected: true },
+          { value: 'South', selected: false },
+        ],
+        operator: 'equals',
+        displayName: 'Region',
+      },
+      {
+        id: 'date',
+        column: 'Date',
+        columnIndex: 0,
+        type: 'date',
+        active: true,
+        values: {
+          earliest: new Date(2024, 0, 30),
+          latest: new Date(2024, 1, 2),
+          currentStart: new Date(2024, 1, 1),
+          currentEnd: new Date(2024, 1, 2),
+        },
+        operator: 'between',
+        displayName: 'Date',
+      },
+    ]
+    const northInFebruary = rows.slice(2).filter((row) => row[1] === 'North')
+    const result = calculator.computeKpi(
+      northInFebruary,
+      rows,
+      kpiConfig({ comparison: { baseline: 'previous-window', dateColumn: 'Date' } }),
+      columns,
+      filters,
+    )
+
+    expect(result.value).toBe(40)
+    expect(result.comparison).toMatchObject({ baseline: 10, delta: 30, percentChange: 300 })
+  })
+
+  it('explains when the previous window has no rows', () => {
+    const result = calculator.computeKpi(
+      rows,
+      rows,
+      kpiConfig({ comparison: { baseline: 'previous-window', dateColumn: 'Date' } }),
+      columns,
+    )
+
+    expect(result.comparison).toMatchObject({ baseline: null, delta: null, percentChange: null })
+    expect(result.comparison!.label).toMatch(/^previous 4 days/)
+  })
+
+  it('rejects sums and averages of non-numeric columns', () => {
+    expect(() =>
+      calculator.computeKpi(rows, rows, kpiConfig({ dataColumn: 'Region' }), columns),
+    ).toThrow('"Region" is not numeric. Use Count or Distinct Count for this column.')
+    expect(() =>
+      calculator.computeKpi(
+        rows,
+        rows,
+        kpiConfig({ comparison: { baseline: 'previous-window' } }),
+        columns,
+      ),
+    ).toThrow('Select a date column to compare with the previous window.')
+  })
+})
@@ -0,0 +1,421 @@
+import { escapeXml, niceTicks, renderChartSVG } from '@/utils/chartSvg'
+import { ChartConfig, ChartData, HierarchyNode } from '@/types/chart'
+
+const baseConfig: ChartConfig = {
+  id: 'chart-1',
+  type: 'bar',
+  title: 'Sales by Region',
+  dataColumn: 'Sales',
+  labelColumn: 'Region',
+  aggregation: 'sum',
+  options: {
+    responsive: true,
+    maintainAspectRatio: true,
+    plugins: {
+      legend: { display: true, position: 'top' },
+      title: { display: true, text: 'Sales by Region' },
+      tooltip: { enabled: true },
+    },
+  },
+  position: { row: 0, column: 0, width: 1, height: 1 },
+}
+
+const parse = (svg: string) => new DOMParser().parseFromString(svg, 'image/svg+xml')
+
+describe('renderChartSVG', () => {
+  it('produces well-formed standalone SVG with title and category labels', () => {
+    const data: ChartData = {
+      labels: ['North', 'South'],
+      datasets: [
+        {
+          label: 'Sales',
+          data: [10, 20],
+          backgroundColor: ['#3b82f6', '#ef4444'],
+          borderColor: ['#3b82f6', '#ef4444'],
+          borderWidth: 1,
+        },
+      ],
+    }
+    const svg = renderChartSVG(data, baseConfig)
+    const doc = parse(svg)
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0)
+    expect(doc.documentElement.getAttribute('xmlns')).toBe('http://www.w3.org/2000/svg')
+    const texts = Array.from(doc.getElementsByTagName('text')).map((t) => t.textContent)
+    expect(texts).toEqual(expect.arrayContaining(['Sales by Region', 'North', 'South', 'Region']))
+    // Background plus one rect per bar
+    expect(doc.getElementsByTagName('rect')).toHaveLength(3)
+  })
+
+  it('escapes markup in titles and labels', () => {
+    const data: ChartData = {
+      labels: ['<A & B>'],
+      datasets: [
+        {
+          label: 'x',
+          data: [1],
+          backgroundColor: '#3b82f6',
+          borderColor: '#3b82f6',
+          borderWidth: 1,
+        },
+      ],
+    }
+    const svg = renderChartSVG(data, { ...baseConfig, title: 'Q1 "Sales" <draft>' })
+
+    expect(svg).toContain('Q1 &quot;Sales&quot; &lt;draft&gt;')
+    expect(svg).toContain('&lt;A &amp; B&gt;')
+    expect(parse(svg).getElementsByTagName('parsererror')).toHaveLength(0)
+  })
+
+  it('draws pie slices with a legend entry per label', () => {
+    const data: ChartData = {
+      labels: ['A', 'B', 'C'],
+      datasets: [
+        {
+          label: 'Count',
+          data: [1, 1, 2],
+          backgroundColor: ['#ff000080', '#00ff00', '#0000ff'],
+          borderColor: ['#fff', '#fff', '#fff'],
+          borderWidth: 1,
+        },
+      ],
+    }
+    const svg = renderChartSVG(data, { ...baseConfig, type: 'pie' })
+    const doc = parse(svg)
+
+    expect(doc.getElementsByTagName('path')).toHaveLength(3)
+    const texts = Array.from(doc.getElementsByTagName('text')).map((t) => t.textContent)
+    expect(texts).toEqual(expect.arrayContaining(['A', 'B', 'C', '50.0%']))
+    // Alpha hex colours are split into fill and fill-opacity
+    expect(svg).toContain('fill="#ff0000" fill-opacity="0.50"')
+  })
+
+  it('draws a full circle for a single pie slice', () => {
+    const data: ChartData = {
+      labels: ['Only'],
+      datasets: [
+        {
+          label: 'Count',
+          data: [5],
+          backgroundColor: ['#3b82f6'],
+          borderColor: ['#fff'],
+          borderWidth: 1,
+        },
+      ],
+    }
+    const svg = renderChartSVG(data, { ...baseConfig, type: 'doughnut' })
+    const path = parse(svg).getElementsByTagName('path')[0].getAttribute('d') ?? ''
+
+    expect(path.match(/A /g)).toHaveLength(4)
+  })
+
+  it('renders line charts as polylines broken at gaps', () => {
+    const data: ChartData = {
+      labels: ['Jan', 'Feb', 'Mar', 'Apr', 'May'],
+      datasets: [
+        {
+          label: 'Sales',
+          data: [1, 2, null, 4, 5],
+          backgroundColor: '#3b82f6',
+          borderColor: '#3b82f6',
+          borderWidth: 2,
+        },
+      ],
+    }
+    const doc = parse(renderChartSVG(data, { ...baseConfig, type: 'line' }))
+
+    expect(doc.getElementsByTagName('polyline')).toHaveLength(2)
+    expect(doc.getElementsByTagName('circle')).toHaveLength(4)
+  })
+
+  it('stacks series bars and shows a legend for each series', () => {
+    const data: ChartData = {
+      labels: ['North', 'South'],
+      datasets: [
+        {
+          label: '2023',
+          data: [40, 50],
+          backgroundColor: '#111111',
+          borderColor: '#111111',
+          borderWidth: 1,
+        },
+        {
+          label: '2024',
+          data: [60, 50],
+          backgroundColor: '#222222',
+          borderColor: '#222222',
+          borderWidth: 1,
+        },
+      ],
+    }
+    const svg = renderChartSVG(data, {
+      ...baseConfig,
+      seriesColumn: 'Year',
+      barMode: 'percent',
+    })
+    const doc = parse(svg)
+    const texts = Array.from(doc.getElementsByTagName('text')).map((t) => t.textContent)
+
+    expect(texts).toEqual(expect.arrayContaining(['2023', '2024', '100%']))
+    const bars = Array.from(doc.getElementsByTagName('rect')).filter(
+      (r) => r.getAttribute('fill') === '#111111' || r.getAttribute('fill') === '#222222',
+    )
+    // Four data bars plus two legend swatches
+    expect(bars).toHaveLength(6)
+    // The 2024 North bar sits on top of the 2023 North bar
+    const [north2023, , north2024] = bars
+    expect(Number(north2023.getAttribute('y'))).toBeGreaterThan(Number(north2024.getAttribute('y')))
+    expect(north2023.getAttribute('x')).toBe(north2024.getAttribute('x'))
+  })
+
+  it('renders scatter points and a dashed trendline with its equation', () => {
+    const data: ChartData = {
+      labels: [],
+      datasets: [
+        {
+          label: 'Points',
+          data: [
+            { x: 1, y: 2 },
+            { x: 2, y: 4 },
+          ],
+          backgroundColor: '#3b82f6',
+          borderColor: '#3b82f6',
+          borderWidth: 1,
+        },
+        {
+          label: 'Trend',
+          data: [
+            { x: 1, y: 2 },
+            { x: 2, y: 4 },
+          ],
+          backgroundColor: '#111827',
+          borderColor: '#111827',
+          borderWidth: 2,
+          showLine: true,
+          pointRadius: 0,
+          borderDash: [6, 4],
+        },
+      ],
+      trendline: { slope: 2, intercept: 0, rSquared: 1 },
+    }
+    const svg = renderChartSVG(data, { ...baseConfig, type: 'scatter', labelColumn: 'X' })
+    const doc = parse(svg)
+
+    expect(doc.getElementsByTagName('circle')).toHaveLength(2)
+    expect(doc.getElementsByTagName('polyline')[0].getAttribute('stroke-dasharray')).toBe('6 4')
+    expect(svg).toContain('y = 2x + 0 (R² = 1.000)')
+  })
+
+  it('renders box plots from floating bars, median marks and outliers', () => {
+    const data: ChartData = {
+      labels: ['A'],
+      datasets: [
+        {
+          label: 'Interquartile range',
+          data: [[2, 4]],
+          backgroundColor: '#3b82f6',
+          borderColor: '#3b82f6',
+          borderWidth: 1,
+          grouped: false,
+          barPercentage: 0.6,
+        },
+        {
+          label: 'Median',
+          type: 'line',
+          data: [3],
+          backgroundColor: '#111827',
+          borderColor: '#111827',
+          borderWidth: 2,
+          pointStyle: 'line',
+          showLine: false,
+        },
+        {
+          label: 'Outliers',
+          type: 'line',
+          data: [{ x: 0, y: 10 }],
+          backgroundColor: '#ef4444',
+          borderColor: '#ef4444',
+          borderWidth: 1,
+          showLine: false,
+        },
+      ] as ChartData['datasets'],
+    }
+    const doc = parse(renderChartSVG(data, { ...baseConfig, type: 'boxplot' }))
+
+    expect(doc.getElementsByTagName('circle')).toHaveLength(1)
+    const medianLines = Array.from(doc.getElementsByTagName('line')).filter(
+      (l) => l.getAttribute('stroke') === '#111827',
+    )
+    expect(medianLines).toHaveLength(1)
+  })
+
+  it('renders violin outlines as filled polygons labelled by category', () => {
+    const data: ChartData = {
+      labels: ['A', 'B'],
+      datasets: [
+        {
+          label: 'A',
+          data: [
+            { x: -0.2, y: 1 },
+            { x: 0.2, y: 1 },
+            { x: 0, y: 3 },
+          ],
+          backgroundColor: '#3b82f666',
+          borderColor: '#3b82f6',
+          borderWidth: 1,
+          showLine: true,
+          fill: 'shape',
+          pointRadius: 0,
+        },
+      ],
+    }
+    const doc = parse(renderChartSVG(data, { ...baseConfig, type: 'violin' }))
+    const texts = Array.from(doc.getElementsByTagName('text')).map((t) => t.textContent)
+
+    expect(doc.getElementsByTagName('polygon')).toHaveLength(1)
+    expect(texts).toEqual(expect.arrayContaining(['A', 'B']))
+  })
+})
+
+describe('renderChartSVG hierarchies', () => {
+  const node = (path: string[], value: number, color: string, children: HierarchyNode[] = []) => ({
+    name: path[path.length - 1] ?? 'All',
+    path,
+    value,
+    color,
+    rows: [],
+    children,
+  })
+  const hierarchy = node([], 90, '#9ca3af', [
+    node(['Europe'], 60, '#3b82f6', [
+      node(['Europe', 'France'], 40, '#3b82f6'),
+      node(['Europe', 'Spain'], 20, '#3b82f6'),
+    ]),
+    node(['Asia'], 30, '#ef4444'),
+  ])
+  const data: ChartData = {
+    labels: ['Europe', 'Asia'],
+    datasets: [
+      {
+        label: 'Sales',
+        data: [60, 30],
+        backgroundColor: ['#3b82f6', '#ef4444'],
+        borderColor: ['#3b82f6', '#ef4444'],
+        borderWidth: 1,
+      },
+    ],
+    hierarchy,
+  }
+
+  it('draws treemap boxes for two levels with a legend per top-level category', () => {
+    const doc = parse(renderChartSVG(data, { ...baseConfig, type: 'treemap' }))
+    const texts = Array.from(doc.getElementsByTagName('text')).map((t) => t.textContent)
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0)
+    // Background, four boxes and two legend swatches
+    expect(doc.getElementsByTagName('rect')).toHaveLength(7)
+    expect(texts).toEqual(expect.arrayContaining(['Europe', 'France 40', 'Asia 30']))
+  })
+
+  it('draws a sunburst ring per level', () => {
+    const doc = parse(renderChartSVG(data, { ...baseConfig, type: 'sunburst' }))
+    const paths = Array.from(doc.getElementsByTagName('path'))
+
+    expect(paths).toHaveLength(4)
+    expect(paths.filter((p) => p.getAttribute('fill-opacity') === '0.80')).toHaveLength(2)
+  })
+})
+
+describe('renderChartSVG funnels', () => {
+  it('draws a centered bar per stage with its conversion from the first stage', () => {
+    const data: ChartData = {
+      labels: ['Visit', 'Signup'],
+      datasets: [
+        {
+          label: 'Users',
+          data: [
+            [-2, 2],
+            [-1, 1],
+          ],
+          backgroundColor: ['#3b82f6', '#ef4444'],
+          borderColor: ['#3b82f6', '#ef4444'],
+          borderWidth: 1,
+        },
+      ],
+      funnel: [
+        { value: 4, ofFirst: 1, ofPrevious: 1 },
+        { value: 2, ofFirst: 0.5, ofPrevious: 0.5 },
+      ],
+    }
+    const doc = parse(renderChartSVG(data, { ...baseConfig, type: 'funnel' }))
+    const bars = Array.from(doc.getElementsByTagName('rect')).slice(1)
+    const texts = Array.from(doc.getElementsByTagName('text')).map((t) => t.textContent)
+    const center = (r: Element) => Number(r.getAttribute('x')) + Number(r.getAttribute('width')) / 2
+
+    expect(bars).toHaveLength(2)
+    expect(Number(bars[1].getAttribute('width'))).toBeCloseTo(
+      Number(bars[0].getAttribute('width')) / 2,
+    )
+    expect(center(bars[1])).toBeCloseTo(center(bars[0]))
+    expect(texts).toEqual(expect.arrayContaining(['Visit', 'Signup', '100.0%', '50.0%']))
+  })
+})
+
+describe('renderChartSVG annotations', () => {
+  const data: ChartData = {
+    labels: ['North', 'South', 'East'],
+    datasets: [
+      {
+        label: 'Sales',
+        data: [10, 20, 30],
+        backgroundColor: '#3b82f6',
+        borderColor: '#3b82f6',
+        borderWidth: 1,
+      },
+    ],
+    annotations: [
+      { id: 'l1', kind: 'line', axis: 'y', value: 45, label: 'Target', color: '#dc2626' },
+      { id: 'b1', kind: 'band', axis: 'x', from: 0, to: 1, label: '', color: '#f59e0b' },
+      { id: 'n1', kind: 'note', x: 2, y: 30, text: 'Record', color: '#111827' },
+    ],
+  }
+
+  it('draws reference lines, bands and notes', () => {
+    const doc = parse(renderChartSVG(data, baseConfig))
+    const texts = Array.from(doc.getElementsByTagName('text')).map((t) => t.textContent)
+    const dashed = Array.from(doc.getElementsByTagName('line')).filter(
+      (l) => l.getAttribute('stroke-dasharray') === '6 4',
+    )
+    const bands = Array.from(doc.getElementsByTagName('rect')).filter(
+      (r) => r.getAttribute('fill-opacity') === '0.15',
+    )
+
+    expect(dashed).toHaveLength(1)
+    expect(dashed[0].getAttribute('stroke')).toBe('#dc2626')
+    expect(bands).toHaveLength(1)
+    expect(texts).toEqual(expect.arrayContaining(['Target', 'Record']))
+  })
+
+  it('extends the value axis to a target above the data', () => {
+    const doc = parse(renderChartSVG(data, baseConfig))
+    const ticks = Array.from(doc.getElementsByTagName('text')).map((t) => Number(t.textContent))
+
+    expect(Math.max(...ticks.filter(Number.isFinite))).toBeGreaterThanOrEqual(45)
+  })
+})
+
+describe('niceTicks', () => {
+  it('uses round steps that cover the range', () => {
+    expect(niceTicks(0, 95, 5)).toEqual([0, 20, 40, 60, 80, 100])
+    expect(niceTicks(-3, 3, 5)).toEqual([-4, -2, 0, 2, 4])
+    expect(niceTicks(0.1, 0.5, 4)).toEqual([0.1, 0.2, 0.3, 0.4, 0.5])
+  })
+})
+
+describe('escapeXml', () => {
+  it('escapes XML special characters', () => {
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;',
+    )
+  })
+})
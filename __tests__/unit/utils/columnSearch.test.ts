@@ -14,10 +14,18 @@ describe('columnSearch utils', () => {
 
   it('getCompatibleColumns filters by chart type', () => {
     const forLine = getCompatibleColumns(cols, 'line')
-    expect(forLine.map((c) => c.name)).toEqual(expect.arrayContaining(['price', 'amount', 'created_at']))
+    expect(forLine.map((c) => c.name)).toEqual(expect.arrayContaining(['price', 'amount']))
     expect(forLine.find((c) => c.name === 'category')).toBeUndefined()
   })
 
+  it('getCompatibleColumns uses label data types for the label axis', () => {
+    const lineXAxis = getCompatibleColumns(cols, 'line', 'label')
+    expect(lineXAxis.map((c) => c.name)).toEqual(['created_at'])
+
+    // Without dedicated label types the label axis mirrors the data axis
+    expect(getCompatibleColumns(cols, 'bar', 'label')).toEqual(getCompatibleColumns(cols, 'bar'))
+  })
+
   it('rankColumns prioritizes exact and prefix matches', () => {
     const ranked = rankColumns(cols, 'price', 'pie')
     expect(ranked[0].name).toBe('price')
@@ -0,0 +1,153 @@
+import {
+  CsvRecordReader,
+  detectDialect,
+  detectEncoding,
+  isDelimitedText,
+  normalizeDecimal,
+  parseDelimited,
+  toStandardCsv,
+} from '@/utils/csvDialect'
+
+const bytes = (...values: number[]) => new Uint8Array(values)
+const ascii = (text: string) => bytes(...Array.from(text, (ch) => ch.charCodeAt(0)))
+
+describe('detectEncoding', () => {
+  it('trusts a byte order mark', () => {
+    expect(detectEncoding(bytes(0xef, 0xbb, 0xbf, 0x61))).toEqual({
+      encoding: 'utf-8',
+      bom: true,
+      confidence: 1,
+    })
+    expect(detectEncoding(bytes(0xff, 0xfe, 0x61, 0x00))).toMatchObject({
+      encoding: 'utf-16le',
+      bom: true,
+    })
+    expect(detectEncoding(bytes(0xfe, 0xff, 0x00, 0x61))).toMatchObject({
+      encoding: 'utf-16be',
+      bom: true,
+    })
+  })
+
+  it('recognises UTF-16 without a byte order mark from its zero bytes', () => {
+    const text = 'Name,City\n'
+    const le = bytes(...Array.from(text).flatMap((ch) => [ch.charCodeAt(0), 0]))
+    const be = bytes(...Array.from(text).flatMap((ch) => [0, ch.charCodeAt(0)]))
+
+    expect(detectEncoding(le)).toMatchObject({ encoding: 'utf-16le', bom: false })
+    expect(detectEncoding(be)).toMatchObject({ encoding: 'utf-16be', bom: false })
+  })
+
+  it('falls back to Windows-1252 when the bytes are not valid UTF-8', () => {
+    // "Café" in UTF-8, then in Windows-1252
+    expect(detectEncoding(bytes(0x43, 0x61, 0x66, 0xc3, 0xa9))).toEqual({
+      encoding: 'utf-8',
+      bom: false,
+      confidence: 0.95,
+    })
+    expect(detectEncoding(bytes(0x43, 0x61, 0x66, 0xe9, 0x2c))).toMatchObject({
+      encoding: 'windows-1252',
+    })
+    expect(detectEncoding(ascii('a,b'))).toMatchObject({ encoding: 'utf-8', confidence: 1 })
+  })
+})
+
+describe('detectDialect', () => {
+  it.each([
+    ['comma', 'Name,City,Age\nAda,London,36\nAlan,Wilmslow,41\n', ','],
+    ['tab', 'Name\tCity\tAge\nAda\tLondon\t36\nAlan\tWilmslow\t41\n', '\t'],
+    ['pipe', 'Name|City|Age\nAda|London|36\nAlan|Wilmslow|41\n', '|'],
+  ])('finds the %s delimiter', (_name, text, delimiter) => {
+    expect(detectDialect(text)).toEqual({ delimiter, quote: '"', decimal: '.', confidence: 1 })
+  })
+
+  it('prefers semicolons over the decimal commas of a European export', () => {
+    const guess = detectDialect('Produkt;Preis;Menge\nApfel;1,50;3\nBirne;0,75;10\n')
+
+    expect(guess).toMatchObject({ delimiter: ';', decimal: ',' })
+    expect(guess.confidence).toBeLessThan(1)
+  })
+
+  it('finds single-quoted fields', () => {
+    expect(detectDialect("'Name','City'\n'Ada','London, UK'\n'Alan','Wilmslow'\n")).toEqual({
+      delimiter: ',',
+      quote: "'",
+      decimal: '.',
+      confidence: 1,
+    })
+  })
+})
+
+describe('parseDelimited', () => {
+  it('keeps delimiters, line breaks and doubled quotes inside quoted fields', () => {
+    expect(
+      parseDelimited('a;"b;c"\r\n"say ""hi""";"two\nlines"\n\n', { delimiter: ';', quote: '"' }),
+    ).toEqual([
+      ['a', 'b;c'],
+      ['say "hi"', 'two\nlines'],
+    ])
+  })
+
+  it('stops after the requested number of records', () => {
+    expect(parseDelimited('a\nb\nc\n', { delimiter: ',', quote: '"' }, 2)).toEqual([['a'], ['b']])
+  })
+})
+
+describe('CsvRecordReader', () => {
+  it('gives the same records wherever the text is cut into pieces', () => {
+    const text = 'a;"b;c"\r\n"say ""hi""";"two\nlines"\r\nlast;row'
+    const dialect = { delimiter: ';', quote: '"' }
+    const whole = parseDelimited(text, dialect)
+
+    for (let cut = 0; cut <= text.length; cut++) {
+      const reader = new CsvRecordReader(dialect)
+      const records = [
+        ...reader.push(text.slice(0, cut)),
+        ...reader.push(text.slice(cut)),
+        ...reader.end(),
+      ]
+      expect(records).toEqual(whole)
+    }
+    expect(whole).toEqual([
+      ['a', 'b;c'],
+      ['say "hi"', 'two\nlines'],
+      ['last', 'row'],
+    ])
+  })
+})
+
+describe('toStandardCsv', () => {
+  it('double-quotes the fields that need it', () => {
+    expect(
+      toStandardCsv(
+        [
+          ['Ada', 'London, UK'],
+          ['say "hi"', 'x'],
+        ],
+        { delimiter: ',', decimal: '.' },
+      ),
+    ).toBe('Ada,"London, UK"\n"say ""hi""",x')
+  })
+
+  it('turns decimal commas into points', () => {
+    expect(
+      toStandardCsv([['Apfel', '1.234,50', 'Tag 1,2']], { delimiter: ';', decimal: ',' }),
+    ).toBe('Apfel;1234.50;Tag 1,2')
+  })
+})
+
+describe('normalizeDecimal', () => {
+  it('drops the thousands points of whole numbers when the decimal mark is a comma', () => {
+    expect(normalizeDecimal('1.234', ',')).toBe('1234')
+    expect(normalizeDecimal('12.500.000', ',')).toBe('12500000')
+    expect(normalizeDecimal('-1.234', ',')).toBe('-1234')
+    expect(normalizeDecimal('1.23', ',')).toBe('1.23')
+    expect(normalizeDecimal('1.234', '.')).toBe('1.234')
+  })
+})
+
+describe('isDelimitedText', () => {
+  it('matches csv, tsv and txt files', () => {
+    expect(['a.CSV', 'b.tsv', 'c.txt'].every(isDelimitedText)).toBe(true)
+    expect(isDelimitedText('d.xlsx')).toBe(false)
+  })
+})
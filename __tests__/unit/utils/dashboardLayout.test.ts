@@ -0,0 +1,128 @@
+import {
+  clampPosition,
+  defaultSizeFor,
+  findFreePosition,
+  isPlaceholderPosition,
+  minSizeFor,
+  movePosition,
+  positionsOverlap,
+  resizePosition,
+  resolveLayout,
+  snapDelta,
+} from '@/utils/dashboardLayout'
+
+describe('dashboardLayout', () => {
+  it('detects overlapping positions', () => {
+    const a = { row: 0, column: 0, width: 6, height: 4 }
+    expect(positionsOverlap(a, { row: 3, column: 5, width: 6, height: 4 })).toBe(true)
+    expect(positionsOverlap(a, { row: 4, column: 0, width: 6, height: 4 })).toBe(false)
+    expect(positionsOverlap(a, { row: 0, column: 6, width: 6, height: 4 })).toBe(false)
+  })
+
+  it('clamps positions to the grid and minimum size', () => {
+    expect(clampPosition({ row: -2, column: 10, width: 6, height: 2 })).toEqual({
+      row: 0,
+      column: 6,
+      width: 6,
+      height: 6,
+    })
+    expect(clampPosition({ row: 1, column: 0, width: 20, height: 8 }).width).toBe(12)
+  })
+
+  it('finds the first free slot left to right, then top to bottom', () => {
+    const placed = [{ row: 0, column: 0, width: 6, height: 11 }]
+    expect(findFreePosition(placed)).toEqual({ row: 0, column: 6, width: 6, height: 11 })
+    placed.push({ row: 0, column: 6, width: 6, height: 11 })
+    expect(findFreePosition(placed)).toEqual({ row: 11, column: 0, width: 6, height: 11 })
+  })
+
+  it('auto-places charts that still have the placeholder position', () => {
+    const placeholder = { row: 0, column: 0, width: 1, height: 1 }
+    expect(isPlaceholderPosition(placeholder)).toBe(true)
+
+    const layout = resolveLayout([
+      { id: 'a', position: placeholder },
+      { id: 'b', position: placeholder },
+      { id: 'c', position: placeholder },
+    ])
+
+    expect(layout).toEqual({
+      a: { row: 0, column: 0, width: 6, height: 11 },
+      b: { row: 0, column: 6, width: 6, height: 11 },
+      c: { row: 11, column: 0, width: 6, height: 11 },
+    })
+  })
+
+  it('keeps the pinned chart in place and pushes overlapping charts down', () => {
+    const layout = resolveLayout(
+      [
+        { id: 'a', position: { row: 0, column: 0, width: 6, height: 8 } },
+        { id: 'b', position: { row: 0, column: 6, width: 6, height: 8 } },
+        { id: 'moving', position: { row: 2, column: 4, width: 4, height: 6 } },
+      ],
+      'moving',
+    )
+
+    expect(layout.moving).toEqual({ row: 2, column: 4, width: 4, height: 6 })
+    expect(layout.a).toEqual({ row: 8, column: 0, width: 6, height: 8 })
+    expect(layout.b).toEqual({ row: 8, column: 6, width: 6, height: 8 })
+  })
+
+  it('leaves non-overlapping stored positions untouched, including gaps', () => {
+    const items = [
+      { id: 'a', position: { row: 0, column: 0, width: 4, height: 6 } },
+      { id: 'b', position: { row: 20, column: 8, width: 4, height: 6 } },
+    ]
+    const layout = resolveLayout(items)
+    expect(layout.a).toEqual(items[0].position)
+    expect(layout.b).toEqual(items[1].position)
+  })
+
+  it('snaps pixel deltas to whole cells', () => {
+    // 12 columns over 1184px with 16px gaps gives 100px per column; rows are 56px
+    expect(snapDelta(149, 0, { containerWidth: 1184 })).toEqual({ columns: 1, rows: 0 })
+    expect(snapDelta(151, -90, { containerWidth: 1184 })).toEqual({ columns: 2, rows: -2 })
+    expect(snapDelta(500, 0, { containerWidth: 0 }).columns).toBe(0)
+  })
+
+  it('moves and resizes within the grid bounds', () => {
+    const origin = { row: 2, column: 6, width: 6, height: 8 }
+    expect(movePosition(origin, { columns: 3, rows: -5 })).toEqual({
+      row: 0,
+      column: 6,
+      width: 6,
+      height: 8,
+    })
+    expect(resizePosition(origin, { columns: 4, rows: 2 })).toEqual({
+      row: 2,
+      column: 6,
+      width: 6,
+      height: 10,
+    })
+    expect(resizePosition(origin, { columns: -10, rows: -10 })).toEqual({
+      row: 2,
+      column: 6,
+      width: 3,
+      height: 6,
+    })
+  })
+
+  it('lets KPI cards be smaller than charts', () => {
+    const origin = { row: 0, column: 0, width: 3, height: 4 }
+    const kpiMin = minSizeFor('kpi')
+
+    expect(defaultSizeFor('kpi')).toEqual({ width: 3, height: 4 })
+    expect(defaultSizeFor('bar')).toEqual({ width: 6, height: 11 })
+    expect(resizePosition(origin, { columns: -5, rows: -5 }, 12, kpiMin)).toEqual({
+      row: 0,
+      column: 0,
+      width: 2,
+      height: 3,
+    })
+    expect(
+      resolveLayout([{ id: 'kpi', position: { ...origin, height: 3 }, minSize: kpiMin }]).kpi,
+    ).toEqual({ ...origin, height: 3 })
+    // Without the KPI minimum the same card is stretched to chart size
+    expect(resolveLayout([{ id: 'kpi', position: { ...origin, height: 3 } }]).kpi.height).toBe(6)
+  })
+})
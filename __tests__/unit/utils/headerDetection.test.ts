@@ -0,0 +1,67 @@
+import { detectHeaderRows, joinHeaderRows } from '@/utils/headerDetection'
+
+describe('detectHeaderRows', () => {
+  it('uses the first row of a plain table', () => {
+    expect(
+      detectHeaderRows([
+        ['Region', 'Revenue'],
+        ['North', 100],
+        ['South', 80],
+      ]),
+    ).toEqual({ start: 0, count: 1 })
+  })
+
+  it('skips title, note and blank rows above the header', () => {
+    expect(
+      detectHeaderRows([
+        ['Sales report', null, null],
+        ['Exported 2024-03-01', null, null],
+        [null, null, null],
+        ['Region', 'Revenue', 'Units'],
+        ['North', 100, 4],
+        ['South', 80, 3],
+      ]),
+    ).toEqual({ start: 3, count: 1 })
+  })
+
+  it('takes in the levels of a merged header', () => {
+    expect(
+      detectHeaderRows([
+        ['Quarterly results', null, null, null, null],
+        ['Region', 'Q1', null, 'Q2', null],
+        [null, 'Revenue', 'Cost', 'Revenue', 'Cost'],
+        ['North', 100, 60, 120, 70],
+      ]),
+    ).toEqual({ start: 1, count: 2 })
+  })
+
+  it('does not take the first row of a text-only table for a second header level', () => {
+    expect(
+      detectHeaderRows([
+        ['Name', null, 'City'],
+        ['Ada', 'Lovelace', 'London'],
+        ['Alan', 'Turing', 'Wilmslow'],
+      ]),
+    ).toEqual({ start: 0, count: 1 })
+  })
+})
+
+describe('joinHeaderRows', () => {
+  it('joins the levels, carrying merged group labels across their columns', () => {
+    expect(
+      joinHeaderRows([
+        ['Region', 'Q1', null, 'Q2', null],
+        [null, 'Revenue', 'Cost', 'Revenue', 'Cost'],
+      ]),
+    ).toEqual(['Region', 'Q1 / Revenue', 'Q1 / Cost', 'Q2 / Revenue', 'Q2 / Cost'])
+  })
+
+  it('leaves a column with no name in any row unnamed', () => {
+    expect(
+      joinHeaderRows([
+        ['Region', null, 'Q1'],
+        [null, null, 'Revenue'],
+      ]),
+    ).toEqual(['Region', null, 'Q1 / Revenue'])
+  })
+})
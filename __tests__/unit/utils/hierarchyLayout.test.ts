@@ -0,0 +1,91 @@
+import { HierarchyNode } from '@/types/chart'
+import {
+  findHierarchyNode,
+  hierarchyDepth,
+  sunburstLayout,
+  treemapLayout,
+} from '@/utils/hierarchyLayout'
+
+const node = (path: string[], value: number, children: HierarchyNode[] = []): HierarchyNode => ({
+  name: path[path.length - 1] ?? 'All',
+  path,
+  value,
+  color: '#3b82f6',
+  rows: [],
+  children,
+})
+
+const root = node([], 100, [
+  node(['Europe'], 60, [node(['Europe', 'France'], 45), node(['Europe', 'Spain'], 15)]),
+  node(['Asia'], 30, [node(['Asia', 'Japan'], 30)]),
+  node(['Africa'], 10),
+])
+
+describe('treemapLayout', () => {
+  it('gives each top-level box an area proportional to its value', () => {
+    const tiles = treemapLayout(root, { x: 0, y: 0, width: 100, height: 50 }, { levels: 1 })
+
+    expect(tiles.map((t) => t.node.name)).toEqual(['Europe', 'Asia', 'Africa'])
+    expect(tiles.map((t) => Math.round(t.width * t.height))).toEqual([3000, 1500, 500])
+    for (const t of tiles) {
+      expect(t.x).toBeGreaterThanOrEqual(0)
+      expect(t.y).toBeGreaterThanOrEqual(0)
+      expect(t.x + t.width).toBeLessThanOrEqual(100 + 1e-9)
+      expect(t.y + t.height).toBeLessThanOrEqual(50 + 1e-9)
+    }
+  })
+
+  it('nests the next level inside its parent, below the header', () => {
+    const tiles = treemapLayout(
+      root,
+      { x: 0, y: 0, width: 100, height: 50 },
+      { levels: 2, padding: 1, header: 5 },
+    )
+    const europe = tiles.find((t) => t.node.name === 'Europe')!
+    const inside = tiles.filter((t) => t.node.path[0] === 'Europe' && t.depth === 2)
+
+    expect(inside.map((t) => t.node.name)).toEqual(['France', 'Spain'])
+    for (const t of inside) {
+      expect(t.x).toBeGreaterThanOrEqual(europe.x + 1 - 1e-9)
+      expect(t.y).toBeGreaterThanOrEqual(europe.y + 5 - 1e-9)
+      expect(t.x + t.width).toBeLessThanOrEqual(europe.x + europe.width - 1 + 1e-9)
+    }
+    expect(inside[0].width * inside[0].height).toBeCloseTo(3 * inside[1].width * inside[1].height)
+  })
+})
+
+describe('sunburstLayout', () => {
+  it('splits each ring by value within the parent slice', () => {
+    const arcs = sunburstLayout(root, 2)
+    const sweep = (name: string) => {
+      const arc = arcs.find((a) => a.node.name === name)!
+      return arc.endAngle - arc.startAngle
+    }
+
+    expect(arcs.filter((a) => a.depth === 1).map((a) => a.node.name)).toEqual([
+      'Europe',
+      'Asia',
+      'Africa',
+    ])
+    expect(sweep('Europe')).toBeCloseTo(Math.PI * 1.2)
+    expect(sweep('France')).toBeCloseTo(Math.PI * 0.9)
+    expect(arcs.find((a) => a.node.name === 'Spain')!.endAngle).toBeCloseTo(Math.PI * 1.2)
+  })
+
+  it('stops at the requested number of rings', () => {
+    expect(sunburstLayout(root, 1).every((a) => a.depth === 1)).toBe(true)
+  })
+})
+
+describe('findHierarchyNode', () => {
+  it('follows a path of names and gives up on a missing one', () => {
+    expect(findHierarchyNode(root, ['Europe', 'Spain'])?.value).toBe(15)
+    expect(findHierarchyNode(root, [])).toBe(root)
+    expect(findHierarchyNode(root, ['Europe', 'Italy'])).toBeNull()
+  })
+
+  it('measures the depth below a node', () => {
+    expect(hierarchyDepth(root)).toBe(2)
+    expect(hierarchyDepth(root.children[2])).toBe(0)
+  })
+})
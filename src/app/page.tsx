@@ -2,12 +2,17 @@
 
 import { lazy, Suspense, useState } from 'react'
 import { FileUploader } from '@/components/FileUploader'
+import { CsvImportModal } from '@/components/CsvImportModal'
+import { HeaderRowSettings } from '@/components/presentational/upload/HeaderRowSettings'
 import { DataTable } from '@/components/DataTable'
 import { useToast } from '@/components/ui/Toast'
 import { useExcelData } from '@/hooks/useExcelData'
 import { useFilters } from '@/hooks/useFilters'
 import { useSessionPersistence } from '@/hooks/useSessionPersistence'
 import { globalProperties } from '@/types/global'
+import type { CsvDialect, HeaderRegion } from '@/types/excel'
+import { isDelimitedText } from '@/utils/csvDialect'
+import type { CrossFilterSelection } from '@/types/filter'
 import {
   ChartErrorBoundary,
   DataProcessingErrorBoundary,
@@ -31,21 +36,58 @@ const AnalyticsPanel = lazy(() =>
 
 export default function HomePage() {
   const [showDataTypes, setShowDataTypes] = useState(false)
+  // A delimited text file waiting for its import settings to be confirmed
+  const [pendingCsv, setPendingCsv] = useState<File | null>(null)
   const { addToast } = useToast()
   const session = useSessionPersistence({ enabled: true })
-  const { parseFile, currentData, isLoading, progress, deleteColumn } = useExcelData(session)
-  const { filters, filteredData, isFiltering, updateFilter, resetFilter, resetAllFilters } =
-    useFilters(currentData, session)
+  const {
+    parseFile,
+    currentData,
+    isLoading,
+    progress,
+    deleteColumn,
+    switchSheet,
+    availableSheets,
+    setHeaderRows,
+    canChangeHeader,
+    previewCsv,
+  } = useExcelData(session)
+  const {
+    filters,
+    filteredData,
+    isFiltering,
+    updateFilter,
+    toggleCrossFilter,
+    resetFilter,
+    resetAllFilters,
+  } = useFilters(currentData, session)
   const { isVisible: showPerfMonitor, toggle: togglePerfMonitor } = usePerformanceMonitor()
 
   const handleFileSelect = async (file: File) => {
+    if (isDelimitedText(file.name)) {
+      setPendingCsv(file)
+      return
+    }
+    await importFile(file)
+  }
+
+  const handleCsvImport = async (file: File, csv: CsvDialect) => {
+    setPendingCsv(null)
+    await importFile(file, csv)
+  }
+
+  const importFile = async (file: File, csv?: CsvDialect) => {
     try {
-      const data = await parseFile(file)
+      const data = await parseFile(file, { csv })
+      const { fileName, totalRows, totalColumns, rowsInFile } = data.metadata
+      const rowCount = rowsInFile
+        ? `first ${totalRows.toLocaleString()} of ${rowsInFile.toLocaleString()} rows`
+        : `${totalRows} rows`
 
       addToast({
         type: 'success',
         title: 'File Parsed Successfully',
-        message: `${data.metadata.fileName} • ${data.metadata.totalRows} rows × ${data.metadata.totalColumns} columns`,
+        message: `${fileName} • ${rowCount} × ${totalColumns} columns`,
       })
     } catch (error) {
       addToast({
@@ -56,6 +98,47 @@ export default function HomePage() {
     }
   }
 
+  const handleSheetSelect = async (sheetName: string) => {
+    try {
+      await switchSheet(sheetName)
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Could Not Open Sheet',
+        message: (error as Error)?.message || `There was an error opening "${sheetName}"`,
+      })
+    }
+  }
+
+  const handleHeaderRowsApply = async (header: HeaderRegion) => {
+    try {
+      const data = await setHeaderRows(header)
+      if (data) {
+        addToast({
+          type: 'success',
+          title: 'Header Rows Updated',
+          message: `${data.metadata.totalRows} rows × ${data.metadata.totalColumns} columns`,
+        })
+      }
+    } catch (error) {
+      addToast({
+        type: 'error',
+        title: 'Could Not Change Header Rows',
+        message: (error as Error)?.message || 'There was an error reading the header rows',
+      })
+    }
+  }
+
+  const handleChartSegmentClick = (selection: CrossFilterSelection) => {
+    if (!toggleCrossFilter(selection)) {
+      addToast({
+        type: 'info',
+        title: 'Cannot Filter By This Segment',
+        message: `There is no matching filter for "${selection.column}".`,
+      })
+    }
+  }
+
   const handleRestoreSession = async (restoreFn: () => Promise<void>) => {
     try {
       await restoreFn()
@@ -104,6 +187,13 @@ export default function HomePage() {
             isLoading={isLoading || isFiltering}
             progress={progress || undefined}
           />
+          {canChangeHeader && currentData?.metadata.header && (
+            <HeaderRowSettings
+              header={currentData.metadata.header}
+              onApply={handleHeaderRowsApply}
+              disabled={isLoading}
+            />
+          )}
         </DataProcessingErrorBoundary>
 
         <div className="flex flex-col gap-3 xl:gap-2 flex-1 min-h-0">
@@ -132,6 +222,8 @@ export default function HomePage() {
                   onDeleteColumn={(idx) => deleteColumn(idx)}
                   showDataTypes={showDataTypes}
                   onToggleDataTypes={setShowDataTypes}
+                  sheets={availableSheets}
+                  onSelectSheet={handleSheetSelect}
                 />
               </DataProcessingErrorBoundary>
             </div>
@@ -145,8 +237,11 @@ export default function HomePage() {
               >
                 <ChartView
                   filteredData={filteredData}
+                  allData={currentData.rows}
+                  filters={filters}
                   columnInfo={currentData.metadata.columns}
                   session={session}
+                  onSegmentClick={handleChartSegmentClick}
                   registerExternalApplyChart={(fn) => {
                     globalProperties.setApplyChartFromAI(fn as (config: unknown) => void)
                   }}
@@ -190,6 +285,13 @@ export default function HomePage() {
         {/* Performance Monitor */}
         <PerformanceMonitor isVisible={showPerfMonitor} onToggle={togglePerfMonitor} />
 
+        <CsvImportModal
+          file={pendingCsv}
+          onPreview={previewCsv}
+          onImport={handleCsvImport}
+          onCancel={() => setPendingCsv(null)}
+        />
+
         {/* Session Restoration Progress Modal */}
         <SessionRestoreProgress
           isOpen={session.isRestoring}
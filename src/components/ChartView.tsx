@@ -1,60 +1,116 @@
 'use client'
 
-import { useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { useCharts } from '@/hooks/useCharts'
 import { ColumnInfo, ExcelData } from '@/types/excel'
 import { ChartConfig, ChartSuggestion } from '@/types/chart'
-import ChartContainer from './charts/ChartContainer'
+import { CrossFilterSelection, FilterConfig } from '@/types/filter'
+import DashboardGrid from './charts/DashboardGrid'
 import ChartControls from './charts/ChartControls'
-import { ArcElement, Chart, Legend, PieController, Title, Tooltip } from 'chart.js'
+import CorrelationHeatmap from './charts/CorrelationHeatmap'
+import ChartColorsModal from './charts/ChartColorsModal'
+import ChartTemplatesModal from './charts/ChartTemplatesModal'
+import { Button } from './ui/Button'
+import {
+  ArcElement,
+  BarController,
+  BarElement,
+  CategoryScale,
+  Chart,
+  Filler,
+  Legend,
+  LinearScale,
+  LineController,
+  LineElement,
+  PieController,
+  PointElement,
+  ScatterController,
+  Title,
+  Tooltip,
+} from 'chart.js'
 import type { UseSessionPersistenceReturn } from '@/hooks/useSessionPersistence'
 
-Chart.register(ArcElement, Tooltip, Legend, Title, PieController)
+Chart.register(
+  ArcElement,
+  Tooltip,
+  Legend,
+  Title,
+  PieController,
+  BarController,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  ScatterController,
+  Filler,
+)
 
 interface ChartViewProps {
   filteredData: ExcelData['rows']
+  allData?: ExcelData['rows'] // Unfiltered rows, for KPI card baselines
+  filters?: FilterConfig[] // The filters behind filteredData, for KPI card baselines
   columnInfo: ColumnInfo[]
   registerExternalApplyChart?: (_fn: (_config: ChartConfig) => void) => void
   session?: UseSessionPersistenceReturn
+  onSegmentClick?: (_selection: CrossFilterSelection) => void
 }
 
 export function ChartView({
   filteredData,
+  allData,
+  filters,
   columnInfo,
   registerExternalApplyChart,
   session,
+  onSegmentClick,
 }: ChartViewProps) {
   const {
     charts,
     suggestions,
     addChart,
+    addCharts,
     updateChart,
     removeChart,
     clearCharts,
     createManualChart,
+    colorScale,
+    setPalette,
+    pinColor,
+    unpinColor,
   } = useCharts(filteredData, columnInfo, session)
 
   useEffect(() => {
     // Optionally notify parent when charts change
   }, [charts])
 
+  const [showCorrelation, setShowCorrelation] = useState(false)
+  const [showColors, setShowColors] = useState(false)
+  const [showTemplates, setShowTemplates] = useState(false)
+  const canCorrelate = columnInfo.filter((col) => col.type === 'number').length >= 2
+
   const handleAddChart = (sugg: ChartSuggestion) => {
     addChart(sugg)
   }
 
+  const handleSelectCorrelationPair = (xColumn: string, yColumn: string) => {
+    createManualChart({
+      type: 'scatter',
+      dataColumn: yColumn,
+      labelColumn: xColumn,
+      aggregation: 'count',
+      title: `${yColumn} vs ${xColumn}`,
+      showTrendline: true,
+    })
+  }
+
   useEffect(() => {
     if (!registerExternalApplyChart) return
     registerExternalApplyChart((cfg: ChartConfig) => {
       try {
-        createManualChart({
-          type: cfg.type,
-          dataColumn: cfg.dataColumn,
-          labelColumn: cfg.labelColumn,
-          aggregation: cfg.aggregation,
-          title: cfg.title,
-          maxSegments: cfg.maxSegments,
-          numericRanges: cfg.numericRanges,
-        })
+        const { id: _id, options: _options, position: _position, ...manual } = cfg
+        createManualChart(manual)
       } catch (e) {
         console.warn('Failed to apply chart from external payload', e)
       }
@@ -65,29 +121,74 @@ export function ChartView({
     <div className="section-container p-4 flex flex-col gap-4">
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-semibold">Data Visualization</h2>
-        <ChartControls
-          suggestions={suggestions}
-          onAddChart={handleAddChart}
-          onClearCharts={clearCharts}
-          onCreateManualChart={createManualChart}
-          columnInfo={columnInfo}
-          filteredData={filteredData}
-        />
-      </div>
-
-      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
-        {charts.map((chart) => (
-          <ChartContainer
-            key={chart.id}
-            config={chart}
-            data={filteredData}
+        <div className="flex items-center gap-3 flex-wrap">
+          {canCorrelate && (
+            <Button
+              variant={showCorrelation ? 'secondary' : 'outline'}
+              size="sm"
+              type="button"
+              onClick={() => setShowCorrelation((v) => !v)}
+            >
+              Correlation Matrix
+            </Button>
+          )}
+          {charts.length > 0 && (
+            <Button variant="outline" size="sm" type="button" onClick={() => setShowColors(true)}>
+              Colors
+            </Button>
+          )}
+          <Button variant="outline" size="sm" type="button" onClick={() => setShowTemplates(true)}>
+            Templates
+          </Button>
+          <ChartControls
+            suggestions={suggestions}
+            onAddChart={handleAddChart}
+            onClearCharts={clearCharts}
+            onCreateManualChart={createManualChart}
             columnInfo={columnInfo}
-            onConfigChange={(updates) => updateChart(chart.id, updates)}
-            onRemove={() => removeChart(chart.id)}
+            filteredData={filteredData}
           />
-        ))}
+        </div>
       </div>
 
+      {showCorrelation && canCorrelate && (
+        <CorrelationHeatmap
+          filteredData={filteredData}
+          columnInfo={columnInfo}
+          onSelectPair={handleSelectCorrelationPair}
+          onClose={() => setShowCorrelation(false)}
+        />
+      )}
+
+      <DashboardGrid
+        charts={charts}
+        data={filteredData}
+        allData={allData}
+        filters={filters}
+        columnInfo={columnInfo}
+        onUpdateChart={updateChart}
+        onRemoveChart={removeChart}
+        onSegmentClick={onSegmentClick}
+        colorScale={colorScale}
+      />
+
+      <ChartColorsModal
+        isOpen={showColors}
+        onClose={() => setShowColors(false)}
+        colorScale={colorScale}
+        onSelectPalette={setPalette}
+        onPinColor={pinColor}
+        onUnpinColor={unpinColor}
+      />
+
+      <ChartTemplatesModal
+        isOpen={showTemplates}
+        onClose={() => setShowTemplates(false)}
+        charts={charts}
+        columnInfo={columnInfo}
+        onApply={addCharts}
+      />
+
       {charts.length === 0 && (
         <div className="text-gray-500">No charts yet. Use suggestions to add one.</div>
       )}
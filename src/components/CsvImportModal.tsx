@@ -0,0 +1,142 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { CsvDialect, CsvPreview } from '@/types/excel'
+import { CSV_DECIMALS, CSV_DELIMITERS, CSV_ENCODINGS, CSV_QUOTES } from '@/utils/csvDialect'
+import { Modal } from './ui/Modal'
+import { Button } from './ui/Button'
+
+const SELECT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500'
+
+interface CsvImportModalProps {
+  file: File | null // Open while a file waits to be imported
+  onPreview: (file: File, dialect?: Partial<CsvDialect>) => Promise<CsvPreview>
+  onImport: (file: File, dialect: CsvDialect) => void
+  onCancel: () => void
+}
+
+// Shows how a delimited text file will be read, with the detected settings, before importing it
+export function CsvImportModal({
+  file,
+  onPreview,
+  onImport,
+  onCancel,
+}: Readonly<CsvImportModalProps>) {
+  const [detected, setDetected] = useState<CsvPreview | null>(null)
+  const [preview, setPreview] = useState<CsvPreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Only the latest preview is shown when settings change faster than the file is read
+  const requestRef = useRef(0)
+
+  const load = useCallback(
+    async (target: File, dialect?: CsvDialect) => {
+      const request = ++requestRef.current
+      try {
+        const next = await onPreview(target, dialect)
+        if (request !== requestRef.current) return
+        if (!dialect) setDetected(next)
+        setPreview(next)
+        setError(null)
+      } catch (e) {
+        if (request === requestRef.current) setError((e as Error).message || 'Failed to read file')
+      }
+    },
+    [onPreview],
+  )
+
+  useEffect(() => {
+    setDetected(null)
+    setPreview(null)
+    setError(null)
+    if (file) load(file)
+  }, [file, load])
+
+  if (!file) return null
+
+  const dialect = preview?.dialect
+  const change = (key: keyof CsvDialect, value: string) => {
+    if (dialect) load(file, { ...dialect, [key]: value } as CsvDialect)
+  }
+  const settings: Array<{
+    key: keyof CsvDialect
+    label: string
+    options: Array<{ value: string; label: string }>
+  }> = [
+    { key: 'delimiter', label: 'Delimiter', options: CSV_DELIMITERS },
+    { key: 'quote', label: 'Quote', options: CSV_QUOTES },
+    { key: 'decimal', label: 'Decimal Separator', options: CSV_DECIMALS },
+    { key: 'encoding', label: 'Encoding', options: CSV_ENCODINGS },
+  ]
+  const optionLabel = (key: keyof CsvDialect, value: string) =>
+    settings.find((s) => s.key === key)?.options.find((o) => o.value === value)?.label ?? value
+
+  return (
+    <Modal isOpen onClose={onCancel} title={`Import ${file.name}`} size="xl">
+      {detected && (
+        <p role="status" className="text-sm text-gray-600 mb-4">
+          Detected {optionLabel('delimiter', detected.dialect.delimiter)} as the delimiter and{' '}
+          {optionLabel('encoding', detected.dialect.encoding)}
+          {detected.bom && ' from the byte order mark'} as the encoding, with{' '}
+          {Math.round(detected.confidence * 100)}% confidence. Change the settings if the preview
+          looks wrong.
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        {settings.map(({ key, label, options }) => (
+          <label key={key} className="block text-sm">
+            <span className="block font-medium text-gray-700 mb-1">{label}</span>
+            <select
+              value={dialect?.[key] ?? ''}
+              onChange={(e) => change(key, e.target.value)}
+              className={SELECT_CLASS}
+              disabled={!dialect}
+            >
+              {options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600 mb-3">
+          {error}
+        </p>
+      )}
+
+      {preview && (
+        <div className="overflow-auto max-h-72 border border-gray-200 rounded mb-4">
+          <table className="min-w-full text-xs" aria-label="Preview">
+            <tbody>
+              {preview.rows.map((row, r) => (
+                <tr key={r} className={r === 0 ? 'bg-gray-50 font-medium' : undefined}>
+                  {row.map((cell, c) => (
+                    <td key={c} className="px-2 py-1 border-b border-gray-100 whitespace-nowrap">
+                      {cell}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" disabled={!dialect} onClick={() => dialect && onImport(file, dialect)}>
+          Import
+        </Button>
+      </div>
+    </Modal>
+  )
+}
+
+export default CsvImportModal
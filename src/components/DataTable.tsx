@@ -14,6 +14,8 @@ interface DataTableProps {
   onDeleteColumn?: (_columnIndex: number) => void
   showDataTypes?: boolean
   onToggleDataTypes?: (_show: boolean) => void
+  sheets?: string[]
+  onSelectSheet?: (_sheetName: string) => void
 }
 
 export function DataTable({
@@ -26,6 +28,8 @@ export function DataTable({
   onDeleteColumn,
   showDataTypes = false,
   onToggleDataTypes,
+  sheets,
+  onSelectSheet,
 }: Readonly<DataTableProps>) {
   const {
     headers,
@@ -87,6 +91,8 @@ export function DataTable({
           ? { fileName: data.metadata.fileName, activeSheet: data.metadata.activeSheet }
           : undefined
       }
+      sheets={sheets}
+      onSelectSheet={onSelectSheet}
       showDataTypes={showDataTypes}
       sortColumn={sortColumn}
       sortDirection={sortDirection}
@@ -0,0 +1,356 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { TrashIcon } from '@heroicons/react/24/outline'
+import {
+  AnnotationOrientation,
+  ChartAnnotation,
+  ChartConfig,
+  ReferenceValue,
+  ReferenceValueSource,
+} from '@/types/chart'
+import { ColumnInfo } from '@/types/excel'
+import { chartDataProcessor } from '@/services/chartDataProcessor'
+import { Modal } from '../ui/Modal'
+import { Button } from '../ui/Button'
+
+type AnnotationKind = ChartAnnotation['kind']
+
+const KIND_LABELS: Record<AnnotationKind, string> = {
+  line: 'Reference line',
+  band: 'Shaded band',
+  note: 'Text note',
+}
+
+const SOURCE_LABELS: Record<Exclude<ReferenceValueSource, 'category'>, string> = {
+  constant: 'Fixed value',
+  mean: 'Column mean',
+  median: 'Column median',
+  percentile: 'Column percentile',
+}
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500'
+
+interface ChartAnnotationsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  config: ChartConfig
+  categories: string[] // Labels on the chart's category axis; empty for scatter charts
+  columnInfo: ColumnInfo[]
+  onChange: (annotations: ChartAnnotation[]) => void
+}
+
+export function ChartAnnotationsModal({
+  isOpen,
+  onClose,
+  config,
+  categories,
+  columnInfo,
+  onChange,
+}: Readonly<ChartAnnotationsModalProps>) {
+  const annotations = config.annotations ?? []
+  const categoryAxis = chartDataProcessor.categoryAxis(config)
+  const numericColumns = useMemo(
+    () => columnInfo.filter((c) => c.type === 'number').map((c) => c.name),
+    [columnInfo],
+  )
+
+  const [kind, setKind] = useState<AnnotationKind>('line')
+  const [orientation, setOrientation] = useState<AnnotationOrientation>(
+    categoryAxis === 'y' ? 'vertical' : 'horizontal',
+  )
+  const [value, setValue] = useState<ReferenceValue>({ source: 'constant' })
+  const [from, setFrom] = useState<ReferenceValue>({ source: 'constant' })
+  const [to, setTo] = useState<ReferenceValue>({ source: 'constant' })
+  const [label, setLabel] = useState('')
+  const [noteLabel, setNoteLabel] = useState('')
+  const [noteX, setNoteX] = useState<number>(NaN)
+  const [noteY, setNoteY] = useState<number>(NaN)
+
+  const onCategoryAxis = (orientation === 'vertical' ? 'x' : 'y') === categoryAxis
+
+  const changeOrientation = (next: AnnotationOrientation) => {
+    setOrientation(next)
+    // A category axis takes category positions, a value axis numbers; start the values over
+    const reset: ReferenceValue = {
+      source: (next === 'vertical' ? 'x' : 'y') === categoryAxis ? 'category' : 'constant',
+    }
+    setValue(reset)
+    setFrom(reset)
+    setTo(reset)
+  }
+
+  const canAdd = (() => {
+    if (kind === 'note') {
+      if (!label.trim()) return false
+      return categoryAxis ? !!noteLabel : Number.isFinite(noteX) && Number.isFinite(noteY)
+    }
+    const refs = kind === 'line' ? [value] : [from, to]
+    return refs.every(isComplete)
+  })()
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canAdd) return
+    const id = uuidv4()
+    const text = label.trim()
+    let annotation: ChartAnnotation
+    if (kind === 'note') {
+      annotation = categoryAxis
+        ? { id, kind, text, label: noteLabel }
+        : { id, kind, text, x: noteX, y: noteY }
+    } else if (kind === 'line') {
+      annotation = { id, kind, orientation, value, ...(text ? { label: text } : {}) }
+    } else {
+      annotation = { id, kind, orientation, from, to, ...(text ? { label: text } : {}) }
+    }
+    onChange([...annotations, annotation])
+    setLabel('')
+  }
+
+  const referenceFields = (
+    legend: string,
+    ref: ReferenceValue,
+    onRef: (r: ReferenceValue) => void,
+  ) =>
+    onCategoryAxis ? (
+      <label className="block text-sm">
+        <span className="block font-medium text-gray-700 mb-1">{legend}</span>
+        <select
+          aria-label={legend}
+          value={ref.category ?? ''}
+          onChange={(e) => onRef({ source: 'category', category: e.target.value })}
+          className={INPUT_CLASS}
+        >
+          <option value="">Select a category</option>
+          {categories.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+      </label>
+    ) : (
+      <fieldset className="space-y-2">
+        <legend className="block text-sm font-medium text-gray-700 mb-1">{legend}</legend>
+        <select
+          aria-label={`${legend} source`}
+          value={ref.source}
+          onChange={(e) => onRef({ source: e.target.value as ReferenceValueSource })}
+          className={INPUT_CLASS}
+        >
+          {Object.entries(SOURCE_LABELS).map(([source, text]) => (
+            <option key={source} value={source}>
+              {text}
+            </option>
+          ))}
+        </select>
+        {ref.source === 'constant' ? (
+          <input
+            type="number"
+            aria-label={`${legend} value`}
+            value={ref.value ?? ''}
+            onChange={(e) => onRef({ ...ref, value: parseFloat(e.target.value) })}
+            className={INPUT_CLASS}
+          />
+        ) : (
+          <select
+            aria-label={`${legend} column`}
+            value={ref.column ?? ''}
+            onChange={(e) => onRef({ ...ref, column: e.target.value || undefined })}
+            className={INPUT_CLASS}
+          >
+            <option value="">Column on this axis</option>
+            {numericColumns.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        )}
+        {ref.source === 'percentile' && (
+          <input
+            type="number"
+            min="0"
+            max="100"
+            aria-label={`${legend} percentile`}
+            value={ref.percentile ?? 90}
+            onChange={(e) => onRef({ ...ref, percentile: parseFloat(e.target.value) })}
+            className={INPUT_CLASS}
+          />
+        )}
+      </fieldset>
+    )
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Annotations" size="lg">
+      {annotations.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No annotations on this chart yet.</p>
+      ) : (
+        <ul className="mb-4 divide-y divide-gray-100" aria-label="Current annotations">
+          {annotations.map((a) => (
+            <li key={a.id} className="flex items-center gap-3 py-1.5 text-sm">
+              <span className="flex-1 truncate">{describeAnnotation(a)}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label={`Remove ${describeAnnotation(a)}`}
+                onClick={() => onChange(annotations.filter((other) => other.id !== a.id))}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-col gap-3 border-t border-gray-200 pt-4">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Add</span>
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as AnnotationKind)}
+              className={INPUT_CLASS}
+            >
+              {Object.entries(KIND_LABELS).map(([k, text]) => (
+                <option key={k} value={k}>
+                  {text}
+                </option>
+              ))}
+            </select>
+          </label>
+          {kind !== 'note' && (
+            <label className="block text-sm">
+              <span className="block font-medium text-gray-700 mb-1">Direction</span>
+              <select
+                value={orientation}
+                onChange={(e) => changeOrientation(e.target.value as AnnotationOrientation)}
+                className={INPUT_CLASS}
+              >
+                <option value="horizontal">Horizontal</option>
+                <option value="vertical">Vertical</option>
+              </select>
+            </label>
+          )}
+        </div>
+
+        {kind === 'line' && referenceFields('Position', value, setValue)}
+        {kind === 'band' && (
+          <div className="grid grid-cols-2 gap-3">
+            {referenceFields('From', from, setFrom)}
+            {referenceFields('To', to, setTo)}
+          </div>
+        )}
+        {kind === 'note' &&
+          (categoryAxis ? (
+            <label className="block text-sm">
+              <span className="block font-medium text-gray-700 mb-1">At</span>
+              <select
+                value={noteLabel}
+                onChange={(e) => setNoteLabel(e.target.value)}
+                className={INPUT_CLASS}
+              >
+                <option value="">Select a category</option>
+                {categories.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm">
+                <span className="block font-medium text-gray-700 mb-1">X</span>
+                <input
+                  type="number"
+                  value={Number.isFinite(noteX) ? noteX : ''}
+                  onChange={(e) => setNoteX(parseFloat(e.target.value))}
+                  className={INPUT_CLASS}
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="block font-medium text-gray-700 mb-1">Y</span>
+                <input
+                  type="number"
+                  value={Number.isFinite(noteY) ? noteY : ''}
+                  onChange={(e) => setNoteY(parseFloat(e.target.value))}
+                  className={INPUT_CLASS}
+                />
+              </label>
+            </div>
+          ))}
+
+        <label className="block text-sm">
+          <span className="block font-medium text-gray-700 mb-1">
+            {kind === 'note' ? 'Text' : 'Label (optional)'}
+          </span>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={kind === 'line' ? 'e.g. Target' : ''}
+            className={INPUT_CLASS}
+          />
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Done
+          </Button>
+          <Button type="submit" disabled={!canAdd}>
+            Add Annotation
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+function isComplete(ref: ReferenceValue): boolean {
+  switch (ref.source) {
+    case 'constant':
+      return ref.value !== undefined && Number.isFinite(ref.value)
+    case 'category':
+      return !!ref.category
+    case 'percentile':
+      return ref.percentile === undefined || (ref.percentile >= 0 && ref.percentile <= 100)
+    default:
+      return true
+  }
+}
+
+function describeReference(ref: ReferenceValue): string {
+  const column = ref.column ? ` of ${ref.column}` : ''
+  switch (ref.source) {
+    case 'constant':
+      return String(ref.value)
+    case 'mean':
+      return `Mean${column}`
+    case 'median':
+      return `Median${column}`
+    case 'percentile':
+      return `P${ref.percentile ?? 90}${column}`
+    case 'category':
+      return ref.category ?? ''
+  }
+}
+
+function describeAnnotation(annotation: ChartAnnotation): string {
+  if (annotation.kind === 'note') {
+    const at = annotation.label ?? `(${annotation.x}, ${annotation.y})`
+    return `Note "${annotation.text}" at ${at}`
+  }
+  const direction = annotation.orientation === 'horizontal' ? 'Horizontal' : 'Vertical'
+  const position =
+    annotation.kind === 'line'
+      ? describeReference(annotation.value)
+      : `${describeReference(annotation.from)} – ${describeReference(annotation.to)}`
+  const name = annotation.label ? `${annotation.label}: ` : ''
+  return `${direction} ${annotation.kind}, ${name}${position}`
+}
+
+export default ChartAnnotationsModal
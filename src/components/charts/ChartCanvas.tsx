@@ -0,0 +1,75 @@
+'use client'
+
+import { ChartConfig, ChartData } from '@/types/chart'
+import { Bar, Line, Pie, Scatter } from 'react-chartjs-2'
+import { ChartOptions } from 'chart.js'
+import { annotationPlugin } from './annotationPlugin'
+import HierarchyChart from './HierarchyChart'
+
+const ANNOTATION_PLUGINS = [annotationPlugin]
+
+interface ChartCanvasProps {
+  config: ChartConfig
+  chartData: ChartData
+  options: ChartOptions
+}
+
+// The Chart.js component for a chart type; options come from buildChartOptions. Treemaps and
+// sunbursts are drawn without Chart.js, from the prepared hierarchy
+export function ChartCanvas({ config, chartData, options }: Readonly<ChartCanvasProps>) {
+  switch (config.type) {
+    case 'pie':
+    case 'doughnut':
+      return <Pie data={chartData} options={options as ChartOptions<'pie'>} />
+    case 'bar':
+      return (
+        <Bar
+          data={chartData}
+          options={options as ChartOptions<'bar'>}
+          plugins={ANNOTATION_PLUGINS}
+        />
+      )
+    case 'line':
+      return (
+        <Line
+          data={chartData}
+          options={options as ChartOptions<'line'>}
+          plugins={ANNOTATION_PLUGINS}
+        />
+      )
+    case 'histogram':
+    case 'boxplot':
+    case 'waterfall':
+    case 'funnel':
+      return <Bar data={chartData} options={options as ChartOptions<'bar'>} />
+    case 'violin':
+      return <Scatter data={chartData} options={options as ChartOptions<'scatter'>} />
+    case 'scatter':
+      return (
+        <Scatter
+          data={chartData}
+          options={options as ChartOptions<'scatter'>}
+          plugins={ANNOTATION_PLUGINS}
+        />
+      )
+    case 'treemap':
+    case 'sunburst':
+      return chartData.hierarchy ? (
+        <HierarchyChart config={config} root={chartData.hierarchy} />
+      ) : null
+    default:
+      return (
+        <div className="flex items-center justify-center h-full text-center text-gray-600">
+          <div>
+            <div className="text-lg font-medium mb-2">Chart Type Not Available</div>
+            <div className="text-sm">&ldquo;{config.type}&rdquo; charts are not supported yet.</div>
+            <div className="text-sm text-gray-500 mt-1">
+              Please choose a different chart type for this data.
+            </div>
+          </div>
+        </div>
+      )
+  }
+}
+
+export default ChartCanvas
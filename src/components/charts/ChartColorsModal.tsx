@@ -0,0 +1,86 @@
+'use client'
+
+import { ColorPaletteId } from '@/types/chart'
+import { CategoryColorScale } from '@/services/categoryColors'
+import { COLOR_PALETTES } from '@/utils/colorPalettes'
+import { Modal } from '../ui/Modal'
+import { Button } from '../ui/Button'
+import { Badge } from '../ui/Badge'
+
+interface ChartColorsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  colorScale: CategoryColorScale
+  onSelectPalette: (palette: ColorPaletteId) => void
+  onPinColor: (category: string, color: string) => void
+  onUnpinColor: (category: string) => void
+}
+
+export function ChartColorsModal({
+  isOpen,
+  onClose,
+  colorScale,
+  onSelectPalette,
+  onPinColor,
+  onUnpinColor,
+}: Readonly<ChartColorsModalProps>) {
+  const { palette } = colorScale.toSettings()
+  const categories = colorScale.categories()
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Chart Colors" size="lg">
+      <fieldset className="mb-6">
+        <legend className="text-sm font-medium text-gray-700 mb-2">Palette</legend>
+        <div className="space-y-2">
+          {COLOR_PALETTES.map((option) => (
+            <label key={option.id} className="flex items-center gap-3 text-sm cursor-pointer">
+              <input
+                type="radio"
+                name="chart-palette"
+                value={option.id}
+                checked={palette === option.id}
+                onChange={() => onSelectPalette(option.id)}
+              />
+              <span className="w-28">{option.label}</span>
+              <span className="flex" aria-hidden="true">
+                {option.colors.map((color) => (
+                  <span key={color} className="w-4 h-4" style={{ backgroundColor: color }} />
+                ))}
+              </span>
+              {option.colorblindSafe && <Badge variant="secondary">Colorblind-safe</Badge>}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <div>
+        <h4 className="text-sm font-medium text-gray-700 mb-2">Categories</h4>
+        {categories.length === 0 ? (
+          <p className="text-sm text-gray-500">Categories appear here once a chart draws them.</p>
+        ) : (
+          <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+            {categories.map((category) => (
+              <li key={category} className="flex items-center gap-3 py-1.5 text-sm">
+                <input
+                  type="color"
+                  aria-label={`Color for ${category}`}
+                  value={colorScale.colorFor(category)}
+                  onChange={(e) => onPinColor(category, e.target.value)}
+                  className="w-8 h-6 border border-gray-300 rounded"
+                />
+                <span className="flex-1 truncate">{category}</span>
+                {colorScale.isPinned(category) && (
+                  <Button variant="ghost" size="sm" onClick={() => onUnpinColor(category)}>
+                    Reset
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  )
+}
+
+export default ChartColorsModal
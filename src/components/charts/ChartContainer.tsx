@@ -1,13 +1,59 @@
 'use client'
 
-import { useMemo } from 'react'
-import { ChartConfig } from '@/types/chart'
+import { type HTMLAttributes, useMemo, useState } from 'react'
+import { ChartConfig, ChartData, ChartType, FacetedChartData } from '@/types/chart'
 import { ColumnInfo, DataMatrix } from '@/types/excel'
+import { CrossFilterSelection } from '@/types/filter'
 import { chartDataProcessor } from '@/services/chartDataProcessor'
+import { chartFacetingService } from '@/services/chartFaceting'
+import type { CategoryColorScale } from '@/services/categoryColors'
 import { Button } from '../ui/Button'
-import { XMarkIcon } from '@heroicons/react/24/outline'
-import { Pie } from 'react-chartjs-2'
-import { ChartOptions } from 'chart.js'
+import { chartExportService } from '@/services/chartExport'
+import { ArrowDownTrayIcon, FlagIcon, TableCellsIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { clsx } from 'clsx'
+import { ActiveElement, ChartEvent } from 'chart.js'
+import DrillDownModal from './DrillDownModal'
+import ChartAnnotationsModal from './ChartAnnotationsModal'
+import ChartCanvas from './ChartCanvas'
+import FacetGrid from './FacetGrid'
+import { buildChartOptions } from './chartOptions'
+
+// Chart types whose slices or bars map onto a single category or numeric bin
+const CROSS_FILTER_TYPES = new Set<ChartType>([
+  'pie',
+  'doughnut',
+  'bar',
+  'histogram',
+  'waterfall',
+  'funnel',
+])
+// Chart types whose segments can list the source rows behind them
+const DRILL_DOWN_TYPES = new Set<ChartType>([
+  'pie',
+  'doughnut',
+  'bar',
+  'histogram',
+  'line',
+  'waterfall',
+  'funnel',
+  'boxplot',
+  'violin',
+])
+
+// The category a clicked element stands for. Box plots draw every category in each dataset and
+// their outliers carry it as x; each violin outline is a dataset of its own
+function segmentIndexOf(config: ChartConfig, chartData: ChartData, element: ActiveElement) {
+  if (config.type === 'violin' && element.datasetIndex < chartData.labels.length) {
+    return element.datasetIndex
+  }
+  const point = chartData.datasets[element.datasetIndex]?.data[element.index]
+  const boxed = config.type === 'boxplot' || config.type === 'violin'
+  if (boxed && point && typeof point === 'object' && !Array.isArray(point)) return point.x
+  return element.index
+}
+
+// Chart types that take reference lines, bands and notes
+const ANNOTATION_TYPES = new Set<ChartType>(['bar', 'line', 'scatter'])
 
 interface ChartContainerProps {
   config: ChartConfig
@@ -15,19 +61,40 @@ interface ChartContainerProps {
   columnInfo: ColumnInfo[]
   onConfigChange: (_updates: Partial<ChartConfig>) => void
   onRemove: () => void
+  fillHeight?: boolean // Stretch to the parent's height instead of using a fixed chart height
+  dragHandleProps?: HTMLAttributes<HTMLDivElement> // Spread onto the header so it can be dragged
+  onSegmentClick?: (_selection: CrossFilterSelection) => void
+  colorScale?: CategoryColorScale // Session-wide category colors shared with the other charts
 }
 
 export function ChartContainer({
   config,
   data,
   columnInfo,
-  onConfigChange: _onConfigChange,
+  onConfigChange,
   onRemove,
+  fillHeight = false,
+  dragHandleProps,
+  onSegmentClick,
+  colorScale,
 }: Readonly<ChartContainerProps>) {
-  const { chartData, error } = useMemo(() => {
+  const { chartData, facets, error } = useMemo<{
+    chartData: ChartData
+    facets: FacetedChartData | null
+    error: Error | null
+  }>(() => {
     try {
-      const processedData = chartDataProcessor.prepareChartData(data, config, columnInfo)
-      return { chartData: processedData, error: null }
+      if (config.facetColumn) {
+        const faceted = chartFacetingService.prepareFacets(data, config, columnInfo, colorScale)
+        return { chartData: faceted.overall, facets: faceted, error: null }
+      }
+      const processedData = chartDataProcessor.prepareChartData(
+        data,
+        config,
+        columnInfo,
+        colorScale,
+      )
+      return { chartData: processedData, facets: null, error: null }
     } catch (error) {
       console.error('Error preparing chart data:', error)
       return {
@@ -43,10 +110,80 @@ export function ChartContainer({
             },
           ],
         },
+        facets: null,
         error: error as Error,
       }
     }
-  }, [data, config, columnInfo])
+  }, [data, config, columnInfo, colorScale])
+
+  // In "show rows" mode (or with Shift held) a click lists the segment's rows instead of filtering
+  const [showRowsMode, setShowRowsMode] = useState(false)
+  // The clicked label, and the series for a bar split by series
+  const [drillDownSegment, setDrillDownSegment] = useState<{
+    index: number
+    datasetIndex: number
+  } | null>(null)
+  const [showAnnotations, setShowAnnotations] = useState(false)
+  const canAnnotate = !error && ANNOTATION_TYPES.has(config.type)
+  // Segment clicks on a faceted chart would be ambiguous about the panel, so they are turned off
+  const canDrillDown =
+    !error && !facets && DRILL_DOWN_TYPES.has(config.type) && !!chartData.segmentRows
+  const canCrossFilter =
+    !!onSegmentClick && !error && !facets && CROSS_FILTER_TYPES.has(config.type)
+
+  // Clicking a slice or bar toggles a filter for that segment
+  const segmentClickOptions = useMemo(() => {
+    if (!canCrossFilter && !(canDrillDown && showRowsMode)) return {}
+    return {
+      onClick: (event: ChartEvent, elements: ActiveElement[]) => {
+        const element = elements[0]
+        if (!element) return
+        const shiftKey = (event.native as MouseEvent | null)?.shiftKey ?? false
+        if (canDrillDown && (showRowsMode || shiftKey)) {
+          const index = segmentIndexOf(config, chartData, element)
+          setDrillDownSegment({ index, datasetIndex: element.datasetIndex })
+          return
+        }
+        if (!onSegmentClick) return
+        const selection = chartDataProcessor.getSegmentSelection(
+          chartData,
+          config,
+          element.index,
+          columnInfo,
+          element.datasetIndex,
+        )
+        if (selection) onSegmentClick(selection)
+      },
+      onHover: (event: ChartEvent, elements: ActiveElement[]) => {
+        const target = event.native?.target as HTMLElement | null | undefined
+        if (target) target.style.cursor = elements.length > 0 ? 'pointer' : 'default'
+      },
+    }
+  }, [canCrossFilter, canDrillDown, showRowsMode, onSegmentClick, chartData, config, columnInfo])
+
+  const drillDown = useMemo(() => {
+    if (!drillDownSegment) return null
+    const { index, datasetIndex } = drillDownSegment
+    const seriesIndices = chartData.seriesRows?.[datasetIndex]?.[index]
+    const indices = seriesIndices ?? chartData.segmentRows?.[index]
+    if (!indices) return null
+    const label = seriesIndices
+      ? `${chartData.labels[index]} / ${chartData.datasets[datasetIndex].label}`
+      : chartData.labels[index]
+    const selection = onSegmentClick
+      ? chartDataProcessor.getSegmentSelection(chartData, config, index, columnInfo, datasetIndex)
+      : null
+    return {
+      label,
+      rows: indices.map((i) => data[i]),
+      onFilter: selection && onSegmentClick ? () => onSegmentClick(selection) : undefined,
+    }
+  }, [drillDownSegment, chartData, config, columnInfo, data, onSegmentClick])
+
+  const options = useMemo(
+    () => buildChartOptions(config, chartData, segmentClickOptions),
+    [config, chartData, segmentClickOptions],
+  )
 
   const renderErrorMessage = (error: Error) => {
     const errorMessage = error.message.toLowerCase()
@@ -71,7 +208,7 @@ export function ChartContainer({
           <div className="text-lg font-medium mb-2">No Data Available</div>
           <div className="text-sm">
             The selected column &ldquo;{config.dataColumn}&rdquo; doesn&apos;t contain any valid
-            data for pie chart.
+            data for this chart.
           </div>
           <div className="text-sm text-gray-500 mt-1">
             Try filtering your data or selecting a different column.
@@ -110,32 +247,97 @@ export function ChartContainer({
   }
 
   return (
-    <div className="bg-white p-4 rounded-lg shadow border border-gray-200">
-      <div className="flex justify-between items-center mb-4">
-        <h3 className="font-medium">{config.title}</h3>
+    <div
+      className={clsx(
+        'bg-white p-4 rounded-lg shadow border border-gray-200',
+        fillHeight && 'h-full flex flex-col',
+      )}
+    >
+      <div
+        {...dragHandleProps}
+        className={clsx(
+          'flex justify-between items-center mb-4',
+          dragHandleProps && 'cursor-move select-none',
+        )}
+      >
+        <div>
+          <h3 className="font-medium">{config.title}</h3>
+          {!error && chartData.trendline && (
+            <div className="text-xs text-gray-500">
+              {chartDataProcessor.formatTrendline(chartData.trendline)}
+            </div>
+          )}
+        </div>
         <div className="flex gap-2">
+          {canDrillDown && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowRowsMode((on) => !on)}
+              aria-label="Show rows for a clicked segment"
+              aria-pressed={showRowsMode}
+              title="Click a segment to see its rows (or Shift+click)"
+              className={clsx(showRowsMode && 'bg-blue-50 text-blue-700')}
+            >
+              <TableCellsIcon className="w-4 h-4" />
+            </Button>
+          )}
+          {canAnnotate && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowAnnotations(true)}
+              aria-label="Edit annotations"
+              title="Reference lines, bands and notes"
+            >
+              <FlagIcon className="w-4 h-4" />
+            </Button>
+          )}
+          {!error && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => chartExportService.exportToSVG(chartData, config)}
+              aria-label="Export chart as SVG"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" />
+            </Button>
+          )}
           <Button variant="ghost" size="sm" onClick={onRemove} aria-label="Remove chart">
             <XMarkIcon className="w-4 h-4" />
           </Button>
         </div>
       </div>
-      <div className="relative h-96">
+      <div className={fillHeight ? 'relative flex-1 min-h-0' : 'relative h-96'}>
         {error ? (
           <div className="flex items-center justify-center h-full">{renderErrorMessage(error)}</div>
-        ) : config.type === 'pie' || config.type === 'doughnut' ? (
-          <Pie data={chartData} options={config.options as ChartOptions<'pie'>} />
+        ) : facets ? (
+          <FacetGrid config={config} facets={facets} />
         ) : (
-          <div className="flex items-center justify-center h-full text-center text-gray-600">
-            <div>
-              <div className="text-lg font-medium mb-2">Chart Type Not Available</div>
-              <div className="text-sm">Currently only pie charts are supported.</div>
-              <div className="text-sm text-gray-500 mt-1">
-                Please use pie chart for data visualization.
-              </div>
-            </div>
-          </div>
+          <ChartCanvas config={config} chartData={chartData} options={options} />
         )}
       </div>
+      {drillDown && (
+        <DrillDownModal
+          isOpen
+          onClose={() => setDrillDownSegment(null)}
+          title={`${config.title}: ${drillDown.label}`}
+          rows={drillDown.rows}
+          columnInfo={columnInfo}
+          exportFileName={`${config.title} - ${drillDown.label}`}
+          onFilter={drillDown.onFilter}
+        />
+      )}
+      {showAnnotations && (
+        <ChartAnnotationsModal
+          isOpen
+          onClose={() => setShowAnnotations(false)}
+          config={config}
+          categories={config.type === 'scatter' ? [] : chartData.labels}
+          columnInfo={columnInfo}
+          onChange={(annotations) => onConfigChange({ annotations })}
+        />
+      )}
     </div>
   )
 }
@@ -1,7 +1,7 @@
 'use client'
 
 import {useEffect, useRef, useState} from 'react'
-import {AggregationType, ChartSuggestion, ChartType, NumericRange} from '@/types/chart'
+import {ChartSuggestion, ManualChartConfig} from '@/types/chart'
 import {ColumnInfo, ExcelData} from '@/types/excel'
 import {Button} from '../ui/Button'
 import {ChevronDownIcon, PlusIcon, TrashIcon} from '@heroicons/react/24/outline'
@@ -11,15 +11,7 @@ interface ChartControlsProps {
   suggestions: ChartSuggestion[]
   onAddChart: (_s: ChartSuggestion) => void
   onClearCharts?: () => void
-  onCreateManualChart?: (config: {
-    type: ChartType
-    dataColumn: string
-    labelColumn?: string
-    aggregation: AggregationType
-    title: string
-    maxSegments?: number
-    numericRanges?: NumericRange[]
-  }) => void
+  onCreateManualChart?: (config: ManualChartConfig) => void
   columnInfo: ColumnInfo[]
   filteredData: ExcelData['rows']
 }
@@ -1,7 +1,7 @@
 'use client'
 
 import React from 'react'
-import { AggregationType, ChartType, NumericRange } from '@/types/chart'
+import { ManualChartConfig } from '@/types/chart'
 import { ColumnInfo, ExcelData } from '@/types/excel'
 import { useChartCreationModal } from '@/hooks/useChartCreationModal'
 import { ChartCreationModalView } from '@/components/presentational/charts/ChartCreationModalView'
@@ -9,15 +9,7 @@ import { ChartCreationModalView } from '@/components/presentational/charts/Chart
 interface ChartCreationModalProps {
   isOpen: boolean
   onClose: () => void
-  onCreateChart: (config: {
-    type: ChartType
-    dataColumn: string
-    labelColumn?: string
-    aggregation: AggregationType
-    title: string
-    maxSegments?: number
-    numericRanges?: NumericRange[]
-  }) => void
+  onCreateChart: (config: ManualChartConfig) => void
   columnInfo: ColumnInfo[]
   filteredData: ExcelData['rows']
 }
@@ -54,17 +46,62 @@ export function ChartCreationModal({
       dataColumnSearch={vm.dataColumnSearch}
       onChangeDataColumnSearch={vm.setDataColumnSearch}
       compatibleDataColumns={vm.compatibleDataColumns}
+      compatibleLabelColumns={vm.compatibleLabelColumns}
       labelColumn={vm.labelColumn}
       onChangeLabelColumn={vm.setLabelColumn}
       aggregation={vm.aggregation}
       onChangeAggregation={vm.setAggregation}
       availableAggregations={vm.availableAggregations}
+      percentile={vm.percentile}
+      onChangePercentile={vm.setPercentile}
+      orderColumnOptions={vm.orderColumnOptions}
+      orderColumn={vm.orderColumn}
+      onChangeOrderColumn={vm.setOrderColumn}
+      compatibleWeightColumns={vm.compatibleWeightColumns}
+      weightColumn={vm.weightColumn}
+      onChangeWeightColumn={vm.setWeightColumn}
       maxSegments={vm.maxSegments}
       onChangeMaxSegments={vm.setMaxSegments}
       shouldShowRangeEditor={vm.shouldShowRangeEditor}
       numericRanges={vm.numericRanges}
       onChangeNumericRanges={vm.setNumericRanges}
       sampleValues={vm.sampleValues}
+      orientation={vm.orientation}
+      onChangeOrientation={vm.setOrientation}
+      sortBy={vm.sortBy}
+      onChangeSortBy={vm.setSortBy}
+      sortDirection={vm.sortDirection}
+      onChangeSortDirection={vm.setSortDirection}
+      compatibleSeriesColumns={vm.compatibleSeriesColumns}
+      seriesColumn={vm.seriesColumn}
+      onChangeSeriesColumn={vm.setSeriesColumn}
+      barMode={vm.barMode}
+      onChangeBarMode={vm.setBarMode}
+      binMethod={vm.binMethod}
+      onChangeBinMethod={vm.setBinMethod}
+      binWidth={vm.binWidth}
+      onChangeBinWidth={vm.setBinWidth}
+      dateBucket={vm.dateBucket}
+      onChangeDateBucket={vm.setDateBucket}
+      compatibleColorColumns={vm.compatibleColorColumns}
+      colorColumn={vm.colorColumn}
+      onChangeColorColumn={vm.setColorColumn}
+      showTrendline={vm.showTrendline}
+      onChangeShowTrendline={vm.setShowTrendline}
+      compatibleHierarchyColumns={vm.compatibleHierarchyColumns}
+      hierarchyColumns={vm.hierarchyColumns}
+      onAddHierarchyColumn={vm.addHierarchyColumn}
+      onRemoveHierarchyColumn={vm.removeHierarchyColumn}
+      compatibleFacetColumns={vm.compatibleFacetColumns}
+      facetColumn={vm.facetColumn}
+      onChangeFacetColumn={vm.setFacetColumn}
+      maxFacets={vm.maxFacets}
+      onChangeMaxFacets={vm.setMaxFacets}
+      kpiBaseline={vm.kpiBaseline}
+      onChangeKpiBaseline={vm.setKpiBaseline}
+      compatibleKpiDateColumns={vm.compatibleKpiDateColumns}
+      kpiDateColumn={vm.kpiDateColumn}
+      onChangeKpiDateColumn={vm.setKpiDateColumn}
       title={vm.title}
       onChangeTitle={vm.setTitle}
       defaultTitle={vm.defaultTitle}
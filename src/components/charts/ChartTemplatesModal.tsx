@@ -0,0 +1,231 @@
+'use client'
+
+import { FormEvent, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { TrashIcon } from '@heroicons/react/24/outline'
+import { ChartConfig, ChartTemplate, ColumnMatchMethod, TemplateColumnMatch } from '@/types/chart'
+import { ColumnInfo } from '@/types/excel'
+import { chartTemplateService } from '@/services/chartTemplates'
+import { Modal } from '../ui/Modal'
+import { Button } from '../ui/Button'
+
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500'
+
+// Value of the scope select that saves every chart rather than one of them
+const WHOLE_DASHBOARD = '__dashboard__'
+
+const MATCH_LABELS: Record<ColumnMatchMethod, string> = {
+  name: 'Same name',
+  fuzzy: 'Similar name',
+  type: 'Only column of this type',
+}
+
+interface ChartTemplatesModalProps {
+  isOpen: boolean
+  onClose: () => void
+  charts: ChartConfig[]
+  columnInfo: ColumnInfo[]
+  onApply: (charts: ChartConfig[]) => void
+}
+
+// Saves charts or the whole dashboard as a named template, and applies saved templates to the
+// current file; columns that can't be matched automatically are picked before applying
+export function ChartTemplatesModal({
+  isOpen,
+  onClose,
+  charts,
+  columnInfo,
+  onApply,
+}: Readonly<ChartTemplatesModalProps>) {
+  const [templates, setTemplates] = useState<ChartTemplate[]>([])
+  const [name, setName] = useState('')
+  const [scope, setScope] = useState(WHOLE_DASHBOARD)
+  const [message, setMessage] = useState<string | null>(null)
+  const [applying, setApplying] = useState<ChartTemplate | null>(null)
+  const [matches, setMatches] = useState<TemplateColumnMatch[]>([])
+  const [mapping, setMapping] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    if (!isOpen) return
+    setTemplates(chartTemplateService.getTemplates())
+    setApplying(null)
+    setMessage(null)
+  }, [isOpen])
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault()
+    const saved = scope === WHOLE_DASHBOARD ? charts : charts.filter((c) => c.id === scope)
+    try {
+      const template = chartTemplateService.saveTemplate(name, saved, columnInfo)
+      setTemplates(chartTemplateService.getTemplates())
+      setName('')
+      setMessage(`Saved "${template.name}".`)
+    } catch (error) {
+      setMessage((error as Error).message)
+    }
+  }
+
+  const handleRemove = (template: ChartTemplate) => {
+    chartTemplateService.removeTemplate(template.id)
+    setTemplates(chartTemplateService.getTemplates())
+  }
+
+  const apply = (template: ChartTemplate, columns: Record<string, string>) => {
+    try {
+      onApply(chartTemplateService.applyTemplate(template, columns))
+      onClose()
+    } catch (error) {
+      setMessage((error as Error).message)
+    }
+  }
+
+  // Columns matched by name apply straight away; anything guessed or missing is shown first
+  const startApply = (template: ChartTemplate) => {
+    const found = chartTemplateService.matchColumns(template, columnInfo)
+    const columns = Object.fromEntries(
+      found.filter((m) => m.match !== null).map((m) => [m.column.name, m.match as string]),
+    )
+    if (found.every((m) => m.method === 'name')) {
+      apply(template, columns)
+      return
+    }
+    setApplying(template)
+    setMatches(found)
+    setMapping(columns)
+    setMessage(null)
+  }
+
+  if (applying) {
+    const complete = matches.every((m) => mapping[m.column.name])
+    return (
+      <Modal isOpen={isOpen} onClose={onClose} title={`Apply "${applying.name}"`} size="lg">
+        <p className="text-sm text-gray-600 mb-4">
+          Check how the template&apos;s columns map to this file and choose the ones that
+          couldn&apos;t be matched.
+        </p>
+        <ul className="space-y-3 mb-4" aria-label="Column mapping">
+          {matches.map(({ column, method }) => (
+            <li key={column.name}>
+              <label className="block text-sm">
+                <span className="block font-medium text-gray-700 mb-1">
+                  {column.name}{' '}
+                  <span className="font-normal text-gray-500">
+                    ({method ? MATCH_LABELS[method] : 'No match found'})
+                  </span>
+                </span>
+                <select
+                  value={mapping[column.name] ?? ''}
+                  onChange={(e) => setMapping({ ...mapping, [column.name]: e.target.value })}
+                  className={INPUT_CLASS}
+                >
+                  <option value="">Choose a column</option>
+                  {columnInfo
+                    .filter((c) => c.type === column.type)
+                    .map((c) => (
+                      <option key={c.name} value={c.name}>
+                        {c.name}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            </li>
+          ))}
+        </ul>
+        {message && (
+          <p role="alert" className="text-sm text-red-600 mb-3">
+            {message}
+          </p>
+        )}
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setApplying(null)}>
+            Back
+          </Button>
+          <Button size="sm" disabled={!complete} onClick={() => apply(applying, mapping)}>
+            Apply Template
+          </Button>
+        </div>
+      </Modal>
+    )
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Chart Templates" size="lg">
+      {templates.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No templates saved yet.</p>
+      ) : (
+        <ul className="mb-4 divide-y divide-gray-100" aria-label="Saved templates">
+          {templates.map((template) => (
+            <li key={template.id} className="flex items-center gap-3 py-1.5 text-sm">
+              <span className="flex-1 min-w-0">
+                <span className="block font-medium truncate">{template.name}</span>
+                <span className="block text-xs text-gray-500">
+                  {template.charts.length} {template.charts.length === 1 ? 'chart' : 'charts'} ·
+                  saved {format(template.createdAt, 'MMM d, yyyy')}
+                </span>
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                aria-label={`Apply ${template.name}`}
+                onClick={() => startApply(template)}
+              >
+                Apply
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label={`Delete ${template.name}`}
+                onClick={() => handleRemove(template)}
+              >
+                <TrashIcon className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSave} className="flex flex-col gap-3 border-t border-gray-200 pt-4">
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Save</span>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value)}
+              className={INPUT_CLASS}
+            >
+              <option value={WHOLE_DASHBOARD}>Whole dashboard ({charts.length} charts)</option>
+              {charts.map((chart) => (
+                <option key={chart.id} value={chart.id}>
+                  {chart.title}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm">
+            <span className="block font-medium text-gray-700 mb-1">Template Name</span>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Monthly sales"
+              className={INPUT_CLASS}
+            />
+          </label>
+        </div>
+        {message && (
+          <p role="status" className="text-sm text-gray-600">
+            {message}
+          </p>
+        )}
+        <div className="flex justify-end">
+          <Button type="submit" size="sm" disabled={charts.length === 0 || !name.trim()}>
+            Save Template
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  )
+}
+
+export default ChartTemplatesModal
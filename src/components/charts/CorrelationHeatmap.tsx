@@ -0,0 +1,39 @@
+'use client'
+
+import { ColumnInfo, ExcelData } from '@/types/excel'
+import { useCorrelationMatrix } from '@/hooks/useCorrelationMatrix'
+import { CorrelationHeatmapView } from '@/components/presentational/charts/CorrelationHeatmapView'
+
+interface CorrelationHeatmapProps {
+  filteredData: ExcelData['rows']
+  columnInfo: ColumnInfo[]
+  onSelectPair: (xColumn: string, yColumn: string) => void
+  onClose: () => void
+}
+
+export function CorrelationHeatmap({
+  filteredData,
+  columnInfo,
+  onSelectPair,
+  onClose,
+}: Readonly<CorrelationHeatmapProps>) {
+  const vm = useCorrelationMatrix({ filteredData, columnInfo, enabled: true })
+
+  return (
+    <CorrelationHeatmapView
+      columns={vm.matrix?.columns ?? []}
+      values={vm.values}
+      counts={vm.matrix?.counts ?? null}
+      method={vm.method}
+      onChangeMethod={vm.setMethod}
+      isComputing={vm.isComputing}
+      error={vm.error}
+      truncated={vm.truncated}
+      maxColumns={vm.maxColumns}
+      onSelectPair={onSelectPair}
+      onClose={onClose}
+    />
+  )
+}
+
+export default CorrelationHeatmap
@@ -0,0 +1,99 @@
+'use client'
+
+import type { HTMLAttributes } from 'react'
+import { clsx } from 'clsx'
+import { ChartConfig, ChartPosition } from '@/types/chart'
+import { ColumnInfo, DataMatrix } from '@/types/excel'
+import { CrossFilterSelection, FilterConfig } from '@/types/filter'
+import type { CategoryColorScale } from '@/services/categoryColors'
+import { useDashboardGrid } from '@/hooks/useDashboardGrid'
+import ChartContainer from './ChartContainer'
+import KpiCard from './KpiCard'
+
+interface DashboardGridProps {
+  charts: ChartConfig[]
+  data: DataMatrix
+  allData?: DataMatrix // Unfiltered rows, for KPI baselines; defaults to data
+  filters?: FilterConfig[] // The filters behind data, for KPI baselines
+  columnInfo: ColumnInfo[]
+  onUpdateChart: (chartId: string, updates: Partial<ChartConfig>) => void
+  onRemoveChart: (chartId: string) => void
+  onSegmentClick?: (selection: CrossFilterSelection) => void
+  colorScale?: CategoryColorScale
+}
+
+export function DashboardGrid({
+  charts,
+  data,
+  allData = data,
+  filters,
+  columnInfo,
+  onUpdateChart,
+  onRemoveChart,
+  onSegmentClick,
+  colorScale,
+}: Readonly<DashboardGridProps>) {
+  const grid = useDashboardGrid({
+    charts,
+    onPositionChange: (chartId: string, position: ChartPosition) =>
+      onUpdateChart(chartId, { position }),
+  })
+
+  return (
+    <div
+      ref={grid.containerRef}
+      style={grid.containerStyle}
+      className={clsx(grid.activeId && 'select-none')}
+    >
+      {charts.map((chart) => {
+        const dragHandleProps: HTMLAttributes<HTMLDivElement> = {
+          tabIndex: 0,
+          title: 'Drag to move. Arrow keys move, Shift+Arrow keys resize.',
+          onPointerDown: (event) => grid.startMove(chart.id, event),
+          onKeyDown: (event) => grid.handleKeyDown(chart.id, event),
+        }
+        return (
+          <div
+            key={chart.id}
+            style={grid.getItemStyle(chart.id)}
+            className={clsx(
+              'relative min-w-0',
+              grid.activeId === chart.id && 'z-10 opacity-90 ring-2 ring-blue-400 rounded-lg',
+            )}
+          >
+            {chart.type === 'kpi' ? (
+              <KpiCard
+                config={chart}
+                data={data}
+                allData={allData}
+                filters={filters}
+                columnInfo={columnInfo}
+                onRemove={() => onRemoveChart(chart.id)}
+                dragHandleProps={dragHandleProps}
+              />
+            ) : (
+              <ChartContainer
+                config={chart}
+                data={data}
+                columnInfo={columnInfo}
+                onConfigChange={(updates) => onUpdateChart(chart.id, updates)}
+                onRemove={() => onRemoveChart(chart.id)}
+                fillHeight
+                onSegmentClick={onSegmentClick}
+                colorScale={colorScale}
+                dragHandleProps={dragHandleProps}
+              />
+            )}
+            <div
+              aria-hidden="true"
+              className="absolute bottom-1 right-1 h-4 w-4 cursor-se-resize border-b-2 border-r-2 border-gray-400 rounded-br"
+              onPointerDown={(event) => grid.startResize(chart.id, event)}
+            />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default DashboardGrid
@@ -0,0 +1,88 @@
+'use client'
+
+import { useMemo } from 'react'
+import { ColumnInfo, DataMatrix } from '@/types/excel'
+import { Modal } from '../ui/Modal'
+import { Button } from '../ui/Button'
+import { DataTableView } from '@/components/presentational/data/DataTableView'
+import { ExportService } from '@/utils/exportUtils'
+import { columnHasTime, formatCellValue } from '@/utils/tableFormat'
+
+const exportService = new ExportService()
+
+// Same threshold the main data table uses before it switches to a windowed view
+const VIRTUALIZATION_THRESHOLD = 100
+const VIRTUALIZED_SLICE_COUNT = 200
+
+interface DrillDownModalProps {
+  isOpen: boolean
+  onClose: () => void
+  title: string
+  rows: DataMatrix // Exactly the rows behind the clicked segment
+  columnInfo: ColumnInfo[]
+  exportFileName: string
+  onFilter?: () => void // Omitted when the segment can't be expressed as a filter
+}
+
+export function DrillDownModal({
+  isOpen,
+  onClose,
+  title,
+  rows,
+  columnInfo,
+  exportFileName,
+  onFilter,
+}: Readonly<DrillDownModalProps>) {
+  const headers = useMemo(() => columnInfo.map((c) => c.name), [columnInfo])
+  const columnTypes = useMemo(() => columnInfo.map((c) => c.type), [columnInfo])
+  const dateColumnHasTime = useMemo(() => columnInfo.map(columnHasTime), [columnInfo])
+
+  const useVirtualScrolling = rows.length > VIRTUALIZATION_THRESHOLD
+  const visibleRows = useMemo(
+    () => (useVirtualScrolling ? rows.slice(0, VIRTUALIZED_SLICE_COUNT) : rows),
+    [rows, useVirtualScrolling],
+  )
+
+  const handleFilter = () => {
+    onFilter?.()
+    onClose()
+  }
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} size="xl">
+      <div className="flex flex-wrap justify-end gap-2 mb-3">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => exportService.exportToCSV(rows, headers, exportFileName)}
+        >
+          Export CSV
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => exportService.exportToExcel(rows, headers, exportFileName)}
+        >
+          Export Excel
+        </Button>
+        {onFilter && (
+          <Button size="sm" onClick={handleFilter}>
+            Filter to these rows
+          </Button>
+        )}
+      </div>
+      <DataTableView
+        headers={headers}
+        rows={visibleRows}
+        totalRowCount={rows.length}
+        columnTypes={columnTypes}
+        dateColumnHasTime={dateColumnHasTime}
+        useVirtualScrolling={useVirtualScrolling}
+        showDataTypes={false}
+        formatCell={formatCellValue}
+      />
+    </Modal>
+  )
+}
+
+export default DrillDownModal
@@ -0,0 +1,105 @@
+'use client'
+
+import { useMemo } from 'react'
+import {
+  ChartAxisBounds,
+  ChartConfig,
+  ChartData,
+  FacetedChartData,
+  FacetPanel,
+} from '@/types/chart'
+import ChartCanvas from './ChartCanvas'
+import { buildChartOptions, withAxisBounds } from './chartOptions'
+
+interface FacetGridProps {
+  config: ChartConfig
+  facets: FacetedChartData
+}
+
+// Small multiples: one mini chart per facet value, on shared axes with one legend for all panels
+export function FacetGrid({ config, facets }: Readonly<FacetGridProps>) {
+  const legend = useMemo(() => sharedLegend(facets.overall, config), [facets.overall, config])
+
+  return (
+    <div className="flex flex-col h-full min-h-0 gap-2">
+      {legend.length > 0 && (
+        <ul className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-600" aria-label="Legend">
+          {legend.map((entry) => (
+            <li key={entry.label} className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-sm" style={{ backgroundColor: entry.color }} />
+              {entry.label}
+            </li>
+          ))}
+        </ul>
+      )}
+      <ul
+        className="grid grid-cols-2 lg:grid-cols-3 gap-3 flex-1 min-h-0 overflow-y-auto"
+        aria-label={`${config.title} by ${config.facetColumn}`}
+      >
+        {facets.panels.map((panel) => (
+          <FacetPanelChart key={panel.value} config={config} panel={panel} bounds={facets.bounds} />
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+interface FacetPanelChartProps {
+  config: ChartConfig
+  panel: FacetPanel
+  bounds: ChartAxisBounds
+}
+
+function FacetPanelChart({ config, panel, bounds }: Readonly<FacetPanelChartProps>) {
+  const { chartData } = panel
+  const options = useMemo(() => {
+    if (!chartData) return null
+    const compact: ChartConfig = {
+      ...config,
+      options: {
+        ...config.options,
+        maintainAspectRatio: false,
+        plugins: {
+          ...config.options.plugins,
+          legend: { ...config.options.plugins.legend, display: false },
+          title: { ...config.options.plugins.title, display: false },
+        },
+      },
+    }
+    return withAxisBounds(buildChartOptions(compact, chartData), bounds)
+  }, [config, chartData, bounds])
+
+  return (
+    <li className="border border-gray-100 rounded p-2 flex flex-col">
+      <div className="text-xs font-medium text-gray-700 truncate" title={panel.value}>
+        {panel.value} <span className="text-gray-400 font-normal">({panel.rowCount})</span>
+      </div>
+      <div className="relative h-40">
+        {chartData && options ? (
+          <ChartCanvas config={config} chartData={chartData} options={options} />
+        ) : (
+          <div className="flex items-center justify-center h-full text-xs text-gray-500 text-center">
+            {panel.error?.message ?? 'No data'}
+          </div>
+        )}
+      </div>
+    </li>
+  )
+}
+
+// Panels share colors, so one legend covers them: categories for pies and treemaps, datasets for
+// multi-series charts
+function sharedLegend(overall: ChartData, config: ChartConfig): { label: string; color: string }[] {
+  const colorAt = (color: string | string[], i: number) =>
+    Array.isArray(color) ? color[i % color.length] : color
+  if (['pie', 'doughnut', 'treemap', 'sunburst'].includes(config.type)) {
+    const dataset = overall.datasets[0]
+    return dataset
+      ? overall.labels.map((label, i) => ({ label, color: colorAt(dataset.backgroundColor, i) }))
+      : []
+  }
+  if (overall.datasets.length < 2) return []
+  return overall.datasets.map((d) => ({ label: d.label, color: colorAt(d.borderColor, 0) }))
+}
+
+export default FacetGrid
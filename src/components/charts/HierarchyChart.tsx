@@ -0,0 +1,235 @@
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { ChartConfig, HierarchyNode } from '@/types/chart'
+import {
+  findHierarchyNode,
+  hierarchyDepth,
+  sunburstLayout,
+  treemapLayout,
+} from '@/utils/hierarchyLayout'
+import { arcPath } from '@/utils/chartSvg'
+
+// Treemaps are laid out on a 16:10 grid and stretched to the container in percentages
+const TREEMAP_WIDTH = 160
+const TREEMAP_HEIGHT = 100
+const TREEMAP_LEVELS = 2
+const SUNBURST_LEVELS = 3
+const SUNBURST_SIZE = 200
+const SUNBURST_CENTER_RADIUS = 28
+
+interface HierarchyChartProps {
+  config: ChartConfig
+  root: HierarchyNode
+}
+
+// Treemap or sunburst with click-to-zoom; the path above the chart zooms back out
+export function HierarchyChart({ config, root }: Readonly<HierarchyChartProps>) {
+  const [focusPath, setFocusPath] = useState<string[]>([])
+  // Once filters remove the zoomed-in category, start again from the top
+  const focus = findHierarchyNode(root, focusPath) ?? root
+  const trail = focus === root ? [] : focusPath
+
+  return (
+    <div className="flex flex-col h-full min-h-0 gap-2">
+      <nav aria-label="Zoom path" className="flex flex-wrap items-center gap-1 text-xs">
+        {[root.name, ...trail].map((name, i) =>
+          i === trail.length ? (
+            <span key={i} aria-current="page" className="font-medium text-gray-900">
+              {name}
+            </span>
+          ) : (
+            <React.Fragment key={i}>
+              <button
+                type="button"
+                onClick={() => setFocusPath(trail.slice(0, i))}
+                className="text-primary-600 hover:underline"
+              >
+                {name}
+              </button>
+              <span className="text-gray-400">›</span>
+            </React.Fragment>
+          ),
+        )}
+      </nav>
+      <div className="relative flex-1 min-h-0">
+        {config.type === 'sunburst' ? (
+          <Sunburst focus={focus} onZoom={setFocusPath} canZoomOut={trail.length > 0} />
+        ) : (
+          <Treemap focus={focus} onZoom={setFocusPath} />
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface HierarchyViewProps {
+  focus: HierarchyNode
+  onZoom: (path: string[]) => void
+}
+
+function Treemap({ focus, onZoom }: Readonly<HierarchyViewProps>) {
+  const tiles = useMemo(
+    () =>
+      treemapLayout(
+        focus,
+        { x: 0, y: 0, width: TREEMAP_WIDTH, height: TREEMAP_HEIGHT },
+        { levels: TREEMAP_LEVELS, padding: 0.5, header: 7 },
+      ),
+    [focus],
+  )
+
+  return (
+    <div className="absolute inset-0">
+      {tiles.map((tile) => {
+        const { node } = tile
+        // A box zooms into itself, or a box without children into the group around it
+        const target =
+          node.children.length > 0 ? node.path : tile.depth > 1 ? node.path.slice(0, -1) : null
+        const nested = tile.depth < TREEMAP_LEVELS && node.children.length > 0
+        const showLabel = tile.width >= 12 && tile.height >= 7
+        const style: React.CSSProperties = {
+          left: `${(tile.x / TREEMAP_WIDTH) * 100}%`,
+          top: `${(tile.y / TREEMAP_HEIGHT) * 100}%`,
+          width: `${(tile.width / TREEMAP_WIDTH) * 100}%`,
+          height: `${(tile.height / TREEMAP_HEIGHT) * 100}%`,
+          backgroundColor: node.color,
+        }
+        const content = showLabel && (
+          <span className="block truncate px-1 text-[11px] leading-4 text-white text-left">
+            <span className={nested ? 'font-semibold' : 'font-medium'}>{node.name}</span>{' '}
+            {!nested && <span className="opacity-80">{formatValue(node.value)}</span>}
+          </span>
+        )
+        const className = 'absolute overflow-hidden border border-white/70 flex items-start'
+        return target ? (
+          <button
+            key={node.path.join('\u0000')}
+            type="button"
+            style={style}
+            className={`${className} hover:brightness-110`}
+            title={describeNode(node)}
+            aria-label={node.children.length > 0 ? `Zoom into ${describeNode(node)}` : undefined}
+            onClick={() => onZoom(target)}
+          >
+            {content}
+          </button>
+        ) : (
+          <div
+            key={node.path.join('\u0000')}
+            style={style}
+            className={className}
+            title={describeNode(node)}
+          >
+            {content}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function Sunburst({
+  focus,
+  onZoom,
+  canZoomOut,
+}: Readonly<HierarchyViewProps & { canZoomOut: boolean }>) {
+  const levels = Math.min(SUNBURST_LEVELS, Math.max(1, hierarchyDepth(focus)))
+  const arcs = useMemo(() => sunburstLayout(focus, levels), [focus, levels])
+  const center = SUNBURST_SIZE / 2
+  const ring = (center - 2 - SUNBURST_CENTER_RADIUS) / levels
+  const zoomOut = () => onZoom(focus.path.slice(0, -1))
+
+  return (
+    <svg
+      viewBox={`0 0 ${SUNBURST_SIZE} ${SUNBURST_SIZE}`}
+      className="absolute inset-0 w-full h-full"
+      role="group"
+      aria-label={`Sunburst of ${focus.path.length ? focus.path.join(' › ') : focus.name}`}
+    >
+      {arcs.map((arc) => {
+        const { node } = arc
+        const inner = SUNBURST_CENTER_RADIUS + (arc.depth - 1) * ring
+        const sweep = arc.endAngle - arc.startAngle
+        // Angles here start at 12 o'clock; arcPath's start at 3 o'clock
+        const start = arc.startAngle - Math.PI / 2
+        const d =
+          sweep >= Math.PI * 2 - 1e-9
+            ? arcPath(center, center, inner + ring, inner, start, start + Math.PI) +
+              arcPath(center, center, inner + ring, inner, start + Math.PI, start + Math.PI * 2)
+            : arcPath(center, center, inner + ring, inner, start, start + sweep)
+        const zoomable = node.children.length > 0
+        const mid = start + sweep / 2
+        const labelRadius = inner + ring / 2
+        return (
+          <g
+            key={node.path.join('\u0000')}
+            {...(zoomable && {
+              role: 'button',
+              tabIndex: 0,
+              'aria-label': `Zoom into ${node.path.join(' › ')}: ${formatValue(node.value)}`,
+              onClick: () => onZoom(node.path),
+              onKeyDown: (e: React.KeyboardEvent) => {
+                if (e.key === 'Enter' || e.key === ' ') onZoom(node.path)
+              },
+              className: 'cursor-pointer hover:opacity-90',
+            })}
+          >
+            <path
+              d={d}
+              fill={node.color}
+              fillOpacity={1 - (arc.depth - 1) * 0.2}
+              stroke="#ffffff"
+              strokeWidth={0.75}
+            >
+              <title>{describeNode(node)}</title>
+            </path>
+            {sweep * labelRadius >= 18 && (
+              <text
+                x={center + Math.cos(mid) * labelRadius}
+                y={center + Math.sin(mid) * labelRadius}
+                fontSize={6}
+                fill="#ffffff"
+                textAnchor="middle"
+                dominantBaseline="middle"
+                pointerEvents="none"
+              >
+                {node.name.length > 12 ? `${node.name.slice(0, 11)}…` : node.name}
+              </text>
+            )}
+          </g>
+        )
+      })}
+      <g
+        {...(canZoomOut && {
+          role: 'button',
+          tabIndex: 0,
+          'aria-label': 'Zoom out',
+          onClick: zoomOut,
+          onKeyDown: (e: React.KeyboardEvent) => {
+            if (e.key === 'Enter' || e.key === ' ') zoomOut()
+          },
+          className: 'cursor-pointer',
+        })}
+      >
+        <circle cx={center} cy={center} r={SUNBURST_CENTER_RADIUS - 1} fill="#f9fafb" />
+        <text x={center} y={center - 3} fontSize={7} textAnchor="middle" fill="#111827">
+          {focus.name.length > 14 ? `${focus.name.slice(0, 13)}…` : focus.name}
+        </text>
+        <text x={center} y={center + 7} fontSize={6} textAnchor="middle" fill="#6b7280">
+          {formatValue(focus.value)}
+        </text>
+      </g>
+    </svg>
+  )
+}
+
+function describeNode(node: HierarchyNode): string {
+  return `${node.path.join(' › ')}: ${formatValue(node.value)}`
+}
+
+function formatValue(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+export default HierarchyChart
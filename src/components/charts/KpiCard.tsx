@@ -0,0 +1,114 @@
+'use client'
+
+import { type HTMLAttributes, useMemo } from 'react'
+import { clsx } from 'clsx'
+import { ArrowDownIcon, ArrowUpIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { ChartConfig, KpiResult } from '@/types/chart'
+import { ColumnInfo, DataMatrix } from '@/types/excel'
+import { FilterConfig } from '@/types/filter'
+import { kpiCalculator } from '@/services/kpiCalculator'
+import { aggregationTypes } from '@/utils/chartConfig'
+import { Button } from '../ui/Button'
+
+interface KpiCardProps {
+  config: ChartConfig
+  data: DataMatrix // Rows under the current filters
+  allData: DataMatrix // Every row, for the baseline
+  filters?: FilterConfig[] // The filters behind data, so the previous window gets them too
+  columnInfo: ColumnInfo[]
+  onRemove: () => void
+  dragHandleProps?: HTMLAttributes<HTMLDivElement> // Spread onto the header so it can be dragged
+}
+
+// A headline number on the dashboard, with its change from the baseline underneath
+export function KpiCard({
+  config,
+  data,
+  allData,
+  filters,
+  columnInfo,
+  onRemove,
+  dragHandleProps,
+}: Readonly<KpiCardProps>) {
+  const { result, error } = useMemo<{ result: KpiResult | null; error: Error | null }>(() => {
+    try {
+      return {
+        result: kpiCalculator.computeKpi(data, allData, config, columnInfo, filters),
+        error: null,
+      }
+    } catch (error) {
+      return { result: null, error: error as Error }
+    }
+  }, [data, allData, filters, config, columnInfo])
+
+  const aggregationLabel =
+    aggregationTypes.find((a) => a.type === config.aggregation)?.label ?? config.aggregation
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow border border-gray-200 h-full flex flex-col">
+      <div
+        {...dragHandleProps}
+        className={clsx(
+          'flex justify-between items-start gap-2',
+          dragHandleProps && 'cursor-move select-none',
+        )}
+      >
+        <div className="min-w-0">
+          <h3 className="font-medium truncate">{config.title}</h3>
+          <div className="text-xs text-gray-500 truncate">
+            {aggregationLabel} of {config.dataColumn}
+          </div>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onRemove} aria-label="Remove KPI card">
+          <XMarkIcon className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="flex-1 min-h-0 flex flex-col justify-center">
+        {error || !result ? (
+          <div className="text-sm text-gray-600">{error?.message}</div>
+        ) : (
+          <>
+            <output className="block text-3xl font-semibold text-gray-900 truncate">
+              {formatValue(result.value)}
+            </output>
+            {result.comparison && <KpiDelta comparison={result.comparison} />}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function KpiDelta({ comparison }: Readonly<{ comparison: NonNullable<KpiResult['comparison']> }>) {
+  const { delta, percentChange, label } = comparison
+  if (delta === null) {
+    return <div className="text-xs text-gray-500 mt-1">No baseline: {label}</div>
+  }
+
+  const Arrow = delta > 0 ? ArrowUpIcon : ArrowDownIcon
+  const sign = delta > 0 ? '+' : ''
+  return (
+    <div className="mt-1 text-sm">
+      <span
+        className={clsx(
+          'inline-flex items-center gap-1 font-medium',
+          delta > 0 && 'text-green-600',
+          delta < 0 && 'text-red-600',
+          delta === 0 && 'text-gray-600',
+        )}
+      >
+        {delta !== 0 && <Arrow className="w-3 h-3" aria-hidden="true" />}
+        {sign}
+        {formatValue(delta)}
+        {percentChange !== null && ` (${sign}${percentChange.toFixed(1)}%)`}
+      </span>
+      <span className="text-xs text-gray-500"> vs {label}</span>
+    </div>
+  )
+}
+
+function formatValue(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+export default KpiCard
@@ -0,0 +1,157 @@
+import type { Chart, ChartOptions, ChartType as ChartJsType, Plugin, Scale } from 'chart.js'
+import { ResolvedAnnotation } from '@/types/chart'
+
+type Axis = 'x' | 'y'
+
+interface AnnotationPluginOptions {
+  annotations?: ResolvedAnnotation[]
+}
+
+const ANNOTATION_FONT = '12px Helvetica, Arial, sans-serif'
+const BAND_OPACITY = 0.15
+
+// Draws ChartData.annotations. react-chartjs-2 only reads `plugins` when the chart is created, so the
+// annotations travel in options.plugins.chartAnnotations and follow every data or config update
+export const annotationPlugin: Plugin<ChartJsType, AnnotationPluginOptions> = {
+  id: 'chartAnnotations',
+  beforeDatasetsDraw(chart, _args, options) {
+    for (const annotation of options.annotations ?? []) {
+      if (annotation.kind === 'band') drawBand(chart, annotation)
+    }
+  },
+  afterDatasetsDraw(chart, _args, options) {
+    for (const annotation of options.annotations ?? []) {
+      if (annotation.kind === 'line') drawLine(chart, annotation)
+      else if (annotation.kind === 'note') drawNote(chart, annotation)
+    }
+  },
+}
+
+// Passes the annotations to the plugin and widens the numeric axes so off-data targets stay in view
+export function withAnnotations<TType extends ChartJsType>(
+  options: ChartOptions<TType>,
+  annotations: ResolvedAnnotation[] | undefined,
+  numericAxes: Axis[],
+): ChartOptions<TType> {
+  if (!annotations?.length) return options
+  const base = options as { plugins?: object; scales?: Record<string, object | undefined> }
+  const scales: Record<string, object | undefined> = { ...base.scales }
+  for (const axis of numericAxes) {
+    const values = annotations.flatMap((a) => annotationValues(a, axis))
+    if (values.length === 0) continue
+    scales[axis] = {
+      ...base.scales?.[axis],
+      suggestedMin: Math.min(...values),
+      suggestedMax: Math.max(...values),
+    }
+  }
+  return {
+    ...base,
+    plugins: { ...base.plugins, chartAnnotations: { annotations } },
+    scales,
+  } as ChartOptions<TType>
+}
+
+function annotationValues(annotation: ResolvedAnnotation, axis: Axis): number[] {
+  if (annotation.kind === 'note') return [axis === 'x' ? annotation.x : annotation.y]
+  if (annotation.axis !== axis) return []
+  return annotation.kind === 'line' ? [annotation.value] : [annotation.from, annotation.to]
+}
+
+// Category positions are label indices; a band over categories covers whole categories
+function halfCategory(scale: Scale): number {
+  if (scale.type !== 'category') return 0
+  return Math.abs(scale.getPixelForValue(1) - scale.getPixelForValue(0)) / 2
+}
+
+function drawBand(chart: Chart, band: Extract<ResolvedAnnotation, { kind: 'band' }>) {
+  const scale = chart.scales[band.axis]
+  if (!scale) return
+  const { ctx, chartArea } = chart
+  const half = halfCategory(scale)
+  const a = scale.getPixelForValue(band.from)
+  const b = scale.getPixelForValue(band.to)
+  const start = Math.min(a, b) - half
+  const size = Math.abs(b - a) + half * 2
+
+  ctx.save()
+  clipToChartArea(chart)
+  ctx.globalAlpha = BAND_OPACITY
+  ctx.fillStyle = band.color
+  if (band.axis === 'y') ctx.fillRect(chartArea.left, start, chartArea.width, size)
+  else ctx.fillRect(start, chartArea.top, size, chartArea.height)
+  ctx.globalAlpha = 1
+  if (band.label) {
+    ctx.font = ANNOTATION_FONT
+    ctx.fillStyle = band.color
+    ctx.textBaseline = 'top'
+    ctx.textAlign = 'left'
+    const x = band.axis === 'y' ? chartArea.left + 4 : start + 4
+    const y = band.axis === 'y' ? start + 4 : chartArea.top + 4
+    ctx.fillText(band.label, x, y)
+  }
+  ctx.restore()
+}
+
+function drawLine(chart: Chart, line: Extract<ResolvedAnnotation, { kind: 'line' }>) {
+  const scale = chart.scales[line.axis]
+  if (!scale) return
+  const { ctx, chartArea } = chart
+  const p = scale.getPixelForValue(line.value)
+
+  ctx.save()
+  clipToChartArea(chart)
+  ctx.strokeStyle = line.color
+  ctx.lineWidth = 2
+  ctx.setLineDash([6, 4])
+  ctx.beginPath()
+  if (line.axis === 'y') {
+    ctx.moveTo(chartArea.left, p)
+    ctx.lineTo(chartArea.right, p)
+  } else {
+    ctx.moveTo(p, chartArea.top)
+    ctx.lineTo(p, chartArea.bottom)
+  }
+  ctx.stroke()
+  if (line.label) {
+    ctx.font = ANNOTATION_FONT
+    ctx.fillStyle = line.color
+    if (line.axis === 'y') {
+      ctx.textAlign = 'right'
+      ctx.textBaseline = 'bottom'
+      ctx.fillText(line.label, chartArea.right - 4, p - 3)
+    } else {
+      ctx.textAlign = 'left'
+      ctx.textBaseline = 'top'
+      ctx.fillText(line.label, p + 4, chartArea.top + 4)
+    }
+  }
+  ctx.restore()
+}
+
+function drawNote(chart: Chart, note: Extract<ResolvedAnnotation, { kind: 'note' }>) {
+  const xScale = chart.scales.x
+  const yScale = chart.scales.y
+  if (!xScale || !yScale) return
+  const { ctx } = chart
+  const x = xScale.getPixelForValue(note.x)
+  const y = yScale.getPixelForValue(note.y)
+
+  ctx.save()
+  ctx.fillStyle = note.color
+  ctx.beginPath()
+  ctx.arc(x, y, 3, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.font = ANNOTATION_FONT
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'bottom'
+  ctx.fillText(note.text, x, y - 6)
+  ctx.restore()
+}
+
+function clipToChartArea(chart: Chart) {
+  const { ctx, chartArea } = chart
+  ctx.beginPath()
+  ctx.rect(chartArea.left, chartArea.top, chartArea.width, chartArea.height)
+  ctx.clip()
+}
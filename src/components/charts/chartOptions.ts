@@ -0,0 +1,217 @@
+import type { ActiveElement, ChartEvent, ChartOptions, TooltipItem } from 'chart.js'
+import { ChartAxisBounds, ChartConfig, ChartData } from '@/types/chart'
+import { withAnnotations } from './annotationPlugin'
+
+// Click and hover handlers for charts whose segments can be clicked
+export interface ChartInteractionOptions {
+  onClick?: (event: ChartEvent, elements: ActiveElement[]) => void
+  onHover?: (event: ChartEvent, elements: ActiveElement[]) => void
+}
+
+// Chart.js options for a prepared chart. Each chart type starts from the config's shared options
+export function buildChartOptions(
+  config: ChartConfig,
+  chartData: ChartData,
+  interaction: ChartInteractionOptions = {},
+): ChartOptions {
+  switch (config.type) {
+    case 'pie':
+    case 'doughnut':
+      return { ...config.options, ...interaction } as ChartOptions
+    case 'line':
+      return withAnnotations(
+        { ...config.options, ...interaction } as ChartOptions<'line'>,
+        chartData.annotations,
+        ['y'],
+      ) as ChartOptions
+    case 'bar':
+      return barOptions(config, chartData, interaction) as ChartOptions
+    case 'histogram':
+      return {
+        ...config.options,
+        ...interaction,
+        // Adjacent bins touch, which is what separates a histogram from a bar chart
+        datasets: { bar: { barPercentage: 1, categoryPercentage: 1 } },
+        scales: {
+          x: { title: { display: true, text: config.dataColumn } },
+          y: { beginAtZero: true, title: { display: true, text: 'Count' } },
+        },
+      } as ChartOptions
+    case 'boxplot':
+      return {
+        ...config.options,
+        ...interaction,
+        scales: { y: { title: { display: true, text: config.dataColumn } } },
+      } as ChartOptions
+    case 'violin':
+      return violinOptions(config, chartData, interaction) as ChartOptions
+    case 'waterfall':
+      return waterfallOptions(config, interaction) as ChartOptions
+    case 'funnel':
+      return funnelOptions(config, chartData, interaction) as ChartOptions
+    case 'scatter':
+      return withAnnotations(
+        {
+          ...config.options,
+          scales: {
+            x: { type: 'linear', title: { display: true, text: config.labelColumn } },
+            y: { type: 'linear', title: { display: true, text: config.dataColumn } },
+          },
+        } as ChartOptions<'scatter'>,
+        chartData.annotations,
+        ['x', 'y'],
+      ) as ChartOptions
+    default:
+      return config.options as ChartOptions
+  }
+}
+
+// Pins the numeric axes to fixed ranges, so small multiples can be compared panel to panel
+export function withAxisBounds(options: ChartOptions, bounds: ChartAxisBounds): ChartOptions {
+  const base = options as { scales?: Record<string, object | undefined> }
+  const scales: Record<string, object | undefined> = { ...base.scales }
+  for (const axis of ['x', 'y'] as const) {
+    const range = bounds[axis]
+    if (!range) continue
+    scales[axis] = { ...scales[axis], min: range.min, max: range.max }
+  }
+  return { ...options, scales } as ChartOptions
+}
+
+function barOptions(
+  config: ChartConfig,
+  chartData: ChartData,
+  interaction: ChartInteractionOptions,
+): ChartOptions<'bar'> {
+  const horizontal = config.orientation === 'horizontal'
+  const options = {
+    ...config.options,
+    ...interaction,
+    indexAxis: horizontal ? 'y' : 'x',
+  } as ChartOptions<'bar'>
+
+  const mode = config.seriesColumn ? (config.barMode ?? 'grouped') : 'grouped'
+  if (mode !== 'grouped') {
+    const valueAxis =
+      mode === 'percent'
+        ? {
+            stacked: true,
+            min: 0,
+            max: 100,
+            ticks: { callback: (v: number | string) => `${v}%` },
+          }
+        : { stacked: true }
+    options.scales = horizontal
+      ? { x: valueAxis, y: { stacked: true } }
+      : { x: { stacked: true }, y: valueAxis }
+  }
+  return withAnnotations(options, chartData.annotations, [horizontal ? 'x' : 'y'])
+}
+
+// Violins are drawn on a linear axis at x = 0, 1, 2, ...; label those ticks with the categories
+function violinOptions(
+  config: ChartConfig,
+  chartData: ChartData,
+  interaction: ChartInteractionOptions,
+): ChartOptions<'scatter'> {
+  const labels = chartData.labels
+  return {
+    ...config.options,
+    ...interaction,
+    scales: {
+      x: {
+        type: 'linear',
+        min: -0.5,
+        max: labels.length - 0.5,
+        grid: { display: false },
+        ticks: {
+          stepSize: 1,
+          callback: (value: number | string) => labels[Number(value)] ?? '',
+        },
+      },
+      y: { title: { display: true, text: config.dataColumn } },
+    },
+  } as ChartOptions<'scatter'>
+}
+
+// Bars float between running totals; the tooltip gives the step's own change instead
+function waterfallOptions(
+  config: ChartConfig,
+  interaction: ChartInteractionOptions,
+): ChartOptions<'bar'> {
+  const lastIndex = (item: TooltipItem<'bar'>) => item.dataIndex === item.dataset.data.length - 1
+  return {
+    ...config.options,
+    ...interaction,
+    plugins: {
+      ...config.options.plugins,
+      legend: { display: false },
+      tooltip: {
+        enabled: true,
+        callbacks: {
+          label: (item: TooltipItem<'bar'>) => {
+            const [from, to] = item.raw as [number, number]
+            if (lastIndex(item)) return `Total: ${formatNumber(to)}`
+            const change = to - from
+            return `${change < 0 ? '' : '+'}${formatNumber(change)} (running total ${formatNumber(to)})`
+          },
+        },
+      },
+    },
+    scales: { y: { title: { display: true, text: config.dataColumn } } },
+  } as ChartOptions<'bar'>
+}
+
+// Horizontal bars centered on zero; the value axis is hidden since the bars extend both ways
+function funnelOptions(
+  config: ChartConfig,
+  chartData: ChartData,
+  interaction: ChartInteractionOptions,
+): ChartOptions<'bar'> {
+  const stages = chartData.funnel ?? []
+  return {
+    ...config.options,
+    ...interaction,
+    indexAxis: 'y',
+    plugins: {
+      ...config.options.plugins,
+      legend: { display: false },
+      tooltip: {
+        enabled: true,
+        callbacks: {
+          label: (item: TooltipItem<'bar'>) => {
+            const stage = stages[item.dataIndex]
+            if (!stage) return ''
+            return [
+              `${formatNumber(stage.value)}`,
+              `${formatPercent(stage.ofFirst)} of first stage`,
+              `${formatPercent(stage.ofPrevious)} of previous stage`,
+            ]
+          },
+        },
+      },
+    },
+    scales: {
+      x: { display: false, stacked: true },
+      y: {
+        stacked: true,
+        grid: { display: false },
+        ticks: {
+          callback: (_value: number | string, index: number) => {
+            const stage = stages[index]
+            const label = chartData.labels[index] ?? ''
+            return stage ? `${label} (${formatPercent(stage.ofFirst)})` : label
+          },
+        },
+      },
+    },
+  } as ChartOptions<'bar'>
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
+
+function formatPercent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`
+}
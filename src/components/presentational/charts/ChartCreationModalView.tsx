@@ -4,9 +4,30 @@ import React from 'react'
 import { XMarkIcon } from '@heroicons/react/24/outline'
 import { Button } from '@/components/ui/Button'
 import { NumericRangeEditor } from '@/components/charts/NumericRangeEditor'
-import { AggregationType, ChartType, NumericRange } from '@/types/chart'
+import {
+  AggregationType,
+  BarMode,
+  BarOrientation,
+  ChartSortBy,
+  ChartType,
+  DateBucket,
+  HistogramBinMethod,
+  KpiBaseline,
+  NumericRange,
+  SortDirection,
+} from '@/types/chart'
 import { ColumnInfo } from '@/types/excel'
-import { ChartTypeConfig } from '@/utils/chartConfig'
+import {
+  barModeOptions,
+  binMethodOptions,
+  ChartTypeConfig,
+  dateBucketOptions,
+  DEFAULT_MAX_FACETS,
+  kpiBaselineOptions,
+  MAX_FACETS_LIMIT,
+  MAX_HIERARCHY_LEVELS,
+  sortableChartTypes,
+} from '@/utils/chartConfig'
 
 interface ChartCreationModalViewProps {
   isOpen: boolean
@@ -21,6 +42,8 @@ interface ChartCreationModalViewProps {
   dataColumnSearch: string
   onChangeDataColumnSearch: (s: string) => void
   compatibleDataColumns: (search: string) => ColumnInfo[]
+  // Columns allowed on the label (x-axis); falls back to the data columns when omitted
+  compatibleLabelColumns?: ColumnInfo[]
 
   labelColumn?: string
   onChangeLabelColumn?: (name: string) => void
@@ -28,6 +51,14 @@ interface ChartCreationModalViewProps {
   aggregation: AggregationType
   onChangeAggregation: (a: AggregationType) => void
   availableAggregations: { type: AggregationType; label: string }[]
+  percentile?: number
+  onChangePercentile?: (p: number) => void
+  orderColumnOptions?: ColumnInfo[]
+  orderColumn?: string
+  onChangeOrderColumn?: (name: string) => void
+  compatibleWeightColumns?: ColumnInfo[]
+  weightColumn?: string
+  onChangeWeightColumn?: (name: string) => void
 
   maxSegments: number
   onChangeMaxSegments: (n: number) => void
@@ -37,6 +68,43 @@ interface ChartCreationModalViewProps {
   onChangeNumericRanges: (ranges: NumericRange[]) => void
   sampleValues: number[]
 
+  orientation?: BarOrientation
+  onChangeOrientation?: (o: BarOrientation) => void
+  sortBy?: ChartSortBy
+  onChangeSortBy?: (s: ChartSortBy) => void
+  sortDirection?: SortDirection
+  onChangeSortDirection?: (d: SortDirection) => void
+  compatibleSeriesColumns?: ColumnInfo[]
+  seriesColumn?: string
+  onChangeSeriesColumn?: (name: string) => void
+  barMode?: BarMode
+  onChangeBarMode?: (m: BarMode) => void
+  binMethod?: HistogramBinMethod
+  onChangeBinMethod?: (m: HistogramBinMethod) => void
+  binWidth?: number
+  onChangeBinWidth?: (w: number) => void
+  dateBucket?: DateBucket
+  onChangeDateBucket?: (b: DateBucket) => void
+  compatibleColorColumns?: ColumnInfo[]
+  colorColumn?: string
+  onChangeColorColumn?: (name: string) => void
+  showTrendline?: boolean
+  onChangeShowTrendline?: (show: boolean) => void
+  compatibleHierarchyColumns?: ColumnInfo[]
+  hierarchyColumns?: string[]
+  onAddHierarchyColumn?: (name: string) => void
+  onRemoveHierarchyColumn?: (name: string) => void
+  compatibleFacetColumns?: ColumnInfo[]
+  facetColumn?: string
+  onChangeFacetColumn?: (name: string) => void
+  maxFacets?: number
+  onChangeMaxFacets?: (n: number) => void
+  kpiBaseline?: KpiBaseline | ''
+  onChangeKpiBaseline?: (b: KpiBaseline | '') => void
+  compatibleKpiDateColumns?: ColumnInfo[]
+  kpiDateColumn?: string
+  onChangeKpiDateColumn?: (name: string) => void
+
   title: string
   onChangeTitle: (t: string) => void
   defaultTitle: string
@@ -59,6 +127,7 @@ export function ChartCreationModalView(props: ChartCreationModalViewProps) {
     dataColumnSearch,
     onChangeDataColumnSearch,
     compatibleDataColumns,
+    compatibleLabelColumns,
 
     labelColumn,
     onChangeLabelColumn,
@@ -66,6 +135,14 @@ export function ChartCreationModalView(props: ChartCreationModalViewProps) {
     aggregation,
     onChangeAggregation,
     availableAggregations,
+    percentile,
+    onChangePercentile,
+    orderColumnOptions,
+    orderColumn,
+    onChangeOrderColumn,
+    compatibleWeightColumns,
+    weightColumn,
+    onChangeWeightColumn,
 
     maxSegments,
     onChangeMaxSegments,
@@ -75,6 +152,43 @@ export function ChartCreationModalView(props: ChartCreationModalViewProps) {
     onChangeNumericRanges,
     sampleValues,
 
+    orientation,
+    onChangeOrientation,
+    sortBy,
+    onChangeSortBy,
+    sortDirection,
+    onChangeSortDirection,
+    compatibleSeriesColumns,
+    seriesColumn,
+    onChangeSeriesColumn,
+    barMode,
+    onChangeBarMode,
+    binMethod,
+    onChangeBinMethod,
+    binWidth,
+    onChangeBinWidth,
+    dateBucket,
+    onChangeDateBucket,
+    compatibleColorColumns,
+    colorColumn,
+    onChangeColorColumn,
+    showTrendline,
+    onChangeShowTrendline,
+    compatibleHierarchyColumns,
+    hierarchyColumns,
+    onAddHierarchyColumn,
+    onRemoveHierarchyColumn,
+    compatibleFacetColumns,
+    facetColumn,
+    onChangeFacetColumn,
+    maxFacets,
+    onChangeMaxFacets,
+    kpiBaseline,
+    onChangeKpiBaseline,
+    compatibleKpiDateColumns,
+    kpiDateColumn,
+    onChangeKpiDateColumn,
+
     title,
     onChangeTitle,
     defaultTitle,
@@ -86,6 +200,9 @@ export function ChartCreationModalView(props: ChartCreationModalViewProps) {
   if (!isOpen) return null
 
   const selectedConfig = availableChartTypes.find((c) => c.type === selectedType)
+  const labelOptions = (compatibleLabelColumns ?? compatibleDataColumns('')).filter(
+    (col) => col.name !== dataColumn,
+  )
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -247,7 +364,7 @@ export function ChartCreationModalView(props: ChartCreationModalViewProps) {
           {selectedConfig?.variables === 2 && onChangeLabelColumn && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Label Column (X-axis)
+                {selectedConfig.labelColumnTitle ?? 'Label Column (X-axis)'}
               </label>
               <select
                 value={labelColumn || ''}
@@ -256,17 +373,92 @@ export function ChartCreationModalView(props: ChartCreationModalViewProps) {
                 required
               >
                 <option value="">Select column...</option>
-                {compatibleDataColumns('')
-                  .filter((col) => col.name !== dataColumn)
-                  .map((col) => (
-                    <option key={col.name} value={col.name}>
-                      {col.name} ({col.type})
-                    </option>
-                  ))}
+                {labelOptions.map((col) => (
+                  <option key={col.name} value={col.name}>
+                    {col.name} ({col.type})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Optional Group By Column (e.g. bar charts) */}
+          {selectedConfig?.labelColumnOptional && onChangeLabelColumn && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {selectedConfig.labelColumnTitle ?? 'Group By (optional)'}
+              </label>
+              <select
+                value={labelColumn || ''}
+                onChange={(e) => onChangeLabelColumn(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">
+                  {selectedConfig.aggregationRequired
+                    ? 'None (group by data column values)'
+                    : 'None (whole column)'}
+                </option>
+                {labelOptions.map((col) => (
+                  <option key={col.name} value={col.name}>
+                    {col.name} ({col.type})
+                  </option>
+                ))}
               </select>
             </div>
           )}
 
+          {/* Category Levels (for treemaps and sunbursts), outermost first */}
+          {selectedConfig?.hierarchyDataTypes && onAddHierarchyColumn && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Category Levels
+              </label>
+              {(hierarchyColumns ?? []).length > 0 && (
+                <ol className="flex flex-wrap items-center gap-2 mb-2" aria-label="Category levels">
+                  {(hierarchyColumns ?? []).map((name, i) => (
+                    <li
+                      key={name}
+                      className="flex items-center gap-1 px-2 py-1 text-sm bg-gray-100 rounded"
+                    >
+                      <span className="text-gray-500">{i + 1}.</span> {name}
+                      {onRemoveHierarchyColumn && (
+                        <button
+                          type="button"
+                          onClick={() => onRemoveHierarchyColumn(name)}
+                          aria-label={`Remove level ${name}`}
+                          className="text-gray-400 hover:text-gray-600"
+                        >
+                          <XMarkIcon className="w-4 h-4" />
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {(hierarchyColumns ?? []).length < MAX_HIERARCHY_LEVELS && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && onAddHierarchyColumn(e.target.value)}
+                  aria-label="Add a category level"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">
+                    {(hierarchyColumns ?? []).length === 0
+                      ? 'Select the top level, e.g. Region'
+                      : 'Add a level below (optional)'}
+                  </option>
+                  {(compatibleHierarchyColumns ?? [])
+                    .filter((col) => !(hierarchyColumns ?? []).includes(col.name))
+                    .map((col) => (
+                      <option key={col.name} value={col.name}>
+                        {col.name} ({col.type})
+                      </option>
+                    ))}
+                </select>
+              )}
+            </div>
+          )}
+
           {/* Aggregation Selection */}
           {selectedConfig?.aggregationRequired && (
             <div>
@@ -282,11 +474,119 @@ export function ChartCreationModalView(props: ChartCreationModalViewProps) {
                   </option>
                 ))}
               </select>
+              {aggregation === 'percentile' && onChangePercentile && (
+                <div className="mt-3">
+                  <label
+                    htmlFor="aggregation-percentile"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Percentile (0–100)
+                  </label>
+                  <input
+                    id="aggregation-percentile"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={percentile ?? 90}
+                    onChange={(e) => onChangePercentile(parseFloat(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    For example 90 for p90 or 95 for p95.
+                  </p>
+                </div>
+              )}
+              {(aggregation === 'first' || aggregation === 'last') && onChangeOrderColumn && (
+                <div className="mt-3">
+                  <label
+                    htmlFor="aggregation-order-column"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Order Rows By
+                  </label>
+                  <select
+                    id="aggregation-order-column"
+                    value={orderColumn || ''}
+                    onChange={(e) => onChangeOrderColumn(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="">Row order in the file</option>
+                    {(orderColumnOptions ?? []).map((col) => (
+                      <option key={col.name} value={col.name}>
+                        {col.name} ({col.type})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {aggregation === 'weighted_average' && onChangeWeightColumn && (
+                <div className="mt-3">
+                  <label
+                    htmlFor="aggregation-weight-column"
+                    className="block text-sm font-medium text-gray-700 mb-2"
+                  >
+                    Weight Column
+                  </label>
+                  <select
+                    id="aggregation-weight-column"
+                    value={weightColumn || ''}
+                    onChange={(e) => onChangeWeightColumn(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="">Select a weight column...</option>
+                    {(compatibleWeightColumns ?? []).map((col) => (
+                      <option key={col.name} value={col.name}>
+                        {col.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
           )}
 
-          {/* Max Segments (for pie charts) */}
-          {selectedConfig?.type === 'pie' && (
+          {/* Color By and Trendline (for scatter plots) */}
+          {selectedConfig?.type === 'scatter' && (
+            <div className="flex flex-col gap-3">
+              {onChangeColorColumn && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Color By (optional)
+                  </label>
+                  <select
+                    value={colorColumn || ''}
+                    onChange={(e) => onChangeColorColumn(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="">None (single color)</option>
+                    {(compatibleColorColumns ?? []).map((col) => (
+                      <option key={col.name} value={col.name}>
+                        {col.name} ({col.type})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {onChangeShowTrendline && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={showTrendline ?? false}
+                    onChange={(e) => onChangeShowTrendline(e.target.checked)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  Show linear trendline (slope, intercept and R²)
+                </label>
+              )}
+            </div>
+          )}
+
+          {/* Max Segments (for pie charts, and other charts split by category) */}
+          {(selectedConfig?.type === 'pie' ||
+            (selectedConfig?.type === 'scatter' && colorColumn) ||
+            (selectedConfig?.type === 'bar' && seriesColumn) ||
+            ((selectedConfig?.type === 'boxplot' || selectedConfig?.type === 'violin') &&
+              labelColumn)) && (
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Maximum Segments
@@ -308,7 +608,148 @@ export function ChartCreationModalView(props: ChartCreationModalViewProps) {
             </div>
           )}
 
-          {/* Numeric Range Editor (for numeric pie charts) */}
+          {/* Date Bucketing (for line charts) */}
+          {selectedConfig?.type === 'line' && onChangeDateBucket && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Group Dates By</label>
+              <select
+                value={dateBucket ?? 'month'}
+                onChange={(e) => onChangeDateBucket(e.target.value as DateBucket)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+              >
+                {dateBucketOptions.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Periods without data are still shown so gaps stay visible.
+              </p>
+            </div>
+          )}
+
+          {/* Orientation (bar charts) and Sorting (bar, waterfall and funnel charts) */}
+          {selectedConfig && sortableChartTypes.includes(selectedConfig.type) && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {selectedConfig.type === 'bar' && onChangeOrientation && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Orientation
+                  </label>
+                  <select
+                    value={orientation ?? 'vertical'}
+                    onChange={(e) => onChangeOrientation(e.target.value as BarOrientation)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="vertical">Vertical (columns)</option>
+                    <option value="horizontal">Horizontal (bars)</option>
+                  </select>
+                </div>
+              )}
+              {onChangeSortBy && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Sort By</label>
+                  <select
+                    value={sortBy ?? 'value'}
+                    onChange={(e) => onChangeSortBy(e.target.value as ChartSortBy)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="value">Value</option>
+                    <option value="label">Label</option>
+                    <option value="source">Order in data</option>
+                  </select>
+                </div>
+              )}
+              {onChangeSortDirection && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Direction</label>
+                  <select
+                    value={sortDirection ?? 'desc'}
+                    onChange={(e) => onChangeSortDirection(e.target.value as SortDirection)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    <option value="desc">Descending</option>
+                    <option value="asc">Ascending</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Series Column and Bar Mode (for multi-series bar charts) */}
+          {selectedConfig?.type === 'bar' && onChangeSeriesColumn && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Series (optional)
+                </label>
+                <select
+                  value={seriesColumn || ''}
+                  onChange={(e) => onChangeSeriesColumn(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">None (single series)</option>
+                  {(compatibleSeriesColumns ?? []).map((col) => (
+                    <option key={col.name} value={col.name}>
+                      {col.name} ({col.type})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {seriesColumn && onChangeBarMode && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Bar Layout</label>
+                  <select
+                    value={barMode ?? 'grouped'}
+                    onChange={(e) => onChangeBarMode(e.target.value as BarMode)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  >
+                    {barModeOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Binning (for histograms) */}
+          {selectedConfig?.type === 'histogram' && onChangeBinMethod && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Bins</label>
+                <select
+                  value={binMethod ?? 'sturges'}
+                  onChange={(e) => onChangeBinMethod(e.target.value as HistogramBinMethod)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                >
+                  {binMethodOptions.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {binMethod === 'width' && onChangeBinWidth && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Bin Width</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={binWidth || ''}
+                    onChange={(e) => onChangeBinWidth(parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Numeric Range Editor (for numeric pie charts and custom histogram bins) */}
           {shouldShowRangeEditor && sampleValues.length > 0 && (
             <div>
               <NumericRangeEditor
@@ -321,6 +762,103 @@ export function ChartCreationModalView(props: ChartCreationModalViewProps) {
             </div>
           )}
 
+          {/* Baseline (for KPI cards), shown as a change beside the value */}
+          {selectedConfig?.type === 'kpi' && onChangeKpiBaseline && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Compare With</label>
+                <select
+                  value={kpiBaseline ?? ''}
+                  onChange={(e) => onChangeKpiBaseline(e.target.value as KpiBaseline | '')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">Nothing (value only)</option>
+                  {kpiBaselineOptions.map((option) => (
+                    <option
+                      key={option.value}
+                      value={option.value}
+                      disabled={
+                        option.value === 'previous-window' &&
+                        (compatibleKpiDateColumns ?? []).length === 0
+                      }
+                    >
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {kpiBaseline === 'previous-window' && onChangeKpiDateColumn && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Date Column
+                  </label>
+                  <select
+                    value={kpiDateColumn || ''}
+                    onChange={(e) => onChangeKpiDateColumn(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                    required
+                  >
+                    <option value="">Select column...</option>
+                    {(compatibleKpiDateColumns ?? []).map((col) => (
+                      <option key={col.name} value={col.name}>
+                        {col.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Compared with the same number of days just before the filtered dates.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Facet Column (small multiples, one mini chart per category) */}
+          {onChangeFacetColumn && (compatibleFacetColumns ?? []).length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Facet By (optional)
+                </label>
+                <select
+                  value={facetColumn || ''}
+                  onChange={(e) => onChangeFacetColumn(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                >
+                  <option value="">None (single chart)</option>
+                  {(compatibleFacetColumns ?? []).map((col) => (
+                    <option key={col.name} value={col.name}>
+                      {col.name} ({col.type})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {facetColumn && onChangeMaxFacets && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Maximum Panels
+                  </label>
+                  <input
+                    type="number"
+                    min="2"
+                    max={MAX_FACETS_LIMIT}
+                    value={maxFacets ?? DEFAULT_MAX_FACETS}
+                    onChange={(e) =>
+                      onChangeMaxFacets(parseInt(e.target.value) || DEFAULT_MAX_FACETS)
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </div>
+              )}
+              {facetColumn && (
+                <p className="text-xs text-gray-500 sm:col-span-2">
+                  One mini chart per value of {facetColumn}, on shared axes; smaller groups past the
+                  limit are combined into &ldquo;Others&rdquo;
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Title */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -0,0 +1,131 @@
+'use client'
+
+import React from 'react'
+import { XMarkIcon } from '@heroicons/react/24/outline'
+import { Button } from '@/components/ui/Button'
+import { CorrelationMethod } from '@/types/chart'
+
+interface CorrelationHeatmapViewProps {
+  columns: string[]
+  values: (number | null)[][] | null
+  counts: number[][] | null
+  method: CorrelationMethod
+  onChangeMethod: (m: CorrelationMethod) => void
+  isComputing: boolean
+  error: string | null
+  truncated: boolean
+  maxColumns: number
+  onSelectPair: (xColumn: string, yColumn: string) => void
+  onClose: () => void
+}
+
+// Diverging scale: blue for positive, red for negative, stronger as |r| approaches 1
+export function correlationColor(r: number | null): string {
+  if (r === null) return '#f3f4f6'
+  const alpha = Math.min(1, Math.abs(r)).toFixed(2)
+  return r >= 0 ? `rgba(59, 130, 246, ${alpha})` : `rgba(239, 68, 68, ${alpha})`
+}
+
+export function CorrelationHeatmapView({
+  columns,
+  values,
+  counts,
+  method,
+  onChangeMethod,
+  isComputing,
+  error,
+  truncated,
+  maxColumns,
+  onSelectPair,
+  onClose,
+}: Readonly<CorrelationHeatmapViewProps>) {
+  return (
+    <div className="bg-white p-4 rounded-lg shadow border border-gray-200">
+      <div className="flex justify-between items-center mb-4 gap-3 flex-wrap">
+        <h3 className="font-medium">Correlation Matrix</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={method}
+            onChange={(e) => onChangeMethod(e.target.value as CorrelationMethod)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500"
+            aria-label="Correlation method"
+          >
+            <option value="pearson">Pearson</option>
+            <option value="spearman">Spearman (rank)</option>
+          </select>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close correlation matrix">
+            <XMarkIcon className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {!error && isComputing && !values && (
+        <div className="text-sm text-gray-500">Computing correlations…</div>
+      )}
+
+      {!error && values && counts && (
+        <div className={`overflow-auto ${isComputing ? 'opacity-60' : ''}`}>
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th />
+                {columns.map((name) => (
+                  <th
+                    key={name}
+                    scope="col"
+                    className="px-1 py-1 font-medium text-gray-600 max-w-[6rem] truncate"
+                    title={name}
+                  >
+                    {name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {columns.map((rowName, i) => (
+                <tr key={rowName}>
+                  <th
+                    scope="row"
+                    className="px-2 py-1 text-right font-medium text-gray-600 max-w-[8rem] truncate"
+                    title={rowName}
+                  >
+                    {rowName}
+                  </th>
+                  {columns.map((colName, j) => {
+                    const r = values[i][j]
+                    const label = r === null ? '–' : r.toFixed(2)
+                    return (
+                      <td key={colName} className="p-0">
+                        <button
+                          type="button"
+                          disabled={i === j}
+                          onClick={() => onSelectPair(colName, rowName)}
+                          title={`${rowName} vs ${colName}: r = ${label} (n = ${counts[i][j]})`}
+                          className={`w-14 h-10 border border-white ${
+                            r !== null && Math.abs(r) > 0.6 ? 'text-white' : 'text-gray-800'
+                          } ${i === j ? 'cursor-default' : 'hover:ring-2 hover:ring-gray-400'}`}
+                          style={{ backgroundColor: correlationColor(r) }}
+                        >
+                          {label}
+                        </button>
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="text-xs text-gray-500 mt-3">
+        Computed over the currently filtered rows. Click a cell to open a scatter plot for that
+        pair.
+        {truncated && ` Only the first ${maxColumns} numeric columns are shown.`}
+      </div>
+    </div>
+  )
+}
+
+export default CorrelationHeatmapView
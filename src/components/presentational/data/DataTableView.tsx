@@ -11,6 +11,8 @@ export interface DataTableViewProps {
   dateColumnHasTime: boolean[]
   useVirtualScrolling: boolean
   fileMeta?: { fileName: string; activeSheet?: string }
+  sheets?: string[] // Sheets of the workbook that can be switched to
+  onSelectSheet?: (sheetName: string) => void
   showDataTypes: boolean
   sortColumn?: string
   sortDirection?: 'asc' | 'desc'
@@ -28,6 +30,8 @@ export function DataTableView({
   dateColumnHasTime,
   useVirtualScrolling,
   fileMeta,
+  sheets = [],
+  onSelectSheet,
   showDataTypes,
   sortColumn,
   sortDirection,
@@ -64,9 +68,26 @@ export function DataTableView({
             {fileMeta && (
               <div className="text-sm text-gray-500">
                 <span className="font-medium">{fileMeta.fileName}</span>
-                {fileMeta.activeSheet && (
-                  <span className="ml-2">• Sheet: {fileMeta.activeSheet}</span>
-                )}
+                {fileMeta.activeSheet &&
+                  (onSelectSheet && sheets.length > 1 ? (
+                    <label className="ml-2">
+                      • Sheet:{' '}
+                      <select
+                        aria-label="Sheet"
+                        value={fileMeta.activeSheet}
+                        onChange={(e) => onSelectSheet(e.target.value)}
+                        className="ml-1 py-0.5 pl-2 pr-7 text-sm border border-gray-300 rounded focus:ring-primary-500 focus:border-primary-500"
+                      >
+                        {sheets.map((sheet) => (
+                          <option key={sheet} value={sheet}>
+                            {sheet}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  ) : (
+                    <span className="ml-2">• Sheet: {fileMeta.activeSheet}</span>
+                  ))}
               </div>
             )}
           </div>
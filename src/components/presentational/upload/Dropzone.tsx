@@ -1,6 +1,7 @@
 import React from 'react'
 import { DocumentArrowUpIcon } from '@heroicons/react/24/outline'
 import { clsx } from 'clsx'
+import { DEFAULT_MAX_TEXT_SIZE_MB } from '@/utils/fileValidation'
 
 interface DropzoneProps {
   isDragOver: boolean
@@ -28,7 +29,10 @@ export function Dropzone({ isDragOver, acceptedTypes, maxSizeBytes }: Readonly<D
 
       <div className="text-xs text-gray-500 flex flex-col gap-1">
         <p>Supported formats: {acceptedTypes.join(', ')}</p>
-        <p>Maximum size: {(maxSizeBytes / 1024 / 1024).toFixed(0)}MB</p>
+        <p>
+          Maximum size: {(maxSizeBytes / 1024 / 1024).toFixed(0)}MB, or {DEFAULT_MAX_TEXT_SIZE_MB}MB
+          for CSV, TSV and TXT files
+        </p>
       </div>
     </div>
   )
@@ -0,0 +1,86 @@
+import React, { FormEvent, useEffect, useState } from 'react'
+import type { HeaderRegion } from '@/types/excel'
+import { MAX_HEADER_ROWS } from '@/utils/headerDetection'
+import { Button } from '@/components/ui/Button'
+
+interface HeaderRowSettingsProps {
+  header: HeaderRegion & { detected: boolean }
+  onApply: (header: HeaderRegion) => void
+  disabled?: boolean
+}
+
+const INPUT_CLASS =
+  'w-16 px-2 py-1 border border-gray-300 rounded focus:ring-primary-500 focus:border-primary-500'
+
+// Shows which rows the column names came from, and reads the sheet again from other rows
+export function HeaderRowSettings({
+  header,
+  onApply,
+  disabled = false,
+}: Readonly<HeaderRowSettingsProps>) {
+  const [row, setRow] = useState(String(header.row))
+  const [rowCount, setRowCount] = useState(String(header.rowCount))
+
+  useEffect(() => {
+    setRow(String(header.row))
+    setRowCount(String(header.rowCount))
+  }, [header.row, header.rowCount])
+
+  const nextRow = Number(row)
+  const nextCount = Number(rowCount)
+  const valid =
+    Number.isInteger(nextRow) &&
+    nextRow >= 1 &&
+    Number.isInteger(nextCount) &&
+    nextCount >= 1 &&
+    nextCount <= MAX_HEADER_ROWS
+  const changed = nextRow !== header.row || nextCount !== header.rowCount
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault()
+    if (valid && changed) onApply({ row: nextRow, rowCount: nextCount })
+  }
+
+  const lastRow = header.row + header.rowCount - 1
+  const current =
+    header.rowCount === 1 ? `row ${header.row}` : `rows ${header.row} to ${lastRow}, joined`
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex flex-wrap items-center gap-x-3 gap-y-2 text-sm text-gray-600"
+    >
+      <span>
+        Column names from {current}
+        {header.detected && ' (detected)'}.
+      </span>
+      <label className="flex items-center gap-1">
+        Header starts at row
+        <input
+          type="number"
+          min={1}
+          value={row}
+          onChange={(e) => setRow(e.target.value)}
+          className={INPUT_CLASS}
+          disabled={disabled}
+        />
+      </label>
+      <label className="flex items-center gap-1">
+        spans
+        <input
+          type="number"
+          min={1}
+          max={MAX_HEADER_ROWS}
+          value={rowCount}
+          onChange={(e) => setRowCount(e.target.value)}
+          className={INPUT_CLASS}
+          disabled={disabled}
+        />
+        rows
+      </label>
+      <Button type="submit" variant="outline" size="sm" disabled={disabled || !valid || !changed}>
+        Apply
+      </Button>
+    </form>
+  )
+}
@@ -28,6 +28,9 @@ export function SessionListItem({ session, isActive, onSelect, onDelete }: Sessi
       <div className="min-w-0">
         <p className="text-sm font-medium text-gray-900 truncate">
           {summary.fileName || 'Untitled Session'}
+          {summary.sheetName && (
+            <span className="font-normal text-gray-500"> • {summary.sheetName}</span>
+          )}
         </p>
         <p className="text-xs text-gray-500 truncate">
           {summary.totalRows || 0} rows × {summary.totalColumns || 0} cols • Updated{' '}
@@ -1,11 +1,26 @@
 import { useCallback, useMemo, useState } from 'react'
-import { AggregationType, ChartType, NumericRange } from '@/types/chart'
+import {
+  AggregationType,
+  BarMode,
+  BarOrientation,
+  ChartSortBy,
+  ChartType,
+  DateBucket,
+  HistogramBinMethod,
+  KpiBaseline,
+  NumericRange,
+  SortDirection,
+} from '@/types/chart'
 import { ColumnInfo, ExcelData } from '@/types/excel'
 import {
   aggregationTypes,
   chartAggregationRules,
   chartTypeConfigs,
   ChartTypeConfig,
+  DEFAULT_MAX_FACETS,
+  MAX_FACETS_LIMIT,
+  MAX_HIERARCHY_LEVELS,
+  sortableChartTypes,
 } from '@/utils/chartConfig'
 import { getCompatibleColumns, rankColumns } from '@/utils/columnSearch'
 
@@ -23,6 +38,24 @@ export function useChartCreationModal({ columnInfo, filteredData }: UseChartCrea
   const [maxSegments, setMaxSegments] = useState<number>(10)
   const [dataColumnSearch, setDataColumnSearch] = useState<string>('')
   const [numericRanges, setNumericRanges] = useState<NumericRange[]>([])
+  const [orientation, setOrientation] = useState<BarOrientation>('vertical')
+  const [sortBy, setSortBy] = useState<ChartSortBy>('value')
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [dateBucket, setDateBucket] = useState<DateBucket>('month')
+  const [seriesColumn, setSeriesColumn] = useState<string>('')
+  const [barMode, setBarMode] = useState<BarMode>('grouped')
+  const [binMethod, setBinMethod] = useState<HistogramBinMethod>('sturges')
+  const [binWidth, setBinWidth] = useState<number>(0)
+  const [colorColumn, setColorColumn] = useState<string>('')
+  const [showTrendline, setShowTrendline] = useState<boolean>(true)
+  const [percentile, setPercentile] = useState<number>(90)
+  const [orderColumn, setOrderColumn] = useState<string>('')
+  const [weightColumn, setWeightColumn] = useState<string>('')
+  const [facetColumn, setFacetColumn] = useState<string>('')
+  const [maxFacets, setMaxFacets] = useState<number>(DEFAULT_MAX_FACETS)
+  const [hierarchyColumns, setHierarchyColumns] = useState<string[]>([])
+  const [kpiBaseline, setKpiBaseline] = useState<KpiBaseline | ''>('')
+  const [kpiDateColumn, setKpiDateColumn] = useState<string>('')
 
   const selectedConfig: ChartTypeConfig | undefined = useMemo(
     () => chartTypeConfigs.find((c) => c.type === selectedType),
@@ -40,9 +73,14 @@ export function useChartCreationModal({ columnInfo, filteredData }: UseChartCrea
     [columnInfo, dataColumn],
   )
 
+  const usesLabelColumn = selectedConfig?.variables === 2 || !!selectedConfig?.labelColumnOptional
+  const usesHierarchy = !!selectedConfig?.hierarchyDataTypes
+
   const shouldShowRangeEditor = useMemo(() => {
-    return selectedColumnInfo?.type === 'number' && aggregation === 'count' && selectedType === 'pie'
-  }, [selectedColumnInfo?.type, aggregation, selectedType])
+    if (selectedColumnInfo?.type !== 'number') return false
+    if (selectedType === 'histogram') return binMethod === 'custom'
+    return aggregation === 'count' && selectedType === 'pie'
+  }, [selectedColumnInfo?.type, aggregation, selectedType, binMethod])
 
   const sampleValues: number[] = useMemo(() => {
     if (!shouldShowRangeEditor || !dataColumn) return []
@@ -57,9 +95,16 @@ export function useChartCreationModal({ columnInfo, filteredData }: UseChartCrea
 
   const availableChartTypes = useMemo(() => {
     return chartTypeConfigs.filter((config) => {
-      const compatible = columnInfo.filter((col) => config.supportedDataTypes.includes(col.type))
+      const compatible = getCompatibleColumns(columnInfo, config.type)
+      if (config.hierarchyDataTypes) {
+        const levels = getCompatibleColumns(columnInfo, config.type, 'hierarchy')
+        return compatible.length >= 1 && levels.length >= 1
+      }
       if (config.variables === 1) return compatible.length >= 1
-      return compatible.length >= 2
+      const labelCompatible = getCompatibleColumns(columnInfo, config.type, 'label')
+      // Both axes need a column, and they must be two different columns
+      const distinct = new Set([...compatible, ...labelCompatible].map((col) => col.name))
+      return compatible.length >= 1 && labelCompatible.length >= 1 && distinct.size >= 2
     })
   }, [columnInfo])
 
@@ -71,15 +116,116 @@ export function useChartCreationModal({ columnInfo, filteredData }: UseChartCrea
     [columnInfo, selectedType],
   )
 
+  const compatibleLabelColumns = useMemo(
+    () =>
+      getCompatibleColumns(columnInfo, selectedType, 'label')
+        .filter((col) => col.name !== dataColumn)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [columnInfo, selectedType, dataColumn],
+  )
+
+  const compatibleColorColumns = useMemo(
+    () =>
+      getCompatibleColumns(columnInfo, selectedType, 'color').sort((a, b) =>
+        a.name.localeCompare(b.name),
+      ),
+    [columnInfo, selectedType],
+  )
+
+  const compatibleSeriesColumns = useMemo(
+    () =>
+      getCompatibleColumns(columnInfo, selectedType, 'series')
+        .filter((col) => col.name !== dataColumn && col.name !== labelColumn)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [columnInfo, selectedType, dataColumn, labelColumn],
+  )
+
+  // A KPI card is a single number, so there is nothing to split into panels
+  const compatibleFacetColumns = useMemo(
+    () =>
+      selectedType === 'kpi'
+        ? []
+        : getCompatibleColumns(columnInfo, selectedType, 'facet')
+            .filter((col) => col.name !== dataColumn && col.name !== labelColumn)
+            .sort((a, b) => a.name.localeCompare(b.name)),
+    [columnInfo, selectedType, dataColumn, labelColumn],
+  )
+
+  // Date columns a KPI card's previous window can be measured on
+  const compatibleKpiDateColumns = useMemo(
+    () =>
+      columnInfo
+        .filter((col) => col.type === 'date')
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [columnInfo],
+  )
+
+  // Category levels for treemaps and sunbursts; the view leaves out levels already picked
+  const compatibleHierarchyColumns = useMemo(
+    () =>
+      getCompatibleColumns(columnInfo, selectedType, 'hierarchy')
+        .filter((col) => col.name !== dataColumn)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [columnInfo, selectedType, dataColumn],
+  )
+
+  const addHierarchyColumn = useCallback((name: string) => {
+    setHierarchyColumns((levels) =>
+      levels.includes(name) || levels.length >= MAX_HIERARCHY_LEVELS ? levels : [...levels, name],
+    )
+  }, [])
+
+  const removeHierarchyColumn = useCallback((name: string) => {
+    setHierarchyColumns((levels) => levels.filter((level) => level !== name))
+  }, [])
+
+  // Any column can order rows for first/last; weights must be numeric
+  const orderColumnOptions = useMemo(
+    () => [...columnInfo].sort((a, b) => a.name.localeCompare(b.name)),
+    [columnInfo],
+  )
+
+  const compatibleWeightColumns = useMemo(
+    () =>
+      columnInfo
+        .filter((col) => col.type === 'number')
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [columnInfo],
+  )
+
   const canSubmit = useMemo(() => {
     if (!dataColumn) return false
+    if (aggregation === 'weighted_average' && !weightColumn) return false
+    if (aggregation === 'percentile' && !(percentile >= 0 && percentile <= 100)) return false
     if (selectedConfig?.variables === 2 && !labelColumn) return false
+    if (usesHierarchy && hierarchyColumns.length === 0) return false
+    if (selectedType === 'kpi' && kpiBaseline === 'previous-window' && !kpiDateColumn) return false
+    if (selectedType === 'histogram') {
+      if (binMethod === 'width' && !(binWidth > 0)) return false
+      if (binMethod === 'custom' && numericRanges.length === 0) return false
+    }
     return true
-  }, [dataColumn, labelColumn, selectedConfig?.variables])
+  }, [
+    dataColumn,
+    labelColumn,
+    selectedConfig?.variables,
+    selectedType,
+    binMethod,
+    binWidth,
+    numericRanges.length,
+    aggregation,
+    weightColumn,
+    percentile,
+    usesHierarchy,
+    hierarchyColumns.length,
+    kpiBaseline,
+    kpiDateColumn,
+  ])
 
   const defaultTitle = useMemo(() => {
-    return `${selectedConfig?.label} - ${dataColumn || 'Column'}${labelColumn ? ` by ${labelColumn}` : ''}`
-  }, [selectedConfig?.label, dataColumn, labelColumn])
+    const groupedBy = usesHierarchy ? hierarchyColumns.join(' > ') : labelColumn
+    return `${selectedConfig?.label} - ${dataColumn || 'Column'}${groupedBy ? ` by ${groupedBy}` : ''}`
+  }, [selectedConfig?.label, dataColumn, labelColumn, usesHierarchy, hierarchyColumns])
 
   const onChangeType = useCallback(
     (type: ChartType) => {
@@ -87,8 +233,14 @@ export function useChartCreationModal({ columnInfo, filteredData }: UseChartCrea
       // Reset selections like in original component
       setDataColumn('')
       setLabelColumn('')
+      setColorColumn('')
+      setSeriesColumn('')
+      setFacetColumn('')
+      setHierarchyColumns([])
       const defaultAgg = chartAggregationRules[type][0] || 'count'
       setAggregation(defaultAgg)
+      setSortBy(defaultSortBy(type))
+      setSortDirection(defaultSortDirection(type))
     },
     [],
   )
@@ -100,30 +252,98 @@ export function useChartCreationModal({ columnInfo, filteredData }: UseChartCrea
     setMaxSegments(10)
     setDataColumnSearch('')
     setNumericRanges([])
-  }, [])
+    setOrientation('vertical')
+    setSortBy(defaultSortBy(selectedType))
+    setSortDirection(defaultSortDirection(selectedType))
+    setDateBucket('month')
+    setColorColumn('')
+    setShowTrendline(true)
+    setSeriesColumn('')
+    setBarMode('grouped')
+    setBinMethod('sturges')
+    setBinWidth(0)
+    setPercentile(90)
+    setOrderColumn('')
+    setWeightColumn('')
+    setFacetColumn('')
+    setMaxFacets(DEFAULT_MAX_FACETS)
+    setHierarchyColumns([])
+    setKpiBaseline('')
+    setKpiDateColumn('')
+  }, [selectedType])
 
   const buildPayload = useCallback(() => {
     const finalTitle = title || defaultTitle
+    const isBar = selectedType === 'bar'
+    const isSortable = sortableChartTypes.includes(selectedType)
+    const isScatter = selectedType === 'scatter'
+    const isHistogram = selectedType === 'histogram'
+    const isKpi = selectedType === 'kpi'
     return {
       type: selectedType,
       dataColumn,
-      labelColumn: selectedConfig?.variables === 2 ? labelColumn : undefined,
+      labelColumn: usesLabelColumn && labelColumn ? labelColumn : undefined,
       aggregation,
       title: finalTitle,
       maxSegments,
       numericRanges: shouldShowRangeEditor ? numericRanges : undefined,
+      orientation: isBar ? orientation : undefined,
+      sortBy: isSortable ? sortBy : undefined,
+      sortDirection: isSortable ? sortDirection : undefined,
+      seriesColumn: isBar && seriesColumn ? seriesColumn : undefined,
+      barMode: isBar && seriesColumn ? barMode : undefined,
+      dateBucket: selectedType === 'line' ? dateBucket : undefined,
+      binMethod: isHistogram ? binMethod : undefined,
+      binWidth: isHistogram && binMethod === 'width' ? binWidth : undefined,
+      colorColumn: isScatter && colorColumn ? colorColumn : undefined,
+      showTrendline: isScatter ? showTrendline : undefined,
+      percentile: aggregation === 'percentile' ? percentile : undefined,
+      orderColumn:
+        (aggregation === 'first' || aggregation === 'last') && orderColumn
+          ? orderColumn
+          : undefined,
+      weightColumn: aggregation === 'weighted_average' ? weightColumn : undefined,
+      facetColumn: facetColumn || undefined,
+      maxFacets: facetColumn ? Math.min(MAX_FACETS_LIMIT, Math.max(2, maxFacets)) : undefined,
+      hierarchyColumns: usesHierarchy ? hierarchyColumns : undefined,
+      comparison:
+        isKpi && kpiBaseline
+          ? {
+              baseline: kpiBaseline,
+              dateColumn: kpiBaseline === 'previous-window' ? kpiDateColumn : undefined,
+            }
+          : undefined,
     }
   }, [
     title,
     defaultTitle,
     selectedType,
     dataColumn,
-    selectedConfig?.variables,
+    usesLabelColumn,
     labelColumn,
     aggregation,
     maxSegments,
     shouldShowRangeEditor,
     numericRanges,
+    orientation,
+    sortBy,
+    sortDirection,
+    seriesColumn,
+    barMode,
+    dateBucket,
+    binMethod,
+    binWidth,
+    colorColumn,
+    showTrendline,
+    percentile,
+    orderColumn,
+    weightColumn,
+    facetColumn,
+    maxFacets,
+    usesHierarchy,
+    hierarchyColumns,
+    kpiBaseline,
+    kpiDateColumn,
   ])
 
   return {
@@ -144,12 +364,57 @@ export function useChartCreationModal({ columnInfo, filteredData }: UseChartCrea
     setDataColumnSearch,
     numericRanges,
     setNumericRanges,
+    orientation,
+    setOrientation,
+    sortBy,
+    setSortBy,
+    sortDirection,
+    setSortDirection,
+    dateBucket,
+    setDateBucket,
+    seriesColumn,
+    setSeriesColumn,
+    barMode,
+    setBarMode,
+    binMethod,
+    setBinMethod,
+    binWidth,
+    setBinWidth,
+    colorColumn,
+    setColorColumn,
+    showTrendline,
+    setShowTrendline,
+    percentile,
+    setPercentile,
+    orderColumn,
+    setOrderColumn,
+    weightColumn,
+    setWeightColumn,
+    facetColumn,
+    setFacetColumn,
+    maxFacets,
+    setMaxFacets,
+    hierarchyColumns,
+    addHierarchyColumn,
+    removeHierarchyColumn,
+    kpiBaseline,
+    setKpiBaseline,
+    kpiDateColumn,
+    setKpiDateColumn,
 
     // Derived
     selectedConfig,
     availableAggregations,
     availableChartTypes,
     compatibleDataColumns,
+    compatibleLabelColumns,
+    compatibleColorColumns,
+    compatibleSeriesColumns,
+    orderColumnOptions,
+    compatibleWeightColumns,
+    compatibleFacetColumns,
+    compatibleHierarchyColumns,
+    compatibleKpiDateColumns,
     shouldShowRangeEditor,
     sampleValues,
     canSubmit,
@@ -162,5 +427,16 @@ export function useChartCreationModal({ columnInfo, filteredData }: UseChartCrea
   }
 }
 
+// Waterfall steps read in label order, funnel stages in the order the data lists them, and bars
+// largest first
+function defaultSortBy(type: ChartType): ChartSortBy {
+  if (type === 'waterfall') return 'label'
+  return type === 'funnel' ? 'source' : 'value'
+}
+
+function defaultSortDirection(type: ChartType): SortDirection {
+  return type === 'waterfall' || type === 'funnel' ? 'asc' : 'desc'
+}
+
 export type UseChartCreationModalReturn = ReturnType<typeof useChartCreationModal>
 
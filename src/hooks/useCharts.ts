@@ -1,18 +1,27 @@
 'use client'
 
-import { useCallback, useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import {
-  AggregationType,
+  ChartColorSettings,
   ChartConfig,
   ChartSuggestion,
-  ChartType,
+  ColorPaletteId,
+  ManualChartConfig,
   NumericRange,
 } from '@/types/chart'
 import { ColumnInfo, DataMatrix } from '@/types/excel'
 import { chartSuggestionEngine } from '@/services/chartSuggestion'
+import { CategoryColorScale } from '@/services/categoryColors'
+import { DEFAULT_COLOR_SETTINGS } from '@/utils/colorPalettes'
 import { v4 as uuidv4 } from 'uuid'
 import type { UseSessionPersistenceReturn } from './useSessionPersistence'
 import { useSessionPersistence } from './useSessionPersistence'
+import {
+  defaultSizeFor,
+  findFreePosition,
+  minSizeFor,
+  resolveLayout,
+} from '@/utils/dashboardLayout'
 
 export function useCharts(
   filteredData: DataMatrix,
@@ -22,12 +31,19 @@ export function useCharts(
   const [charts, setCharts] = useState<ChartConfig[]>([])
   const [suggestions, setSuggestions] = useState<ChartSuggestion[]>([])
   const [autoCreateDefault, setAutoCreateDefault] = useState(false)
+  const [colorSettings, setColorSettings] = useState<ChartColorSettings>(DEFAULT_COLOR_SETTINGS)
   const defaultSession = useSessionPersistence()
   const session = sessionExt ?? defaultSession
 
+  // Shared by every chart; it assigns colors to new categories as charts draw them
+  const colorScale = useMemo(() => new CategoryColorScale(colorSettings), [colorSettings])
+
   // Register restore handler when persistence is available
   useEffect(() => {
-    session.registerOnLoadCharts?.((c) => setCharts(c))
+    session.registerOnLoadCharts?.((c, colors) => {
+      setCharts(c)
+      if (colors) setColorSettings(colors)
+    })
   }, [session])
 
   useEffect(() => {
@@ -42,13 +58,22 @@ export function useCharts(
   useEffect(() => {
     if (autoCreateDefault && charts.length === 0 && suggestions.length > 0) {
       const defaultChart = createChartFromSuggestion(suggestions[0])
-      setCharts([defaultChart])
+      setCharts([placeOnDashboard(defaultChart, [])])
     }
   }, [suggestions, charts.length, autoCreateDefault])
 
   const addChart = useCallback((suggestion: ChartSuggestion) => {
     const newChart = createChartFromSuggestion(suggestion)
-    setCharts((prev) => [...prev, newChart])
+    setCharts((prev) => [...prev, placeOnDashboard(newChart, prev)])
+  }, [])
+
+  // Charts from a template keep their layout on an empty dashboard and go after the rest otherwise
+  const addCharts = useCallback((added: ChartConfig[]) => {
+    setCharts((prev) =>
+      prev.length === 0
+        ? added
+        : added.reduce((next, chart) => [...next, placeOnDashboard(chart, next)], prev),
+    )
   }, [])
 
   const updateChart = useCallback((chartId: string, updates: Partial<ChartConfig>) => {
@@ -70,65 +95,96 @@ export function useCharts(
     setCharts([])
   }, [])
 
-  const createManualChart = useCallback(
-    (config: {
-      type: ChartType
-      dataColumn: string
-      labelColumn?: string
-      aggregation: AggregationType
-      title: string
-      maxSegments?: number
-      numericRanges?: NumericRange[]
-    }) => {
-      const manualSuggestion: ChartSuggestion = {
-        type: config.type,
-        title: config.title,
-        dataColumn: config.dataColumn,
-        labelColumn: config.labelColumn,
-        aggregation: config.aggregation,
-        confidence: 0.5,
-        reason: 'Manual chart creation',
-      }
+  const createManualChart = useCallback((config: ManualChartConfig) => {
+    const manualSuggestion: ChartSuggestion = {
+      type: config.type,
+      title: config.title,
+      dataColumn: config.dataColumn,
+      labelColumn: config.labelColumn,
+      aggregation: config.aggregation,
+      confidence: 0.5,
+      reason: 'Manual chart creation',
+    }
+
+    const { maxSegments, numericRanges, ...chartSpecific } = config
+    const newChart: ChartConfig = {
+      ...createChartFromSuggestion(manualSuggestion, maxSegments, numericRanges),
+      ...chartSpecific,
+    }
+    setCharts((prev) => [...prev, placeOnDashboard(newChart, prev)])
+  }, [])
+
+  const setPalette = useCallback(
+    (palette: ColorPaletteId) => setColorSettings({ ...colorScale.toSettings(), palette }),
+    [colorScale],
+  )
 
-      const newChart = createChartFromSuggestion(
-        manualSuggestion,
-        config.maxSegments,
-        config.numericRanges,
-      )
-      setCharts((prev) => [...prev, newChart])
+  const pinColor = useCallback(
+    (category: string, color: string) => {
+      const settings = colorScale.toSettings()
+      setColorSettings({ ...settings, pinned: { ...settings.pinned, [category]: color } })
     },
-    [],
+    [colorScale],
   )
 
-  // Persist charts when they change and a session exists
+  const unpinColor = useCallback(
+    (category: string) => {
+      const settings = colorScale.toSettings()
+      const { [category]: _removed, ...pinned } = settings.pinned
+      setColorSettings({ ...settings, pinned })
+    },
+    [colorScale],
+  )
+
+  // Persist charts when they change and a session exists. The session is looked up when they
+  // change, so a sheet opened before the save runs doesn't get the previous sheet's charts
   useEffect(() => {
+    const svc = session.service
+    if (!svc) return
+    const activeId = svc
+      .getActiveSession()
+      .then((active) => active?.id ?? null)
+      .catch(() => null)
     const timer = setTimeout(() => {
       ;(async () => {
-        const svc = session.service
-        if (!svc) return
-        const active = await session.getActiveSessionId?.()
+        const active = await activeId
         if (!active) return
         try {
-          await svc.saveCharts(active, charts)
+          // Read the scale at save time so categories first drawn since the last change are kept
+          await svc.saveCharts(active, charts, colorScale.toSettings())
         } catch (e) {
           console.warn('Persist charts failed', e)
         }
       })()
     }, 300)
     return () => clearTimeout(timer)
-  }, [charts, session])
+  }, [charts, session.service, colorScale])
 
   return {
     charts,
     suggestions,
     addChart,
+    addCharts,
     updateChart,
     removeChart,
     clearCharts,
     createManualChart,
+    colorScale,
+    colorSettings,
+    setPalette,
+    pinColor,
+    unpinColor,
   } as const
 }
 
+// New charts take the first free dashboard slot after the existing layout
+function placeOnDashboard(chart: ChartConfig, existing: ChartConfig[]): ChartConfig {
+  const layout = resolveLayout(
+    existing.map((c) => ({ id: c.id, position: c.position, minSize: minSizeFor(c.type) })),
+  )
+  return { ...chart, position: findFreePosition(Object.values(layout), defaultSizeFor(chart.type)) }
+}
+
 function createChartFromSuggestion(
   _s: ChartSuggestion,
   maxSegments?: number,
@@ -144,6 +200,10 @@ function createChartFromSuggestion(
     dataColumn: _s.dataColumn,
     labelColumn: _s.labelColumn,
     aggregation: _s.aggregation,
+    sortBy: _s.sortBy,
+    dateBucket: _s.dateBucket,
+    binMethod: _s.binMethod,
+    showTrendline: _s.showTrendline,
     maxSegments: maxSegments || 10, // Default to 10 if not specified
     numericRanges: numericRanges,
     position: { row: 0, column: 0, width: 1, height: 1 },
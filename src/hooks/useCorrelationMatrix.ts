@@ -0,0 +1,68 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import type { CorrelationMatrix, CorrelationMethod } from '@/types/chart'
+import type { ColumnInfo, DataMatrix } from '@/types/excel'
+import { correlationService, MAX_CORRELATION_COLUMNS } from '@/services/correlationService'
+
+export interface UseCorrelationMatrixParams {
+  filteredData: DataMatrix
+  columnInfo: ColumnInfo[]
+  enabled: boolean
+}
+
+export function useCorrelationMatrix({
+  filteredData,
+  columnInfo,
+  enabled,
+}: UseCorrelationMatrixParams) {
+  const [matrix, setMatrix] = useState<CorrelationMatrix | null>(null)
+  const [method, setMethod] = useState<CorrelationMethod>('pearson')
+  const [isComputing, setIsComputing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const numericColumnCount = useMemo(
+    () => columnInfo.filter((col) => col.type === 'number').length,
+    [columnInfo],
+  )
+
+  useEffect(() => {
+    if (!enabled || numericColumnCount < 2) {
+      setMatrix(null)
+      return
+    }
+
+    // A newer filter state supersedes any computation still running
+    const controller = new AbortController()
+    setIsComputing(true)
+    setError(null)
+    correlationService
+      .computeMatrix(filteredData, columnInfo, controller.signal)
+      .then((result) => {
+        setMatrix(result)
+        setIsComputing(false)
+      })
+      .catch((e: unknown) => {
+        if (controller.signal.aborted) return
+        setError(e instanceof Error ? e.message : 'Failed to compute correlations')
+        setIsComputing(false)
+      })
+    return () => controller.abort()
+  }, [enabled, filteredData, columnInfo, numericColumnCount])
+
+  const values = matrix ? matrix[method] : null
+
+  return {
+    matrix,
+    values,
+    method,
+    setMethod,
+    isComputing,
+    error,
+    numericColumnCount,
+    truncated: numericColumnCount > MAX_CORRELATION_COLUMNS,
+    maxColumns: MAX_CORRELATION_COLUMNS,
+  }
+}
+
+export type UseCorrelationMatrixReturn = ReturnType<typeof useCorrelationMatrix>
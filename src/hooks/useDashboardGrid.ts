@@ -0,0 +1,212 @@
+'use client'
+
+import type React from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type { ChartConfig, ChartPosition } from '@/types/chart'
+import {
+  DASHBOARD_COLUMNS,
+  DASHBOARD_GAP,
+  DASHBOARD_ROW_HEIGHT,
+  type DashboardLayout,
+  minSizeFor,
+  movePosition,
+  resizePosition,
+  resolveLayout,
+  snapDelta,
+} from '@/utils/dashboardLayout'
+
+export type DashboardInteractionMode = 'move' | 'resize'
+
+export interface UseDashboardGridParams {
+  charts: ChartConfig[]
+  onPositionChange: (chartId: string, position: ChartPosition) => void
+}
+
+interface Interaction {
+  id: string
+  mode: DashboardInteractionMode
+  startX: number
+  startY: number
+  origin: ChartPosition
+  current: ChartPosition
+}
+
+function samePosition(a: ChartPosition, b: ChartPosition): boolean {
+  return a.row === b.row && a.column === b.column && a.width === b.width && a.height === b.height
+}
+
+export function useDashboardGrid({ charts, onPositionChange }: UseDashboardGridParams) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [interaction, setInteraction] = useState<Interaction | null>(null)
+  const interactionRef = useRef<Interaction | null>(null)
+  interactionRef.current = interaction
+
+  // Layout at rest: stored positions with overlaps pushed apart and legacy charts auto-placed
+  const restingLayout = useMemo(
+    () =>
+      resolveLayout(
+        charts.map((c) => ({ id: c.id, position: c.position, minSize: minSizeFor(c.type) })),
+      ),
+    [charts],
+  )
+
+  // KPI cards may be smaller than charts
+  const minSizeOf = useCallback(
+    (id: string) => minSizeFor(charts.find((c) => c.id === id)?.type ?? 'bar'),
+    [charts],
+  )
+
+  const layoutWith = useCallback(
+    (id: string, position: ChartPosition): DashboardLayout =>
+      resolveLayout(
+        charts.map((c) => ({
+          id: c.id,
+          position: c.id === id ? position : restingLayout[c.id],
+          minSize: minSizeFor(c.type),
+        })),
+        id,
+      ),
+    [charts, restingLayout],
+  )
+
+  const layout = useMemo(
+    () => (interaction ? layoutWith(interaction.id, interaction.current) : restingLayout),
+    [interaction, layoutWith, restingLayout],
+  )
+
+  // Write back every chart whose position changed, including any that were pushed aside
+  const commit = useCallback(
+    (next: DashboardLayout) => {
+      for (const chart of charts) {
+        const position = next[chart.id]
+        if (position && !samePosition(position, chart.position)) {
+          onPositionChange(chart.id, position)
+        }
+      }
+    },
+    [charts, onPositionChange],
+  )
+
+  const start = useCallback(
+    (id: string, mode: DashboardInteractionMode, event: React.PointerEvent) => {
+      if (event.button !== 0) return
+      // Buttons in the drag handle (export, remove) keep their own click behaviour
+      if ((event.target as HTMLElement).closest('button')) return
+      const origin = restingLayout[id]
+      if (!origin) return
+      event.preventDefault()
+      setInteraction({
+        id,
+        mode,
+        startX: event.clientX,
+        startY: event.clientY,
+        origin,
+        current: origin,
+      })
+    },
+    [restingLayout],
+  )
+
+  const startMove = useCallback(
+    (id: string, event: React.PointerEvent) => start(id, 'move', event),
+    [start],
+  )
+  const startResize = useCallback(
+    (id: string, event: React.PointerEvent) => start(id, 'resize', event),
+    [start],
+  )
+
+  const active = interaction !== null
+  useEffect(() => {
+    if (!active) return
+
+    const handleMove = (event: PointerEvent) => {
+      const current = interactionRef.current
+      if (!current) return
+      const delta = snapDelta(event.clientX - current.startX, event.clientY - current.startY, {
+        containerWidth: containerRef.current?.getBoundingClientRect().width ?? 0,
+      })
+      const minSize = minSizeOf(current.id)
+      const next =
+        current.mode === 'move'
+          ? movePosition(current.origin, delta, DASHBOARD_COLUMNS, minSize)
+          : resizePosition(current.origin, delta, DASHBOARD_COLUMNS, minSize)
+      if (!samePosition(next, current.current)) {
+        setInteraction({ ...current, current: next })
+      }
+    }
+    const handleUp = () => {
+      const current = interactionRef.current
+      if (current) commit(layoutWith(current.id, current.current))
+      setInteraction(null)
+    }
+    const handleCancel = () => setInteraction(null)
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') handleCancel()
+    }
+
+    window.addEventListener('pointermove', handleMove)
+    window.addEventListener('pointerup', handleUp)
+    window.addEventListener('pointercancel', handleCancel)
+    window.addEventListener('keydown', handleKey)
+    return () => {
+      window.removeEventListener('pointermove', handleMove)
+      window.removeEventListener('pointerup', handleUp)
+      window.removeEventListener('pointercancel', handleCancel)
+      window.removeEventListener('keydown', handleKey)
+    }
+  }, [active, commit, layoutWith, minSizeOf])
+
+  // Arrow keys move the focused chart one cell; with Shift they resize it
+  const handleKeyDown = useCallback(
+    (id: string, event: React.KeyboardEvent) => {
+      const steps: Record<string, { columns: number; rows: number }> = {
+        ArrowLeft: { columns: -1, rows: 0 },
+        ArrowRight: { columns: 1, rows: 0 },
+        ArrowUp: { columns: 0, rows: -1 },
+        ArrowDown: { columns: 0, rows: 1 },
+      }
+      const delta = steps[event.key]
+      const origin = restingLayout[id]
+      if (!delta || !origin || event.target !== event.currentTarget) return
+      event.preventDefault()
+      const minSize = minSizeOf(id)
+      const next = event.shiftKey
+        ? resizePosition(origin, delta, DASHBOARD_COLUMNS, minSize)
+        : movePosition(origin, delta, DASHBOARD_COLUMNS, minSize)
+      if (!samePosition(next, origin)) commit(layoutWith(id, next))
+    },
+    [restingLayout, commit, layoutWith, minSizeOf],
+  )
+
+  const containerStyle: React.CSSProperties = {
+    display: 'grid',
+    gridTemplateColumns: `repeat(${DASHBOARD_COLUMNS}, minmax(0, 1fr))`,
+    gridAutoRows: `${DASHBOARD_ROW_HEIGHT}px`,
+    gap: `${DASHBOARD_GAP}px`,
+  }
+
+  const getItemStyle = useCallback(
+    (id: string): React.CSSProperties => {
+      const position = layout[id]
+      if (!position) return {}
+      return {
+        gridColumn: `${position.column + 1} / span ${position.width}`,
+        gridRow: `${position.row + 1} / span ${position.height}`,
+      }
+    },
+    [layout],
+  )
+
+  return {
+    containerRef,
+    containerStyle,
+    layout,
+    activeId: interaction?.id ?? null,
+    activeMode: interaction?.mode ?? null,
+    startMove,
+    startResize,
+    handleKeyDown,
+    getItemStyle,
+  } as const
+}
@@ -1,7 +1,6 @@
 import { useMemo, useCallback } from 'react'
 import { CellValue, DataMatrix, DataType, ExcelData, NullableCellValue } from '@/types/excel'
-import { parseDateFlexible } from '@/utils/dataTypes'
-import { formatCellValue, isNearMidnightSeconds } from '@/utils/tableFormat'
+import { columnHasTime, formatCellValue } from '@/utils/tableFormat'
 
 export interface UseDataTableResult {
   headers: string[]
@@ -33,17 +32,7 @@ export function useDataTable(
 
   const dateColumnHasTime = useMemo<boolean[]>(() => {
     if (!data?.metadata?.columns) return []
-    return data.metadata.columns.map((col) => {
-      if (col.type !== 'date') return false
-      const samples = col.sampleValues || []
-      for (const element of samples) {
-        const d = parseDateFlexible(element)
-        if (!d) continue
-        const secondsSinceMidnight = d.getHours() * 3600 + d.getMinutes() * 60 + d.getSeconds()
-        if (!isNearMidnightSeconds(secondsSinceMidnight)) return true
-      }
-      return false
-    })
+    return data.metadata.columns.map(columnHasTime)
   }, [data?.metadata?.columns])
 
   // Memoize compound derived state structure to keep referential stability
@@ -1,12 +1,27 @@
 'use client'
 
-import { useCallback, useEffect, useMemo, useState } from 'react'
-import type { DataRow, ExcelData, ParseOptions, ParseProgressEvent } from '@/types/excel'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import type {
+  CsvDialect,
+  DataRow,
+  ExcelData,
+  HeaderRegion,
+  ParseOptions,
+  ParseProgressEvent,
+} from '@/types/excel'
 import { ExcelParser } from '@/services/excelParser'
 import type { UseSessionPersistenceReturn } from './useSessionPersistence'
 import { useSessionPersistence } from './useSessionPersistence'
 import { PerformanceMonitor } from '@/utils/performanceMonitor'
 
+// Lightweight metadata for sheets read again from the cached workbook, as for a new upload
+const REPARSE_OPTIONS: ParseOptions = {
+  computeStatistics: false,
+  uniqueValuesTrackingCap: 2000,
+  uniqueValuesReturnLimit: 50,
+  sampleValuesCount: 5,
+}
+
 export function useExcelData(sessionExt?: UseSessionPersistenceReturn) {
   const [currentData, setCurrentData] = useState<ExcelData | null>(null)
   const [isLoading, setIsLoading] = useState(false)
@@ -15,6 +30,10 @@ export function useExcelData(sessionExt?: UseSessionPersistenceReturn) {
   const [isRestoring, setIsRestoring] = useState(false)
 
   const parser = useMemo(() => new ExcelParser(), [])
+  // The parser's worker holds the last workbook; it's stopped with the page
+  useEffect(() => () => parser.dispose(), [parser])
+  // Sheets of the current file already opened, as last shown, so switching back is instant
+  const sheetCacheRef = useRef(new Map<string, ExcelData>())
   const defaultSession = useSessionPersistence()
   const session = sessionExt ?? defaultSession
   const performanceMonitor = useMemo(() => PerformanceMonitor.getInstance(), [])
@@ -32,6 +51,31 @@ export function useExcelData(sessionExt?: UseSessionPersistenceReturn) {
     setIsRestoring(session.isRestoring || false)
   }, [session.isRestoring])
 
+  // Save the dataset to the session of its file and sheet, which becomes the active one
+  const persistDataset = useCallback(
+    async (data: ExcelData) => {
+      try {
+        if (!session.service) {
+          console.warn('⚠️ Persistence service not ready; skipping dataset save')
+          return
+        }
+        const summary = {
+          fileName: data.metadata.fileName,
+          sheetName: data.metadata.activeSheet,
+          totalRows: data.metadata.totalRows,
+          totalColumns: data.metadata.totalColumns,
+          columns: (data.metadata.columns || []).map((c) => c.name).slice(0, 50),
+        }
+        const { session: s } = await session.service.openSheetSession(summary)
+        await session.service.saveDataset(s.id, data)
+      } catch (e) {
+        // Non-blocking persistence errors
+        console.warn('⚠️ Dataset persistence failed:', e)
+      }
+    },
+    [session.service],
+  )
+
   const parseFile = useCallback(
     async (file: File, options: ParseOptions = {}): Promise<ExcelData> => {
       return performanceMonitor.measureAsync(
@@ -55,26 +99,9 @@ export function useExcelData(sessionExt?: UseSessionPersistenceReturn) {
               },
             })
 
+            sheetCacheRef.current = new Map([[data.metadata.activeSheet, data]])
             setCurrentData(data)
-            // Save session summary and dataset snapshot
-            try {
-              if (!session.service) {
-                console.warn('⚠️ Persistence service not ready; skipping dataset save')
-                return data
-              }
-              const summary = {
-                fileName: data.metadata.fileName,
-                sheetName: data.metadata.activeSheet,
-                totalRows: data.metadata.totalRows,
-                totalColumns: data.metadata.totalColumns,
-                columns: (data.metadata.columns || []).map((c) => c.name).slice(0, 50),
-              }
-              const s = await session.service.createOrUpdateSession(summary)
-              await session.service.saveDataset(s.id, data)
-            } catch (e) {
-              // Non-blocking persistence errors
-              console.warn('⚠️ Dataset persistence failed:', e)
-            }
+            await persistDataset(data)
             return data
           } catch (e: unknown) {
             const msg =
@@ -92,9 +119,98 @@ export function useExcelData(sessionExt?: UseSessionPersistenceReturn) {
         },
       )
     },
-    [parser, session.service, performanceMonitor],
+    [parser, persistDataset, performanceMonitor],
+  )
+
+  // Opens another sheet of the current workbook, parsing it the first time. Filters and charts
+  // are the sheet's own, restored from its session when it has been opened before
+  const switchSheet = useCallback(
+    async (sheetName: string): Promise<ExcelData | null> => {
+      if (!currentData || sheetName === currentData.metadata.activeSheet) return currentData
+      const { fileName } = currentData.metadata
+      sheetCacheRef.current.set(currentData.metadata.activeSheet, currentData)
+
+      setIsLoading(true)
+      setError(null)
+      try {
+        const cached = sheetCacheRef.current.get(sheetName)
+        let data = cached?.metadata.fileName === fileName ? cached : undefined
+        if (!data) {
+          if (!parser.hasWorkbook(fileName)) {
+            throw new Error(`Upload ${fileName} again to open the "${sheetName}" sheet.`)
+          }
+          data = await parser.parseSheet(sheetName, { ...REPARSE_OPTIONS, progress: setProgress })
+          sheetCacheRef.current.set(sheetName, data)
+        }
+        await session.openSheet(data, { fresh: data !== cached })
+        return data
+      } catch (e: unknown) {
+        const msg =
+          e instanceof Error ? e.message || 'Failed to open sheet' : 'Failed to open sheet'
+        setError(msg)
+        throw e
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [currentData, parser, session],
+  )
+
+  // How a delimited text file would be read, for the preview shown before importing it
+  const previewCsv = useCallback(
+    (file: File, dialect?: Partial<CsvDialect>) => parser.previewCsv(file, dialect),
+    [parser],
   )
 
+  // Reads the current sheet again with its column names taken from the given rows
+  const setHeaderRows = useCallback(
+    async (header: HeaderRegion): Promise<ExcelData | null> => {
+      if (!currentData) return null
+      const { fileName, activeSheet } = currentData.metadata
+
+      setIsLoading(true)
+      setError(null)
+      try {
+        if (!parser.hasWorkbook(fileName)) {
+          throw new Error(`Upload ${fileName} again to change its header rows.`)
+        }
+        const data = await parser.parseSheet(activeSheet, {
+          ...REPARSE_OPTIONS,
+          header,
+          progress: setProgress,
+        })
+        sheetCacheRef.current.set(activeSheet, data)
+        setCurrentData(data)
+        await persistDataset(data)
+        return data
+      } catch (e: unknown) {
+        const msg =
+          e instanceof Error
+            ? e.message || 'Failed to read the header rows'
+            : 'Failed to read the header rows'
+        setError(msg)
+        throw e
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [currentData, parser, persistDataset],
+  )
+
+  // Sheets that can be switched to: all of them while the workbook is loaded, otherwise (after a
+  // restore) only the ones opened since
+  const fileName = currentData?.metadata.fileName
+  const canChangeHeader = Boolean(fileName && parser.hasWorkbook(fileName))
+  const availableSheets = useMemo(() => {
+    if (!currentData || !fileName) return []
+    if (parser.hasWorkbook(fileName)) return currentData.metadata.sheetNames
+    return currentData.metadata.sheetNames.filter(
+      (name) =>
+        name === currentData.metadata.activeSheet ||
+        sheetCacheRef.current.get(name)?.metadata.fileName === fileName,
+    )
+  }, [currentData, fileName, parser])
+
   const reset = useCallback(() => {
     setCurrentData(null)
     setError(null)
@@ -140,6 +256,11 @@ export function useExcelData(sessionExt?: UseSessionPersistenceReturn) {
     progress,
     reset,
     deleteColumn,
+    switchSheet,
+    availableSheets,
+    setHeaderRows,
+    canChangeHeader,
+    previewCsv,
     isRestoring,
     restoreProgress: session.restoreProgress,
     cancelRestore: session.cancelRestore,
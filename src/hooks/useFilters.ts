@@ -2,8 +2,9 @@
 
 import { useEffect, useRef, useState } from 'react'
 import { DataMatrix, ExcelData } from '@/types/excel'
-import { FilterConfig, FilterState } from '@/types/filter'
+import { CrossFilterSelection, FilterConfig, FilterState } from '@/types/filter'
 import { filterGenerator } from '@/services/filterGenerator'
+import { crossFilterService } from '@/services/crossFilter'
 import { DataFilter } from '@/services/dataFilter'
 import type { UseSessionPersistenceReturn } from './useSessionPersistence'
 import { useSessionPersistence } from './useSessionPersistence'
@@ -14,25 +15,17 @@ export function useFilters(excelData: ExcelData | null, sessionExt?: UseSessionP
   const [filteredData, setFilteredData] = useState<DataMatrix>([])
   const [isFiltering, setIsFiltering] = useState(false)
   const engineRef = useRef<DataFilter | null>(null)
+  // Bars clicked on charts split by series, each filtered by its label and its series together
+  const clickedBarsRef = useRef<CrossFilterSelection[]>([])
+  // Saved filter state waiting to be applied. It usually arrives with a new dataset, so it is
+  // applied after the filters for that dataset are generated rather than to the old ones
+  const [loadedState, setLoadedState] = useState<FilterState | null>(null)
   const defaultSession = useSessionPersistence()
   const session = sessionExt ?? defaultSession
 
   // Register restore handler when persistence service becomes available
   useEffect(() => {
-    session.registerOnLoadFilters?.((state) => {
-      if (!engineRef.current) return
-      engineRef.current.importFilterState(state)
-      // Sync filters from engine
-      const exported = engineRef.current.exportFilterState()
-      setFilters((prev) =>
-        prev.map((f) => {
-          const s = exported.find((e) => e.id === f.id)
-          return s
-            ? ({ ...f, active: s.active, values: s.values, operator: s.operator } as FilterConfig)
-            : f
-        }),
-      )
-    })
+    session.registerOnLoadFilters?.(setLoadedState)
   }, [session])
 
   // Generate filters when data changes
@@ -45,8 +38,26 @@ export function useFilters(excelData: ExcelData | null, sessionExt?: UseSessionP
       setFilters([])
       engineRef.current = null
     }
+    clickedBarsRef.current = []
   }, [excelData?.metadata?.columns, excelData?.headers, excelData])
 
+  useEffect(() => {
+    if (!loadedState) return
+    setLoadedState(null)
+    if (!engineRef.current) return
+    engineRef.current.importFilterState(loadedState)
+    // Sync filters from engine
+    const exported = engineRef.current.exportFilterState()
+    setFilters((prev) =>
+      prev.map((f) => {
+        const s = exported.find((e) => e.id === f.id)
+        return s
+          ? ({ ...f, active: s.active, values: s.values, operator: s.operator } as FilterConfig)
+          : f
+      }),
+    )
+  }, [loadedState])
+
   // Apply filters when filters or data change
   useEffect(() => {
     if (excelData && engineRef.current) {
@@ -54,15 +65,20 @@ export function useFilters(excelData: ExcelData | null, sessionExt?: UseSessionP
       const result = engineRef.current.applyFilters(excelData)
       setFilteredData(result)
       setIsFiltering(false)
-      // Persist filter state (debounced at call sites is optional; here we simply save on change)
+      // Persist filter state to the session active when it changed, so a sheet opened before the
+      // save runs doesn't get the previous sheet's filters
       try {
         const state = engineRef.current.exportFilterState()
+        const svc = session.service
+        if (!svc) return
+        const activeId = svc
+          .getActiveSession()
+          .then((active) => active?.id ?? null)
+          .catch(() => null)
         const timer = setTimeout(() => {
           ;(async () => {
-            const svc = session.service
-            if (!svc) return
-            const active = await svc.getActiveSession()
-            if (active) await svc.saveFilters(active.id, state)
+            const active = await activeId
+            if (active) await svc.saveFilters(active, state)
           })()
         }, 300)
         return () => clearTimeout(timer)
@@ -82,12 +98,69 @@ export function useFilters(excelData: ExcelData | null, sessionExt?: UseSessionP
     setFilters((prev) =>
       prev.map((f) =>
         f.id === filterId
-          ? { ...f, ...updates, values: updates.values ?? f.values, active: updates.active ?? true }
+          ? {
+              ...f,
+              ...updates,
+              values: updates.values !== undefined ? updates.values : f.values,
+              active: updates.active ?? true,
+            }
           : f,
       ),
     )
   }
 
+  // Clicking a chart segment adds it to (or removes it from) the filter for its column, and for
+  // its series column when the bar belongs to one series
+  const toggleCrossFilter = (selection: CrossFilterSelection): boolean => {
+    const filter = crossFilterService.findFilter(filters, selection)
+    if (!filter) return false
+    const series = selection.series
+    const seriesFilter = series && crossFilterService.findFilter(filters, series)
+    if (!series || !seriesFilter) {
+      const updates = crossFilterService.toggle(filter, selection)
+      if (!updates) return false
+      updateFilter(filter.id, updates)
+      return true
+    }
+
+    // Bars still filtered by both values; ones cleared from the filter panel are forgotten
+    const isApplied = (s: CrossFilterSelection) => {
+      const f = crossFilterService.findFilter(filters, s)
+      return !!f && crossFilterService.isApplied(f, s)
+    }
+    const sameValue = (a: CrossFilterSelection, b: CrossFilterSelection) =>
+      a.column === b.column && a.value === b.value
+    const bars = clickedBarsRef.current.filter((bar) => isApplied(bar) && isApplied(bar.series!))
+    const others = bars.filter(
+      (bar) => !sameValue(bar, selection) || !sameValue(bar.series!, series),
+    )
+    const adding = others.length === bars.length
+
+    // A new bar adds its label and series where they aren't filtered yet; clicking a bar again
+    // takes them off unless another clicked bar still uses them
+    const change = (f: FilterConfig, s: CrossFilterSelection, inUse: boolean) => {
+      const applied = crossFilterService.isApplied(f, s)
+      const flip = adding ? !applied : applied && !inUse
+      return flip ? crossFilterService.toggle(f, s) : {}
+    }
+    const labelUpdates = change(
+      filter,
+      selection,
+      others.some((bar) => sameValue(bar, selection)),
+    )
+    const seriesUpdates = change(
+      seriesFilter,
+      series,
+      others.some((bar) => sameValue(bar.series!, series)),
+    )
+    if (!labelUpdates || !seriesUpdates) return false
+
+    if (Object.keys(labelUpdates).length) updateFilter(filter.id, labelUpdates)
+    if (Object.keys(seriesUpdates).length) updateFilter(seriesFilter.id, seriesUpdates)
+    clickedBarsRef.current = adding ? [...bars, selection] : others
+    return true
+  }
+
   const resetFilter = (filterId: string) => {
     if (!engineRef.current) return
     engineRef.current.resetFilter(filterId)
@@ -159,6 +232,7 @@ export function useFilters(excelData: ExcelData | null, sessionExt?: UseSessionP
     filteredData,
     isFiltering,
     updateFilter,
+    toggleCrossFilter,
     resetFilter,
     resetAllFilters,
     exportState,
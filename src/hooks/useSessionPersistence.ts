@@ -7,7 +7,7 @@ import {type PersistedSession, StorageService} from '@/utils/storage/service'
 import {PERSISTENCE_FEATURE_FLAG_KEY} from '@/utils/storage/adapter'
 import type {ExcelData} from '@/types/excel'
 import type {FilterState} from '@/types/filter'
-import type {ChartConfig} from '@/types/chart'
+import type {ChartColorSettings, ChartConfig} from '@/types/chart'
 
 interface UseSessionRestoreBanner {
   showRestoreBanner: boolean
@@ -74,7 +74,9 @@ export function useSessionPersistence(options?: { enabled?: boolean; appVersion?
 
   const onLoadDatasetRef = useRef<((d: ExcelData) => void) | null>(null)
   const onLoadFiltersRef = useRef<((f: FilterState) => void) | null>(null)
-  const onLoadChartsRef = useRef<((c: ChartConfig[]) => void) | null>(null)
+  const onLoadChartsRef = useRef<
+    ((c: ChartConfig[], colors?: ChartColorSettings) => void) | null
+  >(null)
 
   useEffect(() => {
     if (!enabled || !service) return
@@ -150,8 +152,10 @@ export function useSessionPersistence(options?: { enabled?: boolean; appVersion?
 
         setRestoreProgress({ stage: 'loading-charts', message: 'Loading charts...', progress: 65 })
         let charts: ChartConfig[] | null = null
+        let chartColors: ChartColorSettings | null = null
         try {
           charts = await service.loadCharts(sessionId)
+          chartColors = await service.loadChartColors(sessionId)
         } catch (chartError) {
           console.warn('Failed to load charts:', chartError)
           // Non-critical, continue without charts
@@ -183,7 +187,7 @@ export function useSessionPersistence(options?: { enabled?: boolean; appVersion?
 
         if (charts && onLoadChartsRef.current) {
           try {
-            onLoadChartsRef.current(charts)
+            onLoadChartsRef.current(charts, chartColors ?? undefined)
           } catch (chartApplyError) {
             console.warn('Failed to apply charts:', chartApplyError)
           }
@@ -229,6 +233,45 @@ export function useSessionPersistence(options?: { enabled?: boolean; appVersion?
 
   const dismissRestoreBanner = useCallback(() => setShowRestoreBanner(false), [])
 
+  // Shows another sheet of the open workbook with the filters and charts saved for that sheet.
+  // Everything is applied in one go, as on restore, so no chart is drawn against the wrong sheet.
+  // A sheet that was just parsed again replaces the dataset its session holds
+  const openSheet = useCallback(
+    async (data: ExcelData, { fresh = false }: { fresh?: boolean } = {}) => {
+      let filters: FilterState | null = null
+      let charts: ChartConfig[] | null = null
+      let chartColors: ChartColorSettings | null = null
+      if (service) {
+        try {
+          const { session, created } = await service.openSheetSession({
+            fileName: data.metadata.fileName,
+            sheetName: data.metadata.activeSheet,
+            totalRows: data.metadata.totalRows,
+            totalColumns: data.metadata.totalColumns,
+            columns: (data.metadata.columns || []).map((c) => c.name).slice(0, 50),
+          })
+          if (created || fresh) {
+            await service.saveDataset(session.id, data)
+          }
+          if (!created) {
+            filters = await service.loadFilters(session.id)
+            charts = await service.loadCharts(session.id)
+            chartColors = await service.loadChartColors(session.id)
+          }
+          await refreshSessions()
+        } catch (e) {
+          // The sheet still opens, just without its saved state
+          console.warn('⚠️ Sheet session failed:', e)
+        }
+      }
+
+      onLoadDatasetRef.current?.(data)
+      if (filters) onLoadFiltersRef.current?.(filters)
+      onLoadChartsRef.current?.(charts ?? [], chartColors ?? undefined)
+    },
+    [service, refreshSessions],
+  )
+
   const cancelRestore = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
@@ -246,6 +289,7 @@ export function useSessionPersistence(options?: { enabled?: boolean; appVersion?
     sessions,
     refreshSessions,
     restoreSession,
+    openSheet,
     deleteSession: async (id: string) => {
       if (service) {
         await service.deleteSession(id)
@@ -264,7 +308,8 @@ export function useSessionPersistence(options?: { enabled?: boolean; appVersion?
     // registration callbacks used by hooks to receive loaded state
     registerOnLoadDataset: (cb: (d: ExcelData) => void) => (onLoadDatasetRef.current = cb),
     registerOnLoadFilters: (cb: (f: FilterState) => void) => (onLoadFiltersRef.current = cb),
-    registerOnLoadCharts: (cb: (c: ChartConfig[]) => void) => (onLoadChartsRef.current = cb),
+    registerOnLoadCharts: (cb: (c: ChartConfig[], colors?: ChartColorSettings) => void) =>
+      (onLoadChartsRef.current = cb),
     service,
     getActiveSessionId: async () =>
       service ? (await service.getActiveSession())?.id || null : null,
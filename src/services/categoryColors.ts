@@ -0,0 +1,58 @@
+import { ChartColorSettings } from '@/types/chart'
+import { DEFAULT_COLOR_SETTINGS, getPalette } from '@/utils/colorPalettes'
+
+/**
+ * Maps categories to colors for every chart in a session. A category takes the next palette
+ * slot the first time any chart draws it and keeps that slot afterwards, so "North" is the same
+ * color everywhere. Pinned colors override the palette.
+ */
+export class CategoryColorScale {
+  private readonly colors: string[]
+  private readonly assigned: Map<string, number>
+  private readonly settings: ChartColorSettings
+
+  constructor(settings: ChartColorSettings = DEFAULT_COLOR_SETTINGS) {
+    this.settings = settings
+    this.colors = getPalette(settings.palette).colors
+    this.assigned = new Map(Object.entries(settings.assigned))
+  }
+
+  colorFor(category: string): string {
+    const pinned = this.settings.pinned[category]
+    if (pinned) return pinned
+    let slot = this.assigned.get(category)
+    if (slot === undefined) {
+      slot = this.assigned.size
+      this.assigned.set(category, slot)
+    }
+    return this.colors[slot % this.colors.length]
+  }
+
+  colorsFor(categories: string[]): string[] {
+    return categories.map((category) => this.colorFor(category))
+  }
+
+  // Palette colors by position, for charts whose series aren't categories (e.g. a single series)
+  paletteColors(count: number): string[] {
+    return Array.from({ length: count }, (_, i) => this.colors[i % this.colors.length])
+  }
+
+  // Categories seen so far plus any pinned ones, in the order they were first drawn
+  categories(): string[] {
+    const seen = Array.from(this.assigned.keys())
+    const pinnedOnly = Object.keys(this.settings.pinned).filter((c) => !this.assigned.has(c))
+    return [...seen, ...pinnedOnly]
+  }
+
+  isPinned(category: string): boolean {
+    return !!this.settings.pinned[category]
+  }
+
+  toSettings(): ChartColorSettings {
+    return {
+      palette: this.settings.palette,
+      assigned: Object.fromEntries(this.assigned),
+      pinned: { ...this.settings.pinned },
+    }
+  }
+}
@@ -1,18 +1,412 @@
-import { AggregationType, ChartConfig, ChartData, NumericRange } from '@/types/chart'
+import {
+  AggregationType,
+  BarMode,
+  BoxPlotStats,
+  ChartAnnotation,
+  ChartConfig,
+  ChartData,
+  ChartDataDataset,
+  ChartPoint,
+  ChartSortBy,
+  ChartType,
+  DateBucket,
+  FunnelStage,
+  HierarchyNode,
+  HistogramBinMethod,
+  MixedChartDataset,
+  NoteAnnotation,
+  NumericRange,
+  ReferenceValue,
+  ResolvedAnnotation,
+  SortDirection,
+  TrendlineStats,
+} from '@/types/chart'
 import { CellValue, ColumnInfo, DataMatrix } from '@/types/excel'
+import type { CrossFilterSelection } from '@/types/filter'
+import { coerceNumber, parseDateFlexible } from '@/utils/dataTypes'
+import { getPalette } from '@/utils/colorPalettes'
+import { CategoryColorScale } from '@/services/categoryColors'
+import {
+  addDays,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+} from 'date-fns'
+
+// Upper bound on filled time buckets so a day bucket over decades can't freeze the UI
+const MAX_TIME_BUCKETS = 2000
+// Points drawn per scatter chart; the trendline is still fitted on every point
+const MAX_SCATTER_POINTS = 5000
+// Beyond this many bins the bars become slivers; ask for a wider bin instead
+const MAX_HISTOGRAM_BINS = 200
+// Density samples along the value axis for each violin outline
+const VIOLIN_RESOLUTION = 40
+// Categories kept under one treemap or sunburst node; the smallest of the rest become "Others"
+const MAX_HIERARCHY_CHILDREN = 50
+// Root of a treemap or sunburst; it is never drawn, only shown as the top of the zoom path
+const HIERARCHY_ROOT_COLOR = '#9ca3af'
+// Waterfall steps are colored by direction, whatever the palette, with the closing total apart
+const WATERFALL_COLORS = { increase: '#10b981', decrease: '#ef4444', total: '#3b82f6' }
+const WATERFALL_TOTAL_LABEL = 'Total'
+// One aggregated label, with the indices of the rows that went into it
+interface AggregatedSegment {
+  label: string
+  value: number
+  rows: number[]
+}
+
+// Source columns some aggregations read besides the data column
+interface AggregationColumns {
+  order: number | null // Sort column for 'first' and 'last'
+  weight: number | null // Weight column for 'weighted_average'
+}
+
+// Per-value inputs for a single applyAggregation call, aligned with the values
+interface AggregationInputs {
+  percentile?: number
+  orderKeys?: unknown[]
+  weights?: unknown[]
+}
+
+// Aggregations that add up, so a bucket without rows reads as zero
+const ADDITIVE_AGGREGATIONS = new Set<AggregationType>([
+  'count',
+  'sum',
+  'distinct',
+  'percent_of_total',
+  'running_total',
+])
+
+// Chart types that can carry reference lines, bands and notes
+const ANNOTATED_TYPES = new Set<ChartType>(['bar', 'line', 'scatter'])
+
+const DEFAULT_ANNOTATION_COLORS = { line: '#dc2626', band: '#f59e0b', note: '#111827' }
+
+// Segments that merge several values and so can't be turned into a filter
+const UNFILTERABLE_LABELS = new Set(['Others', 'Unknown', 'Out of range'])
+
+const defaultRange = (
+  label: string,
+  min: number,
+  max: number,
+  includeMin = true,
+  includeMax = false,
+): NumericRange => ({ id: `default-${label}`, label, min, max, includeMin, includeMax })
+
+// Buckets used for numeric pies without custom ranges; finite bounds so they survive JSON
+const DEFAULT_NUMERIC_RANGES: NumericRange[] = [
+  defaultRange('Negative', -Number.MAX_VALUE, 0),
+  defaultRange('Zero', 0, 0, true, true),
+  defaultRange('0-1', 0, 1, false, false),
+  defaultRange('1-10', 1, 10),
+  defaultRange('10-100', 10, 100),
+  defaultRange('100-1K', 100, 1000),
+  defaultRange('1K-10K', 1000, 10000),
+  defaultRange('10K-100K', 10000, 100000),
+  defaultRange('100K-1M', 100000, 1000000),
+  defaultRange('1M+', 1000000, Number.MAX_VALUE, true, true),
+]
 
 export class ChartDataProcessor {
-  prepareChartData(data: DataMatrix, config: ChartConfig, columnInfo: ColumnInfo[]): ChartData {
+  // Colors come from the session's category scale; a fresh scale per call when none is shared
+  prepareChartData(
+    data: DataMatrix,
+    config: ChartConfig,
+    columnInfo: ColumnInfo[],
+    colors: CategoryColorScale = new CategoryColorScale(),
+  ): ChartData {
+    const chartData = this.prepareByType(data, config, columnInfo, colors)
+    if (!config.annotations?.length || !ANNOTATED_TYPES.has(config.type)) return chartData
+    return {
+      ...chartData,
+      annotations: this.resolveAnnotations(chartData, data, config, columnInfo),
+    }
+  }
+
+  // Annotations whose position can't be worked out (a missing column, a category that is filtered
+  // away, a value on the wrong kind of axis) are left out rather than failing the chart
+  resolveAnnotations(
+    chartData: ChartData,
+    data: DataMatrix,
+    config: ChartConfig,
+    columnInfo: ColumnInfo[],
+  ): ResolvedAnnotation[] {
+    const resolved: ResolvedAnnotation[] = []
+    for (const annotation of config.annotations ?? []) {
+      const item = this.resolveAnnotation(annotation, chartData, data, config, columnInfo)
+      if (item) resolved.push(item)
+    }
+    return resolved
+  }
+
+  private prepareByType(
+    data: DataMatrix,
+    config: ChartConfig,
+    columnInfo: ColumnInfo[],
+    colors: CategoryColorScale,
+  ): ChartData {
     const dataColumnIndex = this.findColumnIndex(config.dataColumn, columnInfo)
     const labelColumnIndex = config.labelColumn
       ? this.findColumnIndex(config.labelColumn, columnInfo)
       : null
+    const columns = this.resolveAggregationColumns(config, columnInfo)
 
     if (config.type === 'pie') {
-      return this.preparePieData(data, dataColumnIndex, labelColumnIndex, config)
+      return this.preparePieData(data, dataColumnIndex, labelColumnIndex, config, columns, colors)
+    }
+
+    if (config.type === 'bar') {
+      if (config.seriesColumn) {
+        const seriesColumnIndex = this.findColumnIndex(config.seriesColumn, columnInfo)
+        return this.prepareMultiSeriesBarData(
+          data,
+          dataColumnIndex,
+          labelColumnIndex,
+          seriesColumnIndex,
+          config,
+          columns,
+          colors,
+        )
+      }
+      return this.prepareBarData(data, dataColumnIndex, labelColumnIndex, config, columns, colors)
+    }
+
+    if (config.type === 'line') {
+      return this.prepareLineData(data, dataColumnIndex, labelColumnIndex, config, columns, colors)
+    }
+
+    if (config.type === 'scatter') {
+      const colorColumnIndex = config.colorColumn
+        ? this.findColumnIndex(config.colorColumn, columnInfo)
+        : null
+      return this.prepareScatterData(
+        data,
+        dataColumnIndex,
+        labelColumnIndex,
+        colorColumnIndex,
+        config,
+        colors,
+      )
+    }
+
+    if (config.type === 'histogram') {
+      return this.prepareHistogramData(data, dataColumnIndex, config, colors)
+    }
+
+    if (config.type === 'boxplot' || config.type === 'violin') {
+      return this.prepareDistributionData(data, dataColumnIndex, labelColumnIndex, config, colors)
+    }
+
+    if (config.type === 'treemap' || config.type === 'sunburst') {
+      return this.prepareHierarchyData(data, dataColumnIndex, config, columnInfo, columns, colors)
+    }
+
+    if (config.type === 'waterfall') {
+      return this.prepareWaterfallData(data, dataColumnIndex, labelColumnIndex, config, columns)
+    }
+
+    if (config.type === 'funnel') {
+      return this.prepareFunnelData(
+        data,
+        dataColumnIndex,
+        labelColumnIndex,
+        config,
+        columns,
+        colors,
+      )
+    }
+
+    throw new Error(`Chart type "${config.type}" is not supported.`)
+  }
+
+  // Filter selection for a clicked pie slice or bar, or null when the segment can't be filtered
+  getSegmentSelection(
+    chartData: ChartData,
+    config: ChartConfig,
+    index: number,
+    columnInfo: ColumnInfo[],
+    datasetIndex?: number,
+  ): CrossFilterSelection | null {
+    const label = chartData.labels[index]
+    if (label === undefined || UNFILTERABLE_LABELS.has(label)) return null
+    // The closing bar of a waterfall stands for every step, not for one label
+    if (config.type === 'waterfall' && index === chartData.labels.length - 1) return null
+
+    const bin = chartData.ranges?.[index]
+    if (bin) return { column: config.dataColumn, range: bin }
+
+    // Counting a numeric column on its own groups it into ranges (see aggregateData)
+    const dataColumn = columnInfo.find((c) => c.name === config.dataColumn)
+    if (!config.labelColumn && dataColumn?.type === 'number' && config.aggregation === 'count') {
+      const ranges = config.numericRanges?.length ? config.numericRanges : DEFAULT_NUMERIC_RANGES
+      const match = ranges.find((r) => r.label === label)
+      return match ? { column: config.dataColumn, range: match } : null
+    }
+
+    const selection: CrossFilterSelection = {
+      column: config.labelColumn ?? config.dataColumn,
+      value: label,
     }
+    // A bar of one series on a grouped or stacked chart narrows to that series as well
+    const series = datasetIndex === undefined ? undefined : chartData.datasets[datasetIndex]?.label
+    if (config.seriesColumn && chartData.seriesRows && series && !UNFILTERABLE_LABELS.has(series)) {
+      selection.series = { column: config.seriesColumn, value: series }
+    }
+    return selection
+  }
+
+  private resolveAnnotation(
+    annotation: ChartAnnotation,
+    chartData: ChartData,
+    data: DataMatrix,
+    config: ChartConfig,
+    columnInfo: ColumnInfo[],
+  ): ResolvedAnnotation | null {
+    if (annotation.kind === 'note') return this.resolveNote(annotation, chartData, config)
+
+    const axis = annotation.orientation === 'horizontal' ? 'y' : 'x'
+    const resolve = (ref: ReferenceValue) =>
+      this.resolveReferenceValue(ref, axis, chartData, data, config, columnInfo)
+
+    if (annotation.kind === 'line') {
+      const value = resolve(annotation.value)
+      if (value === null) return null
+      return {
+        id: annotation.id,
+        kind: 'line',
+        axis,
+        value,
+        label:
+          annotation.label ?? this.describeReferenceValue(annotation.value, value, axis, config),
+        color: annotation.color ?? DEFAULT_ANNOTATION_COLORS.line,
+      }
+    }
+
+    const from = resolve(annotation.from)
+    const to = resolve(annotation.to)
+    if (from === null || to === null) return null
+    return {
+      id: annotation.id,
+      kind: 'band',
+      axis,
+      from: Math.min(from, to),
+      to: Math.max(from, to),
+      label: annotation.label ?? '',
+      color: annotation.color ?? DEFAULT_ANNOTATION_COLORS.band,
+    }
+  }
+
+  private resolveNote(
+    note: NoteAnnotation,
+    chartData: ChartData,
+    config: ChartConfig,
+  ): ResolvedAnnotation | null {
+    const base = { id: note.id, kind: 'note' as const, text: note.text }
+    const color = note.color ?? DEFAULT_ANNOTATION_COLORS.note
+    const categoryAxis = this.categoryAxis(config)
+    if (!categoryAxis) {
+      if (!Number.isFinite(note.x) || !Number.isFinite(note.y)) return null
+      return { ...base, x: note.x!, y: note.y!, color }
+    }
+
+    const index = chartData.labels.indexOf(note.label ?? '')
+    if (index === -1) return null
+    const value = note.y ?? this.valueAtCategory(chartData, index, config)
+    if (value === null) return null
+    return categoryAxis === 'x'
+      ? { ...base, x: index, y: value, color }
+      : { ...base, x: value, y: index, color }
+  }
 
-    throw new Error(`Chart type "${config.type}" is not supported. Only pie charts are available.`)
+  // Scatter charts are numeric on both axes; bar and line charts have one category axis
+  categoryAxis(config: ChartConfig): 'x' | 'y' | null {
+    if (config.type === 'scatter') return null
+    return config.type === 'bar' && config.orientation === 'horizontal' ? 'y' : 'x'
+  }
+
+  private resolveReferenceValue(
+    ref: ReferenceValue,
+    axis: 'x' | 'y',
+    chartData: ChartData,
+    data: DataMatrix,
+    config: ChartConfig,
+    columnInfo: ColumnInfo[],
+  ): number | null {
+    const onCategoryAxis = this.categoryAxis(config) === axis
+    if (ref.source === 'category') {
+      if (!onCategoryAxis) return null
+      const index = chartData.labels.indexOf(ref.category ?? '')
+      return index === -1 ? null : index
+    }
+    if (onCategoryAxis) return null
+    if (ref.source === 'constant') {
+      return ref.value !== undefined && Number.isFinite(ref.value) ? ref.value : null
+    }
+
+    const column = columnInfo.find((c) => c.name === (ref.column ?? this.axisColumn(axis, config)))
+    if (!column) return null
+    const sorted = this.finiteValues(
+      data.map((row) => this.toNumber(row[column.index]) ?? undefined),
+    ).sort((a, b) => a - b)
+    if (sorted.length === 0) return null
+
+    switch (ref.source) {
+      case 'mean':
+        return sorted.reduce((s, v) => s + v, 0) / sorted.length
+      case 'median':
+        return this.computeQuantile(sorted, 0.5)
+      case 'percentile': {
+        const p = ref.percentile ?? 90
+        return p >= 0 && p <= 100 ? this.computeQuantile(sorted, p / 100) : null
+      }
+      default:
+        return null
+    }
+  }
+
+  // The column plotted along a numeric axis, used when a statistic names no column
+  private axisColumn(axis: 'x' | 'y', config: ChartConfig): string {
+    if (config.type === 'scatter' && axis === 'x') return config.labelColumn ?? config.dataColumn
+    return config.dataColumn
+  }
+
+  private describeReferenceValue(
+    ref: ReferenceValue,
+    value: number,
+    axis: 'x' | 'y',
+    config: ChartConfig,
+  ): string {
+    const formatted = this.formatBinValue(value)
+    const column = ref.column ?? this.axisColumn(axis, config)
+    switch (ref.source) {
+      case 'mean':
+        return `Mean of ${column}: ${formatted}`
+      case 'median':
+        return `Median of ${column}: ${formatted}`
+      case 'percentile':
+        return `P${ref.percentile ?? 90} of ${column}: ${formatted}`
+      case 'category':
+        return ref.category ?? ''
+      default:
+        return formatted
+    }
+  }
+
+  // Height of a category's bar or point: the top of the stack for stacked bars, else the tallest
+  private valueAtCategory(chartData: ChartData, index: number, config: ChartConfig): number | null {
+    const values = chartData.datasets
+      .map((d) => d.data[index])
+      .filter((v): v is number => typeof v === 'number')
+    if (values.length === 0) return null
+    const stacked = !!config.seriesColumn && (config.barMode ?? 'grouped') !== 'grouped'
+    return stacked ? values.filter((v) => v > 0).reduce((s, v) => s + v, 0) : Math.max(...values)
   }
 
   private findColumnIndex(columnName: string, columns: ColumnInfo[]): number {
@@ -21,13 +415,40 @@ export class ChartDataProcessor {
     return found.index
   }
 
+  private resolveAggregationColumns(
+    config: ChartConfig,
+    columnInfo: ColumnInfo[],
+  ): AggregationColumns {
+    const { aggregation } = config
+    if (aggregation === 'weighted_average' && !config.weightColumn) {
+      throw new Error('Weighted average needs a weight column.')
+    }
+    const usesOrder = (aggregation === 'first' || aggregation === 'last') && !!config.orderColumn
+    return {
+      order: usesOrder ? this.findColumnIndex(config.orderColumn!, columnInfo) : null,
+      weight:
+        aggregation === 'weighted_average'
+          ? this.findColumnIndex(config.weightColumn!, columnInfo)
+          : null,
+    }
+  }
+
   private preparePieData(
     data: DataMatrix,
     dataColumn: number,
     labelColumn: number | null,
     config: ChartConfig,
+    columns: AggregationColumns,
+    colors: CategoryColorScale,
   ): ChartData {
-    const aggregated = this.aggregateData(data, dataColumn, labelColumn, config.aggregation, config)
+    const aggregated = this.aggregateData(
+      data,
+      dataColumn,
+      labelColumn,
+      config.aggregation,
+      config,
+      columns,
+    )
 
     if (aggregated.length === 0) {
       throw new Error(
@@ -47,7 +468,8 @@ export class ChartDataProcessor {
       const othersTotal = others.reduce((sum, item) => sum + item.value, 0)
 
       if (othersTotal > 0) {
-        finalData = [...topSegments, { label: 'Others', value: othersTotal }]
+        const othersRows = others.flatMap((item) => item.rows)
+        finalData = [...topSegments, { label: 'Others', value: othersTotal, rows: othersRows }]
       } else {
         finalData = topSegments
       }
@@ -67,34 +489,1079 @@ export class ChartDataProcessor {
       datasets: [
         {
           label: config.title,
-          data: validData.map((item) => item.value),
-          backgroundColor: this.generateColors(validData.length),
-          borderColor: this.generateBorderColors(validData.length),
+          data: this.applyTotals(
+            validData.map((item) => item.value),
+            config.aggregation,
+          ),
+          backgroundColor: colors.colorsFor(validData.map((item) => item.label)),
+          borderColor: colors.colorsFor(validData.map((item) => item.label)),
           borderWidth: 2,
         },
       ],
+      segmentRows: validData.map((item) => item.rows),
     }
   }
 
-  private aggregateData(
+  private prepareBarData(
     data: DataMatrix,
     dataColumn: number,
     labelColumn: number | null,
-    aggregation: AggregationType,
     config: ChartConfig,
-  ): { label: string; value: number }[] {
-    const groups = new Map<string, unknown[]>()
+    columns: AggregationColumns,
+    colors: CategoryColorScale,
+  ): ChartData {
+    const aggregated = this.aggregateData(
+      data,
+      dataColumn,
+      labelColumn,
+      config.aggregation,
+      config,
+      columns,
+    )
 
-    // Filter out empty rows
-    const validData = data.filter(
-      (row) => row && row.length > Math.max(dataColumn, labelColumn || 0),
+    if (aggregated.length === 0) {
+      throw new Error(
+        'No valid data found for bar chart. Please ensure your selected column contains data.',
+      )
+    }
+
+    const sorted = this.sortAggregated(
+      aggregated,
+      config.sortBy ?? 'value',
+      config.sortDirection ?? 'desc',
     )
+    // A single series reads best in one color; the category axis already names each bar
+    const [color] = colors.paletteColors(1)
 
-    if (validData.length === 0) {
-      return []
+    return {
+      labels: sorted.map((item) => item.label),
+      datasets: [
+        {
+          label: config.title,
+          data: this.applyTotals(
+            sorted.map((item) => item.value),
+            config.aggregation,
+          ),
+          backgroundColor: color,
+          borderColor: color,
+          borderWidth: 1,
+        },
+      ],
+      segmentRows: sorted.map((item) => item.rows),
+    }
+  }
+
+  private prepareMultiSeriesBarData(
+    data: DataMatrix,
+    dataColumn: number,
+    labelColumn: number | null,
+    seriesColumn: number,
+    config: ChartConfig,
+    columns: AggregationColumns,
+    colors: CategoryColorScale,
+  ): ChartData {
+    // Category order comes from the overall aggregate so it matches the single-series chart
+    const overall = this.aggregateData(
+      data,
+      dataColumn,
+      labelColumn,
+      config.aggregation,
+      config,
+      columns,
+    )
+
+    if (overall.length === 0) {
+      throw new Error(
+        'No valid data found for bar chart. Please ensure your selected column contains data.',
+      )
+    }
+
+    const sortedOverall = this.sortAggregated(
+      overall,
+      config.sortBy ?? 'value',
+      config.sortDirection ?? 'desc',
+    )
+    const labels = sortedOverall.map((item) => item.label)
+
+    // Indices into the source rows, by series value
+    const rowsBySeries = new Map<string, number[]>()
+    data.forEach((row, rowIndex) => {
+      const raw = row?.[seriesColumn]
+      const series = raw == null || String(raw).trim() === '' ? 'Unknown' : String(raw).trim()
+      if (!rowsBySeries.has(series)) rowsBySeries.set(series, [])
+      rowsBySeries.get(series)!.push(rowIndex)
+    })
+
+    // Keep the series with the most rows; merge the rest so colors stay distinguishable
+    const maxSeries = config.maxSegments || 10
+    const ordered = Array.from(rowsBySeries.entries()).sort((a, b) => b[1].length - a[1].length)
+    const series = ordered.slice(0, maxSeries - 1)
+    const rest = ordered.slice(maxSeries - 1)
+    if (rest.length === 1) {
+      series.push(rest[0])
+    } else if (rest.length > 1) {
+      series.push(['Others', rest.flatMap(([, rows]) => rows)])
+    }
+
+    const seriesRows: number[][][] = []
+    let values: (number | null)[][] = series.map(([, rowIndices]) => {
+      const rows = rowIndices.map((i) => data[i])
+      const byLabel = new Map(
+        this.aggregateData(rows, dataColumn, labelColumn, config.aggregation, config, columns).map(
+          (item) => [item.label, item],
+        ),
+      )
+      // Aggregated rows index into this series' rows; map them back to the source rows
+      seriesRows.push(
+        labels.map((label) => byLabel.get(label)?.rows.map((i) => rowIndices[i]) ?? []),
+      )
+      return labels.map((label) => byLabel.get(label)?.value ?? null)
+    })
+
+    // Shares are of the whole chart; running totals accumulate along each series
+    const grandTotal = values.flat().reduce<number>((sum, value) => sum + (value ?? 0), 0)
+    values = values.map((row) => this.applyTotals(row, config.aggregation, grandTotal))
+
+    const mode: BarMode = config.barMode ?? 'grouped'
+    if (mode === 'percent') {
+      labels.forEach((_, i) => {
+        const total = values.reduce((sum, row) => sum + Math.abs(row[i] ?? 0), 0)
+        for (const row of values) {
+          if (row[i] !== null) row[i] = total === 0 ? 0 : (Math.abs(row[i]!) / total) * 100
+        }
+      })
+    }
+
+    const seriesColors = colors.colorsFor(series.map(([name]) => name))
+    return {
+      labels,
+      datasets: series.map(([name], i) => ({
+        label: name,
+        data: values[i],
+        backgroundColor: seriesColors[i],
+        borderColor: seriesColors[i],
+        borderWidth: 1,
+      })),
+      segmentRows: sortedOverall.map((item) => item.rows),
+      seriesRows,
+    }
+  }
+
+  private prepareLineData(
+    data: DataMatrix,
+    dataColumn: number,
+    dateColumn: number | null,
+    config: ChartConfig,
+    columns: AggregationColumns,
+    colors: CategoryColorScale,
+  ): ChartData {
+    if (dateColumn === null) {
+      throw new Error('Line charts require a date column for the x-axis.')
+    }
+
+    const bucket = config.dateBucket ?? 'month'
+    const groups = new Map<number, { values: unknown[]; rows: number[] }>()
+
+    data.forEach((row, rowIndex) => {
+      const date = parseDateFlexible(row?.[dateColumn])
+      const value = row?.[dataColumn]
+      if (!date || value == null || value === '') return
+
+      const key = this.getBucketStart(date, bucket).getTime()
+      if (!groups.has(key)) groups.set(key, { values: [], rows: [] })
+      const group = groups.get(key)!
+      group.values.push(value)
+      group.rows.push(rowIndex)
+    })
+
+    if (groups.size === 0) {
+      throw new Error(
+        'No valid data found for line chart. Please ensure the x-axis column contains dates.',
+      )
+    }
+
+    let firstKey = Infinity
+    let lastKey = -Infinity
+    for (const key of groups.keys()) {
+      if (key < firstKey) firstKey = key
+      if (key > lastKey) lastKey = key
+    }
+
+    // Fill every bucket between the first and last date so gaps stay visible. Additive
+    // aggregations read an empty bucket as zero; the rest leave a break in the line.
+    const emptyValue = ADDITIVE_AGGREGATIONS.has(config.aggregation) ? 0 : null
+    const labels: string[] = []
+    const bucketValues: (number | null)[] = []
+    const segmentRows: number[][] = []
+
+    for (
+      let cursor = new Date(firstKey);
+      cursor.getTime() <= lastKey;
+      cursor = this.addBuckets(cursor, bucket)
+    ) {
+      if (labels.length >= MAX_TIME_BUCKETS) {
+        throw new Error(
+          `Too many ${bucket} buckets to display (over ${MAX_TIME_BUCKETS}). Try a coarser date grouping.`,
+        )
+      }
+      const group = groups.get(cursor.getTime())
+      labels.push(this.formatBucketLabel(cursor, bucket))
+      bucketValues.push(
+        group
+          ? this.applyAggregation(
+              group.values,
+              config.aggregation,
+              this.aggregationInputs(data, group.rows, config, columns),
+            )
+          : emptyValue,
+      )
+      segmentRows.push(group?.rows ?? [])
+    }
+    const values = this.applyTotals(bucketValues, config.aggregation)
+
+    const [color] = colors.paletteColors(1)
+
+    return {
+      labels,
+      datasets: [
+        {
+          label: config.title,
+          data: values,
+          backgroundColor: color,
+          borderColor: color,
+          borderWidth: 2,
+        },
+      ],
+      segmentRows,
+    }
+  }
+
+  private prepareScatterData(
+    data: DataMatrix,
+    yColumn: number,
+    xColumn: number | null,
+    colorColumn: number | null,
+    config: ChartConfig,
+    colors: CategoryColorScale,
+  ): ChartData {
+    if (xColumn === null) {
+      throw new Error('Scatter plots require a numeric column for the x-axis.')
+    }
+
+    const points: ChartPoint[] = []
+    const groups = new Map<string, ChartPoint[]>()
+
+    for (const row of data) {
+      const x = this.toNumber(row?.[xColumn])
+      const y = this.toNumber(row?.[yColumn])
+      if (x === null || y === null) continue
+
+      const point = { x, y }
+      points.push(point)
+      if (colorColumn !== null) {
+        const raw = row?.[colorColumn]
+        const group = raw == null || String(raw).trim() === '' ? 'Unknown' : String(raw).trim()
+        if (!groups.has(group)) groups.set(group, [])
+        groups.get(group)!.push(point)
+      }
+    }
+
+    if (points.length === 0) {
+      throw new Error(
+        'No valid data found for scatter plot. Please ensure both columns contain numbers.',
+      )
+    }
+
+    // Largest groups keep their own color; the long tail is merged so the legend stays readable
+    const series: { label: string; points: ChartPoint[] }[] = []
+    if (colorColumn === null) {
+      series.push({ label: config.title, points })
+    } else {
+      const maxGroups = config.maxSegments || 10
+      const ordered = Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length)
+      for (const [label, groupPoints] of ordered.slice(0, maxGroups - 1)) {
+        series.push({ label, points: groupPoints })
+      }
+      const rest = ordered.slice(maxGroups - 1)
+      if (rest.length === 1) {
+        series.push({ label: rest[0][0], points: rest[0][1] })
+      } else if (rest.length > 1) {
+        series.push({ label: 'Others', points: rest.flatMap(([, groupPoints]) => groupPoints) })
+      }
     }
 
-    for (const row of validData) {
+    // Groups of a color column are categories; a lone series just takes the palette's first color
+    const seriesColors =
+      colorColumn === null
+        ? colors.paletteColors(series.length)
+        : colors.colorsFor(series.map((s) => s.label))
+    const sampleEvery = Math.ceil(points.length / MAX_SCATTER_POINTS)
+    const datasets: ChartDataDataset[] = series.map((s, i) => ({
+      label: s.label,
+      data: sampleEvery > 1 ? s.points.filter((_, idx) => idx % sampleEvery === 0) : s.points,
+      backgroundColor: seriesColors[i],
+      borderColor: seriesColors[i],
+      borderWidth: 1,
+      pointRadius: 3,
+    }))
+
+    const result: ChartData = { labels: [], datasets }
+
+    if (config.showTrendline) {
+      const trendline = this.computeLinearRegression(points)
+      if (trendline) {
+        let minX = Infinity
+        let maxX = -Infinity
+        for (const p of points) {
+          if (p.x < minX) minX = p.x
+          if (p.x > maxX) maxX = p.x
+        }
+        datasets.push({
+          label: `Trend: ${this.formatTrendline(trendline)}`,
+          data: [
+            { x: minX, y: trendline.slope * minX + trendline.intercept },
+            { x: maxX, y: trendline.slope * maxX + trendline.intercept },
+          ],
+          backgroundColor: '#111827',
+          borderColor: '#111827',
+          borderWidth: 2,
+          showLine: true,
+          pointRadius: 0,
+          borderDash: [6, 4],
+        })
+        result.trendline = trendline
+      }
+    }
+
+    return result
+  }
+
+  // Ordinary least squares fit of y on x; null when x has no variance to fit against
+  public computeLinearRegression(points: ChartPoint[]): TrendlineStats | null {
+    const n = points.length
+    if (n < 2) return null
+
+    let sumX = 0
+    let sumY = 0
+    for (const p of points) {
+      sumX += p.x
+      sumY += p.y
+    }
+    const meanX = sumX / n
+    const meanY = sumY / n
+
+    let sxx = 0
+    let sxy = 0
+    let syy = 0
+    for (const p of points) {
+      const dx = p.x - meanX
+      const dy = p.y - meanY
+      sxx += dx * dx
+      sxy += dx * dy
+      syy += dy * dy
+    }
+    if (sxx === 0) return null
+
+    const slope = sxy / sxx
+    const intercept = meanY - slope * meanX
+    // A flat y is fitted perfectly by a horizontal line
+    const rSquared = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy)
+    return { slope, intercept, rSquared }
+  }
+
+  public formatTrendline({ slope, intercept, rSquared }: TrendlineStats): string {
+    const round = (n: number) => Number.parseFloat(n.toPrecision(4))
+    const sign = intercept < 0 ? '-' : '+'
+    return `y = ${round(slope)}x ${sign} ${round(Math.abs(intercept))} (R² = ${rSquared.toFixed(3)})`
+  }
+
+  private prepareHistogramData(
+    data: DataMatrix,
+    dataColumn: number,
+    config: ChartConfig,
+    colors: CategoryColorScale,
+  ): ChartData {
+    const values: number[] = []
+    const valueRows: number[] = []
+    data.forEach((row, rowIndex) => {
+      const value = this.toNumber(row?.[dataColumn])
+      if (value === null) return
+      values.push(value)
+      valueRows.push(rowIndex)
+    })
+
+    if (values.length === 0) {
+      throw new Error(
+        'No valid data found for histogram. Please ensure your selected column contains numbers.',
+      )
+    }
+
+    const method = config.binMethod ?? 'sturges'
+    let bins: NumericRange[]
+    if (method === 'custom') {
+      if (!config.numericRanges?.length) {
+        throw new Error('Custom histogram bins require at least one range.')
+      }
+      bins = config.numericRanges
+    } else {
+      bins = this.computeHistogramBins(values, method, config.binWidth)
+    }
+
+    const counts = new Array<number>(bins.length).fill(0)
+    const segmentRows: number[][] = bins.map(() => [])
+    values.forEach((value, i) => {
+      const index = bins.findIndex((bin) => this.isInRange(value, bin))
+      if (index === -1) return
+      counts[index]++
+      segmentRows[index].push(valueRows[i])
+    })
+
+    const [color] = colors.paletteColors(1)
+    return {
+      labels: bins.map((bin) => bin.label),
+      datasets: [
+        {
+          label: config.title,
+          data: counts,
+          backgroundColor: color,
+          borderColor: color,
+          borderWidth: 1,
+        },
+      ],
+      ranges: bins,
+      segmentRows,
+    }
+  }
+
+  private prepareDistributionData(
+    data: DataMatrix,
+    dataColumn: number,
+    labelColumn: number | null,
+    config: ChartConfig,
+    colors: CategoryColorScale,
+  ): ChartData {
+    const groups = new Map<string, { values: number[]; rows: number[] }>()
+    data.forEach((row, rowIndex) => {
+      const value = this.toNumber(row?.[dataColumn])
+      if (value === null) return
+      let label = config.dataColumn
+      if (labelColumn !== null) {
+        const raw = row?.[labelColumn]
+        label = raw == null || String(raw).trim() === '' ? 'Unknown' : String(raw).trim()
+      }
+      if (!groups.has(label)) groups.set(label, { values: [], rows: [] })
+      const group = groups.get(label)!
+      group.values.push(value)
+      group.rows.push(rowIndex)
+    })
+
+    if (groups.size === 0) {
+      throw new Error(
+        `No valid data found for ${config.type === 'violin' ? 'violin' : 'box'} plot. Please ensure your selected column contains numbers.`,
+      )
+    }
+
+    // Keep the best-populated groups, then lay them out in label order
+    const maxGroups = config.maxSegments || 10
+    const ordered = Array.from(groups.entries()).sort(
+      (a, b) => b[1].values.length - a[1].values.length,
+    )
+    const kept = ordered.slice(0, maxGroups - 1)
+    const rest = ordered.slice(maxGroups - 1)
+    if (rest.length === 1) {
+      kept.push(rest[0])
+    } else if (rest.length > 1) {
+      kept.push([
+        'Others',
+        {
+          values: rest.flatMap(([, group]) => group.values),
+          rows: rest.flatMap(([, group]) => group.rows),
+        },
+      ])
+    }
+    kept.sort((a, b) => {
+      if (a[0] === 'Others') return 1
+      if (b[0] === 'Others') return -1
+      return a[0].localeCompare(b[0], undefined, { numeric: true })
+    })
+
+    const labels = kept.map(([label]) => label)
+    const sortedGroups = kept.map(([, group]) => [...group.values].sort((a, b) => a - b))
+    const boxPlots = sortedGroups.map((values) => this.computeBoxPlotStats(values))
+
+    const datasets =
+      config.type === 'violin'
+        ? this.buildViolinDatasets(labels, sortedGroups, boxPlots, colors)
+        : this.buildBoxPlotDatasets(boxPlots, colors)
+
+    return { labels, datasets, boxPlots, segmentRows: kept.map(([, group]) => group.rows) }
+  }
+
+  // Expects values sorted ascending
+  public computeBoxPlotStats(sorted: number[]): BoxPlotStats {
+    const q1 = this.computeQuantile(sorted, 0.25)
+    const median = this.computeQuantile(sorted, 0.5)
+    const q3 = this.computeQuantile(sorted, 0.75)
+    const iqr = q3 - q1
+    const lowerFence = q1 - 1.5 * iqr
+    const upperFence = q3 + 1.5 * iqr
+
+    const inside = sorted.filter((v) => v >= lowerFence && v <= upperFence)
+    return {
+      count: sorted.length,
+      min: sorted[0],
+      q1,
+      median,
+      q3,
+      max: sorted[sorted.length - 1],
+      lowerWhisker: inside.length ? inside[0] : q1,
+      upperWhisker: inside.length ? inside[inside.length - 1] : q3,
+      outliers: sorted.filter((v) => v < lowerFence || v > upperFence),
+    }
+  }
+
+  // Boxes and whiskers are overlapping floating bars; medians and outliers are point-only lines
+  private buildBoxPlotDatasets(
+    stats: BoxPlotStats[],
+    colors: CategoryColorScale,
+  ): MixedChartDataset[] {
+    const [boxColor, outlierColor] = colors.paletteColors(2)
+    return [
+      {
+        type: 'bar',
+        label: 'Interquartile range',
+        data: stats.map((s) => [s.q1, s.q3] as [number, number]),
+        backgroundColor: `${boxColor}66`,
+        borderColor: boxColor,
+        borderWidth: 1,
+        grouped: false,
+        barPercentage: 0.6,
+      },
+      {
+        type: 'bar',
+        label: 'Whiskers',
+        data: stats.map((s) => [s.lowerWhisker, s.upperWhisker] as [number, number]),
+        backgroundColor: boxColor,
+        borderColor: boxColor,
+        borderWidth: 0,
+        grouped: false,
+        barPercentage: 0.04,
+      },
+      {
+        type: 'line',
+        label: 'Median',
+        data: stats.map((s) => s.median),
+        backgroundColor: '#111827',
+        borderColor: '#111827',
+        borderWidth: 3,
+        showLine: false,
+        pointStyle: 'line',
+        pointRadius: 18,
+      },
+      {
+        type: 'line',
+        label: 'Outliers',
+        data: stats.flatMap((s, i) => s.outliers.map((y) => ({ x: i, y }))),
+        backgroundColor: outlierColor,
+        borderColor: outlierColor,
+        borderWidth: 1,
+        showLine: false,
+        pointRadius: 3,
+      },
+    ]
+  }
+
+  // Each violin is a closed outline centred on its category index (x = 0, 1, 2, ...)
+  private buildViolinDatasets(
+    labels: string[],
+    sortedGroups: number[][],
+    stats: BoxPlotStats[],
+    colors: CategoryColorScale,
+  ): ChartDataDataset[] {
+    const violinColors = colors.colorsFor(labels)
+    const halfWidth = 0.4
+
+    const datasets: ChartDataDataset[] = sortedGroups.map((values, i) => {
+      const density = this.computeKernelDensity(values, VIOLIN_RESOLUTION)
+      const peak = Math.max(...density.map((d) => d.density)) || 1
+      const right = density.map((d) => ({ x: i + (d.density / peak) * halfWidth, y: d.value }))
+      const left = density
+        .map((d) => ({ x: i - (d.density / peak) * halfWidth, y: d.value }))
+        .reverse()
+      return {
+        label: labels[i],
+        data: [...right, ...left, right[0]],
+        backgroundColor: `${violinColors[i]}66`,
+        borderColor: violinColors[i],
+        borderWidth: 1,
+        showLine: true,
+        pointRadius: 0,
+        fill: 'shape',
+      }
+    })
+
+    datasets.push({
+      label: 'Median',
+      data: stats.map((s, i) => ({ x: i, y: s.median })),
+      backgroundColor: '#111827',
+      borderColor: '#111827',
+      borderWidth: 3,
+      pointStyle: 'line',
+      pointRadius: 10,
+    })
+    return datasets
+  }
+
+  // Gaussian kernel density over the data range, with Silverman's rule-of-thumb bandwidth
+  public computeKernelDensity(
+    sorted: number[],
+    resolution: number,
+  ): { value: number; density: number }[] {
+    const n = sorted.length
+    if (n === 0) return []
+    const min = sorted[0]
+    const max = sorted[n - 1]
+    if (min === max) return [{ value: min, density: 1 }]
+
+    const mean = sorted.reduce((sum, v) => sum + v, 0) / n
+    const sd = Math.sqrt(sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n)
+    const iqr = this.computeQuantile(sorted, 0.75) - this.computeQuantile(sorted, 0.25)
+    const spread = iqr > 0 ? Math.min(sd, iqr / 1.34) : sd
+    const bandwidth = 0.9 * spread * Math.pow(n, -0.2) || (max - min) / resolution
+
+    const result: { value: number; density: number }[] = []
+    for (let i = 0; i < resolution; i++) {
+      const value = min + ((max - min) * i) / (resolution - 1)
+      let density = 0
+      for (const v of sorted) {
+        const u = (value - v) / bandwidth
+        density += Math.exp(-0.5 * u * u)
+      }
+      result.push({ value, density: density / (n * bandwidth * Math.sqrt(2 * Math.PI)) })
+    }
+    return result
+  }
+
+  // Equal-width bins covering every value; the last bin is closed so the maximum is counted
+  public computeHistogramBins(
+    values: number[],
+    method: Exclude<HistogramBinMethod, 'custom'>,
+    binWidth?: number,
+  ): NumericRange[] {
+    const sorted = values.filter((v) => Number.isFinite(v)).sort((a, b) => a - b)
+    if (sorted.length === 0) return []
+
+    const min = sorted[0]
+    const max = sorted[sorted.length - 1]
+    if (min === max) {
+      return [
+        {
+          id: 'bin-0',
+          label: this.formatBinValue(min),
+          min,
+          max,
+          includeMin: true,
+          includeMax: true,
+        },
+      ]
+    }
+
+    let width: number
+    let start = min
+    if (method === 'width') {
+      if (!binWidth || !Number.isFinite(binWidth) || binWidth <= 0) {
+        throw new Error('Histogram bin width must be a positive number.')
+      }
+      width = binWidth
+      // Align edges to multiples of the width so labels read as round numbers
+      start = Math.floor(min / width) * width
+    } else {
+      width = (max - min) / this.sturgesBinCount(sorted.length)
+      if (method === 'freedman-diaconis') {
+        const iqr = this.computeQuantile(sorted, 0.75) - this.computeQuantile(sorted, 0.25)
+        const fdWidth = (2 * iqr) / Math.cbrt(sorted.length)
+        // A zero IQR (mostly repeated values) gives no usable width, and a small one next to a
+        // long tail gives too many bins; keep Sturges for both
+        if (iqr > 0 && (max - min) / fdWidth <= MAX_HISTOGRAM_BINS) width = fdWidth
+      }
+    }
+
+    const count = Math.max(1, Math.ceil((max - start) / width))
+    // Only a width the user entered can give too many bins
+    if (count > MAX_HISTOGRAM_BINS) {
+      throw new Error(
+        `Too many histogram bins to display (over ${MAX_HISTOGRAM_BINS}). Try a wider bin width.`,
+      )
+    }
+
+    const bins: NumericRange[] = []
+    for (let i = 0; i < count; i++) {
+      const lo = start + i * width
+      const isLast = i === count - 1
+      const hi = isLast ? Math.max(start + count * width, max) : start + (i + 1) * width
+      bins.push({
+        id: `bin-${i}`,
+        label: `${this.formatBinValue(lo)}–${this.formatBinValue(hi)}`,
+        min: lo,
+        max: hi,
+        includeMin: true,
+        includeMax: isLast,
+      })
+    }
+    return bins
+  }
+
+  // Treemap and sunburst: rows nested under each category level in turn. Every node aggregates
+  // its own rows, so averages and maxima are right at every level, not sums of the level below
+  private prepareHierarchyData(
+    data: DataMatrix,
+    dataColumn: number,
+    config: ChartConfig,
+    columnInfo: ColumnInfo[],
+    columns: AggregationColumns,
+    colors: CategoryColorScale,
+  ): ChartData {
+    const levels = (config.hierarchyColumns ?? []).map((name) =>
+      this.findColumnIndex(name, columnInfo),
+    )
+    if (levels.length === 0) {
+      throw new Error(`Select at least one category level for the ${config.type} chart.`)
+    }
+
+    const rows: number[] = []
+    data.forEach((row, rowIndex) => {
+      const value = row?.[dataColumn]
+      if (value != null && value !== '') rows.push(rowIndex)
+    })
+
+    const root = this.buildHierarchyNode('All', [], rows, data, dataColumn, levels, config, columns)
+    if (root.children.length === 0) {
+      throw new Error(
+        `No positive values found for ${config.type} chart. Box and slice sizes need positive values.`,
+      )
+    }
+
+    root.color = HIERARCHY_ROOT_COLOR
+    const topColors = colors.colorsFor(root.children.map((child) => child.name))
+    root.children.forEach((child, i) => this.paintHierarchy(child, topColors[i]))
+
+    return {
+      labels: root.children.map((child) => child.name),
+      datasets: [
+        {
+          label: config.title,
+          data: root.children.map((child) => child.value),
+          backgroundColor: topColors,
+          borderColor: topColors,
+          borderWidth: 1,
+        },
+      ],
+      segmentRows: root.children.map((child) => child.rows),
+      hierarchy: root,
+    }
+  }
+
+  private buildHierarchyNode(
+    name: string,
+    path: string[],
+    rows: number[],
+    data: DataMatrix,
+    dataColumn: number,
+    levels: number[],
+    config: ChartConfig,
+    columns: AggregationColumns,
+  ): HierarchyNode {
+    const aggregate = (nodeRows: number[]) =>
+      this.applyAggregation(
+        nodeRows.map((r) => data[r][dataColumn]),
+        config.aggregation,
+        this.aggregationInputs(data, nodeRows, config, columns),
+      )
+    const node: HierarchyNode = {
+      name,
+      path,
+      value: aggregate(rows),
+      color: '',
+      rows,
+      children: [],
+    }
+
+    const level = levels[path.length]
+    if (level === undefined) return node
+
+    const groups = new Map<string, number[]>()
+    for (const r of rows) {
+      const raw = data[r][level]
+      const label = raw == null || String(raw).trim() === '' ? 'Unknown' : String(raw).trim()
+      const group = groups.get(label)
+      if (group) group.push(r)
+      else groups.set(label, [r])
+    }
+
+    // Sizes must be positive, so categories that aggregate to zero or less are left out
+    const children = Array.from(groups, ([label, groupRows]) =>
+      this.buildHierarchyNode(
+        label,
+        [...path, label],
+        groupRows,
+        data,
+        dataColumn,
+        levels,
+        config,
+        columns,
+      ),
+    )
+      .filter((child) => child.value > 0)
+      .sort((a, b) => b.value - a.value)
+
+    if (children.length > MAX_HIERARCHY_CHILDREN) {
+      const otherRows = children
+        .slice(MAX_HIERARCHY_CHILDREN - 1)
+        .flatMap((child) => child.rows)
+        .sort((a, b) => a - b)
+      const others: HierarchyNode = {
+        name: 'Others',
+        path: [...path, 'Others'],
+        value: aggregate(otherRows),
+        color: '',
+        rows: otherRows,
+        children: [],
+      }
+      node.children = [...children.slice(0, MAX_HIERARCHY_CHILDREN - 1), others]
+        .filter((child) => child.value > 0)
+        .sort((a, b) => b.value - a.value)
+    } else {
+      node.children = children
+    }
+    return node
+  }
+
+  private paintHierarchy(node: HierarchyNode, color: string): void {
+    node.color = color
+    node.children.forEach((child) => this.paintHierarchy(child, color))
+  }
+
+  // Each label's aggregate is a signed change, drawn as a floating bar from the running total
+  // before it to the total after it; a closing bar shows where the changes end up
+  private prepareWaterfallData(
+    data: DataMatrix,
+    dataColumn: number,
+    labelColumn: number | null,
+    config: ChartConfig,
+    columns: AggregationColumns,
+  ): ChartData {
+    if (labelColumn === null) {
+      throw new Error('Select a step column for the waterfall chart.')
+    }
+    const aggregated = this.aggregateData(
+      data,
+      dataColumn,
+      labelColumn,
+      config.aggregation,
+      config,
+      columns,
+    )
+    if (aggregated.length === 0) {
+      throw new Error(
+        'No valid data found for waterfall chart. Please ensure your selected columns contain data.',
+      )
+    }
+
+    const steps = this.sortAggregated(
+      aggregated,
+      config.sortBy ?? 'label',
+      config.sortDirection ?? 'asc',
+    )
+    const bars: [number, number][] = []
+    const barColors: string[] = []
+    let total = 0
+    for (const step of steps) {
+      bars.push([total, total + step.value])
+      barColors.push(step.value < 0 ? WATERFALL_COLORS.decrease : WATERFALL_COLORS.increase)
+      total += step.value
+    }
+    bars.push([0, total])
+    barColors.push(WATERFALL_COLORS.total)
+
+    return {
+      labels: [...steps.map((step) => step.label), WATERFALL_TOTAL_LABEL],
+      datasets: [
+        {
+          label: config.title,
+          data: bars,
+          backgroundColor: barColors,
+          borderColor: barColors,
+          borderWidth: 1,
+        },
+      ],
+      segmentRows: [
+        ...steps.map((step) => step.rows),
+        steps.flatMap((step) => step.rows).sort((a, b) => a - b),
+      ],
+    }
+  }
+
+  // Stages drawn as bars centered on zero, so the chart narrows like a funnel. Conversion rates
+  // follow the display order, so the stages are expected to be sorted from first to last
+  private prepareFunnelData(
+    data: DataMatrix,
+    dataColumn: number,
+    labelColumn: number | null,
+    config: ChartConfig,
+    columns: AggregationColumns,
+    colors: CategoryColorScale,
+  ): ChartData {
+    const aggregated = this.aggregateData(
+      data,
+      dataColumn,
+      labelColumn,
+      config.aggregation,
+      config,
+      columns,
+    ).filter((stage) => stage.value > 0)
+    if (aggregated.length === 0) {
+      throw new Error(
+        'No positive values found for funnel chart. Stage widths need positive values.',
+      )
+    }
+
+    // Stages keep the order the data lists them in, so a stage that grows shows above 100%.
+    // Ordering by size is left as an explicit choice
+    const sortBy = config.sortBy ?? 'source'
+    const stages = this.sortAggregated(
+      aggregated,
+      sortBy,
+      config.sortDirection ?? (sortBy === 'value' ? 'desc' : 'asc'),
+    )
+    const first = stages[0].value
+    const funnel: FunnelStage[] = stages.map((stage, i) => ({
+      value: stage.value,
+      ofFirst: stage.value / first,
+      ofPrevious: i === 0 ? 1 : stage.value / stages[i - 1].value,
+    }))
+    const stageColors = colors.colorsFor(stages.map((stage) => stage.label))
+
+    return {
+      labels: stages.map((stage) => stage.label),
+      datasets: [
+        {
+          label: config.title,
+          data: stages.map((stage): [number, number] => [-stage.value / 2, stage.value / 2]),
+          backgroundColor: stageColors,
+          borderColor: stageColors,
+          borderWidth: 1,
+          barPercentage: 0.95,
+        },
+      ],
+      segmentRows: stages.map((stage) => stage.rows),
+      funnel,
+    }
+  }
+
+  private sturgesBinCount(n: number): number {
+    return Math.ceil(Math.log2(n)) + 1
+  }
+
+  // Linear interpolation between closest ranks; expects values sorted ascending
+  public computeQuantile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return NaN
+    const position = (sorted.length - 1) * p
+    const lower = Math.floor(position)
+    const upper = Math.ceil(position)
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+  }
+
+  private formatBinValue(value: number): string {
+    return String(Number.parseFloat(value.toPrecision(4)))
+  }
+
+  // Blank cells are missing values, not zeros
+  private toNumber(value: unknown): number | null {
+    if (typeof value === 'string' && value.trim() === '') return null
+    return coerceNumber(value)
+  }
+
+  private isInRange(value: number, range: NumericRange): boolean {
+    const minOk = range.includeMin ? value >= range.min : value > range.min
+    const maxOk = range.includeMax ? value <= range.max : value < range.max
+    return minOk && maxOk
+  }
+
+  public getBucketStart(date: Date, bucket: DateBucket): Date {
+    switch (bucket) {
+      case 'day':
+        return startOfDay(date)
+      case 'week':
+        return startOfWeek(date, { weekStartsOn: 1 })
+      case 'month':
+        return startOfMonth(date)
+      case 'quarter':
+        return startOfQuarter(date)
+      case 'year':
+        return startOfYear(date)
+    }
+  }
+
+  private addBuckets(date: Date, bucket: DateBucket): Date {
+    switch (bucket) {
+      case 'day':
+        return addDays(date, 1)
+      case 'week':
+        return addWeeks(date, 1)
+      case 'month':
+        return addMonths(date, 1)
+      case 'quarter':
+        return addQuarters(date, 1)
+      case 'year':
+        return addYears(date, 1)
+    }
+  }
+
+  public formatBucketLabel(bucketStart: Date, bucket: DateBucket): string {
+    switch (bucket) {
+      case 'day':
+        return format(bucketStart, 'yyyy-MM-dd')
+      case 'week':
+        return format(bucketStart, "RRRR-'W'II")
+      case 'month':
+        return format(bucketStart, 'MMM yyyy')
+      case 'quarter':
+        return format(bucketStart, "yyyy-'Q'Q")
+      case 'year':
+        return format(bucketStart, 'yyyy')
+    }
+  }
+
+  private sortAggregated(
+    items: AggregatedSegment[],
+    sortBy: ChartSortBy,
+    direction: SortDirection,
+  ): AggregatedSegment[] {
+    const factor = direction === 'asc' ? 1 : -1
+    return [...items].sort((a, b) => {
+      if (sortBy === 'label') {
+        return factor * a.label.localeCompare(b.label, undefined, { numeric: true })
+      }
+      if (sortBy === 'source') return factor * (a.rows[0] - b.rows[0])
+      return factor * (a.value - b.value)
+    })
+  }
+
+  private aggregateData(
+    data: DataMatrix,
+    dataColumn: number,
+    labelColumn: number | null,
+    aggregation: AggregationType,
+    config: ChartConfig,
+    columns: AggregationColumns,
+  ): AggregatedSegment[] {
+    const groups = new Map<string, { values: unknown[]; rows: number[] }>()
+
+    for (let rowIndex = 0; rowIndex < data.length; rowIndex++) {
+      const row = data[rowIndex]
+      // Skip empty rows
+      if (!row || row.length <= Math.max(dataColumn, labelColumn || 0)) continue
+
       let label: string
       let value: CellValue
 
@@ -136,13 +1603,20 @@ export class ChartDataProcessor {
         label = 'Unknown'
       }
 
-      if (!groups.has(label)) groups.set(label, [])
-      groups.get(label)!.push(value)
+      if (!groups.has(label)) groups.set(label, { values: [], rows: [] })
+      const group = groups.get(label)!
+      group.values.push(value)
+      group.rows.push(rowIndex)
     }
 
-    const result = Array.from(groups.entries()).map(([label, values]) => ({
+    const result = Array.from(groups.entries()).map(([label, group]) => ({
       label,
-      value: this.applyAggregation(values, aggregation),
+      value: this.applyAggregation(
+        group.values,
+        aggregation,
+        this.aggregationInputs(data, group.rows, config, columns),
+      ),
+      rows: group.rows,
     }))
 
     // Sort by value descending for better pie chart presentation
@@ -151,10 +1625,7 @@ export class ChartDataProcessor {
 
   public assignToCustomRange(value: number, ranges: NumericRange[]): string {
     for (const range of ranges) {
-      const minOk = range.includeMin ? value >= range.min : value > range.min
-      const maxOk = range.includeMax ? value <= range.max : value < range.max
-
-      if (minOk && maxOk) {
+      if (this.isInRange(value, range)) {
         return range.label
       }
     }
@@ -163,19 +1634,29 @@ export class ChartDataProcessor {
 
   public createNumericRange(value: number): string {
     // Create meaningful ranges for financial data
-    if (value < 0) return 'Negative'
-    if (value === 0) return 'Zero'
-    if (value < 1) return '0-1'
-    if (value < 10) return '1-10'
-    if (value < 100) return '10-100'
-    if (value < 1000) return '100-1K'
-    if (value < 10000) return '1K-10K'
-    if (value < 100000) return '10K-100K'
-    if (value < 1000000) return '100K-1M'
-    return '1M+'
-  }
-
-  private applyAggregation(values: unknown[], type: AggregationType): number {
+    return DEFAULT_NUMERIC_RANGES.find((r) => this.isInRange(value, r))?.label ?? '1M+'
+  }
+
+  // Weights and sort keys come from the same source rows as the values
+  private aggregationInputs(
+    data: DataMatrix,
+    rows: number[],
+    config: ChartConfig,
+    columns: AggregationColumns,
+  ): AggregationInputs {
+    const { order, weight } = columns
+    return {
+      percentile: config.percentile,
+      orderKeys: order === null ? undefined : rows.map((r) => data[r]?.[order]),
+      weights: weight === null ? undefined : rows.map((r) => data[r]?.[weight]),
+    }
+  }
+
+  private applyAggregation(
+    values: unknown[],
+    type: AggregationType,
+    inputs: AggregationInputs = {},
+  ): number {
     switch (type) {
       case 'count':
         return values.length
@@ -204,24 +1685,127 @@ export class ChartDataProcessor {
       }
       case 'distinct':
         return new Set(values).size
+      case 'stddev':
+        return Math.sqrt(this.sampleVariance(this.finiteValues(values)))
+      case 'variance':
+        return this.sampleVariance(this.finiteValues(values))
+      case 'percentile': {
+        const sorted = this.finiteValues(values).sort((a, b) => a - b)
+        const p = Math.min(100, Math.max(0, inputs.percentile ?? 90))
+        return sorted.length ? this.computeQuantile(sorted, p / 100) : 0
+      }
+      case 'mode':
+        return this.computeMode(this.finiteValues(values))
+      case 'first':
+      case 'last':
+        return this.toNumber(this.pickByOrder(values, inputs.orderKeys, type === 'last')) ?? 0
+      case 'weighted_average': {
+        let weighted = 0
+        let totalWeight = 0
+        values.forEach((raw, i) => {
+          const value = this.toNumber(raw)
+          const weight = this.toNumber(inputs.weights?.[i])
+          if (value === null || weight === null) return
+          weighted += value * weight
+          totalWeight += weight
+        })
+        return totalWeight === 0 ? 0 : weighted / totalWeight
+      }
+      case 'percent_of_total':
+      case 'running_total':
+        // Summed per label here; applyTotals turns the sums into shares or running totals
+        return values.reduce((sum: number, v) => sum + (Number(v) || 0), 0)
       default:
         return 0
     }
   }
 
+  /**
+   * Aggregations that depend on every label, applied once values are in display order.
+   * `total` overrides the denominator for percent of total, e.g. across several series.
+   */
+  private applyTotals<T extends number | null>(
+    values: T[],
+    type: AggregationType,
+    total?: number,
+  ): (number | T)[] {
+    if (type === 'percent_of_total') {
+      const denominator = total ?? values.reduce<number>((sum, v) => sum + (v ?? 0), 0)
+      return values.map((v) => (v === null ? v : denominator === 0 ? 0 : (v / denominator) * 100))
+    }
+    if (type === 'running_total') {
+      let running = 0
+      return values.map((v) => (running += v ?? 0))
+    }
+    return values
+  }
+
+  private finiteValues(values: unknown[]): number[] {
+    return values.map((v) => Number(v)).filter((v) => Number.isFinite(v))
+  }
+
+  // Sample (n - 1) variance; a single value has no spread
+  private sampleVariance(values: number[]): number {
+    if (values.length < 2) return 0
+    const mean = values.reduce((s, v) => s + v, 0) / values.length
+    return values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1)
+  }
+
+  // Most frequent value; ties go to the smallest
+  private computeMode(values: number[]): number {
+    const counts = new Map<number, number>()
+    let mode = 0
+    let best = 0
+    for (const value of values) {
+      const count = (counts.get(value) ?? 0) + 1
+      counts.set(value, count)
+      if (count > best || (count === best && value < mode)) {
+        mode = value
+        best = count
+      }
+    }
+    return mode
+  }
+
+  // First or last non-empty value, by the order column's keys when given (row order otherwise)
+  private pickByOrder(values: unknown[], orderKeys: unknown[] | undefined, last: boolean): unknown {
+    let picked: unknown = null
+    let pickedKey: number | string | null = null
+    values.forEach((value, i) => {
+      if (value == null || value === '') return
+      const key = orderKeys ? this.toOrderKey(orderKeys[i]) : i
+      if (key === null) return
+      const cmp = pickedKey === null ? 0 : this.compareOrderKeys(key, pickedKey)
+      // Ties keep the earlier row for 'first' and the later row for 'last'
+      if (pickedKey === null || (last ? cmp >= 0 : cmp < 0)) {
+        picked = value
+        pickedKey = key
+      }
+    })
+    return picked
+  }
+
+  private toOrderKey(raw: unknown): number | string | null {
+    if (raw == null || raw === '') return null
+    if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null
+    if (raw instanceof Date) return raw.getTime()
+    const text = String(raw).trim()
+    const numeric = Number(text)
+    if (text !== '' && Number.isFinite(numeric)) return numeric
+    const date = parseDateFlexible(text)
+    return date ? date.getTime() : text
+  }
+
+  // Numbers (and dates) sort before text
+  private compareOrderKeys(a: number | string, b: number | string): number {
+    if (typeof a === 'number' && typeof b === 'number') return a - b
+    if (typeof a === 'number') return -1
+    if (typeof b === 'number') return 1
+    return a.localeCompare(b)
+  }
+
   generateColors(count: number): string[] {
-    const base = [
-      '#3b82f6',
-      '#10b981',
-      '#f59e0b',
-      '#ef4444',
-      '#8b5cf6',
-      '#22c55e',
-      '#14b8a6',
-      '#f97316',
-      '#eab308',
-      '#06b6d4',
-    ]
+    const base = getPalette('default').colors
     const colors: string[] = []
     for (let i = 0; i < count; i++) {
       colors.push(base[i % base.length])
@@ -1,4 +1,5 @@
 import { ChartConfig, ChartData } from '@/types/chart'
+import { renderChartSVG } from '@/utils/chartSvg'
 
 export class ChartExportService {
   exportToPNG(chartElement: HTMLCanvasElement, title: string): void {
@@ -8,10 +9,16 @@ export class ChartExportService {
     link.click()
   }
 
-  // Placeholder for SVG export. Chart.js renders canvas by default; SVG export would require custom rendering.
-  exportToSVG(_chartData: ChartData, _config: ChartConfig): void {
-    // Not implemented in this version
-    throw new Error('SVG export is not implemented')
+  // Chart.js only draws to canvas, so the SVG is rendered separately from the prepared chart data
+  exportToSVG(chartData: ChartData, config: ChartConfig): void {
+    const svg = renderChartSVG(chartData, config)
+    const blob = new Blob([svg], { type: 'image/svg+xml' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.download = `${config.title}.svg`
+    link.href = url
+    link.click()
+    URL.revokeObjectURL(url)
   }
 
   exportChartData(chartData: ChartData, title: string): void {
@@ -27,13 +34,49 @@ export class ChartExportService {
 
   private convertToCSV(chartData: ChartData): string {
     const rows: string[] = []
+    // Scatter data has no shared labels; write one row per point instead
+    if (chartData.labels.length === 0) {
+      rows.push('Series,X,Y')
+      for (const d of chartData.datasets) {
+        for (const point of d.data) {
+          if (point && typeof point === 'object' && !Array.isArray(point)) {
+            rows.push([JSON.stringify(d.label), point.x, point.y].join(','))
+          }
+        }
+      }
+      return rows.join('\n')
+    }
+    // Box plot and violin datasets are drawing aids; the summary statistics are the data
+    if (chartData.boxPlots) {
+      rows.push('Label,Count,Min,Q1,Median,Q3,Max,Lower Whisker,Upper Whisker,Outliers')
+      chartData.boxPlots.forEach((stats, i) => {
+        rows.push(
+          [
+            JSON.stringify(chartData.labels[i] ?? ''),
+            stats.count,
+            stats.min,
+            stats.q1,
+            stats.median,
+            stats.q3,
+            stats.max,
+            stats.lowerWhisker,
+            stats.upperWhisker,
+            JSON.stringify(stats.outliers.join(' ')),
+          ].join(','),
+        )
+      })
+      return rows.join('\n')
+    }
     const header = ['Label', ...chartData.datasets.map((d) => d.label)].join(',')
     rows.push(header)
     const len = chartData.labels.length
     for (let i = 0; i < len; i++) {
       const row = [
         JSON.stringify(chartData.labels[i] ?? ''),
-        ...chartData.datasets.map((d) => String(d.data[i] ?? '')),
+        ...chartData.datasets.map((d) => {
+          const value = d.data[i]
+          return typeof value === 'object' && value !== null ? '' : String(value ?? '')
+        }),
       ].join(',')
       rows.push(row)
     }
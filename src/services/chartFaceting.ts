@@ -0,0 +1,192 @@
+import {
+  ChartAxisBounds,
+  ChartConfig,
+  ChartData,
+  ChartPoint,
+  FacetedChartData,
+  FacetPanel,
+} from '@/types/chart'
+import { CellValue, ColumnInfo, DataMatrix } from '@/types/excel'
+import { DEFAULT_MAX_FACETS } from '@/utils/chartConfig'
+import { chartDataProcessor } from '@/services/chartDataProcessor'
+import { CategoryColorScale } from '@/services/categoryColors'
+
+type Axis = 'x' | 'y'
+
+interface FacetRows {
+  value: string
+  rows: DataMatrix
+}
+
+// Splits the rows behind a chart by a categorical column and prepares one chart per value. Every
+// panel gets the label order and histogram bins of the chart over all rows, plus shared value
+// ranges, so the panels can be read side by side
+export class ChartFacetingService {
+  prepareFacets(
+    data: DataMatrix,
+    config: ChartConfig,
+    columnInfo: ColumnInfo[],
+    colors: CategoryColorScale = new CategoryColorScale(),
+  ): FacetedChartData {
+    const facetColumn = columnInfo.find((c) => c.name === config.facetColumn)
+    if (!facetColumn) throw new Error(`Column not found: ${config.facetColumn}`)
+
+    const base: ChartConfig = { ...config, facetColumn: undefined, maxFacets: undefined }
+    const overall = chartDataProcessor.prepareChartData(data, base, columnInfo, colors)
+    const panelConfig: ChartConfig =
+      config.type === 'histogram' && overall.ranges
+        ? { ...base, binMethod: 'custom', numericRanges: overall.ranges }
+        : base
+    const alignLabels = config.type === 'bar' || config.type === 'line'
+
+    const panels: FacetPanel[] = this.splitRows(
+      data,
+      facetColumn.index,
+      config.maxFacets ?? DEFAULT_MAX_FACETS,
+    ).map(({ value, rows }) => {
+      try {
+        const prepared = chartDataProcessor.prepareChartData(rows, panelConfig, columnInfo, colors)
+        return {
+          value,
+          rowCount: rows.length,
+          chartData: alignLabels ? this.alignLabels(prepared, overall.labels) : prepared,
+          error: null,
+        }
+      } catch (error) {
+        return { value, rowCount: rows.length, chartData: null, error: error as Error }
+      }
+    })
+
+    return { overall, panels, bounds: this.sharedBounds(panels, config) }
+  }
+
+  // Groups rows by facet value, largest first; past the cap the smallest groups become "Others"
+  splitRows(data: DataMatrix, facetIndex: number, maxFacets: number): FacetRows[] {
+    const groups = new Map<string, DataMatrix>()
+    for (const row of data) {
+      if (!row) continue
+      const value = this.facetValue(row[facetIndex])
+      const group = groups.get(value)
+      if (group) group.push(row)
+      else groups.set(value, [row])
+    }
+
+    const facets = Array.from(groups, ([value, rows]) => ({ value, rows })).sort(
+      (a, b) => b.rows.length - a.rows.length || a.value.localeCompare(b.value),
+    )
+    const cap = Math.max(2, maxFacets)
+    if (facets.length <= cap) return facets
+    const rest = facets.slice(cap - 1)
+    return [...facets.slice(0, cap - 1), { value: 'Others', rows: rest.flatMap((f) => f.rows) }]
+  }
+
+  private facetValue(raw: CellValue): string {
+    return raw == null || String(raw).trim() === '' ? 'Unknown' : String(raw).trim()
+  }
+
+  // Puts a panel's categories in the overall chart's order; categories the panel lacks stay empty
+  private alignLabels(chartData: ChartData, labels: string[]): ChartData {
+    const order = [...labels, ...chartData.labels.filter((l) => !labels.includes(l))]
+    const positions = order.map((label) => chartData.labels.indexOf(label))
+    const pick = <T>(values: T[], empty: T): T[] =>
+      positions.map((p) => (p === -1 ? empty : values[p]))
+
+    return {
+      ...chartData,
+      labels: order,
+      datasets: chartData.datasets.map((d) => ({
+        ...d,
+        data: pick(d.data, null),
+        backgroundColor: Array.isArray(d.backgroundColor)
+          ? pick(d.backgroundColor, d.backgroundColor[0])
+          : d.backgroundColor,
+        borderColor: Array.isArray(d.borderColor)
+          ? pick(d.borderColor, d.borderColor[0])
+          : d.borderColor,
+      })),
+      segmentRows: chartData.segmentRows ? pick(chartData.segmentRows, []) : undefined,
+      seriesRows: chartData.seriesRows?.map((rows) => pick(rows, [])),
+    }
+  }
+
+  private sharedBounds(panels: FacetPanel[], config: ChartConfig): ChartAxisBounds {
+    const values: Record<Axis, number[]> = { x: [], y: [] }
+    for (const panel of panels) {
+      if (!panel.chartData) continue
+      const extent = this.valueExtent(panel.chartData, config)
+      values.x.push(...extent.x)
+      values.y.push(...extent.y)
+    }
+
+    const bounds: ChartAxisBounds = {}
+    for (const axis of ['x', 'y'] as const) {
+      if (values[axis].length === 0) continue
+      const min = Math.min(...values[axis])
+      const max = Math.max(...values[axis])
+      if (min < max) bounds[axis] = { min, max }
+    }
+    return bounds
+  }
+
+  // Values each numeric axis has to show; category axes and fixed 100% axes have none
+  private valueExtent(chartData: ChartData, config: ChartConfig): Record<Axis, number[]> {
+    const extent: Record<Axis, number[]> = { x: [], y: [] }
+    if (['pie', 'doughnut', 'treemap', 'sunburst'].includes(config.type)) return extent
+
+    const points = chartData.datasets.flatMap((d) =>
+      d.data.filter(
+        (v): v is ChartPoint => typeof v === 'object' && v !== null && !Array.isArray(v),
+      ),
+    )
+    if (config.type === 'scatter') {
+      extent.x.push(...points.map((p) => p.x))
+      extent.y.push(...points.map((p) => p.y))
+    } else if (config.type === 'violin') {
+      extent.y.push(...points.map((p) => p.y))
+    } else {
+      const horizontal =
+        (config.type === 'bar' && config.orientation === 'horizontal') || config.type === 'funnel'
+      const axis: Axis = horizontal ? 'x' : 'y'
+      const mode =
+        config.type === 'bar' && config.seriesColumn ? (config.barMode ?? 'grouped') : 'grouped'
+      if (mode === 'percent') return extent
+      if (['bar', 'histogram', 'waterfall'].includes(config.type)) extent[axis].push(0)
+      if (mode === 'stacked') {
+        chartData.labels.forEach((_, i) => {
+          let positive = 0
+          let negative = 0
+          for (const d of chartData.datasets) {
+            const v = d.data[i]
+            if (typeof v !== 'number') continue
+            if (v >= 0) positive += v
+            else negative += v
+          }
+          extent[axis].push(positive, negative)
+        })
+      } else {
+        for (const d of chartData.datasets) {
+          for (const v of d.data) {
+            if (typeof v === 'number') extent[axis].push(v)
+            else if (Array.isArray(v)) extent[axis].push(v[0], v[1])
+          }
+        }
+        extent[axis].push(...points.map((p) => p.y))
+      }
+    }
+
+    // Keep reference lines, bands and notes in view
+    for (const a of chartData.annotations ?? []) {
+      if (a.kind === 'note') {
+        extent.x.push(a.x)
+        extent.y.push(a.y)
+      } else if (a.kind === 'line') extent[a.axis].push(a.value)
+      else extent[a.axis].push(a.from, a.to)
+    }
+    // Annotations on a category axis are label indices, not values
+    const categoryAxis = chartDataProcessor.categoryAxis(config)
+    if (categoryAxis) extent[categoryAxis] = []
+    return extent
+  }
+}
+
+export const chartFacetingService = new ChartFacetingService()
@@ -1,33 +1,176 @@
+import { differenceInCalendarDays } from 'date-fns'
 import { ColumnInfo, DataMatrix } from '@/types/excel'
-import { AggregationType, ChartSuggestion, ChartType } from '@/types/chart'
+import {
+  AggregationType,
+  ChartSuggestion,
+  ChartType,
+  DateBucket,
+  HistogramBinMethod,
+} from '@/types/chart'
+import { computeCorrelationMatrix } from '@/workers/correlationCore'
+import { coerceNumber, isNullLike, parseDateFlexible } from '@/utils/dataTypes'
 
+// Words in a column name that mark it as a funnel stage
+const STAGE_WORDS = ['stage', 'step', 'funnel', 'phase', 'pipeline', 'status']
+// Words in a column name that mark it as the lines of a P&L or another bridge of changes
+const PNL_LINE_WORDS = ['pnl', 'item', 'account', 'ledger', 'bridge', 'driver']
+// Words in a numeric column name that mark it as a signed change rather than a level
+const CHANGE_WORDS = ['amount', 'change', 'delta', 'variance', 'impact', 'net', 'movement']
+// Words in a numeric column name that mark it as a count of people or events at a stage
+const COUNT_WORDS = ['count', 'users', 'visitors', 'leads', 'sessions', 'customers', 'deals']
+
+// Stages and P&L lines stop reading as such past this many distinct values
+const MAX_STAGES = 12
+const MAX_PNL_LINES = 30
+
+// Words in a column name that mark it as a key rather than a quantity worth charting
+const ID_WORDS = ['id', 'key', 'code', 'zip', 'postcode', 'phone']
+
+// Rows read for the signals ColumnInfo doesn't carry (blanks, skew, correlation). They are taken
+// at an even stride, so a sheet sorted by one column still gives a spread of its values
+const SAMPLE_SIZE = 2000
+// Numeric columns compared pair by pair for scatter plots; the pairs grow quadratically
+const MAX_CORRELATED_COLUMNS = 12
+const STRONG_CORRELATION = 0.5
+const MAX_SCATTER_PLOTS = 3
+// Fewer sampled pairs than this give a correlation too noisy to suggest on
+const MIN_CORRELATION_PAIRS = 10
+// |skewness| from here on reads as a long tail
+const SKEWED = 1
+// Categories a bar chart still reads well with; pies stop being readable well before that
+const MAX_BAR_CATEGORIES = 50
+const MAX_PIE_SLICES = 8
+// Numbers with fewer distinct values than this are better counted than binned
+const MIN_HISTOGRAM_VALUES = 10
+const MAX_LINE_CHARTS = 2
+// Share of blank cells from which a suggestion mentions them
+const NOTABLE_BLANK_RATIO = 0.1
+const MAX_SUGGESTIONS = 15
+
+const BUCKET_ADJECTIVES: Record<DateBucket, string> = {
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+  quarter: 'quarterly',
+  year: 'yearly',
+}
+
+// What the sample says about a column beyond its ColumnInfo
+interface ColumnSignals {
+  blankRatio: number // Share of sampled cells that are blank
+  skewness: number | null // Numeric columns only, and only with enough spread to measure
+}
+
+// Ranks bar, line, scatter, histogram and pie suggestions (plus funnels and waterfalls where the
+// column names call for them) from ColumnInfo statistics and a bounded sample of the rows, so the
+// cost stays flat however many rows the sheet has
 export class ChartSuggestionEngine {
-  suggestCharts(columns: ColumnInfo[], _filteredData: DataMatrix): ChartSuggestion[] {
-    const suggestions: ChartSuggestion[] = []
+  suggestCharts(columns: ColumnInfo[], filteredData: DataMatrix): ChartSuggestion[] {
+    const sample = this.sampleRows(filteredData)
+    const signals = new Map(columns.map((c) => [c.name, this.columnSignals(c, sample)]))
+    const blankRatio = (name?: string) => (name ? (signals.get(name)?.blankRatio ?? 0) : 0)
 
     const categoricalColumns = columns.filter((c) => c.type === 'string' || c.type === 'boolean')
+    const dateColumns = columns.filter((c) => c.type === 'date')
+    // Measures are the numeric columns that aren't keys, the most complete first
+    const measures = columns
+      .filter((c) => c.type === 'number' && !this.nameHas(c.name, ID_WORDS))
+      .sort((a, b) => blankRatio(a.name) - blankRatio(b.name))
     const numericColumns = columns.filter((c) => c.type === 'number')
-    const _dateColumns = columns.filter((c) => c.type === 'date')
 
-    // Focus on pie charts only for categorical data and numeric ranges
-    suggestions.push(...this.suggestCategoricalCharts(categoricalColumns))
-    suggestions.push(...this.suggestNumericRangeCharts(numericColumns))
+    const suggestions: ChartSuggestion[] = [
+      ...this.suggestCategoricalCharts(categoricalColumns),
+      ...this.suggestNumericRangeCharts(measures),
+      ...this.suggestBarCharts(categoricalColumns, measures),
+      ...this.suggestLineCharts(dateColumns, measures, sample),
+      ...this.suggestScatterPlots(measures, sample),
+      ...this.suggestHistograms(measures, signals),
+      // Funnels and waterfalls only where the column names say so
+      ...this.suggestFunnelCharts(categoricalColumns, numericColumns),
+      ...this.suggestWaterfallCharts(categoricalColumns, numericColumns),
+    ]
 
-    // Filter to only pie charts since that's what we support
-    const pieCharts = suggestions.filter((s) => s.type === 'pie')
+    return suggestions
+      .map((suggestion) => {
+        // Blank cells drop out of the chart; the more of them, the less the chart shows
+        const blanks = Math.max(
+          blankRatio(suggestion.dataColumn),
+          blankRatio(suggestion.labelColumn),
+        )
+        const blankColumn =
+          blankRatio(suggestion.dataColumn) >= blankRatio(suggestion.labelColumn)
+            ? suggestion.dataColumn
+            : suggestion.labelColumn
+        return {
+          ...suggestion,
+          confidence: suggestion.confidence * (1 - blanks / 2),
+          reason:
+            blanks >= NOTABLE_BLANK_RATIO
+              ? `${suggestion.reason}. ${Math.round(blanks * 100)}% of ${blankColumn} is blank and left out`
+              : suggestion.reason,
+        }
+      })
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_SUGGESTIONS)
+  }
+
+  // Every row up to SAMPLE_SIZE, then every n-th
+  private sampleRows(data: DataMatrix): DataMatrix {
+    if (data.length <= SAMPLE_SIZE) return data
+    const stride = data.length / SAMPLE_SIZE
+    return Array.from({ length: SAMPLE_SIZE }, (_, i) => data[Math.floor(i * stride)])
+  }
+
+  private columnSignals(column: ColumnInfo, sample: DataMatrix): ColumnSignals {
+    let blanks = 0
+    const numbers: number[] = []
+    for (const row of sample) {
+      const value = row?.[column.index]
+      if (isNullLike(value)) {
+        blanks++
+        continue
+      }
+      if (column.type !== 'number') continue
+      const number = coerceNumber(value)
+      if (number !== null) numbers.push(number)
+    }
+    return {
+      blankRatio: sample.length ? blanks / sample.length : 0,
+      skewness: column.type === 'number' ? this.skewness(numbers) : null,
+    }
+  }
 
-    return pieCharts.sort((a, b) => b.confidence - a.confidence)
+  // Sample skewness: 0 for a symmetric spread, positive when the long tail is on the high side
+  private skewness(values: number[]): number | null {
+    const n = values.length
+    if (n < 3) return null
+    const mean = values.reduce((sum, v) => sum + v, 0) / n
+    let m2 = 0
+    let m3 = 0
+    for (const v of values) {
+      const d = v - mean
+      m2 += d * d
+      m3 += d * d * d
+    }
+    m2 /= n
+    m3 /= n
+    return m2 === 0 ? null : m3 / Math.pow(m2, 1.5)
   }
 
   private suggestCategoricalCharts(columns: ColumnInfo[]): ChartSuggestion[] {
-    return columns.map((column) => ({
-      type: 'pie',
-      title: `Distribution of ${column.name}`,
-      dataColumn: column.name,
-      aggregation: 'count',
-      confidence: this.calculateConfidence(column, 'pie'),
-      reason: 'Categorical data is suitable for pie/doughnut charts',
-    }))
+    return columns
+      .filter((column) => column.uniqueCount >= 2 && column.uniqueCount <= MAX_BAR_CATEGORIES)
+      .map((column) => ({
+        type: 'pie' as ChartType,
+        title: `Distribution of ${column.name}`,
+        dataColumn: column.name,
+        aggregation: 'count' as AggregationType,
+        confidence: this.calculateConfidence(column, 'pie'),
+        reason:
+          column.uniqueCount <= MAX_PIE_SLICES
+            ? `${column.name} has ${column.uniqueCount} categories, few enough to compare as slices`
+            : `${column.name} has ${column.uniqueCount} categories, more than a pie shows clearly`,
+      }))
   }
 
   private suggestNumericRangeCharts(columns: ColumnInfo[]): ChartSuggestion[] {
@@ -43,6 +186,199 @@ export class ChartSuggestionEngine {
       }))
   }
 
+  // One bar per category: the total of the most complete measure, or a row count without one
+  private suggestBarCharts(categorical: ColumnInfo[], measures: ColumnInfo[]): ChartSuggestion[] {
+    const measure = measures[0]
+    return categorical
+      .filter((column) => column.uniqueCount >= 2 && column.uniqueCount <= MAX_BAR_CATEGORIES)
+      .map((column) => {
+        const categories = `${column.name} has ${column.uniqueCount} categories${
+          column.uniqueCount > MAX_PIE_SLICES ? ', too many for pie slices' : ''
+        }`
+        return {
+          type: 'bar' as ChartType,
+          title: measure ? `${measure.name} by ${column.name}` : `Rows by ${column.name}`,
+          dataColumn: measure ? measure.name : column.name,
+          labelColumn: measure ? column.name : undefined,
+          aggregation: (measure ? 'sum' : 'count') as AggregationType,
+          confidence: 0.6 + (column.uniqueCount > MAX_PIE_SLICES ? 0.3 : 0.15),
+          reason: measure
+            ? `${categories}; bars compare the ${measure.name} total of each`
+            : `${categories}; bars compare how many rows each has`,
+        }
+      })
+  }
+
+  // A measure totalled over each date column, bucketed to suit how long the dates run
+  private suggestLineCharts(
+    dates: ColumnInfo[],
+    measures: ColumnInfo[],
+    sample: DataMatrix,
+  ): ChartSuggestion[] {
+    const measure = measures[0]
+    if (!measure) return []
+    return dates
+      .filter((column) => column.uniqueCount >= 2)
+      .slice(0, MAX_LINE_CHARTS)
+      .flatMap((column) => {
+        const days = this.dateSpanDays(column, sample)
+        if (days === null) return []
+        const bucket = this.dateBucketFor(days)
+        return [
+          {
+            type: 'line' as ChartType,
+            title: `${measure.name} over ${column.name}`,
+            dataColumn: measure.name,
+            labelColumn: column.name,
+            aggregation: 'sum' as AggregationType,
+            dateBucket: bucket,
+            confidence: column.uniqueCount >= 10 ? 0.95 : 0.85,
+            reason: `${column.name} covers ${this.describeSpan(days)}, so ${BUCKET_ADJECTIVES[bucket]} totals of ${measure.name} show the trend`,
+          },
+        ]
+      })
+  }
+
+  // Days from the first date to the last, from the column statistics or else the sample
+  private dateSpanDays(column: ColumnInfo, sample: DataMatrix): number | null {
+    let min = parseDateFlexible(column.statistics?.min)
+    let max = parseDateFlexible(column.statistics?.max)
+    if (!min || !max) {
+      for (const row of sample) {
+        const date = parseDateFlexible(row?.[column.index])
+        if (!date) continue
+        if (!min || date < min) min = date
+        if (!max || date > max) max = date
+      }
+    }
+    return min && max ? differenceInCalendarDays(max, min) : null
+  }
+
+  private dateBucketFor(days: number): DateBucket {
+    if (days <= 31) return 'day'
+    if (days <= 180) return 'week'
+    if (days <= 3 * 365) return 'month'
+    if (days <= 10 * 365) return 'quarter'
+    return 'year'
+  }
+
+  private describeSpan(days: number): string {
+    if (days < 90) return `${days} ${days === 1 ? 'day' : 'days'}`
+    if (days < 730) return `about ${Math.round(days / 30)} months`
+    return `about ${Math.round(days / 365)} years`
+  }
+
+  // The most strongly correlated pairs of measures in the sample, the earlier column on the x-axis
+  private suggestScatterPlots(measures: ColumnInfo[], sample: DataMatrix): ChartSuggestion[] {
+    const columns = measures
+      .filter((column) => column.uniqueCount > 2)
+      .slice(0, MAX_CORRELATED_COLUMNS)
+      .sort((a, b) => a.index - b.index)
+    if (columns.length < 2) return []
+
+    const matrix = computeCorrelationMatrix(sample, columns)
+    const pairs: { x: ColumnInfo; y: ColumnInfo; r: number; count: number }[] = []
+    for (let i = 0; i < columns.length; i++) {
+      for (let j = i + 1; j < columns.length; j++) {
+        const r = matrix.pearson[i][j]
+        const count = matrix.counts[i][j]
+        if (r === null || count < MIN_CORRELATION_PAIRS || Math.abs(r) < STRONG_CORRELATION)
+          continue
+        pairs.push({ x: columns[i], y: columns[j], r, count })
+      }
+    }
+
+    return pairs
+      .sort((a, b) => Math.abs(b.r) - Math.abs(a.r))
+      .slice(0, MAX_SCATTER_PLOTS)
+      .map(({ x, y, r, count }) => ({
+        type: 'scatter' as ChartType,
+        title: `${y.name} vs ${x.name}`,
+        dataColumn: y.name,
+        labelColumn: x.name,
+        aggregation: 'count' as AggregationType,
+        showTrendline: true,
+        confidence: 0.5 + 0.45 * Math.abs(r),
+        reason: `${Math.abs(r) >= 0.8 ? 'Strong' : 'Moderate'} ${r > 0 ? 'positive' : 'negative'} correlation between ${x.name} and ${y.name} (r = ${r.toFixed(2)} over ${count} sampled rows)`,
+      }))
+  }
+
+  // Measures with enough distinct values to bin; skewed ones get bins sized to the bulk of the values
+  private suggestHistograms(
+    measures: ColumnInfo[],
+    signals: Map<string, ColumnSignals>,
+  ): ChartSuggestion[] {
+    return measures
+      .filter((column) => column.uniqueCount >= MIN_HISTOGRAM_VALUES)
+      .map((column) => {
+        const skewness = signals.get(column.name)?.skewness ?? null
+        const skewed = skewness !== null && Math.abs(skewness) >= SKEWED
+        return {
+          type: 'histogram' as ChartType,
+          title: `Distribution of ${column.name}`,
+          dataColumn: column.name,
+          aggregation: 'count' as AggregationType,
+          binMethod: (skewed ? 'freedman-diaconis' : 'sturges') as HistogramBinMethod,
+          confidence: skewed ? 0.8 : 0.7,
+          reason: skewed
+            ? `${column.name} is skewed with a long ${skewness! > 0 ? 'high' : 'low'} tail (skewness ${skewness!.toFixed(1)}); a histogram shows it, with bins sized to the bulk of the values`
+            : `${column.name} has ${column.uniqueCount} distinct values; a histogram shows how they spread`,
+        }
+      })
+  }
+
+  // A stage column counted row by row, or summed over a count column when there is one
+  private suggestFunnelCharts(categorical: ColumnInfo[], numeric: ColumnInfo[]): ChartSuggestion[] {
+    const countColumn = numeric.find((c) => this.nameHas(c.name, COUNT_WORDS))
+    return categorical
+      .filter((column) => this.nameHas(column.name, STAGE_WORDS))
+      .filter((column) => column.uniqueCount >= 2 && column.uniqueCount <= MAX_STAGES)
+      .map((column) => ({
+        type: 'funnel' as ChartType,
+        title: countColumn ? `${countColumn.name} by ${column.name}` : `${column.name} Funnel`,
+        dataColumn: countColumn ? countColumn.name : column.name,
+        labelColumn: countColumn ? column.name : undefined,
+        aggregation: (countColumn ? 'sum' : 'count') as AggregationType,
+        confidence: this.calculateConfidence(column, 'funnel'),
+        reason: `"${column.name}" looks like a sequence of stages; a funnel shows the drop-off between them`,
+      }))
+  }
+
+  // P&L lines in the order the sheet lists them, against a column of signed amounts
+  private suggestWaterfallCharts(
+    categorical: ColumnInfo[],
+    numeric: ColumnInfo[],
+  ): ChartSuggestion[] {
+    // With a single numeric column there is nothing else the amounts could be
+    const amountColumn =
+      numeric.find((c) => this.nameHas(c.name, CHANGE_WORDS)) ??
+      (numeric.length === 1 ? numeric[0] : undefined)
+    if (!amountColumn) return []
+    return categorical
+      .filter((column) => this.nameHas(column.name, PNL_LINE_WORDS))
+      .filter((column) => column.uniqueCount >= 2 && column.uniqueCount <= MAX_PNL_LINES)
+      .map((column) => ({
+        type: 'waterfall' as ChartType,
+        title: `${amountColumn.name} by ${column.name}`,
+        dataColumn: amountColumn.name,
+        labelColumn: column.name,
+        aggregation: 'sum' as AggregationType,
+        sortBy: 'source' as const,
+        confidence: this.calculateConfidence(column, 'waterfall'),
+        reason: `"${column.name}" looks like P&L lines; a waterfall shows how each one moves the total`,
+      }))
+  }
+
+  // Whole-word match, so "Stage" and "deal_stage" count but "Backstage" does not
+  private nameHas(name: string, words: string[]): boolean {
+    const tokens = name
+      .replace(/p&l/gi, 'pnl')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+    return tokens.some((token) => words.includes(token) || words.includes(token.replace(/s$/, '')))
+  }
+
   private isGoodForPieChart(column: ColumnInfo): boolean {
     // Check if numeric column is suitable for pie chart
     // Good for pie: limited unique values, or can be grouped into ranges
@@ -65,7 +401,6 @@ export class ChartSuggestionEngine {
     let confidence = base
 
     const uniqueCount = column.uniqueCount || 0
-    const hasNullPenalty = column.hasNulls ? -0.05 : 0
 
     if (chart === 'pie') {
       // For pie charts, moderate number of categories is better
@@ -107,7 +442,12 @@ export class ChartSuggestionEngine {
       }
     }
 
-    return Math.max(0, Math.min(1, confidence + hasNullPenalty))
+    if (chart === 'funnel' || chart === 'waterfall') {
+      // Names already matched; a handful of distinct stages or lines reads best
+      confidence += uniqueCount <= 8 ? 0.25 : 0.15
+    }
+
+    return Math.max(0, Math.min(1, confidence))
   }
 }
 
@@ -0,0 +1,225 @@
+import { v4 as uuidv4 } from 'uuid'
+import {
+  ChartAnnotation,
+  ChartConfig,
+  ChartTemplate,
+  ColumnMatchMethod,
+  ReferenceValue,
+  TemplateColumn,
+  TemplateColumnMatch,
+} from '@/types/chart'
+import { ColumnInfo } from '@/types/excel'
+import { LocalStorageManager } from '@/utils/localStorage'
+import { fuzzyMatch } from '@/utils/columnSearch'
+
+// Stored in LocalStorageManager's chart configs, under the template's id and name
+interface StoredTemplate {
+  scope: ChartTemplate['scope']
+  charts: ChartConfig[]
+  columns: TemplateColumn[]
+}
+
+// Saves charts as named templates and rebuilds them on another file, matching the columns they
+// read by name, then by a similar name, then by type where only one column of that type is left
+export class ChartTemplateService {
+  getTemplates(): ChartTemplate[] {
+    return LocalStorageManager.getChartConfigs()
+      .filter((stored) => Array.isArray((stored.config as StoredTemplate | null)?.charts))
+      .map((stored) => {
+        const { scope, charts, columns } = stored.config as StoredTemplate
+        return {
+          id: stored.id,
+          name: stored.name,
+          scope,
+          charts,
+          columns,
+          createdAt: stored.createdAt,
+        }
+      })
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  // Saving under an existing name replaces that template
+  saveTemplate(name: string, charts: ChartConfig[], columnInfo: ColumnInfo[]): ChartTemplate {
+    const trimmed = name.trim()
+    if (!trimmed) throw new Error('Enter a name for the template.')
+    if (charts.length === 0) throw new Error('Add a chart before saving a template.')
+
+    const existing = this.getTemplates().find((t) => t.name === trimmed)
+    const template: ChartTemplate = {
+      id: existing?.id ?? uuidv4(),
+      name: trimmed,
+      scope: charts.length === 1 ? 'chart' : 'dashboard',
+      charts,
+      columns: this.templateColumns(charts, columnInfo),
+      createdAt: new Date(),
+    }
+    const stored: StoredTemplate = {
+      scope: template.scope,
+      charts: template.charts,
+      columns: template.columns,
+    }
+    LocalStorageManager.saveChartConfig({
+      id: template.id,
+      name: template.name,
+      type: template.scope === 'dashboard' ? 'dashboard' : charts[0].type,
+      config: stored,
+      createdAt: template.createdAt,
+    })
+    return template
+  }
+
+  removeTemplate(id: string): void {
+    LocalStorageManager.removeChartConfig(id)
+  }
+
+  // Each template column paired with its best match in the file; a column is used at most once
+  matchColumns(template: ChartTemplate, columnInfo: ColumnInfo[]): TemplateColumnMatch[] {
+    const used = new Set<string>()
+    const matches = new Map<string, { match: string; method: ColumnMatchMethod }>()
+    const claim = (
+      column: TemplateColumn,
+      match: ColumnInfo | undefined,
+      method: ColumnMatchMethod,
+    ) => {
+      if (!match) return
+      used.add(match.name)
+      matches.set(column.name, { match: match.name, method })
+    }
+    const unmatched = () => template.columns.filter((c) => !matches.has(c.name))
+    const free = (column: TemplateColumn) =>
+      columnInfo.filter((c) => !used.has(c.name) && c.type === column.type)
+
+    // Exact names first, so a similar name can't take a column another one matches exactly
+    for (const column of template.columns) {
+      claim(
+        column,
+        columnInfo.find((c) => !used.has(c.name) && normalize(c.name) === normalize(column.name)),
+        'name',
+      )
+    }
+    for (const column of unmatched()) {
+      claim(
+        column,
+        free(column).find((c) => isSimilarName(c.name, column.name)),
+        'fuzzy',
+      )
+    }
+    for (const column of unmatched()) {
+      const candidates = free(column)
+      if (candidates.length === 1) claim(column, candidates[0], 'type')
+    }
+
+    return template.columns.map((column) => {
+      const found = matches.get(column.name)
+      return { column, match: found?.match ?? null, method: found?.method ?? null }
+    })
+  }
+
+  // The template's charts with fresh ids, reading the mapped columns of the current file
+  applyTemplate(template: ChartTemplate, mapping: Record<string, string>): ChartConfig[] {
+    const missing = template.columns.filter((c) => !mapping[c.name]).map((c) => c.name)
+    if (missing.length > 0) {
+      throw new Error(`Choose a column for ${missing.join(', ')} before applying the template.`)
+    }
+
+    const rename = (name: string) => mapping[name] ?? name
+    const optional = (name?: string) => (name === undefined ? undefined : rename(name))
+    return template.charts.map((chart) => ({
+      ...chart,
+      id: uuidv4(),
+      title: this.renameInTitle(chart.title, chart, mapping),
+      dataColumn: rename(chart.dataColumn),
+      labelColumn: optional(chart.labelColumn),
+      orderColumn: optional(chart.orderColumn),
+      weightColumn: optional(chart.weightColumn),
+      seriesColumn: optional(chart.seriesColumn),
+      colorColumn: optional(chart.colorColumn),
+      facetColumn: optional(chart.facetColumn),
+      hierarchyColumns: chart.hierarchyColumns?.map(rename),
+      annotations: chart.annotations?.map((annotation) => renameAnnotation(annotation, optional)),
+      comparison: chart.comparison && {
+        ...chart.comparison,
+        dateColumn: optional(chart.comparison.dateColumn),
+      },
+    }))
+  }
+
+  // Every column the charts read, with its type in the file they were built on
+  private templateColumns(charts: ChartConfig[], columnInfo: ColumnInfo[]): TemplateColumn[] {
+    const names = new Set(charts.flatMap((chart) => chartColumnNames(chart)))
+    return columnInfo
+      .filter((column) => names.has(column.name))
+      .map((column) => ({ name: column.name, type: column.type }))
+  }
+
+  // "Revenue by Region" follows Revenue when it maps to Sales; titles the user wrote stay as they are
+  private renameInTitle(
+    title: string,
+    chart: ChartConfig,
+    mapping: Record<string, string>,
+  ): string {
+    // Longest names first, all in one pass, so Revenue -> Sales -> Units can't chain
+    const names = chartColumnNames(chart)
+      .filter((name) => mapping[name] && mapping[name] !== name)
+      .sort((a, b) => b.length - a.length)
+    if (names.length === 0) return title
+    const pattern = new RegExp(names.map(escapeRegex).join('|'), 'g')
+    return title.replace(pattern, (name) => mapping[name])
+  }
+}
+
+function chartColumnNames(chart: ChartConfig): string[] {
+  return [
+    chart.dataColumn,
+    chart.labelColumn,
+    chart.orderColumn,
+    chart.weightColumn,
+    chart.seriesColumn,
+    chart.colorColumn,
+    chart.facetColumn,
+    ...(chart.hierarchyColumns ?? []),
+    ...(chart.annotations ?? []).flatMap((a) => referenceValues(a).map((value) => value.column)),
+    chart.comparison?.dateColumn,
+  ].filter((name): name is string => Boolean(name))
+}
+
+// The values a reference line or band is placed at; notes sit at fixed positions
+function referenceValues(annotation: ChartAnnotation): ReferenceValue[] {
+  if (annotation.kind === 'line') return [annotation.value]
+  if (annotation.kind === 'band') return [annotation.from, annotation.to]
+  return []
+}
+
+// Statistics such as "mean of Revenue" follow their column to its match in the new file
+function renameAnnotation(
+  annotation: ChartAnnotation,
+  rename: (name?: string) => string | undefined,
+): ChartAnnotation {
+  const renameValue = (value: ReferenceValue): ReferenceValue =>
+    value.column === undefined ? value : { ...value, column: rename(value.column) }
+  if (annotation.kind === 'line') return { ...annotation, value: renameValue(annotation.value) }
+  if (annotation.kind === 'band') {
+    return { ...annotation, from: renameValue(annotation.from), to: renameValue(annotation.to) }
+  }
+  return annotation
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[_\s-]/g, '')
+}
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// "Revenue (USD)" for "Revenue", or a synonym such as "Cost" for "Price". Very short names
+// would be found inside too many others to count
+function isSimilarName(candidate: string, name: string): boolean {
+  const a = normalize(candidate)
+  const b = normalize(name)
+  const contained = Math.min(a.length, b.length) >= 3 && (a.includes(b) || b.includes(a))
+  return contained || fuzzyMatch(a, b)
+}
+
+export const chartTemplateService = new ChartTemplateService()
@@ -0,0 +1,70 @@
+import type { CorrelationMatrix } from '@/types/chart'
+import type { ColumnInfo, DataMatrix } from '@/types/excel'
+import { resolveWorkerUrl } from '@/utils/workerUrl'
+import { computeCorrelationMatrix, CorrelationColumn } from '@/workers/correlationCore'
+
+// Wider matrices stop fitting on screen and the pairwise work grows quadratically
+export const MAX_CORRELATION_COLUMNS = 40
+
+export class CorrelationService {
+  getNumericColumns(columnInfo: ColumnInfo[]): CorrelationColumn[] {
+    return columnInfo
+      .filter((col) => col.type === 'number')
+      .slice(0, MAX_CORRELATION_COLUMNS)
+      .map((col) => ({ name: col.name, index: col.index }))
+  }
+
+  computeMatrix(
+    rows: DataMatrix,
+    columnInfo: ColumnInfo[],
+    signal?: AbortSignal,
+  ): Promise<CorrelationMatrix> {
+    const columns = this.getNumericColumns(columnInfo)
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Correlation cancelled', 'AbortError'))
+        return
+      }
+
+      const workerUrl =
+        typeof Worker !== 'undefined' ? resolveWorkerUrl('../workers/correlation.worker.ts') : null
+      if (!workerUrl) {
+        // Fallback: run the same logic on the main thread after yielding to the UI
+        const timer = setTimeout(() => {
+          try {
+            resolve(computeCorrelationMatrix(rows, columns))
+          } catch (e) {
+            reject(e instanceof Error ? e : new Error('Failed to compute correlations'))
+          }
+        }, 0)
+        signal?.addEventListener('abort', () => {
+          clearTimeout(timer)
+          reject(new DOMException('Correlation cancelled', 'AbortError'))
+        })
+        return
+      }
+
+      const worker = new Worker(workerUrl, { type: 'module' })
+      worker.onmessage = (e: MessageEvent) => {
+        const payload = e.data
+        if (payload && payload.error) {
+          reject(new Error(String(payload.error)))
+        } else {
+          resolve(payload as CorrelationMatrix)
+        }
+        worker.terminate()
+      }
+      worker.onerror = (error) => {
+        worker.terminate()
+        reject(new Error(`Web Worker error: ${error.message}`))
+      }
+      signal?.addEventListener('abort', () => {
+        worker.terminate()
+        reject(new DOMException('Correlation cancelled', 'AbortError'))
+      })
+      worker.postMessage({ rows, columns })
+    })
+  }
+}
+
+export const correlationService = new CorrelationService()
@@ -0,0 +1,180 @@
+import type { NumericRange } from '@/types/chart'
+import {
+  CrossFilterSelection,
+  FilterConfig,
+  FilterValue,
+  RangeFilter,
+  SearchFilter,
+} from '@/types/filter'
+
+function sameBounds(a: NumericRange, b: NumericRange): boolean {
+  return (
+    a.min === b.min &&
+    a.max === b.max &&
+    a.includeMin === b.includeMin &&
+    a.includeMax === b.includeMax
+  )
+}
+
+export class CrossFilterService {
+  // Filter for the clicked segment's column; null-only filters never match a segment
+  findFilter(filters: FilterConfig[], selection: CrossFilterSelection): FilterConfig | undefined {
+    return filters.find((f) => f.column === selection.column && f.type !== 'null')
+  }
+
+  /**
+   * Updates that add the selection to the filter, or remove it when it's already applied.
+   * Returns null when the filter can't express the selection.
+   */
+  toggle(filter: FilterConfig, selection: CrossFilterSelection): Partial<FilterConfig> | null {
+    switch (filter.type) {
+      case 'select':
+        return selection.value !== undefined ? this.toggleSelect(filter, selection.value) : null
+      case 'range':
+        if (selection.range) return this.toggleBin(filter, selection.range)
+        return selection.value !== undefined ? this.togglePoint(filter, selection.value) : null
+      case 'boolean':
+        return selection.value !== undefined ? this.toggleBoolean(filter, selection.value) : null
+      case 'search':
+        return selection.value !== undefined ? this.toggleSearch(filter, selection.value) : null
+      default:
+        return null
+    }
+  }
+
+  // Whether the filter already holds the selection, so toggling it would take it away
+  isApplied(filter: FilterConfig, selection: CrossFilterSelection): boolean {
+    if (!filter.active) return false
+    const label = selection.value
+    switch (filter.type) {
+      case 'select':
+        return (filter.values as FilterValue[]).some(
+          (o) => o.selected && String(o.value).trim() === label,
+        )
+      case 'range': {
+        const range = filter.values as RangeFilter
+        if (selection.range) {
+          const bin = selection.range
+          const match = range.ranges?.find((r) => sameBounds(r, bin))
+          return range.mode === 'binned' && !!match && !!range.selectedRangeIds?.includes(match.id)
+        }
+        const value = Number(label)
+        return (
+          label !== undefined &&
+          label.trim() !== '' &&
+          range.mode !== 'binned' &&
+          range.currentMin === value &&
+          range.currentMax === value
+        )
+      }
+      case 'boolean': {
+        const normalized = label?.trim().toLowerCase()
+        return (
+          (normalized === 'true' || normalized === 'false') &&
+          filter.values === (normalized === 'true')
+        )
+      }
+      case 'search': {
+        const search = filter.values as SearchFilter
+        return search.exactMatch && search.query === label
+      }
+      default:
+        return false
+    }
+  }
+
+  private toggleSelect(filter: FilterConfig, label: string): Partial<FilterConfig> | null {
+    const options = filter.values as FilterValue[]
+    const index = options.findIndex((o) => String(o.value).trim() === label)
+    if (index === -1) return null
+
+    // An inactive filter starts a fresh selection rather than reviving stale checkboxes
+    const values = options.map((o, i) => {
+      const selected = filter.active ? o.selected : false
+      return { ...o, selected: i === index ? !selected : selected }
+    })
+    const active = values.some((v) => v.selected)
+    return { values, active, operator: filter.active ? filter.operator : 'equals' }
+  }
+
+  private toggleBin(filter: FilterConfig, bin: NumericRange): Partial<FilterConfig> {
+    const range = filter.values as RangeFilter
+    const ranges = [...(range.ranges ?? [])]
+    let match = ranges.find((r) => sameBounds(r, bin))
+    if (!match) {
+      const taken = new Set(ranges.map((r) => r.id))
+      match = { ...bin, id: taken.has(bin.id) ? `${bin.id}-${ranges.length}` : bin.id }
+      ranges.push(match)
+    }
+
+    const binned = filter.active && range.mode === 'binned'
+    const current = binned ? (range.selectedRangeIds ?? []) : []
+    const selectedRangeIds = current.includes(match.id)
+      ? current.filter((id) => id !== match.id)
+      : [...current, match.id]
+
+    if (selectedRangeIds.length === 0) {
+      // Back to the generated default: every bin selected, continuous range
+      return {
+        values: {
+          ...range,
+          ranges,
+          mode: 'continuous',
+          selectedRangeIds: ranges.map((r) => r.id),
+        } as RangeFilter,
+        active: false,
+      }
+    }
+    return {
+      values: { ...range, ranges, mode: 'binned', selectedRangeIds } as RangeFilter,
+      active: true,
+      operator: 'between',
+    }
+  }
+
+  private togglePoint(filter: FilterConfig, label: string): Partial<FilterConfig> | null {
+    const value = Number(label)
+    if (label.trim() === '' || !Number.isFinite(value)) return null
+    const range = filter.values as RangeFilter
+    const applied =
+      filter.active &&
+      range.mode !== 'binned' &&
+      range.currentMin === value &&
+      range.currentMax === value
+    if (applied) {
+      return {
+        values: { ...range, currentMin: range.min, currentMax: range.max } as RangeFilter,
+        active: false,
+      }
+    }
+    return {
+      values: { ...range, mode: 'continuous', currentMin: value, currentMax: value } as RangeFilter,
+      active: true,
+      operator: 'between',
+    }
+  }
+
+  private toggleBoolean(filter: FilterConfig, label: string): Partial<FilterConfig> | null {
+    const normalized = label.trim().toLowerCase()
+    if (normalized !== 'true' && normalized !== 'false') return null
+    const value = normalized === 'true'
+    if (filter.active && filter.values === value) {
+      return { values: null, active: false }
+    }
+    return { values: value, active: true, operator: 'equals' }
+  }
+
+  private toggleSearch(filter: FilterConfig, label: string): Partial<FilterConfig> {
+    const search = filter.values as SearchFilter
+    if (filter.active && search.exactMatch && search.query === label) {
+      return { values: { ...search, query: '', exactMatch: false } as SearchFilter, active: false }
+    }
+    return {
+      values: { query: label, caseSensitive: true, exactMatch: true } as SearchFilter,
+      active: true,
+      operator: 'contains',
+    }
+  }
+}
+
+export const crossFilterService = new CrossFilterService()
@@ -19,8 +19,14 @@ export class DataFilter {
   }
 
   applyFilters(data: ExcelData): DataMatrix {
-    const rows = data.rows || []
-    const active = Array.from(this.activeFilters.values()).filter((f) => f.active)
+    return this.filterRows(data.rows || [])
+  }
+
+  // Rows passing every active filter, leaving out filters of the given types
+  filterRows(rows: DataMatrix, exceptTypes: FilterConfig['type'][] = []): DataMatrix {
+    const active = Array.from(this.activeFilters.values()).filter(
+      (f) => f.active && !exceptTypes.includes(f.type),
+    )
     if (active.length === 0) return rows
 
     const filteredRows = rows.filter((row) => {
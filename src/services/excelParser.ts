@@ -1,23 +1,42 @@
 import {
     ColumnInfo,
     ColumnStatistics,
+    CsvDialect,
+    CsvPreview,
     DataType,
     ExcelData,
     ExcelMetadata,
+    HeaderRegion,
     ParseOptions,
     ValidationResult,
 } from '@/types/excel'
 import {isNullLike,} from '@/utils/dataTypes'
-import {validateFile} from '@/utils/fileValidation'
+import {DEFAULT_MAX_SIZE_MB, validateFile} from '@/utils/fileValidation'
 import {globalProperties} from '@/types/global'
 import {ErrorHandler, ErrorType} from '@/utils/errorHandling'
+import {detectHeaderRows, joinHeaderRows, MAX_HEADER_ROWS} from '@/utils/headerDetection'
+import {resolveWorkerUrl} from '@/utils/workerUrl'
+import {
+    detectDialect,
+    detectEncoding,
+    isDelimitedText,
+    parseDelimited,
+    toStandardCsv,
+} from '@/utils/csvDialect'
 import {detectColumnTypesWorker} from '@/workers/excelDetectColumnsCore'
+import {CsvStreamMessage, streamCsvFile} from '@/workers/csvStreamCore'
+import type {ExcelParseMessage, ExcelParseTask} from '@/workers/excelParseCore'
 
 // Tuning constants (avoid magic numbers and clarify intent)
 const WORKER_ROW_THRESHOLD = 10000
 const CHUNK_SIZE_CAP = 5000
 const PROGRESS_PARTITIONS = 20
 const UI_YIELD_MS = 0
+const CSV_SNIFF_BYTES = 64 * 1024
+const CSV_PREVIEW_ROWS = 10
+// Delimited text larger than spreadsheets may be is streamed rather than read whole
+const CSV_STREAM_THRESHOLD_BYTES = DEFAULT_MAX_SIZE_MB * 1024 * 1024
+const CSV_SHEET_NAME = 'Sheet1'
 
 // Import xlsx library with proper error handling for browser compatibility
 let XLSX: Record<string, unknown>
@@ -43,7 +62,63 @@ async function loadXLSX() {
     return XLSX
 }
 
+// The last workbook parseFile read, kept so its other sheets open without reading the file again
+interface CachedWorkbook {
+    workbook: Record<string, unknown>
+    fileName: string
+    fileSize: number
+    lastModified?: Date
+}
+
+// Reads part of a file without progress reporting, for sniffing and previews
+function readBlob(blob: Blob, encoding?: string): Promise<string | ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onerror = () =>
+            reject(
+                ErrorHandler.getInstance().createError(
+                    ErrorType.FILE_READ_ERROR,
+                    'Failed to read file',
+                ),
+            )
+        reader.onload = () => resolve(reader.result as string | ArrayBuffer)
+        if (encoding) reader.readAsText(blob, encoding)
+        else reader.readAsArrayBuffer(blob)
+    })
+}
+
+function fileLastModified(file: File): Date | undefined {
+    try {
+        const lm = (file as File & { lastModified?: number }).lastModified
+        if (lm) {
+            return new Date(lm)
+        }
+    } catch {
+        // Non-fatal: lastModified may be inaccessible in some environments
+    }
+    return undefined
+}
+
+// Sheet row number of the first row sheet_to_json returns, from the used range (e.g. "B3:F40")
+function firstRowNumber(sheet: unknown): number {
+    const ref = (sheet as Record<string, unknown> | undefined)?.['!ref']
+    const match = /^\$?[A-Z]+\$?(\d+)/i.exec(String(ref ?? ''))
+    return match ? Number(match[1]) : 1
+}
+
 export class ExcelParser {
+    private cachedWorkbook: CachedWorkbook | null = null
+    // Files are parsed in a dedicated worker when one can be started; it then holds the workbook
+    private parseWorker: Worker | null = null
+    private workerWorkbook: string | null = null // File name of the workbook the parse worker holds
+    private parseRequestId = 0
+    private readonly inWorker: boolean
+
+    // inWorker is set by the parse worker's own parser, which does all its work where it runs
+    constructor({inWorker = false}: { inWorker?: boolean } = {}) {
+        this.inWorker = inWorker
+    }
+
     private getXLSXUtils(): Record<string, unknown> {
         // Utils are pre-loaded at module level
         const utils = globalProperties.getXLSXUtils()
@@ -57,30 +132,14 @@ export class ExcelParser {
     }
 
     private shouldUseWorker(rowCount: number): boolean {
-        return rowCount > WORKER_ROW_THRESHOLD && typeof Worker !== 'undefined'
-    }
-
-    // Resolve the worker URL in environments that don’t support import.meta at runtime (e.g., Jest).
-    // The use of Function here is tightly scoped and only reads module metadata; no user input is evaluated.
-    // This prevents syntax errors in test runners that don’t support import.meta, while keeping bundlers happy.
-    private resolveWorkerUrl(): URL | null {
-        try {
-            // eslint-disable-next-line no-new-func
-            const meta = Function('return import.meta')() as { url?: string } | undefined
-            if (meta?.url) {
-                return new URL('../workers/excelDetectColumns.worker.ts', meta.url)
-            }
-        } catch {
-            // Intentionally ignored: in non-ESM environments, fall back handled by caller
-        }
-        return null
+        return !this.inWorker && rowCount > WORKER_ROW_THRESHOLD && typeof Worker !== 'undefined'
     }
 
     private async processInWorker(data: unknown[], options: ParseOptions): Promise<ColumnInfo[]> {
         const workerOptions = {...options, progress: undefined}
         return new Promise((resolve, reject) => {
             try {
-                const workerUrl = this.resolveWorkerUrl()
+                const workerUrl = resolveWorkerUrl('../workers/excelDetectColumns.worker.ts')
                 if (!workerUrl) throw new Error('Worker URL resolution failed')
 
                 const worker = new Worker(workerUrl, {type: 'module'})
@@ -128,7 +187,87 @@ export class ExcelParser {
         })
     }
 
+    // Reading, decoding, sheet conversion and profiling all run in the parse worker, with its
+    // progress forwarded; on the main thread when no worker can be started
     async parseFile(file: File, options: ParseOptions = {}): Promise<ExcelData> {
+        const result = await this.runInParseWorker({type: 'parseFile', file, options})
+        if (result) {
+            this.cachedWorkbook = null
+            this.workerWorkbook = result.hasWorkbook ? file.name : null
+            return result.data
+        }
+        this.workerWorkbook = null
+        return this.readAndParseFile(file, options)
+    }
+
+    // Stops the parse worker, dropping the workbook it holds
+    dispose(): void {
+        this.parseWorker?.terminate()
+        this.parseWorker = null
+        this.workerWorkbook = null
+    }
+
+    private getParseWorker(): Worker | null {
+        if (this.parseWorker) return this.parseWorker
+        if (this.inWorker || typeof Worker === 'undefined') return null
+        try {
+            const workerUrl = resolveWorkerUrl('../workers/excelParse.worker.ts')
+            if (!workerUrl) return null
+            this.parseWorker = new Worker(workerUrl, {type: 'module'})
+        } catch {
+            return null
+        }
+        return this.parseWorker
+    }
+
+    // The worker's result, or null when there's no worker or it failed to run, so the caller
+    // parses on the main thread instead. Errors from parsing itself are rethrown
+    private runInParseWorker(
+        task: ExcelParseTask,
+    ): Promise<Extract<ExcelParseMessage, { type: 'result' }> | null> {
+        const worker = this.getParseWorker()
+        if (!worker) return Promise.resolve(null)
+        const progress = task.options.progress
+
+        const id = ++this.parseRequestId
+        return new Promise((resolve, reject) => {
+            const cleanup = () => {
+                worker.removeEventListener('message', onMessage)
+                worker.removeEventListener('error', onError)
+            }
+            const onMessage = (e: MessageEvent) => {
+                const message = e.data as ExcelParseMessage
+                if (message?.id !== id) return
+                if (message.type === 'progress') {
+                    progress?.(message.event)
+                    return
+                }
+                cleanup()
+                if (message.type === 'result') {
+                    resolve(message)
+                } else {
+                    reject(
+                        ErrorHandler.getInstance().createError(
+                            message.errorType ?? ErrorType.PARSE_ERROR,
+                            message.message,
+                        ),
+                    )
+                }
+            }
+            const onError = (error: ErrorEvent) => {
+                cleanup()
+                console.warn('⚠️ Parse worker failed; parsing on the main thread:', error.message)
+                this.dispose()
+                resolve(null)
+            }
+            worker.addEventListener('message', onMessage)
+            worker.addEventListener('error', onError)
+            // Functions can't be posted; progress comes back as messages instead
+            worker.postMessage({...task, id, options: {...task.options, progress: undefined}})
+        })
+    }
+
+    private async readAndParseFile(file: File, options: ParseOptions): Promise<ExcelData> {
         const progress = options.progress
         progress?.({stage: 'validating', message: 'Validating file'})
         const validation = validateFile(file)
@@ -141,7 +280,12 @@ export class ExcelParser {
             throw err
         }
 
-        const isCsv = /\.csv$/i.test(file.name)
+        const csv = isDelimitedText(file.name)
+            ? (options.csv ?? (await this.previewCsv(file)).dialect)
+            : undefined
+        if (csv && file.size > CSV_STREAM_THRESHOLD_BYTES) {
+            return this.streamCsv(file, csv, options)
+        }
         progress?.({
             stage: 'reading',
             message: 'Reading file',
@@ -172,21 +316,22 @@ export class ExcelParser {
                 progress?.({stage: 'reading', loaded, total, percent, message: 'Reading file'})
             }
             reader.onload = () => resolve(reader.result as string | ArrayBuffer)
-            if (isCsv) reader.readAsText(file)
+            if (csv) reader.readAsText(file, csv.encoding)
             else reader.readAsArrayBuffer(file)
         })
 
         progress?.({stage: 'parsing_workbook', message: 'Parsing workbook'})
         const xlsx = await loadXLSX()
-        const workbook = isCsv
+        const workbook = csv
             ? (
                 xlsx as Record<
                     string,
                     (content: string, options: Record<string, unknown>) => Record<string, unknown>
                 >
-            ).read(content as string, {
+            ).read(this.standardCsvText(content as string, csv), {
                 type: 'string',
                 dense: true,
+                FS: csv.delimiter,
             })
             : (
                 xlsx as Record<
@@ -200,17 +345,152 @@ export class ExcelParser {
                 cellNF: false,
                 cellText: false,
             })
-        const data = await this.parseWorkbook(workbook, options.sheetName, options)
+        const lastModified = fileLastModified(file)
+        this.cachedWorkbook = {workbook, fileName: file.name, fileSize: file.size, lastModified}
+        return this.parseCachedSheet(options.sheetName, options)
+    }
+
+    // Reads a large delimited text file in slices in a Web Worker, keeping the first
+    // options.maxRows rows. There's no workbook to reopen afterwards, so none is cached
+    private async streamCsv(file: File, csv: CsvDialect, options: ParseOptions): Promise<ExcelData> {
+        const progress = options.progress
+        const streamOptions = {...options, progress: undefined}
+        this.cachedWorkbook = null
+        progress?.({stage: 'reading', message: 'Reading file', total: file.size, loaded: 0, percent: 0})
+
+        const rows: unknown[][] = []
+        const done = await new Promise<Extract<CsvStreamMessage, { type: 'done' }>>(
+            (resolve, reject) => {
+                const fail = (message: string) =>
+                    reject(ErrorHandler.getInstance().createError(ErrorType.PARSE_ERROR, message))
+                const receive = (message: CsvStreamMessage) => {
+                    if (message.type === 'progress') {
+                        const {loaded, total} = message
+                        progress?.({
+                            stage: 'reading',
+                            loaded,
+                            total,
+                            percent: total ? (loaded / total) * 100 : undefined,
+                            message: `Reading file (${message.rows.toLocaleString()} rows)`,
+                        })
+                    } else if (message.type === 'rows') {
+                        // Blank cells become empty strings, as they do when the whole file is read
+                        for (const row of message.rows) rows.push(row.map((cell) => cell ?? ''))
+                    } else if (message.type === 'done') {
+                        resolve(message)
+                    } else {
+                        fail(message.message)
+                    }
+                }
+
+                try {
+                    const workerUrl = this.inWorker
+                        ? null
+                        : resolveWorkerUrl('../workers/csvStream.worker.ts')
+                    if (!workerUrl) throw new Error('Worker URL resolution failed')
+
+                    const worker = new Worker(workerUrl, {type: 'module'})
+                    worker.onmessage = (e: MessageEvent) => {
+                        const message = e.data as CsvStreamMessage
+                        receive(message)
+                        if (message.type === 'done' || message.type === 'error') worker.terminate()
+                    }
+                    worker.onerror = (error) => {
+                        worker.terminate()
+                        reject(
+                            ErrorHandler.getInstance().createError(
+                                ErrorType.BROWSER_ERROR,
+                                `Web Worker error: ${error.message}`,
+                            ),
+                        )
+                    }
+                    worker.postMessage({file, dialect: csv, options: streamOptions})
+                } catch {
+                    // Fallback: stream on the main thread; reading each slice still yields to the UI
+                    streamCsvFile(file, csv, streamOptions, receive).catch((e) =>
+                        fail((e as Error)?.message || 'Failed to read file'),
+                    )
+                }
+            },
+        )
+
+        const metadata: ExcelMetadata = {
+            fileName: file.name,
+            sheetNames: [CSV_SHEET_NAME],
+            activeSheet: CSV_SHEET_NAME,
+            totalRows: rows.length,
+            totalColumns: done.headers.length,
+            columns: done.columns,
+            fileSize: file.size,
+            header: done.header,
+        }
+        const lastModified = fileLastModified(file)
+        if (lastModified) metadata.lastModified = lastModified
+        if (done.rowsInFile > rows.length) metadata.rowsInFile = done.rowsInFile
+        progress?.({stage: 'complete', message: 'Parsing complete', sheetName: CSV_SHEET_NAME})
+        return {headers: done.headers, rows: rows as ExcelData['rows'], metadata}
+    }
+
+    // How a delimited text file is encoded and split, detected unless given, and its first rows
+    async previewCsv(file: File, dialect: Partial<CsvDialect> = {}): Promise<CsvPreview> {
+        const head = file.slice(0, CSV_SNIFF_BYTES)
+        const encoding = detectEncoding(new Uint8Array((await readBlob(head)) as ArrayBuffer))
+        const chosenEncoding = dialect.encoding ?? encoding.encoding
+        const text = (await readBlob(head, chosenEncoding)) as string
+        const guess = detectDialect(text)
+        const chosen: CsvDialect = {
+            delimiter: dialect.delimiter ?? guess.delimiter,
+            quote: dialect.quote ?? guess.quote,
+            decimal: dialect.decimal ?? guess.decimal,
+            encoding: chosenEncoding,
+        }
+        return {
+            dialect: chosen,
+            confidence: Math.round(encoding.confidence * guess.confidence * 100) / 100,
+            bom: encoding.bom,
+            rows: parseDelimited(text, chosen, CSV_PREVIEW_ROWS),
+        }
+    }
+
+    // The spreadsheet reader only understands double quotes and decimal points, so other quoting
+    // and decimal commas are rewritten
+    private standardCsvText(text: string, csv: CsvDialect): string {
+        if (csv.quote === '"' && csv.decimal === '.') return text
+        return toStandardCsv(parseDelimited(text, csv), csv)
+    }
+
+    // True when the sheets of this file can be opened with parseSheet
+    hasWorkbook(fileName: string): boolean {
+        return this.cachedWorkbook?.fileName === fileName || this.workerWorkbook === fileName
+    }
+
+    // Another sheet of the workbook parseFile last read
+    async parseSheet(sheetName: string, options: ParseOptions = {}): Promise<ExcelData> {
+        if (this.workerWorkbook) {
+            const result = await this.runInParseWorker({type: 'parseSheet', sheetName, options})
+            if (result) return result.data
+        }
+        const sheetNames = (this.cachedWorkbook?.workbook.SheetNames as string[] | undefined) ?? []
+        if (!sheetNames.includes(sheetName)) {
+            throw ErrorHandler.getInstance().createError(
+                ErrorType.PARSE_ERROR,
+                `Sheet "${sheetName}" is not in the current workbook. Upload the file again to open it.`,
+            )
+        }
+        return this.parseCachedSheet(sheetName, options)
+    }
+
+    private async parseCachedSheet(
+        sheetName: string | undefined,
+        options: ParseOptions,
+    ): Promise<ExcelData> {
+        const cached = this.cachedWorkbook as CachedWorkbook
+        const data = await this.parseWorkbook(cached.workbook, sheetName, options)
         // Fill file metadata details
-        data.metadata.fileName = file.name
-        data.metadata.fileSize = file.size
-        try {
-            const lm = (file as File & { lastModified?: number }).lastModified
-            if (lm) {
-                data.metadata.lastModified = new Date(lm)
-            }
-        } catch {
-            // Non-fatal: lastModified may be inaccessible in some environments
+        data.metadata.fileName = cached.fileName
+        data.metadata.fileSize = cached.fileSize
+        if (cached.lastModified) {
+            data.metadata.lastModified = cached.lastModified
         }
         return data
     }
@@ -246,22 +526,28 @@ export class ExcelParser {
             header: 1,
             raw: true,
             defval: null,
-            blankrows: false,
+            // Blank rows are kept so row numbers match the sheet; they're skipped when building rows
+            blankrows: true,
         })
 
-        const firstRow = (aoa[0] || [])
         options.progress?.({
             stage: 'extracting_headers',
             message: 'Extracting headers',
             sheetName: activeSheet,
         })
-        const headers = this.extractHeaders(firstRow)
+        const firstRow = firstRowNumber(sheet)
+        const header = this.resolveHeader(aoa, firstRow, options.header)
+        const headerStart = header.row - firstRow
+        const headers = this.extractHeaders(
+            joinHeaderRows(aoa.slice(headerStart, headerStart + header.rowCount)),
+        )
+        const dataStart = headerStart + header.rowCount
 
         options.progress?.({
             stage: 'building_rows',
             message: 'Building rows',
             sheetName: activeSheet,
-            total: Math.max(aoa.length - 1, 0),
+            total: Math.max(aoa.length - dataStart, 0),
             loaded: 0,
             percent: 0,
         })
@@ -276,33 +562,34 @@ export class ExcelParser {
             return true
         }
         let lastDataIndex = aoa.length - 1
-        while (lastDataIndex >= 1 && isRowCompletelyEmpty(aoa[lastDataIndex])) {
+        while (lastDataIndex >= dataStart && isRowCompletelyEmpty(aoa[lastDataIndex])) {
             lastDataIndex--
         }
-        const totalRows = Math.max(lastDataIndex, 0)
+        const totalRows = Math.max(lastDataIndex - dataStart + 1, 0)
 
         // Use chunked processing for very large datasets
         const chunkSize = Math.min(CHUNK_SIZE_CAP, totalRows)
         const progressInterval = Math.max(1, Math.floor(totalRows / PROGRESS_PARTITIONS))
 
-        for (let chunkStart = 1; chunkStart <= lastDataIndex; chunkStart += chunkSize) {
+        for (let chunkStart = dataStart; chunkStart <= lastDataIndex; chunkStart += chunkSize) {
             const chunkEnd = Math.min(chunkStart + chunkSize - 1, lastDataIndex)
 
             // Process chunk
             for (let r = chunkStart; r <= chunkEnd; r++) {
                 const row = aoa[r]
+                if (isRowCompletelyEmpty(row)) continue
                 const arr: unknown[] = []
                 for (let i = 0; i < headers.length; i++) arr.push(row?.[i] ?? null)
                 rows.push(arr)
             }
 
             // Report progress
-            if (chunkEnd % progressInterval === 0 || chunkEnd === lastDataIndex) {
-                const loaded = chunkEnd
+            const loaded = chunkEnd - dataStart + 1
+            if (loaded % progressInterval === 0 || chunkEnd === lastDataIndex) {
                 const percent = totalRows ? (loaded / totalRows) * 100 : 100
                 options.progress?.({
                     stage: 'building_rows',
-                    message: `Building rows (${Math.floor((chunkEnd / totalRows) * 100)}% complete)`,
+                    message: `Building rows (${Math.floor((loaded / totalRows) * 100)}% complete)`,
                     sheetName: activeSheet,
                     total: totalRows,
                     loaded,
@@ -329,9 +616,9 @@ export class ExcelParser {
                 message: 'Analyzing columns using Web Worker for optimal performance',
                 sheetName: activeSheet,
             })
-            columns = await this.processInWorker([firstRow, ...rows], options)
+            columns = await this.processInWorker([headers, ...rows], options)
         } else {
-            columns = this.detectColumnTypes([firstRow, ...rows], options)
+            columns = this.detectColumnTypes([headers, ...rows], options)
         }
 
         const metadata: ExcelMetadata = {
@@ -342,6 +629,7 @@ export class ExcelParser {
             totalColumns: headers.length,
             columns,
             fileSize: 0,
+            header,
         }
 
         options.progress?.({stage: 'complete', message: 'Parsing complete', sheetName: activeSheet})
@@ -354,6 +642,36 @@ export class ExcelParser {
         return {headers, rows: cleanedRows, metadata}
     }
 
+    // The header rows the caller asked for, checked against the sheet, or the ones detected in it
+    private resolveHeader(
+        aoa: unknown[][],
+        firstRow: number,
+        requested?: HeaderRegion,
+    ): NonNullable<ExcelMetadata['header']> {
+        if (!requested) {
+            const {start, count} = detectHeaderRows(aoa)
+            return {row: firstRow + start, rowCount: count, detected: true}
+        }
+        const lastRow = firstRow + Math.max(aoa.length - 1, 0)
+        if (!Number.isInteger(requested.row) || requested.row < firstRow || requested.row > lastRow) {
+            throw ErrorHandler.getInstance().createError(
+                ErrorType.PARSE_ERROR,
+                `Row ${requested.row} is outside the sheet. Choose a header row from ${firstRow} to ${lastRow}.`,
+            )
+        }
+        if (
+            !Number.isInteger(requested.rowCount) ||
+            requested.rowCount < 1 ||
+            requested.rowCount > MAX_HEADER_ROWS
+        ) {
+            throw ErrorHandler.getInstance().createError(
+                ErrorType.PARSE_ERROR,
+                `A header can span 1 to ${MAX_HEADER_ROWS} rows.`,
+            )
+        }
+        return {row: requested.row, rowCount: requested.rowCount, detected: false}
+    }
+
     detectColumnTypes(data: unknown[][], options: ParseOptions = {}): ColumnInfo[] {
         return detectColumnTypesWorker(data, options)
     }
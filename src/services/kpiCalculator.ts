@@ -0,0 +1,129 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns'
+import { AggregationType, ChartConfig, KpiResult } from '@/types/chart'
+import { CellValue, ColumnInfo, DataMatrix } from '@/types/excel'
+import { FilterConfig } from '@/types/filter'
+import { DataFilter } from '@/services/dataFilter'
+import { parseDateFlexible } from '@/utils/dataTypes'
+
+// Aggregations that need numbers; count and distinct count work on any column
+const NUMERIC_AGGREGATIONS = new Set<AggregationType>(['sum', 'average'])
+
+// Works out the number on a KPI card over the filtered rows and, when the card has a baseline,
+// the same number over the baseline rows: every row, or the dates just before the filtered ones
+// under the same filters apart from the date ones
+export class KpiCalculator {
+  computeKpi(
+    filteredData: DataMatrix,
+    allData: DataMatrix,
+    config: ChartConfig,
+    columnInfo: ColumnInfo[],
+    filters: FilterConfig[] = [],
+  ): KpiResult {
+    const column = this.findColumn(config.dataColumn, columnInfo)
+    if (NUMERIC_AGGREGATIONS.has(config.aggregation) && column.type !== 'number') {
+      throw new Error(
+        `"${column.name}" is not numeric. Use Count or Distinct Count for this column.`,
+      )
+    }
+
+    const values = this.presentValues(filteredData, column.index)
+    const value = this.aggregate(values, config.aggregation)
+    const result: KpiResult = { value, rowCount: values.length }
+    if (!config.comparison) return result
+
+    if (config.comparison.baseline === 'all') {
+      const baseline = this.aggregate(this.presentValues(allData, column.index), config.aggregation)
+      return { ...result, comparison: this.compare(value, baseline, 'all data') }
+    }
+
+    if (!config.comparison.dateColumn) {
+      throw new Error('Select a date column to compare with the previous window.')
+    }
+    const dateColumn = this.findColumn(config.comparison.dateColumn, columnInfo)
+    const window = this.dateWindow(filteredData, dateColumn.index)
+    if (!window) {
+      return {
+        ...result,
+        comparison: this.compare(value, null, `no dates in ${dateColumn.name} to compare with`),
+      }
+    }
+
+    // The previous window has as many days as the filtered rows span and ends the day before
+    const days = differenceInCalendarDays(window.end, window.start) + 1
+    const start = addDays(window.start, -days)
+    const candidates = new DataFilter(filters).filterRows(allData, ['date'])
+    const rows = candidates.filter((row) => {
+      const date = row ? parseDateFlexible(row[dateColumn.index]) : null
+      return date !== null && date >= start && date < window.start
+    })
+    const label = `previous ${days} ${days === 1 ? 'day' : 'days'} (${format(start, 'MMM d, yyyy')} – ${format(addDays(window.start, -1), 'MMM d, yyyy')})`
+    if (rows.length === 0) return { ...result, comparison: this.compare(value, null, label) }
+    const baseline = this.aggregate(this.presentValues(rows, column.index), config.aggregation)
+    return { ...result, comparison: this.compare(value, baseline, label) }
+  }
+
+  private compare(value: number, baseline: number | null, label: string) {
+    if (baseline === null) return { label, baseline, delta: null, percentChange: null }
+    const delta = value - baseline
+    return {
+      label,
+      baseline,
+      delta,
+      percentChange: baseline === 0 ? null : (delta / Math.abs(baseline)) * 100,
+    }
+  }
+
+  // First and last day covered by the rows' dates, or null when none of them holds a date
+  private dateWindow(data: DataMatrix, columnIndex: number): { start: Date; end: Date } | null {
+    let min: number | null = null
+    let max: number | null = null
+    for (const row of data) {
+      const date = row ? parseDateFlexible(row[columnIndex]) : null
+      if (!date) continue
+      const time = startOfDay(date).getTime()
+      if (min === null || time < min) min = time
+      if (max === null || time > max) max = time
+    }
+    return min === null || max === null ? null : { start: new Date(min), end: new Date(max) }
+  }
+
+  // Blank cells are missing values and aren't counted
+  private presentValues(data: DataMatrix, columnIndex: number): CellValue[] {
+    const values: CellValue[] = []
+    for (const row of data) {
+      const value = row?.[columnIndex]
+      if (value == null || (typeof value === 'string' && value.trim() === '')) continue
+      values.push(value)
+    }
+    return values
+  }
+
+  private aggregate(values: CellValue[], aggregation: AggregationType): number {
+    switch (aggregation) {
+      case 'count':
+        return values.length
+      case 'distinct':
+        return new Set(values.map((v) => (v instanceof Date ? v.getTime() : v))).size
+      case 'sum':
+        return this.numbers(values).reduce((sum, v) => sum + v, 0)
+      case 'average': {
+        const numbers = this.numbers(values)
+        return numbers.length ? numbers.reduce((sum, v) => sum + v, 0) / numbers.length : 0
+      }
+      default:
+        throw new Error(`The ${aggregation} aggregation is not available on KPI cards.`)
+    }
+  }
+
+  private numbers(values: CellValue[]): number[] {
+    return values.map((v) => Number(v)).filter((v) => Number.isFinite(v))
+  }
+
+  private findColumn(name: string, columnInfo: ColumnInfo[]): ColumnInfo {
+    const column = columnInfo.find((c) => c.name === name)
+    if (!column) throw new Error(`Column not found: ${name}`)
+    return column
+  }
+}
+
+export const kpiCalculator = new KpiCalculator()
@@ -1,4 +1,19 @@
-export type ChartType = 'pie' | 'bar' | 'line' | 'doughnut' | 'scatter'
+import type { DataType } from './excel'
+
+export type ChartType =
+  | 'pie'
+  | 'bar'
+  | 'line'
+  | 'doughnut'
+  | 'scatter'
+  | 'histogram'
+  | 'boxplot'
+  | 'violin'
+  | 'treemap'
+  | 'sunburst'
+  | 'waterfall'
+  | 'funnel'
+  | 'kpi' // A single headline number rather than a chart
 
 export interface NumericRange {
   id: string
@@ -9,7 +24,38 @@ export interface NumericRange {
   includeMax: boolean
 }
 
-export type AggregationType = 'count' | 'sum' | 'average' | 'min' | 'max' | 'median' | 'distinct'
+export type AggregationType =
+  | 'count'
+  | 'sum'
+  | 'average'
+  | 'min'
+  | 'max'
+  | 'median'
+  | 'distinct'
+  | 'stddev' // Sample standard deviation
+  | 'variance' // Sample variance
+  | 'percentile' // Uses ChartConfig.percentile
+  | 'mode' // Most frequent value
+  | 'first' // Value from the earliest row by ChartConfig.orderColumn (row order when unset)
+  | 'last'
+  | 'weighted_average' // Weighted by ChartConfig.weightColumn
+  | 'percent_of_total' // Each label's sum as a share of the chart's total
+  | 'running_total' // Cumulative sum in display order
+
+export type BarOrientation = 'vertical' | 'horizontal'
+
+// How multi-series bars share a category: side by side, on top of each other, or scaled to 100%
+export type BarMode = 'grouped' | 'stacked' | 'percent'
+
+// 'source' keeps categories in the order they first appear in the data
+export type ChartSortBy = 'value' | 'label' | 'source'
+
+export type SortDirection = 'asc' | 'desc'
+
+export type DateBucket = 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+// Bin count rules ('sturges', 'freedman-diaconis'), a fixed bin width, or the custom numericRanges
+export type HistogramBinMethod = 'sturges' | 'freedman-diaconis' | 'width' | 'custom'
 
 export interface ChartOptions {
   responsive: boolean
@@ -66,17 +112,190 @@ export interface ChartOptions {
   }
 }
 
+export interface ChartPoint {
+  x: number
+  y: number
+}
+
+export interface TrendlineStats {
+  slope: number
+  intercept: number
+  rSquared: number
+}
+
+// Tukey box plot summary; whiskers stop at the last value within 1.5 × IQR of the box
+export interface BoxPlotStats {
+  count: number
+  min: number
+  q1: number
+  median: number
+  q3: number
+  max: number
+  lowerWhisker: number
+  upperWhisker: number
+  outliers: number[]
+}
+
 export interface ChartDataDataset {
   label: string
-  data: number[]
+  // Category charts use numbers (null marks a gap, e.g. an empty time bucket); scatter uses points;
+  // floating bars (box plot boxes and whiskers) use [start, end] pairs
+  data: (number | ChartPoint | [number, number] | null)[]
   backgroundColor: string | string[]
   borderColor: string | string[]
   borderWidth: number
+  showLine?: boolean
+  pointRadius?: number
+  pointStyle?: 'circle' | 'line'
+  borderDash?: number[]
+  fill?: boolean | 'shape'
+  grouped?: boolean // Bars with grouped: false overlap instead of sitting side by side
+  barPercentage?: number
+}
+
+// Dataset drawn with a different controller than its chart, e.g. median markers on a box plot
+export interface MixedChartDataset extends ChartDataDataset {
+  type: 'bar' | 'line'
+}
+
+export type CorrelationMethod = 'pearson' | 'spearman'
+
+// Pairwise correlations between numeric columns; null where a pair has too few shared values
+export interface CorrelationMatrix {
+  columns: string[]
+  pearson: (number | null)[][]
+  spearman: (number | null)[][]
+  counts: number[][] // Rows where both columns of the pair hold a number
+}
+
+// Where a reference line or band edge sits: a fixed number, a statistic of a numeric column, or a
+// category on a category axis
+export type ReferenceValueSource = 'constant' | 'mean' | 'median' | 'percentile' | 'category'
+
+export interface ReferenceValue {
+  source: ReferenceValueSource
+  value?: number // For 'constant'
+  column?: string // For column statistics; defaults to the column plotted on that axis
+  percentile?: number // For 'percentile' - 0 to 100
+  category?: string // For 'category'
+}
+
+// A horizontal line marks a y position and a vertical line an x position
+export type AnnotationOrientation = 'horizontal' | 'vertical'
+
+export interface ReferenceLineAnnotation {
+  id: string
+  kind: 'line'
+  orientation: AnnotationOrientation
+  value: ReferenceValue
+  label?: string // Defaults to a description of the value, e.g. "Mean of Sales: 42"
+  color?: string
+}
+
+export interface ReferenceBandAnnotation {
+  id: string
+  kind: 'band'
+  orientation: AnnotationOrientation
+  from: ReferenceValue
+  to: ReferenceValue
+  label?: string
+  color?: string
+}
+
+// Text at a data point: a category label on bar and line charts, x and y on scatter charts
+export interface NoteAnnotation {
+  id: string
+  kind: 'note'
+  text: string
+  label?: string
+  x?: number
+  y?: number // On bar and line charts, overrides the height taken from the data
+  color?: string
+}
+
+export type ChartAnnotation = ReferenceLineAnnotation | ReferenceBandAnnotation | NoteAnnotation
+
+// Annotation with its positions worked out against the chart's data. Positions are in axis units,
+// with category axes counted by label index
+export type ResolvedAnnotation =
+  | { id: string; kind: 'line'; axis: 'x' | 'y'; value: number; label: string; color: string }
+  | {
+      id: string
+      kind: 'band'
+      axis: 'x' | 'y'
+      from: number
+      to: number
+      label: string
+      color: string
+    }
+  | { id: string; kind: 'note'; x: number; y: number; text: string; color: string }
+
+// One category in a treemap or sunburst; children hold the next level's categories
+export interface HierarchyNode {
+  name: string
+  path: string[] // Category at each level, from the top level down to this node
+  value: number // Aggregation over this node's rows, so children needn't add up to it
+  color: string // Every node takes the color of its top-level category
+  rows: number[] // Indices into the source rows under this node
+  children: HierarchyNode[] // Largest first
+}
+
+// Conversion into one funnel stage, as shares from 0 to 1
+export interface FunnelStage {
+  value: number
+  ofFirst: number // Share of the first stage that reached this one
+  ofPrevious: number // Share of the stage before that reached this one; 1 for the first stage
+}
+
+// What a KPI card compares its value with: every row regardless of filters, or the rows in the
+// date window just before the one the filtered rows cover
+export type KpiBaseline = 'all' | 'previous-window'
+
+export interface KpiComparison {
+  baseline: KpiBaseline
+  dateColumn?: string // For 'previous-window' - the date column the windows are measured on
+}
+
+// A KPI card's number, with the change from its baseline when it has one
+export interface KpiResult {
+  value: number
+  rowCount: number // Filtered rows holding a value
+  comparison?: {
+    label: string // What the baseline is, e.g. "all data" or "previous 31 days"
+    baseline: number | null // Null when there is nothing to compare with; label says why
+    delta: number | null
+    percentChange: number | null // Null as well when the baseline is zero
+  }
 }
 
 export interface ChartData {
   labels: string[]
   datasets: ChartDataDataset[]
+  trendline?: TrendlineStats // Least-squares fit for scatter charts with a trendline
+  boxPlots?: BoxPlotStats[] // Per-label summaries for box plot and violin charts
+  ranges?: NumericRange[] // Bin behind each label, for histograms
+  segmentRows?: number[][] // Indices into the source rows that make up each label
+  seriesRows?: number[][][] // For bars split by a series column: rows per dataset, then per label
+  annotations?: ResolvedAnnotation[] // Reference lines, bands and notes that could be placed
+  hierarchy?: HierarchyNode // For treemap and sunburst charts; the root's children are the top level
+  funnel?: FunnelStage[] // For funnel charts, one per label
+}
+
+// Fixed axis ranges, keyed by Chart.js scale id
+export type ChartAxisBounds = Partial<Record<'x' | 'y', { min: number; max: number }>>
+
+// One small multiple: the chart drawn over the rows holding a single value of the facet column
+export interface FacetPanel {
+  value: string
+  rowCount: number
+  chartData: ChartData | null // Null when this panel's rows can't be charted
+  error: Error | null
+}
+
+export interface FacetedChartData {
+  overall: ChartData // The chart over every row; fixes the label order and bins the panels share
+  panels: FacetPanel[]
+  bounds: ChartAxisBounds // Value ranges shared by every panel
 }
 
 export type ChartPosition = {
@@ -95,16 +314,75 @@ export interface ChartConfig {
   aggregation: AggregationType
   options: ChartOptions
   position: ChartPosition
+  percentile?: number // For the 'percentile' aggregation - 0 to 100, e.g. 90 or 95
+  orderColumn?: string // For 'first' and 'last' - column that orders the rows in each group
+  weightColumn?: string // For 'weighted_average' - numeric column holding each row's weight
   maxSegments?: number // For pie charts - max number of segments before grouping others
   numericRanges?: NumericRange[] // For numerical pie charts - custom range definitions
+  orientation?: BarOrientation // For bar charts - vertical columns or horizontal bars
+  sortBy?: ChartSortBy // For bar, waterfall and funnel charts - order of the categories
+  sortDirection?: SortDirection
+  seriesColumn?: string // For bar charts - one dataset per value of this column
+  barMode?: BarMode // For bar charts with a series column
+  dateBucket?: DateBucket // For line charts - granularity used to bucket the date x-axis (labelColumn)
+  binMethod?: HistogramBinMethod // For histograms - how bin edges are chosen
+  binWidth?: number // For histograms using the 'width' bin method
+  colorColumn?: string // For scatter charts - categorical column used to color points
+  showTrendline?: boolean // For scatter charts - overlay a least-squares regression line
+  annotations?: ChartAnnotation[] // For bar, line and scatter charts
+  hierarchyColumns?: string[] // For treemap and sunburst charts - category columns, outermost first
+  facetColumn?: string // Small multiples - one panel per value of this categorical column
+  maxFacets?: number // Panels before the remaining values are merged into an "Others" panel
+  comparison?: KpiComparison // For KPI cards - baseline shown as a change beside the value
+}
+
+export type ColorPaletteId = 'default' | 'okabe-ito' | 'tol-bright' | 'tableau10' | 'viridis'
+
+// Session-wide category colors, so the same value looks the same in every chart
+export interface ChartColorSettings {
+  palette: ColorPaletteId
+  assigned: Record<string, number> // Category -> palette slot, in order of first appearance
+  pinned: Record<string, string> // Category -> color the user chose; wins over the palette
 }
 
+// Fields supplied when creating a chart manually; id, options and position are generated
+export type ManualChartConfig = Omit<ChartConfig, 'id' | 'options' | 'position'>
+
 export interface ChartSuggestion {
   type: ChartType
   title: string
   dataColumn: string
   labelColumn?: string
   aggregation: AggregationType
+  sortBy?: ChartSortBy // E.g. 'source' for P&L lines, which are listed in reading order
+  dateBucket?: DateBucket // Line charts, to suit how long the dates run
+  binMethod?: HistogramBinMethod // Histograms, Freedman-Diaconis for skewed columns
+  showTrendline?: boolean // Scatter plots of correlated columns
   confidence: number // 0-1
   reason: string
 }
+
+// A column a template's charts read, as it was in the file the template was saved from
+export interface TemplateColumn {
+  name: string
+  type: DataType
+}
+
+// Charts saved by name, one or a whole dashboard, to rebuild on another file with similar columns
+export interface ChartTemplate {
+  id: string
+  name: string
+  scope: 'chart' | 'dashboard'
+  charts: ChartConfig[]
+  columns: TemplateColumn[]
+  createdAt: Date
+}
+
+// How a template column was matched to a column of the current file
+export type ColumnMatchMethod = 'name' | 'fuzzy' | 'type'
+
+export interface TemplateColumnMatch {
+  column: TemplateColumn
+  match: string | null // Column of the current file; null when none fits and the user must pick
+  method: ColumnMatchMethod | null
+}
@@ -21,6 +21,15 @@ export interface ExcelMetadata {
   columns: ColumnInfo[]
   fileSize: number
   lastModified?: Date
+  header?: HeaderRegion & { detected: boolean } // Where the column names were read from
+  rowsInFile?: number // Set when only the first totalRows rows of a large file were kept
+}
+
+// The rows a sheet's column names are read from: the first one, numbered as in the sheet, and how
+// many rows the header spans. Names from several rows are joined, e.g. "Q1 / Revenue"
+export interface HeaderRegion {
+  row: number
+  rowCount: number
 }
 
 export interface ColumnInfo {
@@ -70,8 +79,29 @@ export interface ParseProgressEvent {
   sheetName?: string
 }
 
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+// How a delimited text file is read
+export interface CsvDialect {
+  delimiter: string
+  quote: string
+  decimal: '.' | ','
+  encoding: CsvEncoding
+}
+
+// The first rows of a delimited text file, read with the detected or chosen dialect
+export interface CsvPreview {
+  dialect: CsvDialect
+  confidence: number // 0 to 1, for the detected settings
+  bom: boolean // The encoding came from a byte order mark
+  rows: string[][]
+}
+
 export interface ParseOptions {
   sheetName?: string
+  csv?: CsvDialect // For delimited text files; detected when omitted
+  header?: HeaderRegion // Detected from the sheet when omitted
+  maxRows?: number // Rows kept from a large delimited text file, which is read in slices
   // If false, skip computing column statistics during initial parse for speed
   computeStatistics?: boolean
   // Caps to control memory/CPU usage during metadata extraction
@@ -79,5 +79,13 @@ export interface FilterStateItem {
 
 export type FilterState = FilterStateItem[]
 
+// A chart segment the user clicked, toggled on the filter for its column
+export interface CrossFilterSelection {
+  column: string
+  value?: string // Category label as drawn on the chart
+  range?: NumericRange // Numeric bin behind the segment, for binned pies and histograms
+  series?: { column: string; value: string } // The clicked bar's series, on bars split by series
+}
+
 // Helper re-exports used by services
 export type { ColumnInfo }
@@ -1,4 +1,11 @@
-import { AggregationType, ChartType } from '@/types/chart'
+import {
+  AggregationType,
+  BarMode,
+  ChartType,
+  DateBucket,
+  HistogramBinMethod,
+  KpiBaseline,
+} from '@/types/chart'
 
 export interface ChartTypeConfig {
   type: ChartType
@@ -7,6 +14,17 @@ export interface ChartTypeConfig {
   variables: 1 | 2
   supportedDataTypes: string[]
   aggregationRequired: boolean
+  // When set, a label column may be picked to group values but is not required
+  labelColumnOptional?: boolean
+  // Data types accepted for the label (x-axis) column; defaults to supportedDataTypes
+  labelDataTypes?: string[]
+  labelColumnTitle?: string
+  // When set, points can be colored by a column of one of these types
+  colorDataTypes?: string[]
+  // When set, a column of one of these types can split the chart into several series
+  seriesDataTypes?: string[]
+  // When set, the chart nests values under an ordered list of category columns of these types
+  hierarchyDataTypes?: string[]
 }
 
 export const chartTypeConfigs: ChartTypeConfig[] = [
@@ -21,18 +39,22 @@ export const chartTypeConfigs: ChartTypeConfig[] = [
   {
     type: 'bar',
     label: 'Bar Chart',
-    description: 'Compare values across categories',
+    description: 'Compare values across categories as columns or horizontal bars',
     variables: 1,
     supportedDataTypes: ['string', 'boolean', 'number'],
     aggregationRequired: true,
+    labelColumnOptional: true,
+    seriesDataTypes: ['string', 'boolean'],
   },
   {
     type: 'line',
     label: 'Line Chart',
-    description: 'Show trends over time or continuous data',
-    variables: 1,
-    supportedDataTypes: ['number', 'date'],
+    description: 'Show trends over time, bucketed by day, week, month, quarter or year',
+    variables: 2,
+    supportedDataTypes: ['number'],
     aggregationRequired: true,
+    labelDataTypes: ['date'],
+    labelColumnTitle: 'Date Column (X-axis)',
   },
   {
     type: 'doughnut',
@@ -45,10 +67,86 @@ export const chartTypeConfigs: ChartTypeConfig[] = [
   {
     type: 'scatter',
     label: 'Scatter Plot',
-    description: 'Show relationships between two variables',
+    description: 'Show relationships between two numeric variables, with an optional trendline',
     variables: 2,
     supportedDataTypes: ['number'],
     aggregationRequired: false,
+    colorDataTypes: ['string', 'boolean'],
+  },
+  {
+    type: 'histogram',
+    label: 'Histogram',
+    description: 'Show the distribution of a numeric column in equal-width or custom bins',
+    variables: 1,
+    supportedDataTypes: ['number'],
+    aggregationRequired: false,
+  },
+  {
+    type: 'boxplot',
+    label: 'Box Plot',
+    description: 'Compare quartiles, whiskers and outliers, optionally split by category',
+    variables: 1,
+    supportedDataTypes: ['number'],
+    aggregationRequired: false,
+    labelColumnOptional: true,
+    labelDataTypes: ['string', 'boolean'],
+  },
+  {
+    type: 'violin',
+    label: 'Violin Plot',
+    description: 'Compare the full shape of a distribution, optionally split by category',
+    variables: 1,
+    supportedDataTypes: ['number'],
+    aggregationRequired: false,
+    labelColumnOptional: true,
+    labelDataTypes: ['string', 'boolean'],
+  },
+  {
+    type: 'treemap',
+    label: 'Treemap',
+    description: 'Nest values under several category levels as boxes; click a box to zoom in',
+    variables: 1,
+    supportedDataTypes: ['number'],
+    aggregationRequired: true,
+    hierarchyDataTypes: ['string', 'boolean'],
+  },
+  {
+    type: 'sunburst',
+    label: 'Sunburst',
+    description: 'Nest values under several category levels as rings; click a slice to zoom in',
+    variables: 1,
+    supportedDataTypes: ['number'],
+    aggregationRequired: true,
+    hierarchyDataTypes: ['string', 'boolean'],
+  },
+  {
+    type: 'waterfall',
+    label: 'Waterfall Chart',
+    description: 'Build a running total step by step from positive and negative changes',
+    variables: 2,
+    supportedDataTypes: ['number'],
+    aggregationRequired: true,
+    labelDataTypes: ['string', 'number'],
+    labelColumnTitle: 'Step Column (X-axis)',
+  },
+  {
+    type: 'funnel',
+    label: 'Funnel Chart',
+    description: 'Show how many make it from each stage to the next, with conversion rates',
+    variables: 1,
+    supportedDataTypes: ['string', 'boolean', 'number'],
+    aggregationRequired: true,
+    labelColumnOptional: true,
+    labelDataTypes: ['string', 'boolean'],
+    labelColumnTitle: 'Stage Column (optional)',
+  },
+  {
+    type: 'kpi',
+    label: 'KPI Card',
+    description: 'Show one headline number, optionally compared with all data or an earlier period',
+    variables: 1,
+    supportedDataTypes: ['number', 'string', 'boolean', 'date'],
+    aggregationRequired: true,
   },
 ]
 
@@ -60,14 +158,100 @@ export const aggregationTypes: { type: AggregationType; label: string }[] = [
   { type: 'max', label: 'Maximum' },
   { type: 'median', label: 'Median' },
   { type: 'distinct', label: 'Distinct Count' },
+  { type: 'stddev', label: 'Standard Deviation' },
+  { type: 'variance', label: 'Variance' },
+  { type: 'percentile', label: 'Percentile' },
+  { type: 'mode', label: 'Mode (most frequent)' },
+  { type: 'first', label: 'First' },
+  { type: 'last', label: 'Last' },
+  { type: 'weighted_average', label: 'Weighted Average' },
+  { type: 'percent_of_total', label: 'Percent of Total' },
+  { type: 'running_total', label: 'Running Total' },
+]
+
+// Aggregations beyond the basic summaries, for bar and line charts
+const statisticalAggregations: AggregationType[] = [
+  'stddev',
+  'variance',
+  'percentile',
+  'mode',
+  'first',
+  'last',
+  'weighted_average',
 ]
 
 // Define which aggregations make sense for each chart type
 export const chartAggregationRules: Record<ChartType, AggregationType[]> = {
   pie: ['count', 'sum', 'average'],
-  bar: ['count', 'sum', 'average', 'min', 'max'],
-  line: ['count', 'sum', 'average', 'min', 'max'],
+  bar: [
+    'count',
+    'sum',
+    'average',
+    'min',
+    'max',
+    'median',
+    'distinct',
+    ...statisticalAggregations,
+    'percent_of_total',
+    'running_total',
+  ],
+  line: [
+    'sum',
+    'count',
+    'average',
+    'min',
+    'max',
+    'median',
+    ...statisticalAggregations,
+    'percent_of_total',
+    'running_total',
+  ],
   doughnut: ['count', 'sum', 'average'],
   scatter: ['count', 'sum', 'average', 'min', 'max'],
+  histogram: ['count'],
+  boxplot: ['count'],
+  violin: ['count'],
+  treemap: ['sum', 'count', 'average', 'min', 'max'],
+  sunburst: ['sum', 'count', 'average', 'min', 'max'],
+  waterfall: ['sum', 'count', 'average'],
+  funnel: ['count', 'distinct', 'sum'],
+  kpi: ['count', 'distinct', 'sum', 'average'],
 }
 
+export const barModeOptions: { value: BarMode; label: string }[] = [
+  { value: 'grouped', label: 'Grouped' },
+  { value: 'stacked', label: 'Stacked' },
+  { value: 'percent', label: '100% Stacked' },
+]
+
+export const binMethodOptions: { value: HistogramBinMethod; label: string }[] = [
+  { value: 'sturges', label: 'Automatic (Sturges)' },
+  { value: 'freedman-diaconis', label: 'Automatic (Freedman–Diaconis)' },
+  { value: 'width', label: 'Fixed bin width' },
+  { value: 'custom', label: 'Custom ranges' },
+]
+
+export const kpiBaselineOptions: { value: KpiBaseline; label: string }[] = [
+  { value: 'all', label: 'All data (ignoring filters)' },
+  { value: 'previous-window', label: 'Previous date window' },
+]
+
+export const dateBucketOptions: { value: DateBucket; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year', label: 'Year' },
+]
+
+// Chart types whose categories can be ordered by value, by label or as they appear in the data
+export const sortableChartTypes: ChartType[] = ['bar', 'waterfall', 'funnel']
+
+// Any chart can be split into small multiples by a categorical column
+export const facetDataTypes = ['string', 'boolean']
+
+export const DEFAULT_MAX_FACETS = 9
+export const MAX_FACETS_LIMIT = 24
+
+// Category levels a treemap or sunburst can nest
+export const MAX_HIERARCHY_LEVELS = 4
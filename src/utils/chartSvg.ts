@@ -0,0 +1,906 @@
+import {
+  ChartConfig,
+  ChartData,
+  ChartDataDataset,
+  ChartPoint,
+  HierarchyNode,
+  MixedChartDataset,
+  ResolvedAnnotation,
+} from '@/types/chart'
+import { sunburstLayout, treemapLayout } from './hierarchyLayout'
+
+export interface SvgRenderOptions {
+  width?: number
+  height?: number
+}
+
+interface Rect {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+// Pixel positions along each axis; category axes take label indices
+interface PlotAxes {
+  x: (value: number) => number
+  y: (value: number) => number
+  halfCategory: { x: number; y: number } // So bands over categories cover whole categories
+}
+
+interface LinearScale {
+  min: number
+  max: number
+  ticks: number[]
+  toPixel: (value: number) => number
+}
+
+const FONT = 'font-family="Helvetica, Arial, sans-serif"'
+const AXIS_COLOR = '#6b7280'
+const GRID_COLOR = '#e5e7eb'
+const TEXT_COLOR = '#111827'
+const LEGEND_ROW_HEIGHT = 18
+const MAX_LABEL_CHARS = 16
+
+// Standalone SVG markup for a prepared chart, drawn without a canvas so it stays sharp in print
+export function renderChartSVG(
+  chartData: ChartData,
+  config: ChartConfig,
+  options: SvgRenderOptions = {},
+): string {
+  const width = options.width ?? 800
+  const height = options.height ?? 500
+  const parts: string[] = []
+
+  let top = 16
+  parts.push(
+    text(width / 2, top + 14, config.title, { size: 18, weight: 'bold', anchor: 'middle' }),
+  )
+  top += 24
+  if (chartData.trendline) {
+    const { slope, intercept, rSquared } = chartData.trendline
+    const sign = intercept < 0 ? '-' : '+'
+    const subtitle = `y = ${formatNumber(slope)}x ${sign} ${formatNumber(Math.abs(intercept))} (R² = ${rSquared.toFixed(3)})`
+    parts.push(
+      text(width / 2, top + 10, subtitle, { size: 12, anchor: 'middle', fill: AXIS_COLOR }),
+    )
+    top += 18
+  }
+
+  const legend = legendEntries(chartData, config)
+  const legendRows = layoutLegend(legend, width - 40)
+  const legendHeight = legendRows.length * LEGEND_ROW_HEIGHT
+  const body: Rect = {
+    left: 16,
+    top: top + 8,
+    width: width - 32,
+    height: height - top - 8 - legendHeight - (legendHeight ? 16 : 8),
+  }
+
+  switch (config.type) {
+    case 'pie':
+    case 'doughnut':
+      parts.push(renderPie(chartData, body, config.type === 'doughnut'))
+      break
+    case 'scatter':
+    case 'violin':
+      parts.push(renderLinear(chartData, config, body))
+      break
+    case 'treemap':
+      if (chartData.hierarchy) parts.push(renderTreemap(chartData.hierarchy, body))
+      break
+    case 'sunburst':
+      if (chartData.hierarchy) parts.push(renderSunburst(chartData.hierarchy, body))
+      break
+    case 'funnel':
+      parts.push(renderFunnel(chartData, body))
+      break
+    default:
+      parts.push(renderCategory(chartData, config, body))
+  }
+
+  let legendY = body.top + body.height + 16
+  for (const row of legendRows) {
+    let x = (width - row.width) / 2
+    for (const entry of row.entries) {
+      parts.push(
+        `<rect x="${fmt(x)}" y="${fmt(legendY)}" width="12" height="12" ${paint(entry.color)} stroke="${solid(entry.color)}"/>`,
+      )
+      parts.push(text(x + 16, legendY + 10, entry.label, { size: 12 }))
+      x += entry.width
+    }
+    legendY += LEGEND_ROW_HEIGHT
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<title>${escapeXml(config.title)}</title>`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    ...parts,
+    '</svg>',
+  ].join('\n')
+}
+
+function renderPie(chartData: ChartData, area: Rect, doughnut: boolean): string {
+  const dataset = chartData.datasets[0]
+  if (!dataset) return ''
+  const values = dataset.data.map((v) => (typeof v === 'number' && v > 0 ? v : 0))
+  const total = values.reduce((sum, v) => sum + v, 0)
+  if (total === 0) return ''
+
+  const cx = area.left + area.width / 2
+  const cy = area.top + area.height / 2
+  const radius = Math.min(area.width, area.height) / 2 - 4
+  const inner = doughnut ? radius * 0.5 : 0
+  const parts: string[] = []
+
+  let angle = -Math.PI / 2
+  values.forEach((value, i) => {
+    if (value === 0) return
+    const sweep = (value / total) * Math.PI * 2
+    const color = colorAt(dataset.backgroundColor, i)
+    // A full circle can't be drawn as a single arc; split it in two
+    const path =
+      sweep >= Math.PI * 2 - 1e-9
+        ? arcPath(cx, cy, radius, inner, angle, angle + Math.PI) +
+          arcPath(cx, cy, radius, inner, angle + Math.PI, angle + Math.PI * 2)
+        : arcPath(cx, cy, radius, inner, angle, angle + sweep)
+    parts.push(`<path d="${path}" ${paint(color)} stroke="#ffffff" stroke-width="1"/>`)
+
+    if (sweep > 0.25) {
+      const mid = angle + sweep / 2
+      const labelRadius = doughnut ? (radius + inner) / 2 : radius * 0.65
+      parts.push(
+        text(
+          cx + Math.cos(mid) * labelRadius,
+          cy + Math.sin(mid) * labelRadius + 4,
+          `${((value / total) * 100).toFixed(1)}%`,
+          { size: 11, anchor: 'middle', fill: '#ffffff' },
+        ),
+      )
+    }
+    angle += sweep
+  })
+  return parts.join('\n')
+}
+
+// Path for a pie slice, or a ring segment when inner > 0; angles run clockwise from 3 o'clock
+export function arcPath(
+  cx: number,
+  cy: number,
+  outer: number,
+  inner: number,
+  start: number,
+  end: number,
+): string {
+  const large = end - start > Math.PI ? 1 : 0
+  const p = (r: number, a: number) => `${fmt(cx + Math.cos(a) * r)} ${fmt(cy + Math.sin(a) * r)}`
+  if (inner === 0) {
+    return `M ${fmt(cx)} ${fmt(cy)} L ${p(outer, start)} A ${fmt(outer)} ${fmt(outer)} 0 ${large} 1 ${p(outer, end)} Z `
+  }
+  return (
+    `M ${p(outer, start)} A ${fmt(outer)} ${fmt(outer)} 0 ${large} 1 ${p(outer, end)} ` +
+    `L ${p(inner, end)} A ${fmt(inner)} ${fmt(inner)} 0 ${large} 0 ${p(inner, start)} Z `
+  )
+}
+
+// Top two levels, nested, with the top level's name in a strip along the top of each box
+function renderTreemap(root: HierarchyNode, area: Rect): string {
+  const tiles = treemapLayout(
+    root,
+    { x: area.left, y: area.top, width: area.width, height: area.height },
+    { levels: 2, padding: 2, header: 16 },
+  )
+  const parts: string[] = []
+  for (const tile of tiles) {
+    const nested = tile.depth === 1 && tile.node.children.length > 0
+    parts.push(
+      `<rect x="${fmt(tile.x)}" y="${fmt(tile.y)}" width="${fmt(tile.width)}" height="${fmt(tile.height)}" ${paint(tile.node.color)} stroke="#ffffff" stroke-width="1"/>`,
+    )
+    if (tile.width < 40 || tile.height < 14) continue
+    const label = nested ? tile.node.name : `${tile.node.name} ${formatNumber(tile.node.value)}`
+    const chars = Math.floor((tile.width - 6) / 6.5)
+    parts.push(
+      text(
+        tile.x + 3,
+        tile.y + 12,
+        label.length > chars ? `${label.slice(0, chars - 1)}…` : label,
+        {
+          size: 11,
+          weight: nested ? 'bold' : undefined,
+          fill: '#ffffff',
+        },
+      ),
+    )
+  }
+  return parts.join('\n')
+}
+
+// Up to three rings around the center, innermost for the top level
+function renderSunburst(root: HierarchyNode, area: Rect): string {
+  const arcs = sunburstLayout(root, 3)
+  const levels = arcs.reduce((max, arc) => Math.max(max, arc.depth), 1)
+  const cx = area.left + area.width / 2
+  const cy = area.top + area.height / 2
+  const radius = Math.min(area.width, area.height) / 2 - 4
+  const hole = radius * 0.2
+  const ring = (radius - hole) / levels
+  const parts: string[] = []
+  for (const arc of arcs) {
+    const inner = hole + (arc.depth - 1) * ring
+    // Sunburst angles start at 12 o'clock; arcPath's start at 3 o'clock
+    const start = arc.startAngle - Math.PI / 2
+    const sweep = arc.endAngle - arc.startAngle
+    const path =
+      sweep >= Math.PI * 2 - 1e-9
+        ? arcPath(cx, cy, inner + ring, inner, start, start + Math.PI) +
+          arcPath(cx, cy, inner + ring, inner, start + Math.PI, start + Math.PI * 2)
+        : arcPath(cx, cy, inner + ring, inner, start, start + sweep)
+    const opacity = (1 - (arc.depth - 1) * 0.2).toFixed(2)
+    parts.push(
+      `<path d="${path}" ${paint(arc.node.color)} fill-opacity="${opacity}" stroke="#ffffff" stroke-width="1"/>`,
+    )
+    const mid = start + sweep / 2
+    const labelRadius = inner + ring / 2
+    if (sweep * labelRadius >= 40) {
+      parts.push(
+        text(
+          cx + Math.cos(mid) * labelRadius,
+          cy + Math.sin(mid) * labelRadius + 4,
+          truncate(arc.node.name),
+          { size: 11, anchor: 'middle', fill: '#ffffff' },
+        ),
+      )
+    }
+  }
+  return parts.join('\n')
+}
+
+// One centered bar per stage, stage names on the left and conversion from the first stage on the right
+function renderFunnel(chartData: ChartData, area: Rect): string {
+  const dataset = chartData.datasets[0]
+  const stages = chartData.funnel ?? []
+  if (!dataset || stages.length === 0) return ''
+
+  const labelWidth = Math.min(140, 7 * longest(chartData.labels))
+  const plot: Rect = {
+    left: area.left + labelWidth + 8,
+    top: area.top,
+    width: area.width - labelWidth - 96,
+    height: area.height,
+  }
+  const widest = Math.max(...stages.map((stage) => stage.value))
+  const band = plot.height / stages.length
+  const center = plot.left + plot.width / 2
+  const parts: string[] = []
+
+  stages.forEach((stage, i) => {
+    const width = (stage.value / widest) * plot.width
+    const y = plot.top + i * band
+    const color = colorAt(dataset.backgroundColor, i)
+    parts.push(
+      `<rect x="${fmt(center - width / 2)}" y="${fmt(y + band * 0.05)}" width="${fmt(width)}" height="${fmt(band * 0.9)}" ${paint(color)} stroke="${solid(colorAt(dataset.borderColor, i))}" stroke-width="${dataset.borderWidth}"/>`,
+    )
+    const middle = y + band / 2 + 4
+    parts.push(
+      text(plot.left - 6, middle, truncate(chartData.labels[i] ?? ''), {
+        size: 11,
+        anchor: 'end',
+        fill: AXIS_COLOR,
+      }),
+    )
+    parts.push(text(center, middle, formatNumber(stage.value), { size: 11, anchor: 'middle' }))
+    parts.push(
+      text(plot.left + plot.width + 8, middle, `${(stage.ofFirst * 100).toFixed(1)}%`, {
+        size: 11,
+        fill: AXIS_COLOR,
+      }),
+    )
+  })
+  return parts.join('\n')
+}
+
+// Bar, line, histogram and box plot charts: one band per label along the category axis
+function renderCategory(chartData: ChartData, config: ChartConfig, area: Rect): string {
+  const labels = chartData.labels
+  const datasets = chartData.datasets
+  const horizontal = config.type === 'bar' && config.orientation === 'horizontal'
+  const stackMode = config.type === 'bar' && config.seriesColumn ? config.barMode : undefined
+  const stacked = stackMode === 'stacked' || stackMode === 'percent'
+  const isLineDataset = (d: ChartDataDataset) =>
+    config.type === 'line' || (d as MixedChartDataset).type === 'line'
+
+  // Value domain, with bars anchored at zero
+  const domain: number[] = []
+  if (config.type !== 'line' && config.type !== 'boxplot') domain.push(0)
+  labels.forEach((_, i) => {
+    let positive = 0
+    let negative = 0
+    for (const d of datasets) {
+      const v = d.data[i]
+      if (typeof v === 'number') {
+        if (stacked) {
+          if (v >= 0) positive += v
+          else negative += v
+        } else domain.push(v)
+      } else if (Array.isArray(v)) domain.push(v[0], v[1])
+    }
+    if (stacked) domain.push(positive, negative)
+  })
+  for (const d of datasets) {
+    for (const v of d.data) {
+      if (isPoint(v)) domain.push(v.y)
+    }
+  }
+  domain.push(...annotationDomain(chartData.annotations, horizontal ? 'x' : 'y'))
+  const percent = stackMode === 'percent'
+  const valueMin = Math.min(...domain)
+  const valueMax = percent ? 100 : Math.max(...domain)
+
+  const valueTitle =
+    config.type === 'histogram' || config.aggregation === 'count' ? 'Count' : config.dataColumn
+  const categoryTitle =
+    config.type === 'histogram' ? config.dataColumn : (config.labelColumn ?? config.dataColumn)
+
+  const rotate = !horizontal && labels.length > 8
+  const labelWidth = horizontal ? Math.min(140, 7 * longest(labels)) : 0
+  const plot: Rect = {
+    left: area.left + 56 + labelWidth,
+    top: area.top,
+    width: area.width - 64 - labelWidth,
+    height: area.height - (rotate ? 90 : 44),
+  }
+  const parts: string[] = []
+
+  const scale = linearScale(
+    valueMin,
+    valueMax,
+    horizontal ? plot.left : plot.top + plot.height,
+    horizontal ? plot.left + plot.width : plot.top,
+  )
+  const tickSuffix = percent ? '%' : ''
+  for (const tick of scale.ticks) {
+    const p = scale.toPixel(tick)
+    if (horizontal) {
+      parts.push(line(p, plot.top, p, plot.top + plot.height, GRID_COLOR))
+      parts.push(
+        text(p, plot.top + plot.height + 16, formatNumber(tick) + tickSuffix, {
+          size: 11,
+          anchor: 'middle',
+          fill: AXIS_COLOR,
+        }),
+      )
+    } else {
+      parts.push(line(plot.left, p, plot.left + plot.width, p, GRID_COLOR))
+      parts.push(
+        text(plot.left - 6, p + 4, formatNumber(tick) + tickSuffix, {
+          size: 11,
+          anchor: 'end',
+          fill: AXIS_COLOR,
+        }),
+      )
+    }
+  }
+
+  const bandCount = Math.max(labels.length, 1)
+  const band = (horizontal ? plot.height : plot.width) / bandCount
+  const bandStart = (i: number) => (horizontal ? plot.top : plot.left) + i * band
+  labels.forEach((label, i) => {
+    const center = bandStart(i) + band / 2
+    if (horizontal) {
+      parts.push(
+        text(plot.left - 6, center + 4, truncate(label), {
+          size: 11,
+          anchor: 'end',
+          fill: AXIS_COLOR,
+        }),
+      )
+    } else if (rotate) {
+      const y = plot.top + plot.height + 12
+      parts.push(
+        text(center, y, truncate(label), {
+          size: 11,
+          anchor: 'end',
+          fill: AXIS_COLOR,
+          transform: `rotate(-45 ${fmt(center)} ${fmt(y)})`,
+        }),
+      )
+    } else {
+      parts.push(
+        text(center, plot.top + plot.height + 16, truncate(label), {
+          size: 11,
+          anchor: 'middle',
+          fill: AXIS_COLOR,
+        }),
+      )
+    }
+  })
+
+  const categoryCenter = (i: number) => bandStart(i) + band / 2
+  const axes: PlotAxes = horizontal
+    ? { x: scale.toPixel, y: categoryCenter, halfCategory: { x: 0, y: band / 2 } }
+    : { x: categoryCenter, y: scale.toPixel, halfCategory: { x: band / 2, y: 0 } }
+  parts.push(...annotationBands(chartData.annotations, plot, axes))
+
+  const baseline = scale.toPixel(Math.max(scale.min, Math.min(0, scale.max)))
+  const barDatasets = datasets.filter((d) => !isLineDataset(d))
+  const overlaid = barDatasets.filter((d) => d.grouped === false)
+  const sideBySide = stacked ? [] : barDatasets.filter((d) => d.grouped !== false)
+  const groupWidth = band * (config.type === 'histogram' ? 1 : 0.8)
+  const stackTops = labels.map(() => ({ positive: 0, negative: 0 }))
+
+  const barRect = (i: number, offset: number, size: number, from: number, to: number) => {
+    const a = scale.toPixel(from)
+    const b = scale.toPixel(to)
+    const start = bandStart(i) + (band - groupWidth) / 2 + offset
+    return horizontal
+      ? { x: Math.min(a, b), y: start, w: Math.abs(b - a), h: size }
+      : { x: start, y: Math.min(a, b), w: size, h: Math.abs(b - a) }
+  }
+
+  barDatasets.forEach((d) => {
+    const slot = sideBySide.indexOf(d)
+    const slotWidth = sideBySide.length > 0 ? groupWidth / sideBySide.length : groupWidth
+    d.data.forEach((v, i) => {
+      let from: number
+      let to: number
+      if (Array.isArray(v)) {
+        ;[from, to] = v
+      } else if (typeof v === 'number') {
+        if (stacked) {
+          const stack = stackTops[i]
+          from = v >= 0 ? stack.positive : stack.negative
+          to = from + v
+          if (v >= 0) stack.positive = to
+          else stack.negative = to
+        } else {
+          from = 0
+          to = v
+        }
+      } else return
+
+      let offset = 0
+      let size = groupWidth
+      if (overlaid.includes(d)) {
+        size = groupWidth * (d.barPercentage ?? 0.9)
+        offset = (groupWidth - size) / 2
+      } else if (slot !== -1) {
+        offset = slot * slotWidth
+        size = slotWidth
+      }
+      const r = barRect(i, offset, Math.max(size, 1), from, to)
+      const color = colorAt(d.backgroundColor, i)
+      parts.push(
+        `<rect x="${fmt(r.x)}" y="${fmt(r.y)}" width="${fmt(r.w)}" height="${fmt(r.h)}" ${paint(color)} stroke="${solid(colorAt(d.borderColor, i))}" stroke-width="${d.borderWidth}"/>`,
+      )
+    })
+  })
+
+  datasets.filter(isLineDataset).forEach((d) => {
+    const color = solid(colorAt(d.borderColor, 0))
+    const points: (ChartPoint | null)[] = d.data.map((v, i) => {
+      if (typeof v === 'number') return { x: i, y: v }
+      if (isPoint(v)) return v
+      return null
+    })
+    const toXY = (p: ChartPoint) => {
+      const c = bandStart(p.x) + band / 2
+      const v = scale.toPixel(p.y)
+      return horizontal ? { x: v, y: c } : { x: c, y: v }
+    }
+
+    if (d.showLine !== false && config.type === 'line') {
+      parts.push(
+        polyline(
+          points.map((p) => (p ? toXY(p) : null)),
+          color,
+          d.borderWidth,
+        ),
+      )
+    }
+    for (const p of points) {
+      if (!p) continue
+      const { x, y } = toXY(p)
+      if (d.pointStyle === 'line') {
+        const half = groupWidth * 0.3
+        parts.push(line(x - half, y, x + half, y, color, d.borderWidth))
+      } else if ((d.pointRadius ?? 3) > 0) {
+        parts.push(circle(x, y, d.pointRadius ?? 3, color))
+      }
+    }
+  })
+
+  parts.push(...annotationMarks(chartData.annotations, plot, axes))
+  parts.push(axisFrame(plot, horizontal, baseline))
+  parts.push(
+    axisTitles(
+      plot,
+      horizontal ? valueTitle : categoryTitle,
+      horizontal ? categoryTitle : valueTitle,
+      rotate,
+    ),
+  )
+  return parts.join('\n')
+}
+
+// Scatter and violin charts: both axes are numeric
+function renderLinear(chartData: ChartData, config: ChartConfig, area: Rect): string {
+  const points = chartData.datasets.flatMap((d) => d.data.filter(isPoint))
+  if (points.length === 0) return ''
+
+  const violin = config.type === 'violin'
+  const xs = [...points.map((p) => p.x), ...annotationDomain(chartData.annotations, 'x')]
+  const ys = [...points.map((p) => p.y), ...annotationDomain(chartData.annotations, 'y')]
+  const plot: Rect = {
+    left: area.left + 56,
+    top: area.top,
+    width: area.width - 64,
+    height: area.height - 44,
+  }
+  const xScale = violin
+    ? categoryIndexScale(chartData.labels.length, plot.left, plot.left + plot.width)
+    : linearScale(Math.min(...xs), Math.max(...xs), plot.left, plot.left + plot.width)
+  const yScale = linearScale(Math.min(...ys), Math.max(...ys), plot.top + plot.height, plot.top)
+  const parts: string[] = []
+
+  for (const tick of yScale.ticks) {
+    const y = yScale.toPixel(tick)
+    parts.push(line(plot.left, y, plot.left + plot.width, y, GRID_COLOR))
+    parts.push(
+      text(plot.left - 6, y + 4, formatNumber(tick), { size: 11, anchor: 'end', fill: AXIS_COLOR }),
+    )
+  }
+  for (const tick of xScale.ticks) {
+    const x = xScale.toPixel(tick)
+    if (!violin) parts.push(line(x, plot.top, x, plot.top + plot.height, GRID_COLOR))
+    const label = violin ? truncate(chartData.labels[tick] ?? '') : formatNumber(tick)
+    parts.push(
+      text(x, plot.top + plot.height + 16, label, { size: 11, anchor: 'middle', fill: AXIS_COLOR }),
+    )
+  }
+
+  const axes: PlotAxes = { x: xScale.toPixel, y: yScale.toPixel, halfCategory: { x: 0, y: 0 } }
+  parts.push(...annotationBands(chartData.annotations, plot, axes))
+
+  for (const d of chartData.datasets) {
+    const stroke = solid(colorAt(d.borderColor, 0))
+    const fill = colorAt(d.backgroundColor, 0)
+    const xy = d.data.map((v) =>
+      isPoint(v) ? { x: xScale.toPixel(v.x), y: yScale.toPixel(v.y) } : null,
+    )
+    if (d.fill === 'shape') {
+      const outline = xy.filter((p): p is { x: number; y: number } => p !== null)
+      parts.push(
+        `<polygon points="${outline.map((p) => `${fmt(p.x)},${fmt(p.y)}`).join(' ')}" ${paint(fill)} stroke="${stroke}" stroke-width="${d.borderWidth}"/>`,
+      )
+      continue
+    }
+    if (d.showLine) {
+      parts.push(polyline(xy, stroke, d.borderWidth, d.borderDash))
+    }
+    for (const p of xy) {
+      if (!p) continue
+      if (d.pointStyle === 'line') {
+        const half = (xScale.toPixel(1) - xScale.toPixel(0)) * 0.15
+        parts.push(line(p.x - half, p.y, p.x + half, p.y, stroke, d.borderWidth))
+      } else if ((d.pointRadius ?? 3) > 0) {
+        parts.push(circle(p.x, p.y, d.pointRadius ?? 3, fill))
+      }
+    }
+  }
+
+  parts.push(...annotationMarks(chartData.annotations, plot, axes))
+  parts.push(axisFrame(plot, false, plot.top + plot.height))
+  parts.push(axisTitles(plot, config.labelColumn ?? '', config.dataColumn, false))
+  return parts.join('\n')
+}
+
+// Annotation positions along an axis, so the scale reaches targets outside the data
+function annotationDomain(
+  annotations: ResolvedAnnotation[] | undefined,
+  axis: 'x' | 'y',
+): number[] {
+  return (annotations ?? []).flatMap((a) => {
+    if (a.kind === 'note') return [axis === 'x' ? a.x : a.y]
+    if (a.axis !== axis) return []
+    return a.kind === 'line' ? [a.value] : [a.from, a.to]
+  })
+}
+
+// Shaded bands, drawn beneath the data
+function annotationBands(
+  annotations: ResolvedAnnotation[] | undefined,
+  plot: Rect,
+  axes: PlotAxes,
+): string[] {
+  const parts: string[] = []
+  for (const a of annotations ?? []) {
+    if (a.kind !== 'band') continue
+    const toPixel = axes[a.axis]
+    const half = axes.halfCategory[a.axis]
+    const p1 = toPixel(a.from)
+    const p2 = toPixel(a.to)
+    const start = Math.min(p1, p2) - half
+    const size = Math.abs(p2 - p1) + half * 2
+    const r =
+      a.axis === 'y'
+        ? { x: plot.left, y: start, w: plot.width, h: size }
+        : { x: start, y: plot.top, w: size, h: plot.height }
+    parts.push(
+      `<rect x="${fmt(r.x)}" y="${fmt(r.y)}" width="${fmt(r.w)}" height="${fmt(r.h)}" fill="${solid(a.color)}" fill-opacity="0.15"/>`,
+    )
+    if (a.label) parts.push(text(r.x + 4, r.y + 14, a.label, { size: 11, fill: solid(a.color) }))
+  }
+  return parts
+}
+
+// Reference lines and notes, drawn over the data
+function annotationMarks(
+  annotations: ResolvedAnnotation[] | undefined,
+  plot: Rect,
+  axes: PlotAxes,
+): string[] {
+  const parts: string[] = []
+  for (const a of annotations ?? []) {
+    const color = solid(a.color)
+    if (a.kind === 'line') {
+      const p = axes[a.axis](a.value)
+      const [x1, y1, x2, y2] =
+        a.axis === 'y'
+          ? [plot.left, p, plot.left + plot.width, p]
+          : [p, plot.top, p, plot.top + plot.height]
+      parts.push(
+        `<line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}" stroke="${color}" stroke-width="2" stroke-dasharray="6 4"/>`,
+      )
+      if (a.label) {
+        parts.push(
+          a.axis === 'y'
+            ? text(plot.left + plot.width - 4, p - 4, a.label, {
+                size: 11,
+                anchor: 'end',
+                fill: color,
+              })
+            : text(p + 4, plot.top + 12, a.label, { size: 11, fill: color }),
+        )
+      }
+    } else if (a.kind === 'note') {
+      const x = axes.x(a.x)
+      const y = axes.y(a.y)
+      parts.push(circle(x, y, 3, color))
+      parts.push(text(x, y - 6, a.text, { size: 11, anchor: 'middle', fill: color }))
+    }
+  }
+  return parts
+}
+
+function legendEntries(
+  chartData: ChartData,
+  config: ChartConfig,
+): { label: string; color: string }[] {
+  if (['pie', 'doughnut', 'treemap', 'sunburst'].includes(config.type)) {
+    const dataset = chartData.datasets[0]
+    return dataset
+      ? chartData.labels.map((label, i) => ({ label, color: colorAt(dataset.backgroundColor, i) }))
+      : []
+  }
+  if (chartData.datasets.length < 2) return []
+  return chartData.datasets.map((d) => ({ label: d.label, color: colorAt(d.backgroundColor, 0) }))
+}
+
+function layoutLegend(
+  entries: { label: string; color: string }[],
+  maxWidth: number,
+): { width: number; entries: { label: string; color: string; width: number }[] }[] {
+  const rows: { width: number; entries: { label: string; color: string; width: number }[] }[] = []
+  let current: (typeof rows)[number] = { width: 0, entries: [] }
+  for (const entry of entries) {
+    const label = truncate(entry.label)
+    const w = 16 + label.length * 6.5 + 16
+    if (current.entries.length > 0 && current.width + w > maxWidth) {
+      rows.push(current)
+      current = { width: 0, entries: [] }
+    }
+    current.entries.push({ label, color: entry.color, width: w })
+    current.width += w
+  }
+  if (current.entries.length > 0) rows.push(current)
+  return rows
+}
+
+function linearScale(min: number, max: number, from: number, to: number): LinearScale {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    min = 0
+    max = 1
+  }
+  if (min === max) {
+    min -= 1
+    max += 1
+  }
+  const ticks = niceTicks(min, max, 5)
+  const lo = Math.min(min, ticks[0])
+  const hi = Math.max(max, ticks[ticks.length - 1])
+  return {
+    min: lo,
+    max: hi,
+    ticks,
+    toPixel: (value: number) => from + ((value - lo) / (hi - lo)) * (to - from),
+  }
+}
+
+function categoryIndexScale(count: number, from: number, to: number): LinearScale {
+  const lo = -0.5
+  const hi = Math.max(count, 1) - 0.5
+  return {
+    min: lo,
+    max: hi,
+    ticks: Array.from({ length: count }, (_, i) => i),
+    toPixel: (value: number) => from + ((value - lo) / (hi - lo)) * (to - from),
+  }
+}
+
+// Round tick steps of 1, 2 or 5 × 10^n
+export function niceTicks(min: number, max: number, count: number): number[] {
+  const rough = (max - min) / Math.max(count, 1)
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)))
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) ?? rough
+  const start = Math.floor(min / step) * step
+  const ticks: number[] = []
+  for (let v = start; v <= max + step * 1e-9; v += step) {
+    ticks.push(Number.parseFloat(v.toPrecision(12)))
+  }
+  if (ticks[ticks.length - 1] < max)
+    ticks.push(Number.parseFloat((start + ticks.length * step).toPrecision(12)))
+  return ticks
+}
+
+function axisFrame(plot: Rect, horizontal: boolean, baseline: number): string {
+  const bottom = plot.top + plot.height
+  return horizontal
+    ? [
+        line(plot.left, plot.top, plot.left, bottom, AXIS_COLOR),
+        line(baseline, plot.top, baseline, bottom, AXIS_COLOR),
+      ].join('\n')
+    : [
+        line(plot.left, plot.top, plot.left, bottom, AXIS_COLOR),
+        line(plot.left, baseline, plot.left + plot.width, baseline, AXIS_COLOR),
+      ].join('\n')
+}
+
+function axisTitles(plot: Rect, xTitle: string, yTitle: string, rotatedLabels: boolean): string {
+  const parts: string[] = []
+  if (xTitle) {
+    parts.push(
+      text(plot.left + plot.width / 2, plot.top + plot.height + (rotatedLabels ? 86 : 36), xTitle, {
+        size: 12,
+        anchor: 'middle',
+        weight: 'bold',
+      }),
+    )
+  }
+  if (yTitle) {
+    const x = plot.left - 44
+    const y = plot.top + plot.height / 2
+    parts.push(
+      text(x, y, yTitle, {
+        size: 12,
+        anchor: 'middle',
+        weight: 'bold',
+        transform: `rotate(-90 ${fmt(x)} ${fmt(y)})`,
+      }),
+    )
+  }
+  return parts.join('\n')
+}
+
+function polyline(
+  points: ({ x: number; y: number } | null)[],
+  color: string,
+  width: number,
+  dash?: number[],
+): string {
+  // Null points break the line, as Chart.js does for gaps
+  const segments: string[] = []
+  let current: string[] = []
+  for (const p of points) {
+    if (!p) {
+      if (current.length > 1) segments.push(current.join(' '))
+      current = []
+      continue
+    }
+    current.push(`${fmt(p.x)},${fmt(p.y)}`)
+  }
+  if (current.length > 1) segments.push(current.join(' '))
+  const dashAttr = dash?.length ? ` stroke-dasharray="${dash.join(' ')}"` : ''
+  return segments
+    .map(
+      (s) =>
+        `<polyline points="${s}" fill="none" stroke="${color}" stroke-width="${width}"${dashAttr}/>`,
+    )
+    .join('\n')
+}
+
+function line(x1: number, y1: number, x2: number, y2: number, color: string, width = 1): string {
+  return `<line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}" stroke="${color}" stroke-width="${width}"/>`
+}
+
+function circle(x: number, y: number, r: number, color: string): string {
+  return `<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(r)}" ${paint(color)}/>`
+}
+
+function text(
+  x: number,
+  y: number,
+  content: string,
+  opts: {
+    size: number
+    anchor?: 'start' | 'middle' | 'end'
+    weight?: 'bold'
+    fill?: string
+    transform?: string
+  },
+): string {
+  const attrs = [
+    `x="${fmt(x)}"`,
+    `y="${fmt(y)}"`,
+    FONT,
+    `font-size="${opts.size}"`,
+    `fill="${opts.fill ?? TEXT_COLOR}"`,
+  ]
+  if (opts.anchor) attrs.push(`text-anchor="${opts.anchor}"`)
+  if (opts.weight) attrs.push(`font-weight="${opts.weight}"`)
+  if (opts.transform) attrs.push(`transform="${opts.transform}"`)
+  return `<text ${attrs.join(' ')}>${escapeXml(content)}</text>`
+}
+
+// #rrggbbaa isn't understood by every print tool, so split out the alpha channel
+function paint(color: string): string {
+  const match = /^#([0-9a-f]{6})([0-9a-f]{2})$/i.exec(color)
+  if (match) {
+    const opacity = (parseInt(match[2], 16) / 255).toFixed(2)
+    return `fill="#${match[1]}" fill-opacity="${opacity}"`
+  }
+  return `fill="${escapeXml(color)}"`
+}
+
+function solid(color: string): string {
+  const match = /^(#[0-9a-f]{6})[0-9a-f]{2}$/i.exec(color)
+  return escapeXml(match ? match[1] : color)
+}
+
+function colorAt(color: string | string[], index: number): string {
+  if (Array.isArray(color)) return color[index % color.length] ?? '#3b82f6'
+  return color
+}
+
+function isPoint(v: unknown): v is ChartPoint {
+  return typeof v === 'object' && v !== null && !Array.isArray(v)
+}
+
+function longest(labels: string[]): number {
+  return labels.reduce((max, l) => Math.max(max, truncate(l).length), 0)
+}
+
+function truncate(label: string): string {
+  return label.length > MAX_LABEL_CHARS ? `${label.slice(0, MAX_LABEL_CHARS - 1)}…` : label
+}
+
+function formatNumber(value: number): string {
+  const abs = Math.abs(value)
+  if (abs >= 1e9) return `${Number.parseFloat((value / 1e9).toPrecision(3))}B`
+  if (abs >= 1e6) return `${Number.parseFloat((value / 1e6).toPrecision(3))}M`
+  if (abs >= 1e4) return `${Number.parseFloat((value / 1e3).toPrecision(3))}K`
+  return String(Number.parseFloat(value.toPrecision(4)))
+}
+
+function fmt(n: number): string {
+  return String(Math.round(n * 100) / 100)
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
@@ -0,0 +1,95 @@
+import { ChartColorSettings, ColorPaletteId } from '@/types/chart'
+
+export interface ColorPalette {
+  id: ColorPaletteId
+  label: string
+  colorblindSafe: boolean
+  colors: string[]
+}
+
+export const COLOR_PALETTES: ColorPalette[] = [
+  {
+    id: 'default',
+    label: 'Default',
+    colorblindSafe: false,
+    colors: [
+      '#3b82f6',
+      '#10b981',
+      '#f59e0b',
+      '#ef4444',
+      '#8b5cf6',
+      '#22c55e',
+      '#14b8a6',
+      '#f97316',
+      '#eab308',
+      '#06b6d4',
+    ],
+  },
+  {
+    // Okabe & Ito, "Color Universal Design"
+    id: 'okabe-ito',
+    label: 'Okabe–Ito',
+    colorblindSafe: true,
+    colors: [
+      '#e69f00',
+      '#56b4e9',
+      '#009e73',
+      '#f0e442',
+      '#0072b2',
+      '#d55e00',
+      '#cc79a7',
+      '#000000',
+    ],
+  },
+  {
+    // Paul Tol's qualitative "bright" scheme
+    id: 'tol-bright',
+    label: 'Tol Bright',
+    colorblindSafe: true,
+    colors: ['#4477aa', '#ee6677', '#228833', '#ccbb44', '#66ccee', '#aa3377', '#bbbbbb'],
+  },
+  {
+    id: 'tableau10',
+    label: 'Tableau 10',
+    colorblindSafe: false,
+    colors: [
+      '#4e79a7',
+      '#f28e2b',
+      '#e15759',
+      '#76b7b2',
+      '#59a14f',
+      '#edc948',
+      '#b07aa1',
+      '#ff9da7',
+      '#9c755f',
+      '#bab0ac',
+    ],
+  },
+  {
+    id: 'viridis',
+    label: 'Viridis',
+    colorblindSafe: true,
+    colors: [
+      '#440154',
+      '#482878',
+      '#3e4989',
+      '#31688e',
+      '#26828e',
+      '#1f9e89',
+      '#35b779',
+      '#6ece58',
+      '#b5de2b',
+      '#fde725',
+    ],
+  },
+]
+
+export const DEFAULT_COLOR_SETTINGS: ChartColorSettings = {
+  palette: 'default',
+  assigned: {},
+  pinned: {},
+}
+
+export function getPalette(id: ColorPaletteId): ColorPalette {
+  return COLOR_PALETTES.find((p) => p.id === id) ?? COLOR_PALETTES[0]
+}
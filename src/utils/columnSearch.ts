@@ -1,11 +1,26 @@
 import { ColumnInfo } from '@/types/excel'
 import { ChartType } from '@/types/chart'
-import { chartTypeConfigs } from './chartConfig'
+import { chartTypeConfigs, facetDataTypes } from './chartConfig'
 
-export function getCompatibleColumns(columnInfo: ColumnInfo[], selectedType: ChartType): ColumnInfo[] {
+// 'data' is the aggregated/value column, 'label' the grouping or x-axis column,
+// 'color' the categorical column used to color points, 'series' the column split into datasets,
+// 'facet' the column split into small multiples, 'hierarchy' a treemap or sunburst category level
+export type ColumnAxis = 'data' | 'label' | 'color' | 'series' | 'facet' | 'hierarchy'
+
+export function getCompatibleColumns(
+  columnInfo: ColumnInfo[],
+  selectedType: ChartType,
+  axis: ColumnAxis = 'data',
+): ColumnInfo[] {
   const config = chartTypeConfigs.find((c) => c.type === selectedType)
   if (!config) return []
-  return columnInfo.filter((col) => config.supportedDataTypes.includes(col.type))
+  let types = config.supportedDataTypes
+  if (axis === 'label') types = config.labelDataTypes ?? config.supportedDataTypes
+  if (axis === 'color') types = config.colorDataTypes ?? []
+  if (axis === 'series') types = config.seriesDataTypes ?? []
+  if (axis === 'facet') types = facetDataTypes
+  if (axis === 'hierarchy') types = config.hierarchyDataTypes ?? []
+  return columnInfo.filter((col) => types.includes(col.type))
 }
 
 export function rankColumns(
@@ -89,4 +104,3 @@ export function fuzzyMatch(columnName: string, searchTerm: string): boolean {
 
   return false
 }
-
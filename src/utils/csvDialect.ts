@@ -0,0 +1,292 @@
+import type { CsvDialect, CsvEncoding } from '@/types/excel'
+
+export const DELIMITED_TEXT_EXTS = ['.csv', '.tsv', '.txt']
+
+export const CSV_DELIMITERS: Array<{ value: string; label: string }> = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+]
+
+export const CSV_QUOTES: Array<{ value: string; label: string }> = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+]
+
+export const CSV_DECIMALS: Array<{ value: CsvDialect['decimal']; label: string }> = [
+  { value: '.', label: 'Point (1.5)' },
+  { value: ',', label: 'Comma (1,5)' },
+]
+
+export const CSV_ENCODINGS: Array<{ value: CsvEncoding; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 (Western European)' },
+]
+
+const SNIFF_RECORDS = 20 // Records compared when guessing the delimiter
+const COMMA_DECIMAL = /^[-+]?(\d{1,3}(\.\d{3})+|\d+),\d+$/
+const POINT_DECIMAL = /^[-+]?(\d{1,3}(,\d{3})+|\d+)\.\d+$/
+// Whole numbers grouped with points, which only mean thousands once the decimal mark is a comma
+const COMMA_THOUSANDS = /^[-+]?\d{1,3}(\.\d{3})+$/
+
+export interface EncodingGuess {
+  encoding: CsvEncoding
+  bom: boolean
+  confidence: number
+}
+
+export interface DialectGuess {
+  delimiter: string
+  quote: string
+  decimal: CsvDialect['decimal']
+  confidence: number
+}
+
+export function isDelimitedText(fileName: string): boolean {
+  const name = fileName.toLowerCase()
+  return DELIMITED_TEXT_EXTS.some((ext) => name.endsWith(ext))
+}
+
+// A byte order mark settles it. Without one, zero bytes in every other position mean UTF-16;
+// otherwise text that isn't valid UTF-8 is taken for Windows-1252, the usual Excel export on Windows
+export function detectEncoding(bytes: Uint8Array): EncodingGuess {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', bom: true, confidence: 1 }
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', bom: true, confidence: 1 }
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', bom: true, confidence: 1 }
+  }
+
+  const pairs = Math.floor(Math.min(bytes.length, 1024) / 2)
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < pairs; i++) {
+    if (bytes[2 * i] === 0) evenZeros++
+    if (bytes[2 * i + 1] === 0) oddZeros++
+  }
+  if (pairs > 0 && oddZeros / pairs > 0.4 && evenZeros / pairs < 0.1) {
+    return { encoding: 'utf-16le', bom: false, confidence: 0.8 }
+  }
+  if (pairs > 0 && evenZeros / pairs > 0.4 && oddZeros / pairs < 0.1) {
+    return { encoding: 'utf-16be', bom: false, confidence: 0.8 }
+  }
+
+  const utf8 = checkUtf8(bytes)
+  if (utf8 === 'ascii') return { encoding: 'utf-8', bom: false, confidence: 1 }
+  if (utf8 === 'valid') return { encoding: 'utf-8', bom: false, confidence: 0.95 }
+  return { encoding: 'windows-1252', bom: false, confidence: 0.7 }
+}
+
+// The delimiter that splits the first records into the same number of fields most often. Close
+// runners-up, such as commas in European decimals, lower the confidence
+export function detectDialect(text: string): DialectGuess {
+  const quote = detectQuote(text)
+  const scored = CSV_DELIMITERS.map(({ value: delimiter }) => {
+    const records = parseDelimited(text, { delimiter, quote }, SNIFF_RECORDS + 1)
+    // The last record may be cut short when only the start of the file was read
+    if (records.length > 1) records.pop()
+    const width = modeOf(records.map((r) => r.length))
+    const consistency =
+      width > 1 ? records.filter((r) => r.length === width).length / records.length : 0
+    return { delimiter, width, consistency }
+  }).sort((a, b) => b.consistency - a.consistency || b.width - a.width)
+
+  const [best, runnerUp] = scored
+  if (best.consistency === 0) return { delimiter: ',', quote, decimal: '.', confidence: 0.5 }
+  const confidence = best.consistency * (1 - runnerUp.consistency / 2)
+  return {
+    delimiter: best.delimiter,
+    quote,
+    decimal: detectDecimal(text, best.delimiter, quote),
+    confidence: Math.round(confidence * 100) / 100,
+  }
+}
+
+// Fields split on the delimiter, with quoted fields holding delimiters, line breaks and doubled
+// quotes. Stops after maxRecords when given
+export function parseDelimited(
+  text: string,
+  dialect: Pick<CsvDialect, 'delimiter' | 'quote'>,
+  maxRecords = Infinity,
+): string[][] {
+  const reader = new CsvRecordReader(dialect)
+  const records = reader.push(text, maxRecords)
+  if (records.length < maxRecords) records.push(...reader.end())
+  return records
+}
+
+// Splits text fed in pieces into records, so a file can be read a slice at a time. Fields, quotes
+// and line breaks may be cut anywhere between two pieces
+export class CsvRecordReader {
+  private record: string[] = []
+  private field = ''
+  private quoted = false
+  private quoteSeen = false // Inside quotes: ends the field unless another quote follows
+  private afterCR = false // A \r ended the last record, so a \n right after it belongs to it
+
+  constructor(private readonly dialect: Pick<CsvDialect, 'delimiter' | 'quote'>) {}
+
+  // The records completed by this piece of text
+  push(text: string, maxRecords = Infinity): string[][] {
+    const { delimiter, quote } = this.dialect
+    const records: string[][] = []
+    let from = 0 // Start of the text not yet added to the field
+    let i = 0
+    const take = (end: number) => {
+      if (end > from) this.field += text.slice(from, end)
+    }
+
+    for (; i < text.length && records.length < maxRecords; i++) {
+      const ch = text[i]
+      if (this.afterCR) {
+        this.afterCR = false
+        if (ch === '\n') {
+          from = i + 1
+          continue
+        }
+      }
+      if (this.quoteSeen) {
+        this.quoteSeen = false
+        if (ch === quote) {
+          this.field += quote
+          from = i + 1
+          continue
+        }
+        this.quoted = false
+      } else if (this.quoted) {
+        if (ch === quote) {
+          take(i)
+          from = i + 1
+          this.quoteSeen = true
+        }
+        continue
+      }
+
+      if (ch === quote && this.field === '' && i === from) {
+        this.quoted = true
+        from = i + 1
+      } else if (ch === delimiter) {
+        take(i)
+        this.record.push(this.field)
+        this.field = ''
+        from = i + 1
+      } else if (ch === '\n' || ch === '\r') {
+        take(i)
+        this.endRecord(records)
+        from = i + 1
+        this.afterCR = ch === '\r'
+      }
+    }
+    take(i)
+    return records
+  }
+
+  // The last record, when the text doesn't end with a line break
+  end(): string[][] {
+    const records: string[][] = []
+    this.quoted = false
+    this.quoteSeen = false
+    this.afterCR = false
+    if (this.field !== '' || this.record.length > 0) this.endRecord(records)
+    return records
+  }
+
+  // Blank lines are skipped
+  private endRecord(records: string[][]) {
+    this.record.push(this.field)
+    if (this.record.length > 1 || this.record[0] !== '') records.push(this.record)
+    this.record = []
+    this.field = ''
+  }
+}
+
+// Text in the standard form the spreadsheet reader expects: double quotes around fields that need
+// them and decimal points in numbers. Only needed for other quoting or decimal commas
+export function toStandardCsv(
+  records: string[][],
+  { delimiter, decimal }: Pick<CsvDialect, 'delimiter' | 'decimal'>,
+): string {
+  const needsQuotes = (field: string) =>
+    field.includes('"') || field.includes(delimiter) || /[\r\n]/.test(field)
+  const standard = (field: string) => {
+    const number = normalizeDecimal(field, decimal)
+    if (number !== field) return number
+    return needsQuotes(field) ? `"${field.replace(/"/g, '""')}"` : field
+  }
+  return records.map((record) => record.map(standard).join(delimiter)).join('\n')
+}
+
+// "1.234,50" as "1234.50" and "1.234" as "1234" when the file uses decimal commas; anything else
+// is returned as it is
+export function normalizeDecimal(field: string, decimal: CsvDialect['decimal']): string {
+  if (decimal !== ',') return field
+  const trimmed = field.trim()
+  if (COMMA_DECIMAL.test(trimmed)) return trimmed.replace(/\./g, '').replace(',', '.')
+  if (COMMA_THOUSANDS.test(trimmed)) return trimmed.replace(/\./g, '')
+  return field
+}
+
+// Single quotes only when they wrap fields more often than double quotes do
+function detectQuote(text: string): string {
+  const wrapped = (q: string) =>
+    text.match(new RegExp(`(^|[,;\\t|])${q}[^${q}\\r\\n]*${q}(?=[,;\\t|]|\\r?\\n|$)`, 'gm'))
+      ?.length ?? 0
+  const singles = wrapped("'")
+  return singles > wrapped('"') ? "'" : '"'
+}
+
+// Decimal commas can only be told apart when commas don't also split the fields
+function detectDecimal(text: string, delimiter: string, quote: string): CsvDialect['decimal'] {
+  if (delimiter === ',') return '.'
+  const fields = parseDelimited(text, { delimiter, quote }, SNIFF_RECORDS).flat()
+  const commas = fields.filter((f) => COMMA_DECIMAL.test(f.trim())).length
+  const points = fields.filter((f) => POINT_DECIMAL.test(f.trim())).length
+  return commas > points ? ',' : '.'
+}
+
+function modeOf(values: number[]): number {
+  const counts = new Map<number, number>()
+  let best = 0
+  let bestCount = 0
+  for (const v of values) {
+    const c = (counts.get(v) ?? 0) + 1
+    counts.set(v, c)
+    if (c > bestCount || (c === bestCount && v > best)) {
+      best = v
+      bestCount = c
+    }
+  }
+  return best
+}
+
+// 'ascii' when no byte is above 0x7f. A multi-byte sequence cut off at the end still counts as
+// valid, since only the start of the file may have been read
+function checkUtf8(bytes: Uint8Array): 'ascii' | 'valid' | 'invalid' {
+  let ascii = true
+  let i = 0
+  while (i < bytes.length) {
+    const b = bytes[i]
+    if (b < 0x80) {
+      i++
+      continue
+    }
+    ascii = false
+    let extra: number
+    if (b >= 0xc2 && b <= 0xdf) extra = 1
+    else if (b >= 0xe0 && b <= 0xef) extra = 2
+    else if (b >= 0xf0 && b <= 0xf4) extra = 3
+    else return 'invalid'
+    for (let k = 1; k <= extra; k++) {
+      if (i + k >= bytes.length) return 'valid'
+      if ((bytes[i + k] & 0xc0) !== 0x80) return 'invalid'
+    }
+    i += extra + 1
+  }
+  return ascii ? 'ascii' : 'valid'
+}
@@ -0,0 +1,164 @@
+import { ChartPosition, ChartType } from '@/types/chart'
+
+export const DASHBOARD_COLUMNS = 12
+export const DASHBOARD_ROW_HEIGHT = 40 // px per grid row
+export const DASHBOARD_GAP = 16 // px between grid cells
+export const DEFAULT_CHART_SIZE = { width: 6, height: 11 }
+export const MIN_CHART_SIZE = { width: 3, height: 6 }
+// A KPI card only holds a number, so it starts out and can shrink smaller than a chart
+export const DEFAULT_KPI_SIZE = { width: 3, height: 4 }
+export const MIN_KPI_SIZE = { width: 2, height: 3 }
+
+export interface GridSize {
+  width: number
+  height: number
+}
+
+export interface LayoutItem {
+  id: string
+  position: ChartPosition
+  minSize?: GridSize // Defaults to MIN_CHART_SIZE
+}
+
+export function defaultSizeFor(type: ChartType): GridSize {
+  return type === 'kpi' ? DEFAULT_KPI_SIZE : DEFAULT_CHART_SIZE
+}
+
+export function minSizeFor(type: ChartType): GridSize {
+  return type === 'kpi' ? MIN_KPI_SIZE : MIN_CHART_SIZE
+}
+
+export type DashboardLayout = Record<string, ChartPosition>
+
+export interface GridMetrics {
+  containerWidth: number
+  columns?: number
+  rowHeight?: number
+  gap?: number
+}
+
+// Charts created before the dashboard grid all share this placeholder and are auto-placed
+export function isPlaceholderPosition(position: ChartPosition): boolean {
+  return (
+    position.row === 0 && position.column === 0 && position.width === 1 && position.height === 1
+  )
+}
+
+export function positionsOverlap(a: ChartPosition, b: ChartPosition): boolean {
+  return (
+    a.column < b.column + b.width &&
+    b.column < a.column + a.width &&
+    a.row < b.row + b.height &&
+    b.row < a.row + a.height
+  )
+}
+
+export function clampPosition(
+  position: ChartPosition,
+  columns: number = DASHBOARD_COLUMNS,
+  minSize: GridSize = MIN_CHART_SIZE,
+): ChartPosition {
+  const width = Math.min(Math.max(Math.round(position.width), minSize.width), columns)
+  const height = Math.max(Math.round(position.height), minSize.height)
+  const column = Math.min(Math.max(Math.round(position.column), 0), columns - width)
+  const row = Math.max(Math.round(position.row), 0)
+  return { row, column, width, height }
+}
+
+// First slot, scanning rows top to bottom and columns left to right, where a chart of this size fits
+export function findFreePosition(
+  placed: ChartPosition[],
+  size: GridSize = DEFAULT_CHART_SIZE,
+  columns: number = DASHBOARD_COLUMNS,
+): ChartPosition {
+  const width = Math.min(size.width, columns)
+  for (let row = 0; ; row++) {
+    for (let column = 0; column + width <= columns; column++) {
+      const candidate = { row, column, width, height: size.height }
+      if (!placed.some((p) => positionsOverlap(p, candidate))) return candidate
+    }
+  }
+}
+
+/**
+ * Turns stored chart positions into a layout with no overlaps. The pinned item (the one being
+ * dragged or resized) keeps its position; anything it lands on is pushed down.
+ */
+export function resolveLayout(
+  items: LayoutItem[],
+  pinnedId?: string,
+  columns: number = DASHBOARD_COLUMNS,
+): DashboardLayout {
+  const layout: DashboardLayout = {}
+  const placed: ChartPosition[] = []
+  const place = (id: string, position: ChartPosition) => {
+    let next = position
+    while (placed.some((p) => positionsOverlap(p, next))) {
+      next = { ...next, row: next.row + 1 }
+    }
+    layout[id] = next
+    placed.push(next)
+  }
+
+  const pinned = items.find((item) => item.id === pinnedId)
+  if (pinned) place(pinned.id, clampPosition(pinned.position, columns, pinned.minSize))
+
+  const rest = items.filter((item) => item !== pinned)
+  const positioned = rest
+    .filter((item) => !isPlaceholderPosition(item.position))
+    .map((item) => ({
+      id: item.id,
+      position: clampPosition(item.position, columns, item.minSize),
+    }))
+    .sort((a, b) => a.position.row - b.position.row || a.position.column - b.position.column)
+  for (const item of positioned) place(item.id, item.position)
+
+  for (const item of rest.filter((i) => isPlaceholderPosition(i.position))) {
+    place(item.id, findFreePosition(placed, DEFAULT_CHART_SIZE, columns))
+  }
+  return layout
+}
+
+// Converts a pointer movement in pixels into whole grid cells
+export function snapDelta(
+  dx: number,
+  dy: number,
+  metrics: GridMetrics,
+): { columns: number; rows: number } {
+  const columns = metrics.columns ?? DASHBOARD_COLUMNS
+  const gap = metrics.gap ?? DASHBOARD_GAP
+  const rowHeight = metrics.rowHeight ?? DASHBOARD_ROW_HEIGHT
+  // An unmeasured container (e.g. hidden) can't be mapped to columns
+  const columnWidth = metrics.containerWidth > 0 ? (metrics.containerWidth + gap) / columns : 0
+  return {
+    columns: columnWidth > 0 ? Math.round(dx / columnWidth) : 0,
+    rows: Math.round(dy / (rowHeight + gap)),
+  }
+}
+
+export function movePosition(
+  origin: ChartPosition,
+  delta: { columns: number; rows: number },
+  columns: number = DASHBOARD_COLUMNS,
+  minSize: GridSize = MIN_CHART_SIZE,
+): ChartPosition {
+  return clampPosition(
+    { ...origin, column: origin.column + delta.columns, row: origin.row + delta.rows },
+    columns,
+    minSize,
+  )
+}
+
+export function resizePosition(
+  origin: ChartPosition,
+  delta: { columns: number; rows: number },
+  columns: number = DASHBOARD_COLUMNS,
+  minSize: GridSize = MIN_CHART_SIZE,
+): ChartPosition {
+  const width = Math.min(
+    Math.max(origin.width + delta.columns, minSize.width),
+    columns - origin.column,
+  )
+  const height = Math.max(origin.height + delta.rows, minSize.height)
+  return { ...origin, width, height }
+}
@@ -1,5 +1,8 @@
+import { isDelimitedText } from '@/utils/csvDialect'
+
 export interface FileValidationOptions {
   maxSizeMB?: number // default 50MB
+  maxTextSizeMB?: number // for delimited text, which is read in slices; default 1GB
   allowedTypes?: string[] // MIME types or extensions
 }
 
@@ -9,8 +12,9 @@ export interface FileValidationResult {
   warnings: string[]
 }
 
-export const DEFAULT_ALLOWED_EXTS = ['.xlsx', '.xls', '.csv', '.numbers']
+export const DEFAULT_ALLOWED_EXTS = ['.xlsx', '.xls', '.csv', '.tsv', '.txt', '.numbers']
 export const DEFAULT_MAX_SIZE_MB = 50
+export const DEFAULT_MAX_TEXT_SIZE_MB = 1024
 
 export function validateFile(
   file: File,
@@ -18,7 +22,7 @@ export function validateFile(
 ): FileValidationResult {
   const errors: string[] = []
   const warnings: string[] = []
-  const { maxSizeMB = DEFAULT_MAX_SIZE_MB, allowedTypes } = options
+  const { maxSizeMB: maxSheetMB = DEFAULT_MAX_SIZE_MB, maxTextSizeMB, allowedTypes } = options
   const allowed = allowedTypes && allowedTypes.length > 0 ? allowedTypes : DEFAULT_ALLOWED_EXTS
 
   const name = file.name.toLowerCase()
@@ -27,6 +31,9 @@ export function validateFile(
     errors.push(`Unsupported file type: ${file.name}. Allowed: ${allowed.join(', ')}`)
   }
 
+  const maxSizeMB = isDelimitedText(file.name)
+    ? Math.max(maxTextSizeMB ?? DEFAULT_MAX_TEXT_SIZE_MB, maxSheetMB)
+    : maxSheetMB
   const sizeMB = file.size / (1024 * 1024)
   if (sizeMB > maxSizeMB) {
     errors.push(`File is too large (${sizeMB.toFixed(1)}MB). Max allowed is ${maxSizeMB}MB.`)
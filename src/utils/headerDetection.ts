@@ -0,0 +1,123 @@
+import { isNullLike, isNumberLike } from '@/utils/dataTypes'
+
+const SCAN_ROWS = 30 // The header is looked for among the first rows only
+const WIDTH_SAMPLE_ROWS = 200
+export const MAX_HEADER_ROWS = 5
+export const HEADER_SEPARATOR = ' / '
+
+// Header rows as indexes into the sheet's rows
+export interface HeaderRows {
+  start: number
+  count: number
+}
+
+// The first row filled across at least half the table's usual width, so title, note and blank rows
+// above it are skipped. Rows directly above or below it join the header when they look like
+// the levels of a merged header: text only, with gaps the next row fills in
+export function detectHeaderRows(aoa: unknown[][]): HeaderRows {
+  const width = typicalWidth(aoa)
+  const scan = Math.min(aoa.length, SCAN_ROWS)
+  let start = 0
+  for (let r = 0; r < scan; r++) {
+    if (width > 0 && filledCount(aoa[r]) >= Math.ceil(width / 2)) {
+      start = r
+      break
+    }
+  }
+
+  let count = 1
+  // A group row above needs two labels or more; a single one over the whole table is a title
+  while (
+    count < MAX_HEADER_ROWS &&
+    start > 0 &&
+    filledCount(aoa[start - 1]) >= 2 &&
+    isGroupRow(aoa[start - 1], aoa[start])
+  ) {
+    start--
+    count++
+  }
+  // The row under the last header level must hold some data, or a text-only table's first row
+  // would be taken for a second header level
+  while (
+    count < MAX_HEADER_ROWS &&
+    isGroupRow(aoa[start + count - 1], aoa[start + count]) &&
+    hasValues(aoa[start + count + 1])
+  ) {
+    count++
+  }
+  return { start, count }
+}
+
+// One name per column. The label of a merged cell only sits in its first column, so a group label
+// carries on to the right until the next label, over the columns named in the rows below it
+export function joinHeaderRows(headerRows: unknown[][]): unknown[] {
+  if (headerRows.length <= 1) return headerRows[0] ?? []
+  const width = Math.max(...headerRows.map((row) => row?.length ?? 0))
+  const last = headerRows.length - 1
+  const names: unknown[] = []
+  for (let c = 0; c < width; c++) {
+    const parts: string[] = []
+    for (let k = 0; k <= last; k++) {
+      let value = headerRows[k]?.[c]
+      if (isNullLike(value) && k < last && namedBelow(headerRows, k, c)) {
+        value = groupLabel(headerRows, k, c)
+      }
+      const part = isNullLike(value) ? '' : String(value).trim()
+      if (part && parts[parts.length - 1] !== part) parts.push(part)
+    }
+    names.push(parts.length > 0 ? parts.join(HEADER_SEPARATOR) : null)
+  }
+  return names
+}
+
+function filledCount(row: unknown[] | undefined): number {
+  return row?.filter((v) => !isNullLike(v)).length ?? 0
+}
+
+// The most common number of filled cells in a row, ignoring blank rows; the wider on a tie
+function typicalWidth(aoa: unknown[][]): number {
+  const counts = new Map<number, number>()
+  for (const row of aoa.slice(0, WIDTH_SAMPLE_ROWS)) {
+    const filled = filledCount(row)
+    if (filled > 0) counts.set(filled, (counts.get(filled) ?? 0) + 1)
+  }
+  let best = 0
+  let bestCount = 0
+  for (const [filled, count] of counts) {
+    if (count > bestCount || (count === bestCount && filled > best)) {
+      best = filled
+      bestCount = count
+    }
+  }
+  return best
+}
+
+function isLabel(v: unknown): boolean {
+  return typeof v === 'string' && v.trim() !== '' && !isNumberLike(v)
+}
+
+// Text only, with a gap over a column the next row names
+function isGroupRow(row: unknown[] | undefined, next: unknown[] | undefined): boolean {
+  if (!row || !next || filledCount(row) === 0) return false
+  if (!row.every((v) => isNullLike(v) || isLabel(v))) return false
+  if (!next.every((v) => isNullLike(v) || isLabel(v))) return false
+  const firstLabel = row.findIndex((v) => !isNullLike(v))
+  return next.some((v, c) => c > firstLabel && isLabel(v) && isNullLike(row[c]))
+}
+
+function hasValues(row: unknown[] | undefined): boolean {
+  return row?.some((v) => !isNullLike(v) && !isLabel(v)) ?? false
+}
+
+function namedBelow(headerRows: unknown[][], k: number, c: number): boolean {
+  return headerRows.slice(k + 1).some((row) => !isNullLike(row?.[c]))
+}
+
+// The nearest label to the left in row k, when it heads columns named in the rows below it
+function groupLabel(headerRows: unknown[][], k: number, c: number): unknown {
+  for (let g = c - 1; g >= 0; g--) {
+    const value = headerRows[k]?.[g]
+    if (!isNullLike(value)) return namedBelow(headerRows, k, g) ? value : null
+  }
+  return null
+}
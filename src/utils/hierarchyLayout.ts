@@ -0,0 +1,148 @@
+import { HierarchyNode } from '@/types/chart'
+
+export interface LayoutRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// A treemap box; depth 1 is the level directly under the node being laid out
+export interface TreemapTile extends LayoutRect {
+  node: HierarchyNode
+  depth: number
+}
+
+// A sunburst slice; depth 1 is the ring directly around the center. Angles are in radians,
+// clockwise from 12 o'clock
+export interface SunburstArc {
+  node: HierarchyNode
+  depth: number
+  startAngle: number
+  endAngle: number
+}
+
+export interface TreemapLayoutOptions {
+  levels?: number // Levels below the root to lay out
+  padding?: number // Space between a box and the boxes nested in it
+  header?: number // Space kept at the top of a box for its label
+}
+
+// Squarified treemap of the root's children, with the levels below nested inside their parents
+export function treemapLayout(
+  root: HierarchyNode,
+  bounds: LayoutRect,
+  { levels = 2, padding = 0, header = 0 }: TreemapLayoutOptions = {},
+): TreemapTile[] {
+  const tiles: TreemapTile[] = []
+  const visit = (node: HierarchyNode, rect: LayoutRect, depth: number) => {
+    for (const tile of squarify(node.children, rect)) {
+      tiles.push({ ...tile, depth })
+      if (depth >= levels || tile.node.children.length === 0) continue
+      const inner: LayoutRect = {
+        x: tile.x + padding,
+        y: tile.y + header,
+        width: tile.width - padding * 2,
+        height: tile.height - header - padding,
+      }
+      // Too small to show anything inside; the box stands for its whole subtree
+      if (inner.width > 0 && inner.height > 0) visit(tile.node, inner, depth + 1)
+    }
+  }
+  visit(root, bounds, 1)
+  return tiles
+}
+
+// Rings of slices around the root, each child's angle a share of its parent's by value
+export function sunburstLayout(root: HierarchyNode, levels = 3): SunburstArc[] {
+  const arcs: SunburstArc[] = []
+  const visit = (node: HierarchyNode, start: number, end: number, depth: number) => {
+    const total = node.children.reduce((sum, child) => sum + child.value, 0)
+    if (total <= 0) return
+    let angle = start
+    for (const child of node.children) {
+      const sweep = ((end - start) * child.value) / total
+      arcs.push({ node: child, depth, startAngle: angle, endAngle: angle + sweep })
+      if (depth < levels) visit(child, angle, angle + sweep, depth + 1)
+      angle += sweep
+    }
+  }
+  visit(root, 0, Math.PI * 2, 1)
+  return arcs
+}
+
+// The node at a path of category names below the root, or null once a name no longer matches
+export function findHierarchyNode(root: HierarchyNode, path: string[]): HierarchyNode | null {
+  let node: HierarchyNode | undefined = root
+  for (const name of path) {
+    node = node.children.find((child) => child.name === name)
+    if (!node) return null
+  }
+  return node
+}
+
+// Depth of the deepest node below the root
+export function hierarchyDepth(node: HierarchyNode): number {
+  return node.children.reduce((max, child) => Math.max(max, 1 + hierarchyDepth(child)), 0)
+}
+
+// Squarified layout (Bruls, Huizing and van Wijk): rows of boxes are added along the shorter side
+// for as long as that keeps the boxes close to square. Nodes are expected largest first
+function squarify(nodes: HierarchyNode[], bounds: LayoutRect): TreemapTile[] {
+  const total = nodes.reduce((sum, node) => sum + Math.max(node.value, 0), 0)
+  if (total <= 0 || bounds.width <= 0 || bounds.height <= 0) return []
+
+  const scale = (bounds.width * bounds.height) / total
+  const items = nodes
+    .filter((node) => node.value > 0)
+    .map((node) => ({ node, area: node.value * scale }))
+  const tiles: TreemapTile[] = []
+  let rect = bounds
+  let row: typeof items = []
+
+  for (const item of items) {
+    const side = Math.min(rect.width, rect.height)
+    if (row.length === 0 || worstRatio([...row, item], side) <= worstRatio(row, side)) {
+      row.push(item)
+      continue
+    }
+    rect = placeRow(row, rect, tiles)
+    row = [item]
+  }
+  if (row.length > 0) placeRow(row, rect, tiles)
+  return tiles
+}
+
+function worstRatio(row: { area: number }[], side: number): number {
+  const sum = row.reduce((s, item) => s + item.area, 0)
+  const max = Math.max(...row.map((item) => item.area))
+  const min = Math.min(...row.map((item) => item.area))
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min))
+}
+
+// Lays a row along the shorter side of the rect and returns the space left over
+function placeRow(
+  row: { node: HierarchyNode; area: number }[],
+  rect: LayoutRect,
+  tiles: TreemapTile[],
+): LayoutRect {
+  const sum = row.reduce((s, item) => s + item.area, 0)
+  if (rect.width >= rect.height) {
+    const width = sum / rect.height
+    let y = rect.y
+    for (const item of row) {
+      const height = item.area / width
+      tiles.push({ node: item.node, depth: 0, x: rect.x, y, width, height })
+      y += height
+    }
+    return { x: rect.x + width, y: rect.y, width: rect.width - width, height: rect.height }
+  }
+  const height = sum / rect.width
+  let x = rect.x
+  for (const item of row) {
+    const width = item.area / height
+    tiles.push({ node: item.node, depth: 0, x, y: rect.y, width, height })
+    x += width
+  }
+  return { x: rect.x, y: rect.y + height, width: rect.width, height: rect.height - height }
+}
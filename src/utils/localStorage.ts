@@ -1,4 +1,6 @@
-export type ChartType = 'pie' | 'bar' | 'line' | 'scatter' | 'histogram'
+import type { ChartType } from '@/types/chart'
+
+export type { ChartType }
 
 export interface RecentFileInfo {
   name: string
@@ -27,7 +29,7 @@ export interface FilterPreset {
 export interface ChartConfig {
   id: string
   name: string
-  type: ChartType
+  type: ChartType | 'dashboard'
   config: unknown
   createdAt: Date
 }
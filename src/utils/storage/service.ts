@@ -2,7 +2,7 @@ import { DEFAULT_STORAGE_KEYS, type StorageAdapter } from './adapter'
 import { deserialize, estimateSizeBytes, serialize, type SerializedPayload } from './serialization'
 import type { DataMatrix, ExcelData } from '@/types/excel'
 import type { FilterState } from '@/types/filter'
-import type { ChartConfig } from '@/types/chart'
+import type { ChartColorSettings, ChartConfig } from '@/types/chart'
 
 export interface PersistedSessionSummary {
   fileName?: string
@@ -42,6 +42,7 @@ export interface ChartsSnapshot {
   version: number
   createdAt: string
   charts: ChartConfig[]
+  colors?: ChartColorSettings // Category colors shared by the charts; absent in older snapshots
 }
 
 export interface ChunkedDatasetInfo {
@@ -140,6 +141,21 @@ export class StorageService {
     return session
   }
 
+  // Each sheet of a workbook has a session of its own. Opening a sheet makes its session active,
+  // creating it the first time; `created` tells the caller the dataset still has to be saved
+  async openSheetSession(
+    summary: PersistedSessionSummary,
+  ): Promise<{ session: PersistedSession; created: boolean }> {
+    const existing = (await this.listSessions()).find(
+      (s) => s.summary.fileName === summary.fileName && s.summary.sheetName === summary.sheetName,
+    )
+    await this.setActiveSession(existing?.id ?? null)
+    const session = await this.createOrUpdateSession(
+      existing ? { ...existing.summary, ...summary } : summary,
+    )
+    return { session, created: !existing }
+  }
+
   async getActiveSession(): Promise<PersistedSession | null> {
     const id = await this.local.getItem<string>(DEFAULT_STORAGE_KEYS.activeSessionId)
     if (!id) return null
@@ -350,13 +366,18 @@ export class StorageService {
     await this.bumpSessionIndex(sessionId, updated.updatedAt)
   }
 
-  async saveCharts(sessionId: string, charts: ChartConfig[]): Promise<void> {
+  async saveCharts(
+    sessionId: string,
+    charts: ChartConfig[],
+    colors?: ChartColorSettings,
+  ): Promise<void> {
     const session = await this.local.getItem<PersistedSession>(this.sessionKey(sessionId))
     if (!session) throw new Error('Session not found')
     const snapshot: ChartsSnapshot = {
       version: this.schemaVersion,
       createdAt: new Date().toISOString(),
       charts,
+      colors,
     }
     const payload = serialize(snapshot)
     const key = session.chartsKey ?? this.makeKey('charts', sessionId)
@@ -684,12 +705,21 @@ export class StorageService {
   }
 
   async loadCharts(sessionId: string): Promise<ChartConfig[] | null> {
+    const snapshot = await this.loadChartsSnapshot(sessionId)
+    return snapshot ? snapshot.charts : null
+  }
+
+  async loadChartColors(sessionId: string): Promise<ChartColorSettings | null> {
+    const snapshot = await this.loadChartsSnapshot(sessionId)
+    return snapshot?.colors ?? null
+  }
+
+  private async loadChartsSnapshot(sessionId: string): Promise<ChartsSnapshot | null> {
     const session = await this.local.getItem<PersistedSession>(this.sessionKey(sessionId))
     if (!session?.chartsKey) return null
     const payload = await this.idb.getItem<SerializedPayload>(session.chartsKey)
     if (!payload) return null
-    const snapshot = deserialize<ChartsSnapshot>(payload)
-    return snapshot.charts
+    return deserialize<ChartsSnapshot>(payload)
   }
 
   private sessionKey(id: string): string {
@@ -1,4 +1,4 @@
-import { DataType, NullableCellValue } from '@/types/excel'
+import { ColumnInfo, DataType, NullableCellValue } from '@/types/excel'
 import { parseDateFlexible } from '@/utils/dataTypes'
 
 // Helper to decide if a time is near midnight within a threshold (in seconds)
@@ -10,6 +10,18 @@ export function isNearMidnightSeconds(
   return totalSecondsSinceMidnight <= thresholdSeconds || secondsUntilMidnight <= thresholdSeconds
 }
 
+// Date columns show a time only when some sampled value isn't at midnight
+export function columnHasTime(column: ColumnInfo): boolean {
+  if (column.type !== 'date') return false
+  for (const sample of column.sampleValues || []) {
+    const d = parseDateFlexible(sample)
+    if (!d) continue
+    const secondsSinceMidnight = d.getHours() * 3600 + d.getMinutes() * 60 + d.getSeconds()
+    if (!isNearMidnightSeconds(secondsSinceMidnight)) return true
+  }
+  return false
+}
+
 export function formatCellValue(
   value: NullableCellValue,
   type: DataType,
@@ -0,0 +1,17 @@
+// Resolves a worker script against this module's URL, so paths like '../workers/x.worker.ts'
+// point into src/workers. Returns null where import.meta isn't available at runtime (e.g. Jest),
+// and callers then do the work on the main thread.
+// Function is used so those runners don't fail on the syntax; it only reads module metadata and
+// never evaluates user input.
+export function resolveWorkerUrl(path: string): URL | null {
+  try {
+    // eslint-disable-next-line no-new-func
+    const meta = Function('return import.meta')() as { url?: string } | undefined
+    if (meta?.url) {
+      return new URL(path, meta.url)
+    }
+  } catch {
+    // Intentionally ignored: in non-ESM environments, fall back handled by caller
+  }
+  return null
+}
@@ -0,0 +1,14 @@
+/* eslint-disable no-restricted-globals */
+import { computeCorrelationMatrix } from '@/workers/correlationCore'
+
+// Dedicated worker message handler
+self.onmessage = (e: MessageEvent) => {
+  const { rows, columns } = e.data || {}
+  try {
+    const result = computeCorrelationMatrix(rows as unknown[][], columns)
+    ;(self as unknown as Worker).postMessage(result)
+  } catch (err) {
+    const message = (err as Error)?.message || 'Unknown worker error'
+    ;(self as unknown as Worker).postMessage({ error: message })
+  }
+}
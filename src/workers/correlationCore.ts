@@ -0,0 +1,102 @@
+import type { CorrelationMatrix } from '@/types/chart'
+import { coerceNumber } from '@/utils/dataTypes'
+
+export interface CorrelationColumn {
+  name: string
+  index: number
+}
+
+// Fewer shared values than this give a correlation too noisy to show
+const MIN_PAIR_COUNT = 3
+
+function toNumber(v: unknown): number | null {
+  if (typeof v === 'string' && v.trim() === '') return null
+  return coerceNumber(v)
+}
+
+export function computeCorrelationMatrix(
+  rows: unknown[][],
+  columns: CorrelationColumn[],
+): CorrelationMatrix {
+  const k = columns.length
+  const values: (number | null)[][] = columns.map((col) =>
+    rows.map((row) => toNumber(row?.[col.index])),
+  )
+  const complete = values.map((col) => col.every((v) => v !== null))
+  // Ranks over all rows can be reused for any pair of columns without gaps
+  const fullRanks = values.map((col, i) => (complete[i] ? rank(col as number[]) : null))
+
+  const pearson = square<number | null>(k, null)
+  const spearman = square<number | null>(k, null)
+  const counts = square(k, 0)
+
+  for (let i = 0; i < k; i++) {
+    for (let j = i; j < k; j++) {
+      const xs: number[] = []
+      const ys: number[] = []
+      for (let r = 0; r < rows.length; r++) {
+        const x = values[i][r]
+        const y = values[j][r]
+        if (x === null || y === null) continue
+        xs.push(x)
+        ys.push(y)
+      }
+
+      counts[i][j] = counts[j][i] = xs.length
+      if (xs.length < MIN_PAIR_COUNT) continue
+
+      const xRanks = fullRanks[i] && fullRanks[j] ? fullRanks[i]! : rank(xs)
+      const yRanks = fullRanks[i] && fullRanks[j] ? fullRanks[j]! : rank(ys)
+      pearson[i][j] = pearson[j][i] = i === j ? 1 : pearsonCorrelation(xs, ys)
+      spearman[i][j] = spearman[j][i] = i === j ? 1 : pearsonCorrelation(xRanks, yRanks)
+    }
+  }
+
+  return { columns: columns.map((col) => col.name), pearson, spearman, counts }
+}
+
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  const n = xs.length
+  if (n === 0) return null
+  let meanX = 0
+  let meanY = 0
+  for (let i = 0; i < n; i++) {
+    meanX += xs[i]
+    meanY += ys[i]
+  }
+  meanX /= n
+  meanY /= n
+
+  let sxy = 0
+  let sxx = 0
+  let syy = 0
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX
+    const dy = ys[i] - meanY
+    sxy += dx * dy
+    sxx += dx * dx
+    syy += dy * dy
+  }
+  // A constant column has no linear relationship to measure
+  if (sxx === 0 || syy === 0) return null
+  return sxy / Math.sqrt(sxx * syy)
+}
+
+// Fractional ranks (1-based), ties share the average of their positions
+export function rank(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value)
+  const ranks = new Array<number>(values.length)
+  let start = 0
+  while (start < order.length) {
+    let end = start
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++
+    const averageRank = (start + end) / 2 + 1
+    for (let i = start; i <= end; i++) ranks[order[i].index] = averageRank
+    start = end + 1
+  }
+  return ranks
+}
+
+function square<T>(size: number, fill: T): T[][] {
+  return Array.from({ length: size }, () => new Array<T>(size).fill(fill))
+}
@@ -0,0 +1,13 @@
+/* eslint-disable no-restricted-globals */
+import { streamCsvFile, type CsvStreamMessage } from '@/workers/csvStreamCore'
+
+// Dedicated worker message handler: streams the file back as progress, row batches and done
+self.onmessage = async (e: MessageEvent) => {
+  const { file, dialect, options } = e.data || {}
+  const post = (message: CsvStreamMessage) => (self as unknown as Worker).postMessage(message)
+  try {
+    await streamCsvFile(file as File, dialect, options, post)
+  } catch (err) {
+    post({ type: 'error', message: (err as Error)?.message || 'Unknown worker error' })
+  }
+}
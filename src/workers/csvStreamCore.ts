@@ -0,0 +1,276 @@
+import type {
+  ColumnInfo,
+  ColumnStatistics,
+  CsvDialect,
+  DataType,
+  ExcelMetadata,
+  ParseOptions,
+} from '@/types/excel'
+import { CsvRecordReader, normalizeDecimal } from '@/utils/csvDialect'
+import {
+  coerceBoolean,
+  coerceNumber,
+  isNullLike,
+  isNumberLike,
+  parseDateFlexible,
+} from '@/utils/dataTypes'
+import { detectHeaderRows, joinHeaderRows, MAX_HEADER_ROWS } from '@/utils/headerDetection'
+import {
+  detectColumnTypesWorker,
+  extractHeaders,
+  keyForUnique,
+} from '@/workers/excelDetectColumnsCore'
+
+export const STREAM_SLICE_BYTES = 4 * 1024 * 1024
+export const DEFAULT_STREAM_ROW_CAP = 500_000
+const TYPE_SAMPLE_ROWS = 1000 // Records read before the header and column types are settled
+const ROW_BATCH_SIZE = 5000
+
+// What a streamed parse reports, in order: progress and rows as slices are read, then done.
+// Rows past the cap are counted in rowsInFile but not sent
+export type CsvStreamMessage =
+  | { type: 'progress'; loaded: number; total: number; rows: number }
+  | { type: 'rows'; rows: unknown[][] }
+  | {
+      type: 'done'
+      headers: string[]
+      columns: ColumnInfo[]
+      header: NonNullable<ExcelMetadata['header']>
+      rowsInFile: number
+    }
+  | { type: 'error'; message: string }
+
+// Reads a delimited text file a slice at a time, so neither the text nor every row of a file
+// larger than the row cap is held at once. Column info is gathered from the rows as they're kept
+export async function streamCsvFile(
+  file: Blob,
+  dialect: CsvDialect,
+  options: ParseOptions,
+  emit: (message: CsvStreamMessage) => void,
+): Promise<void> {
+  const decoder = new TextDecoder(dialect.encoding)
+  const reader = new CsvRecordReader(dialect)
+  const table = new StreamedTable(dialect, options, emit)
+
+  for (let start = 0; start < file.size; start += STREAM_SLICE_BYTES) {
+    const end = Math.min(start + STREAM_SLICE_BYTES, file.size)
+    const bytes = await readSlice(file.slice(start, end))
+    table.addRecords(reader.push(decoder.decode(bytes, { stream: true })))
+    emit({ type: 'progress', loaded: end, total: file.size, rows: table.rowsInFile })
+  }
+  table.addRecords(reader.push(decoder.decode()))
+  table.addRecords(reader.end())
+  table.finish()
+}
+
+function readSlice(blob: Blob): Promise<ArrayBuffer> {
+  if (typeof blob.arrayBuffer === 'function') return blob.arrayBuffer()
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onerror = () => reject(new Error('Failed to read file'))
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.readAsArrayBuffer(blob)
+  })
+}
+
+// Holds the first records until the header and column types can be told from them, then turns
+// each record into a row as it arrives
+class StreamedTable {
+  rowsInFile = 0
+  private sample: string[][] | null = []
+  private header: NonNullable<ExcelMetadata['header']> = { row: 1, rowCount: 1, detected: true }
+  private headers: string[] = []
+  private columns: ColumnAccumulator[] = []
+  private batch: unknown[][] = []
+  private kept = 0
+  private readonly maxRows: number
+
+  constructor(
+    private readonly dialect: CsvDialect,
+    private readonly options: ParseOptions,
+    private readonly emit: (message: CsvStreamMessage) => void,
+  ) {
+    this.maxRows = options.maxRows ?? DEFAULT_STREAM_ROW_CAP
+  }
+
+  addRecords(records: string[][]) {
+    for (const record of records) {
+      if (!this.sample) {
+        this.addRow(record)
+        continue
+      }
+      this.sample.push(record)
+      if (this.sample.length >= TYPE_SAMPLE_ROWS) this.start()
+    }
+  }
+
+  finish() {
+    if (this.sample) this.start()
+    this.flush()
+    this.emit({
+      type: 'done',
+      headers: this.headers,
+      columns: this.columns.map((column) => column.info()),
+      header: this.header,
+      rowsInFile: this.rowsInFile,
+    })
+  }
+
+  private start() {
+    const sample = this.sample ?? []
+    this.sample = null
+    const width = sample.reduce((max, record) => Math.max(max, record.length), 0)
+    this.header = resolveHeader(sample, this.options.header)
+    const headerStart = this.header.row - 1
+    const headerRows = sample
+      .slice(headerStart, headerStart + this.header.rowCount)
+      .map((record) => Array.from({ length: width }, (_, c) => record[c] ?? null))
+    this.headers = extractHeaders(joinHeaderRows(headerRows))
+
+    const rows = sample.slice(headerStart + this.header.rowCount)
+    const normalized = rows.map((record) =>
+      record.map((field) => normalizeDecimal(field, this.dialect.decimal)),
+    )
+    const types = detectColumnTypesWorker([this.headers, ...normalized]).map((c) => c.type)
+    this.columns = this.headers.map(
+      (name, index) =>
+        new ColumnAccumulator(name, index, types[index], this.dialect.decimal, this.options),
+    )
+    for (const record of rows) this.addRow(record)
+  }
+
+  // Lines of empty fields are skipped, as blank rows are in sheets
+  private addRow(record: string[]) {
+    if (record.every((field) => isNullLike(field))) return
+    this.rowsInFile++
+    if (this.kept >= this.maxRows) return
+    this.batch.push(this.columns.map((column) => column.add(record[column.index])))
+    this.kept++
+    if (this.batch.length >= ROW_BATCH_SIZE) this.flush()
+  }
+
+  private flush() {
+    if (this.batch.length === 0) return
+    this.emit({ type: 'rows', rows: this.batch })
+    this.batch = []
+  }
+}
+
+// Header rows are numbered by record, counting from 1, and must start within the records the
+// types are sampled from
+function resolveHeader(
+  sample: string[][],
+  requested: ParseOptions['header'],
+): NonNullable<ExcelMetadata['header']> {
+  if (!requested) {
+    const { start, count } = detectHeaderRows(sample)
+    return { row: start + 1, rowCount: count, detected: true }
+  }
+  const lastRow = Math.max(sample.length, 1)
+  if (!Number.isInteger(requested.row) || requested.row < 1 || requested.row > lastRow) {
+    throw new Error(
+      `Row ${requested.row} is outside the first rows of the file. Choose a header row from 1 to ${lastRow}.`,
+    )
+  }
+  if (
+    !Number.isInteger(requested.rowCount) ||
+    requested.rowCount < 1 ||
+    requested.rowCount > MAX_HEADER_ROWS
+  ) {
+    throw new Error(`A header can span 1 to ${MAX_HEADER_ROWS} rows.`)
+  }
+  return { row: requested.row, rowCount: requested.rowCount, detected: false }
+}
+
+// The same column info detectColumnTypesWorker gives, gathered one value at a time
+class ColumnAccumulator {
+  private readonly uniqueSet = new Set<unknown>()
+  private readonly sampleValues: unknown[] = []
+  private nullCount = 0
+  private minNumber: number | undefined
+  private maxNumber: number | undefined
+  private sumNumber = 0
+  private countNumber = 0
+  private minDateMs: number | undefined
+  private maxDateMs: number | undefined
+
+  constructor(
+    private readonly name: string,
+    readonly index: number,
+    private readonly type: DataType,
+    private readonly decimal: CsvDialect['decimal'],
+    private readonly options: ParseOptions,
+  ) {}
+
+  // The cell for the row. Blank cells are null, as the spreadsheet reader leaves them; values
+  // that don't convert to the column's type are kept as text and counted as nulls, as the column
+  // analysis counts them
+  add(raw: string | undefined): unknown {
+    if (raw === undefined || isNullLike(raw)) {
+      this.nullCount++
+      return null
+    }
+    const cell = this.convert(raw)
+    if (cell == null) {
+      this.nullCount++
+      return raw
+    }
+    // Text and mixed columns are analysed as text, whatever their cells hold
+    const value = this.type === 'string' || this.type === 'mixed' ? raw : cell
+
+    if (this.uniqueSet.size < (this.options.uniqueValuesTrackingCap ?? 2000)) {
+      this.uniqueSet.add(keyForUnique(value))
+    }
+    if (this.sampleValues.length < (this.options.sampleValuesCount ?? 5)) {
+      this.sampleValues.push(value)
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      if (this.minNumber === undefined || value < this.minNumber) this.minNumber = value
+      if (this.maxNumber === undefined || value > this.maxNumber) this.maxNumber = value
+      this.sumNumber += value
+      this.countNumber++
+    } else if (value instanceof Date && !isNaN(value.getTime())) {
+      const ms = value.getTime()
+      if (this.minDateMs === undefined || ms < this.minDateMs) this.minDateMs = ms
+      if (this.maxDateMs === undefined || ms > this.maxDateMs) this.maxDateMs = ms
+    }
+    return cell
+  }
+
+  info(): ColumnInfo {
+    let statistics: ColumnStatistics | undefined
+    if (this.type === 'number') {
+      statistics = {}
+      if (this.minNumber !== undefined) statistics.min = this.minNumber
+      if (this.maxNumber !== undefined) statistics.max = this.maxNumber
+      if (this.options.computeStatistics === true && this.countNumber > 0) {
+        statistics.average = this.sumNumber / this.countNumber
+      }
+    } else if (this.type === 'date') {
+      statistics = {}
+      if (this.minDateMs !== undefined) statistics.min = new Date(this.minDateMs)
+      if (this.maxDateMs !== undefined) statistics.max = new Date(this.maxDateMs)
+    }
+    return {
+      name: this.name,
+      index: this.index,
+      type: this.type,
+      uniqueValues: Array.from(this.uniqueSet).slice(0, this.options.uniqueValuesReturnLimit ?? 50),
+      uniqueCount: this.uniqueSet.size,
+      hasNulls: this.nullCount > 0,
+      nullCount: this.nullCount,
+      sampleValues: this.sampleValues,
+      statistics,
+    }
+  }
+
+  // Numbers in mixed columns are read as numbers, as the spreadsheet reader reads them
+  private convert(raw: string): unknown {
+    if (this.type === 'boolean') return coerceBoolean(raw)
+    if (this.type === 'date') return parseDateFlexible(raw)
+    if (this.type === 'string') return raw
+    const number = normalizeDecimal(raw, this.decimal)
+    if (this.type === 'number') return coerceNumber(number)
+    return isNumberLike(number) ? coerceNumber(number) : raw
+  }
+}
@@ -9,7 +9,7 @@ import {
   parseDateFlexible,
 } from '@/utils/dataTypes'
 
-function keyForUnique(v: unknown): unknown {
+export function keyForUnique(v: unknown): unknown {
   if (v instanceof Date) return v.toISOString()
   if (typeof v === 'object' && v !== null) return JSON.stringify(v)
   return v
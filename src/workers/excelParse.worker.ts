@@ -0,0 +1,14 @@
+/* eslint-disable no-restricted-globals */
+import { ExcelParser } from '@/services/excelParser'
+import { runParseRequest, type ExcelParseMessage } from '@/workers/excelParseCore'
+
+// Kept for the life of the worker, so the last workbook's other sheets open without reading the
+// file again
+const parser = new ExcelParser({ inWorker: true })
+
+// Dedicated worker message handler
+self.onmessage = (e: MessageEvent) => {
+  runParseRequest(parser, e.data, (message: ExcelParseMessage) =>
+    (self as unknown as Worker).postMessage(message),
+  )
+}
@@ -0,0 +1,45 @@
+import type { ExcelParser } from '@/services/excelParser'
+import type { ExcelData, ParseOptions, ParseProgressEvent } from '@/types/excel'
+import type { ErrorType } from '@/utils/errorHandling'
+
+export type ExcelParseTask =
+  | { type: 'parseFile'; file: File; options: ParseOptions }
+  | { type: 'parseSheet'; sheetName: string; options: ParseOptions }
+
+// Tasks the parse worker handles, answered by messages with the same id
+export type ExcelParseRequest = ExcelParseTask & { id: number }
+
+// Progress as it happens, then the result or the error. hasWorkbook tells whether the worker kept
+// the workbook, so its other sheets can be requested later
+export type ExcelParseMessage =
+  | { id: number; type: 'progress'; event: ParseProgressEvent }
+  | { id: number; type: 'result'; data: ExcelData; hasWorkbook: boolean }
+  | { id: number; type: 'error'; errorType?: ErrorType; message: string }
+
+// Runs a request with the worker's own parser, which reads, decodes and profiles the file where it
+// is, and posts progress events back as they come
+export async function runParseRequest(
+  parser: Pick<ExcelParser, 'parseFile' | 'parseSheet' | 'hasWorkbook'>,
+  request: ExcelParseRequest,
+  post: (message: ExcelParseMessage) => void,
+): Promise<void> {
+  const { id } = request
+  const options: ParseOptions = {
+    ...request.options,
+    progress: (event) => post({ id, type: 'progress', event }),
+  }
+  try {
+    const data =
+      request.type === 'parseFile'
+        ? await parser.parseFile(request.file, options)
+        : await parser.parseSheet(request.sheetName, options)
+    post({ id, type: 'result', data, hasWorkbook: parser.hasWorkbook(data.metadata.fileName) })
+  } catch (err) {
+    post({
+      id,
+      type: 'error',
+      errorType: (err as { type?: ErrorType })?.type,
+      message: (err as Error)?.message || 'Unknown worker error',
+    })
+  }
+}